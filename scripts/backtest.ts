@@ -0,0 +1,90 @@
+/**
+ * Score pressure zones against what price did next in a recorded session.
+ *
+ *   npm run backtest -- --file sessions/btcusdt.ndjson [--params sets.json] [--out backtest-results]
+ *     [--horizon 60000] [--interval 1000] [--depth 100] [--zones]
+ *
+ * `--params` is a JSON array of parameter sets, each replayed separately:
+ *   [{ "name": "no-iceberg", "detectors": { "iceberg": { "enabled": false } } },
+ *    { "name": "tight", "detectors": {}, "analyzer": { "clusteringDistance": 0.0005 } }]
+ * Writes <out>/<session>.json and <out>/<session>.html.
+ */
+import fs from 'fs';
+import path from 'path';
+import { parseSessionRecords } from '@/utils/sessionFormat';
+import {
+  BacktestParameterSet,
+  BacktestScore,
+  DEFAULT_PARAMETER_SET,
+  ZoneBacktester,
+  renderBacktestHtml
+} from '@/services/zoneBacktest';
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function readParameterSets(file: string | undefined): BacktestParameterSet[] {
+  if (!file) return [DEFAULT_PARAMETER_SET];
+
+  const sets = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(sets) || sets.some(set => typeof set?.name !== 'string' || typeof set?.detectors !== 'object')) {
+    throw new Error(`${file} must be an array of { name, detectors } parameter sets`);
+  }
+  return sets;
+}
+
+function formatScore(label: string, score: BacktestScore): string {
+  return `${label.padEnd(24)} ${String(score.zones).padStart(6)} zones  ` +
+    `hit ${(score.hitRate * 100).toFixed(1).padStart(5)}%  ` +
+    `precision ${(score.precision * 100).toFixed(1).padStart(5)}%  ` +
+    `(${score.bounced} bounced, ${score.broken} broken, ${score.expired} expired, ${score.atMid} at mid)`;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const file = readOption(args, 'file');
+
+  if (!file) {
+    console.error('Usage: backtest --file <session.ndjson> [--params sets.json] [--out dir] [--horizon ms] [--interval ms] [--depth n] [--zones]');
+    process.exit(1);
+  }
+
+  const numberOption = (name: string) => {
+    const value = readOption(args, name);
+    return value !== undefined ? parseFloat(value) : undefined;
+  };
+  const options = {
+    horizon: numberOption('horizon'),
+    analysisInterval: numberOption('interval'),
+    depth: numberOption('depth'),
+    includeZones: args.includes('--zones')
+  };
+  const definedOptions = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+
+  const backtester = new ZoneBacktester(parseSessionRecords(fs.readFileSync(file, 'utf8')), definedOptions);
+  const report = backtester.runAll(readParameterSets(readOption(args, 'params')));
+
+  const outDir = readOption(args, 'out') || 'backtest-results';
+  const baseName = path.basename(file).replace(/\.[^.]+$/, '');
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, `${baseName}.json`), JSON.stringify(report, null, 2));
+  fs.writeFileSync(path.join(outDir, `${baseName}.html`), renderBacktestHtml(report));
+
+  console.log(`${report.session.symbol}: ${report.session.records} records, ${report.session.trades} trades\n`);
+  report.runs.forEach(run => {
+    console.log(`[${run.parameterSet}] ${run.passes} passes, ${run.analysisMs.toFixed(0)} ms analyzing`);
+    console.log(formatScore('all zones', run.overall));
+    Object.entries(run.byDetector).forEach(([id, score]) => console.log(formatScore(`  ${id}`, score)));
+    console.log('');
+  });
+  console.log(`Wrote ${path.join(outDir, `${baseName}.json`)} and ${baseName}.html`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Backtest failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,172 @@
+/**
+ * Micro-benchmark for order book maintenance: the sorted-array OrderBook
+ * against the previous findIndex + re-sort approach. Before timing, the
+ * tracked full-depth max is checked against a scan after every diff,
+ * including across a snapshot reload.
+ *
+ *   npm run bench:orderbook -- [--levels 1000] [--updates 20000] [--depth 20]
+ */
+import { OrderbookEntry, OrderbookUpdate, OrderbookSnapshot } from '@/types/orderbook';
+import { OrderBook } from '@/utils/orderBook';
+
+function readOption(args: string[], name: string, fallback: number): number {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? parseInt(args[index + 1], 10) : fallback;
+}
+
+// Deterministic so runs are comparable
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function buildSnapshot(levels: number, midPrice: number, tick: number): OrderbookSnapshot {
+  const random = createRandom(1);
+  const side = (direction: number) => Array.from({ length: levels }, (_, index) => ({
+    price: (midPrice + direction * (index + 1) * tick).toFixed(2),
+    quantity: (random() * 10).toFixed(3)
+  }));
+
+  return { bids: side(-1), asks: side(1), lastUpdateId: 1, symbol: 'BENCH', timestamp: 0 };
+}
+
+function buildUpdates(count: number, levels: number, midPrice: number, tick: number): OrderbookUpdate[] {
+  const random = createRandom(2);
+  // Most diffs land near the top of book, like live depth streams
+  const level = (direction: number) => {
+    const distance = Math.floor(Math.pow(random(), 3) * levels * 1.1) + 1;
+    const quantity = random() < 0.2 ? '0' : (random() * 10).toFixed(3);
+    return { price: (midPrice + direction * distance * tick).toFixed(2), quantity };
+  };
+
+  return Array.from({ length: count }, (_, index) => ({
+    eventType: 'depthUpdate',
+    symbol: 'BENCH',
+    bids: Array.from({ length: 3 }, () => level(-1)),
+    asks: Array.from({ length: 3 }, () => level(1)),
+    firstUpdateId: index + 2,
+    finalUpdateId: index + 2,
+    eventTime: index + 1
+  }));
+}
+
+// Previous approach: linear lookup per level, full sort on insert, full scans for derived fields
+function legacyApply(bids: OrderbookEntry[], asks: OrderbookEntry[], update: OrderbookUpdate, depth: number): number {
+  const apply = (side: OrderbookEntry[], levels: OrderbookUpdate['bids'], compare: (a: OrderbookEntry, b: OrderbookEntry) => number) => {
+    levels.forEach(level => {
+      const price = parseFloat(level.price);
+      const quantity = parseFloat(level.quantity);
+      const index = side.findIndex(entry => entry.price === price);
+      if (quantity === 0) {
+        if (index !== -1) side.splice(index, 1);
+      } else if (index !== -1) {
+        side[index] = { price, quantity, timestamp: update.eventTime };
+      } else {
+        side.push({ price, quantity, timestamp: update.eventTime });
+        side.sort(compare);
+      }
+    });
+  };
+
+  apply(bids, update.bids, (a, b) => b.price - a.price);
+  apply(asks, update.asks, (a, b) => a.price - b.price);
+
+  const all = [...bids, ...asks];
+  const maxQuantity = Math.max(...all.map(entry => entry.quantity));
+  const minPrice = Math.min(...all.map(entry => entry.price));
+  return maxQuantity + minPrice + bids.slice(0, depth).length + asks.slice(0, depth).length;
+}
+
+function scanMax(book: OrderBook): number {
+  const { bids, asks } = book.toProcessedData();
+  return Math.max(0, ...bids.map(entry => entry.quantity), ...asks.map(entry => entry.quantity));
+}
+
+/**
+ * Full-depth views use the tracked max rather than a scan; verify it against
+ * one after every diff. Each load is followed by a small insert on both sides
+ * that must not displace the loaded max.
+ */
+function checkTrackedMax(snapshot: OrderbookSnapshot, updates: OrderbookUpdate[]): boolean {
+  const book = new OrderBook();
+  const small: OrderbookSnapshot = { ...snapshot, bids: snapshot.bids.slice(0, 2), asks: snapshot.asks.slice(0, 2) };
+  const probe = (after: OrderbookUpdate): OrderbookUpdate => ({
+    ...after,
+    bids: [{ price: (parseFloat(snapshot.bids[snapshot.bids.length - 1].price) - 1).toFixed(2), quantity: '0.001' }],
+    asks: [{ price: (parseFloat(snapshot.asks[snapshot.asks.length - 1].price) + 1).toFixed(2), quantity: '0.001' }]
+  });
+  const verify = (label: string): boolean => {
+    const tracked = book.toProcessedData().maxQuantity;
+    const scanned = scanMax(book) || 1;
+    if (tracked !== scanned) console.log(`tracked max ${tracked} != scanned ${scanned} ${label}`);
+    return tracked === scanned;
+  };
+
+  // Reload mid-stream so the second load replaces a book that already tracked a max
+  const reloadAt = Math.floor(updates.length / 2);
+  for (let index = 0; index < updates.length; index++) {
+    if (index === 0 || index === reloadAt) {
+      book.loadSnapshot(index === 0 ? snapshot : small);
+      book.applyUpdate(probe(updates[index]));
+      if (!verify(`after loading before diff ${index}`)) return false;
+    }
+    book.applyUpdate(updates[index]);
+    if (!verify(`after diff ${index}`)) return false;
+  }
+  return true;
+}
+
+function measure(name: string, updates: number, run: () => void): number {
+  const startTime = process.hrtime.bigint();
+  run();
+  const elapsed = Number(process.hrtime.bigint() - startTime) / 1e6;
+  const perSecond = Math.round(updates / (elapsed / 1000));
+  console.log(`${name.padEnd(12)} ${elapsed.toFixed(1).padStart(9)} ms  ${perSecond.toLocaleString().padStart(12)} updates/s`);
+  return elapsed;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const levels = readOption(args, 'levels', 1000);
+  const updateCount = readOption(args, 'updates', 20000);
+  const depth = readOption(args, 'depth', 20);
+  const midPrice = 65000;
+  const tick = 0.01;
+
+  const snapshot = buildSnapshot(levels, midPrice, tick);
+  const updates = buildUpdates(updateCount, levels, midPrice, tick);
+  console.log(`${levels} levels per side, ${updateCount} diffs, ${depth}-level views\n`);
+
+  if (!checkTrackedMax(snapshot, updates)) {
+    process.exit(1);
+  }
+
+  const legacyTime = measure('findIndex', updateCount, () => {
+    const bids = snapshot.bids.map(level => ({ price: parseFloat(level.price), quantity: parseFloat(level.quantity), timestamp: 0 }));
+    const asks = snapshot.asks.map(level => ({ price: parseFloat(level.price), quantity: parseFloat(level.quantity), timestamp: 0 }));
+    let checksum = 0;
+    updates.forEach(update => {
+      checksum += legacyApply(bids, asks, update, depth);
+    });
+    if (!isFinite(checksum)) console.log('unexpected checksum');
+  });
+
+  const bookTime = measure('OrderBook', updateCount, () => {
+    const book = new OrderBook();
+    book.loadSnapshot(snapshot);
+    let checksum = 0;
+    updates.forEach(update => {
+      book.applyUpdate(update);
+      const view = book.toProcessedData(depth);
+      checksum += view.maxQuantity + view.priceRange.min + view.bids.length + view.asks.length;
+    });
+    if (!isFinite(checksum)) console.log('unexpected checksum');
+  });
+
+  console.log(`\nspeedup: ${(legacyTime / bookTime).toFixed(1)}x`);
+}
+
+main();
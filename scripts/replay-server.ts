@@ -0,0 +1,45 @@
+/**
+ * Replay a recorded depth session over the Binance protocol.
+ *
+ *   npm run replay-server -- --file sessions/btcusdt.ndjson [--port 9443] [--speed 2] [--no-loop]
+ *
+ * Point the app at it with:
+ *   NEXT_PUBLIC_BINANCE_WS_URL=ws://localhost:9443
+ *   NEXT_PUBLIC_BINANCE_REST_URL=http://localhost:9443
+ */
+import { DepthReplayServer } from '@/server/depthReplayServer';
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const file = readOption(args, 'file');
+
+  if (!file) {
+    console.error('Usage: replay-server --file <session.ndjson> [--port 9443] [--speed 1] [--no-loop]');
+    process.exit(1);
+  }
+
+  const server = DepthReplayServer.fromFile(file, {
+    port: parseInt(readOption(args, 'port') || '9443', 10),
+    speed: parseFloat(readOption(args, 'speed') || '1'),
+    loop: !args.includes('--no-loop')
+  });
+
+  await server.start();
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Replay server failed:', error);
+  process.exit(1);
+});
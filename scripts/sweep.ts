@@ -0,0 +1,116 @@
+/**
+ * Sweep analyzer thresholds over recorded sessions and recommend settings per symbol.
+ *
+ *   npm run sweep -- --sessions sessions/ [--spec sweep.json] [--out backtest-results] [--write]
+ *     [--horizon 60000] [--interval 1000] [--depth 100] [--top 5] [--min-touches 30]
+ *
+ * `--sessions` takes a directory of .ndjson files or comma-separated files.
+ * `--spec` is a JSON grid; without one each symbol is swept around its current settings:
+ *   { "grid": { "clusteringDistance": [0.0005, 0.001], "minOrdersForZone": [3, 5] },
+ *     "symbols": { "ADAUSDT": { "minZoneNotional": [1000000, 2000000] } } }
+ * A candidate needs `--min-touches` resolved touches (bounces plus breaks) and strictly
+ * higher confidence than the current settings to be recommended.
+ * `--write` saves the recommendations to src/data/analyzerConfig.json.
+ */
+import fs from 'fs';
+import path from 'path';
+import { parseSessionRecords } from '@/utils/sessionFormat';
+import { analyzerConfigRegistry } from '@/services/analyzerConfig';
+import { ParameterSweep, SweepCandidate, SweepSession, SweepSpec } from '@/services/parameterSweep';
+
+const CONFIG_FILE = path.join('src', 'data', 'analyzerConfig.json');
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function readSessions(target: string): SweepSession[] {
+  const files = target.split(',').flatMap(entry => fs.statSync(entry).isDirectory()
+    ? fs.readdirSync(entry).filter(file => file.endsWith('.ndjson')).sort().map(file => path.join(entry, file))
+    : [entry]);
+
+  return files.map(file => ({ name: path.basename(file), records: parseSessionRecords(fs.readFileSync(file, 'utf8')) }))
+    .filter(session => session.records.some(record => record.type === 'snapshot'));
+}
+
+function formatCandidate(candidate: SweepCandidate): string {
+  const { analyzer, score } = candidate;
+  return `cluster ${analyzer.clusteringDistance}  orders ${analyzer.minOrdersForZone}  ` +
+    `notional ${analyzer.minZoneNotional}  spike ${analyzer.volumeSpikeMultiplier}  ->  ` +
+    `confidence ${(candidate.confidence * 100).toFixed(1)}%  precision ${(score.precision * 100).toFixed(1)}%  ` +
+    `hit ${(score.hitRate * 100).toFixed(1)}%  (${score.bounced}/${score.bounced + score.broken} held, ${score.zones} zones)`;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const target = readOption(args, 'sessions');
+
+  if (!target) {
+    console.error('Usage: sweep --sessions <dir|file,...> [--spec sweep.json] [--out dir] [--write] [--horizon ms] [--interval ms] [--depth n] [--top n] [--min-touches n]');
+    process.exit(1);
+  }
+
+  const sessions = readSessions(target);
+  if (sessions.length === 0) {
+    console.error(`No sessions with a snapshot found in ${target}`);
+    process.exit(1);
+  }
+
+  const specFile = readOption(args, 'spec');
+  const spec: SweepSpec = specFile ? JSON.parse(fs.readFileSync(specFile, 'utf8')) : {};
+  const minTouches = readOption(args, 'min-touches');
+  if (minTouches !== undefined) {
+    spec.minResolvedTouches = parseInt(minTouches, 10);
+  }
+  const numberOption = (name: string) => {
+    const value = readOption(args, name);
+    return value !== undefined ? parseFloat(value) : undefined;
+  };
+  const options = Object.fromEntries(Object.entries({
+    horizon: numberOption('horizon'),
+    analysisInterval: numberOption('interval'),
+    depth: numberOption('depth')
+  }).filter(([, value]) => value !== undefined));
+
+  const sweep = new ParameterSweep(sessions, spec, options);
+  sweep.onProgress((symbol, done, total) => process.stdout.write(`\r${symbol}: ${done}/${total} combinations`));
+  const report = sweep.run();
+  process.stdout.write('\n\n');
+
+  const top = parseInt(readOption(args, 'top') || '5', 10);
+  report.symbols.forEach(result => {
+    console.log(`${result.symbol} (${result.sessions.length} session${result.sessions.length === 1 ? '' : 's'})`);
+    console.log(`  current      ${formatCandidate(result.current)}`);
+    if (result.insufficientData) {
+      console.log('  insufficient data: no candidate resolved enough touches, keeping current settings');
+    } else if (result.recommended === result.current) {
+      console.log('  no candidate beats the current settings');
+    }
+    result.candidates.slice(0, top).forEach((candidate, index) => {
+      const label = candidate === result.recommended ? 'recommended' : `#${index + 1}`;
+      console.log(`  ${label.padEnd(11)}  ${formatCandidate(candidate)}`);
+    });
+    console.log('');
+  });
+
+  const outDir = readOption(args, 'out') || 'backtest-results';
+  const outFile = path.join(outDir, `sweep-${report.generatedAt.replace(/[:.]/g, '-')}.json`);
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(outFile, JSON.stringify(report, null, 2));
+  console.log(`Wrote ${outFile}`);
+
+  if (args.includes('--write')) {
+    const changed = report.symbols.filter(result => result.recommended !== result.current);
+    changed.forEach(result => analyzerConfigRegistry.set(result.symbol, result.recommended.analyzer));
+    fs.writeFileSync(CONFIG_FILE, JSON.stringify(analyzerConfigRegistry.toJSON(), null, 2) + '\n');
+    console.log(`Updated ${changed.length} symbol(s) in ${CONFIG_FILE}`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Sweep failed:', error);
+  process.exit(1);
+}
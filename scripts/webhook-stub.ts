@@ -0,0 +1,36 @@
+/**
+ * Receive alert webhooks locally.
+ *
+ *   npm run webhook-stub -- [--port 8787] [--status 200]
+ *
+ * Then enable the Webhook sink in the Rules panel with http://localhost:8787/alerts.
+ * Received payloads are printed and listed at http://localhost:8787/received.
+ */
+import { WebhookStubServer } from '@/server/webhookStubServer';
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const server = new WebhookStubServer({
+    port: parseInt(readOption(args, 'port') || '8787', 10),
+    status: parseInt(readOption(args, 'status') || '200', 10)
+  });
+
+  await server.start();
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Webhook stub failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const runtime = 'nodejs';
+
+// Recorded depth sessions live outside the source tree
+const SESSIONS_DIR = process.env.SESSIONS_DIR || path.join(process.cwd(), 'sessions');
+const FILE_NAME_PATTERN = /^[a-z0-9_-]+\.ndjson$/i;
+
+// Writes are a local development tool; `next start` only allows them with SESSIONS_WRITE=true
+const WRITES_ENABLED = process.env.NODE_ENV === 'development' || process.env.SESSIONS_WRITE === 'true';
+const MAX_CHUNK_BYTES = 4 * 1024 * 1024; // The recorder flushes every second, far below this
+const MAX_FILE_BYTES = 100 * 1024 * 1024; // Twice the recorder's default rotation size
+
+// Append a chunk of session lines to a file
+export async function POST(request: Request) {
+  if (!WRITES_ENABLED) {
+    return NextResponse.json({ error: 'Session recording is disabled' }, { status: 403 });
+  }
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_CHUNK_BYTES) {
+    return NextResponse.json({ error: 'Session chunk too large' }, { status: 413 });
+  }
+
+  try {
+    const body = await request.text();
+    if (Buffer.byteLength(body, 'utf8') > MAX_CHUNK_BYTES) {
+      return NextResponse.json({ error: 'Session chunk too large' }, { status: 413 });
+    }
+    const { file, chunk } = JSON.parse(body);
+
+    if (typeof file !== 'string' || !FILE_NAME_PATTERN.test(file) || typeof chunk !== 'string') {
+      return NextResponse.json({ error: 'Invalid session chunk' }, { status: 400 });
+    }
+
+    await fs.mkdir(SESSIONS_DIR, { recursive: true });
+    const filePath = path.join(SESSIONS_DIR, file);
+    const existingBytes = await fs.stat(filePath).then(stats => stats.size, () => 0);
+    if (existingBytes + Buffer.byteLength(chunk, 'utf8') > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: 'Session file too large' }, { status: 413 });
+    }
+
+    await fs.appendFile(filePath, chunk, 'utf8');
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('Failed to append session chunk:', error);
+    return NextResponse.json({ error: 'Failed to write session' }, { status: 500 });
+  }
+}
+
+// List recorded session files, or return one file's contents with ?file=<name>
+export async function GET(request: Request) {
+  const file = new URL(request.url).searchParams.get('file');
+
+  if (file !== null) {
+    if (!FILE_NAME_PATTERN.test(file)) {
+      return NextResponse.json({ error: 'Invalid session file' }, { status: 400 });
+    }
+
+    try {
+      const text = await fs.readFile(path.join(SESSIONS_DIR, file), 'utf8');
+      return new NextResponse(text, { headers: { 'Content-Type': 'application/x-ndjson' } });
+    } catch (error) {
+      console.error('Failed to read session:', error);
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+  }
+
+  try {
+    await fs.mkdir(SESSIONS_DIR, { recursive: true });
+    const names = (await fs.readdir(SESSIONS_DIR)).filter(name => FILE_NAME_PATTERN.test(name));
+
+    const sessions = await Promise.all(names.map(async name => {
+      const stats = await fs.stat(path.join(SESSIONS_DIR, name));
+      return { file: name, size: stats.size, modified: stats.mtimeMs };
+    }));
+
+    sessions.sort((a, b) => b.modified - a.modified);
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('Failed to list sessions:', error);
+    return NextResponse.json({ error: 'Failed to list sessions' }, { status: 500 });
+  }
+}
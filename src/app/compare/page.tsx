@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useState, useRef } from 'react';
+import ComparisonPane from '@/components/ui/ComparisonPane';
+import { createCameraSync } from '@/components/3d/SyncedOrbitControls';
+import { DEFAULT_VENUES } from '@/services/venueAdapters';
+import { symbolRegistry } from '@/services/symbolRegistry';
+import { useTheme3D } from '@/hooks/useTheme3D';
+
+interface PaneConfig {
+  id: string;
+  symbol: string;
+  venueId: string | null; // Null reads the direct Binance stream
+}
+
+const MAX_PANES = 4;
+
+// Literal class names so Tailwind keeps them
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1 md:grid-cols-2',
+  3: 'grid-cols-1 md:grid-cols-3',
+  4: 'grid-cols-1 md:grid-cols-4'
+};
+
+const ComparisonLegend: React.FC<{ priceWindowBps: number }> = ({ priceWindowBps }) => {
+  const themeColors = useTheme3D();
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-xs text-gray-300">
+      <div className="flex items-center gap-1">
+        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: themeColors.bidColor }}></span>
+        Bids
+      </div>
+      <div className="flex items-center gap-1">
+        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: themeColors.askColor }}></span>
+        Asks
+      </div>
+      <div className="flex items-center gap-1">
+        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: themeColors.pressureColors.low }}></span>
+        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: themeColors.pressureColors.medium }}></span>
+        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: themeColors.pressureColors.high }}></span>
+        Pressure (low → high)
+      </div>
+      <div className="text-gray-400">
+        Price axis: basis points from each book&apos;s mid, ±{priceWindowBps}bp
+      </div>
+    </div>
+  );
+};
+
+export default function CompareBooksPage() {
+  const [panes, setPanes] = useState<PaneConfig[]>([
+    { id: 'pane-1', symbol: 'BTCUSDT', venueId: null },
+    { id: 'pane-2', symbol: 'ETHUSDT', venueId: null }
+  ]);
+  const [layout, setLayout] = useState<'split' | 'grid'>('split');
+  const [mode, setMode] = useState<'demo' | 'live'>('demo');
+  const [syncCameras, setSyncCameras] = useState(true);
+  const [priceWindowBps, setPriceWindowBps] = useState(25);
+  const [showPressureZones, setShowPressureZones] = useState(true);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [showStats, setShowStats] = useState(true);
+  const [newSymbol, setNewSymbol] = useState('SOLUSDT');
+  const [newVenueId, setNewVenueId] = useState<string>('');
+
+  const cameraSyncRef = useRef(createCameraSync());
+  const nextPaneIdRef = useRef(panes.length + 1);
+
+  const addPane = () => {
+    if (panes.length >= MAX_PANES || !newSymbol.trim()) return;
+
+    setPanes([...panes, {
+      id: `pane-${nextPaneIdRef.current++}`,
+      symbol: newSymbol.trim().toUpperCase(),
+      venueId: newVenueId || null
+    }]);
+  };
+
+  const removePane = (id: string) => {
+    setPanes(panes.filter(pane => pane.id !== id));
+  };
+
+  // Split puts every pane in one row; grid wraps to two columns
+  const columns = layout === 'split' ? panes.length : Math.min(panes.length, 2);
+  const gridClass = GRID_COLUMNS[columns] ?? GRID_COLUMNS[2];
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      {/* Header */}
+      <div className="bg-gray-800 border-b border-gray-700 px-4 py-3 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">
+            Order Book Comparison
+          </h1>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {/* Data Source */}
+            <button
+              onClick={() => setMode(mode === 'demo' ? 'live' : 'demo')}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-lg transition-colors"
+            >
+              {mode === 'demo' ? 'Switch to Live' : 'Switch to Demo'}
+            </button>
+
+            {/* Layout */}
+            {(['split', 'grid'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setLayout(option)}
+                className={`px-3 py-1.5 rounded-lg transition-colors ${
+                  layout === option ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {option === 'split' ? 'Split' : 'Grid'}
+              </button>
+            ))}
+
+            <label className="flex items-center gap-1 text-gray-300">
+              <input type="checkbox" checked={syncCameras} onChange={(e) => setSyncCameras(e.target.checked)} className="rounded" />
+              Sync cameras
+            </label>
+            <label className="flex items-center gap-1 text-gray-300">
+              <input type="checkbox" checked={showPressureZones} onChange={(e) => setShowPressureZones(e.target.checked)} className="rounded" />
+              Zones
+            </label>
+            <label className="flex items-center gap-1 text-gray-300">
+              <input type="checkbox" checked={showHeatmap} onChange={(e) => setShowHeatmap(e.target.checked)} className="rounded" />
+              Heatmap
+            </label>
+            <label className="flex items-center gap-1 text-gray-300">
+              <input type="checkbox" checked={showStats} onChange={(e) => setShowStats(e.target.checked)} className="rounded" />
+              Zone stats
+            </label>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          {/* Shared Legend */}
+          <ComparisonLegend priceWindowBps={priceWindowBps} />
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label className="flex items-center gap-2 text-gray-300">
+              Window
+              <input
+                type="range"
+                min={5}
+                max={200}
+                step={5}
+                value={priceWindowBps}
+                onChange={(e) => setPriceWindowBps(parseInt(e.target.value, 10))}
+              />
+              <span className="font-mono w-14">±{priceWindowBps}bp</span>
+            </label>
+
+            {/* Add Pane */}
+            <input
+              type="text"
+              list="compare-symbols"
+              value={newSymbol}
+              onChange={(e) => setNewSymbol(e.target.value)}
+              className="w-28 bg-gray-700 text-white rounded px-2 py-1 font-mono"
+            />
+            <datalist id="compare-symbols">
+              {symbolRegistry.list().map(info => (
+                <option key={info.symbol} value={info.symbol} />
+              ))}
+            </datalist>
+            <select
+              value={newVenueId}
+              onChange={(e) => setNewVenueId(e.target.value)}
+              className="bg-gray-700 text-white rounded px-2 py-1"
+            >
+              <option value="">Binance stream</option>
+              {DEFAULT_VENUES.map(venue => (
+                <option key={venue.id} value={venue.id}>{venue.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={addPane}
+              disabled={panes.length >= MAX_PANES}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white px-3 py-1 rounded transition-colors"
+            >
+              Add pane
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Panes */}
+      <div className={`flex-1 grid gap-3 p-3 ${gridClass}`}>
+        {panes.map(pane => (
+          <ComparisonPane
+            key={pane.id}
+            paneId={pane.id}
+            symbol={pane.symbol}
+            venue={DEFAULT_VENUES.find(venue => venue.id === pane.venueId) ?? null}
+            mode={mode}
+            cameraSync={cameraSyncRef.current}
+            syncCameras={syncCameras}
+            priceWindowBps={priceWindowBps}
+            showPressureZones={showPressureZones}
+            showHeatmap={showHeatmap}
+            showStats={showStats}
+            onRemove={panes.length > 1 ? () => removePane(pane.id) : undefined}
+            className="min-h-[420px]"
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
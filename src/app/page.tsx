@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Environment } from '@react-three/drei';
 import SmoothTransitionOrderbook from '@/components/3d/SmoothTransitionOrderbook';
@@ -15,23 +15,48 @@ import { Enhanced3DPressureZones } from '@/components/3d/Enhanced3DPressureZones
 import { EnhancedPressureHeatmap } from '@/components/3d/EnhancedPressureHeatmap';
 import { MobileTouchControls, MobilePerformanceIndicator } from '@/components/ui/MobileTouchControls';
 import { DataFilterService, FilteredOrderbookData } from '@/services/dataFilterService';
-import { PressureZoneAnalyzer, PressureZoneAnalysis } from '@/services/pressureZoneAnalyzer';
+import { MarketImpactCalculator, MarketImpactOrder } from '@/services/marketImpactCalculator';
+import { PressureZoneAnalysis } from '@/services/pressureZoneAnalyzer';
+import { TradeEvent } from '@/types/orderbook';
+import { MicrostructureSnapshot } from '@/services/microstructureMetrics';
+import { OrderbookWorkerClient } from '@/services/orderbookWorkerClient';
 import ExportControlPanel from '@/components/ui/ExportControlPanel';
+import SessionRecorderPanel from '@/components/ui/SessionRecorderPanel';
+import PlaybackControlPanel from '@/components/ui/PlaybackControlPanel';
+import MarketImpactPanel from '@/components/ui/MarketImpactPanel';
+import MicrostructurePanel from '@/components/ui/MicrostructurePanel';
+import TimeSeriesChart from '@/components/ui/TimeSeriesChart';
+import AlertRulesPanel from '@/components/ui/AlertRulesPanel';
+import AlertSinksPanel from '@/components/ui/AlertSinksPanel';
+import DetectorPanel from '@/components/ui/DetectorPanel';
+import LiquidityHeatmapPanel from '@/components/ui/LiquidityHeatmapPanel';
+import NotificationSystem from '@/components/ui/NotificationSystem';
 import { OrderbookExportService } from '@/services/exportService';
+import { DEFAULT_VENUES } from '@/services/venueAdapters';
+import { useSessionPlayback } from '@/services/sessionPlayback';
+import { useMetricsHistory, sampleBook } from '@/services/metricsHistory';
+import { useAlertRules } from '@/services/alertRules';
+import { useAlertSinks } from '@/services/alertSinks';
+import { useDetectorSettings } from '@/services/detectorSettings';
+import { DetectorConfig } from '@/services/zoneDetectors';
+import { DEFAULT_HEATMAP_SETTINGS, LiquidityHeatmapSettings, useLiquidityHeatmap } from '@/services/liquidityHeatmap';
 import { usePerformanceOptimization } from '@/hooks/usePerformanceOptimization';
 import { useHydrationSafeResponsive } from '@/hooks/useHydrationSafeResponsive';
 import { useTouch3DControls } from '@/hooks/useTouchControls';
 
+// Panels sharing the slot under the status panel; at most one is open
+type SidePanel = 'export' | 'monitor' | 'impact' | 'metrics' | 'rules' | 'detectors' | 'liquidity';
+
 export default function OrderbookVisualizerPage() {
   const [isStarted, setIsStarted] = useState(false);
   const [autoRotate, setAutoRotate] = useState(false);
-  const [symbol, setSymbol] = useState('BTCUSDT');
+  const [initialSymbol] = useState('BTCUSDT');
   const [tryRealTime, setTryRealTime] = useState(true);
-  const [showMonitor, setShowMonitor] = useState(false);
+  const [aggregateVenues, setAggregateVenues] = useState(false);
+  const [activePanel, setActivePanel] = useState<SidePanel | null>(null);
   const [showRecoveryPrompt, setShowRecoveryPrompt] = useState(false);
   const [showFilterStats, setShowFilterStats] = useState(false);
   const [showControlPanel, setShowControlPanel] = useState(true);
-  const [showExportPanel, setShowExportPanel] = useState(false);
   const [showRotationControls, setShowRotationControls] = useState(false);
   
   // Rotation control state
@@ -43,7 +68,7 @@ export default function OrderbookVisualizerPage() {
   const [filterSettings, setFilterSettings] = useState<FilterSettings>({
     priceRange: { min: 0, max: 100000, enabled: false },
     quantityThreshold: { min: 0, max: 1000, enabled: false },
-    venues: ['Binance', 'Coinbase', 'Kraken', 'Bitfinex'],
+    venues: DEFAULT_VENUES.map(venue => venue.id),
     timeRange: 'live',
     visualizationMode: 'realtime',
     searchQuery: '',
@@ -52,6 +77,7 @@ export default function OrderbookVisualizerPage() {
     showPressureZones: false, // Disabled by default
     showHeatmap: false, // Disabled by default - only show when checkbox is checked
     showDepthSurface: true,
+    showTrades: true,
     autoRotate: false,
     showAxisLabels: false,
     showGrid: false,
@@ -64,20 +90,99 @@ export default function OrderbookVisualizerPage() {
   
   // Pressure zone analysis state
   const [pressureZoneAnalysis, setPressureZoneAnalysis] = useState<PressureZoneAnalysis | null>(null);
-  const [pressureZoneAnalyzer] = useState(() => new PressureZoneAnalyzer());
+  const analysisWorkerRef = useRef<OrderbookWorkerClient | null>(null);
+  const tradesRef = useRef<TradeEvent[]>([]);
+  const metricsRef = useRef<MicrostructureSnapshot | null>(null);
   const [showPressureStats, setShowPressureStats] = useState(false);
+
+  // Liquidity heatmap history, shown as a panel and optionally as a wall in the scene
+  const [showLiquidityPlane, setShowLiquidityPlane] = useState(false);
+  const [liquiditySettings, setLiquiditySettings] = useState<LiquidityHeatmapSettings>(DEFAULT_HEATMAP_SETTINGS);
+  const detectorSettings = useDetectorSettings();
+  const detectorConfigsRef = useRef<Record<string, DetectorConfig>>(detectorSettings.configs);
+
+  // Market impact estimate state
+  const [showImpactOverlay, setShowImpactOverlay] = useState(true);
+  const [impactOrder, setImpactOrder] = useState<MarketImpactOrder>({ side: 'buy', size: 1, unit: 'base' });
+  const [impactCalculator] = useState(() => new MarketImpactCalculator());
+
+  // Time-series charts, with a crosshair shared with the 3D history axis
+  const [showCharts, setShowCharts] = useState(false);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
   
   const {
-    data,
+    data: liveData,
     connectionState,
     connectionStats,
     error,
     isRealTime,
+    syncInfo,
+    recorderStatus,
+    activeSymbol: symbol,
+    symbolSummaries,
+    trades,
+    metrics,
     connectRealTime,
+    connectMultiVenue,
     connectDemo,
     disconnect,
+    switchSymbol,
+    startRecording,
+    stopRecording,
     isConnected
-  } = useRealTimeOrderbook(symbol);
+  } = useRealTimeOrderbook(initialSymbol);
+
+  // Historical mode renders frames from a recorded session instead of the live book
+  const playback = useSessionPlayback(filterSettings.timeRange);
+  const isHistorical = filterSettings.visualizationMode === 'historical';
+  const data = isHistorical ? playback.frame : liveData;
+  // Symbol of the book on screen; a recorded session need not match the live feed
+  const bookSymbol = isHistorical ? playback.state?.symbol ?? symbol : symbol;
+
+  // Sampled continuously so the charts already have history when opened
+  const chartHistory = useMetricsHistory(data, pressureZoneAnalysis?.zones.length ?? 0, filterSettings.timeRange, {
+    timestamp: isHistorical ? playback.state?.currentTime : undefined,
+    resetKey: `${bookSymbol}:${filterSettings.visualizationMode}`,
+    enabled: isStarted
+  });
+
+  // Recorded continuously, like the charts, so the heatmap has history when opened
+  const liquidityHeatmap = useLiquidityHeatmap(data, {
+    timeWindow: liquiditySettings.timeWindow,
+    timestamp: isHistorical ? playback.state?.currentTime : undefined,
+    resetKey: `${bookSymbol}:${filterSettings.visualizationMode}`,
+    enabled: isStarted
+  });
+
+  // User alert rules see the unfiltered book and the latest zone analysis
+  const ruleInputs = useMemo(() => {
+    if (!data) return null;
+    const sample = sampleBook(data, 0, Date.now());
+    const zones = pressureZoneAnalysis?.zones ?? [];
+    return {
+      symbol: bookSymbol,
+      midPrice: sample?.midPrice ?? null,
+      spreadBps: sample?.spreadBps ?? null,
+      imbalance: sample?.imbalance ?? null,
+      zoneIntensity: zones.length > 0 ? Math.max(...zones.map(zone => zone.intensity)) : null
+    };
+  }, [data, pressureZoneAnalysis, bookSymbol]);
+  // Rules watch the live market only: playback frames would fire on recorded prices, and the
+  // data gap timer runs on wall time
+  const alertRules = useAlertRules(ruleInputs, isStarted && !isHistorical);
+
+  // Sinks deliver the analyzer's own alerts as well as rule firings; replayed sessions stay off the sinks
+  const sinkAlerts = useMemo(
+    () => (isHistorical ? alertRules.alerts : [...alertRules.alerts, ...(pressureZoneAnalysis?.alerts ?? [])]),
+    [alertRules.alerts, pressureZoneAnalysis, isHistorical]
+  );
+  const alertSinks = useAlertSinks(sinkAlerts);
+
+  // Walks the unfiltered book so hidden levels still count toward the fill
+  const marketImpact = useMemo(
+    () => (activePanel === 'impact' && data ? impactCalculator.calculate(data, impactOrder) : null),
+    [activePanel, data, impactOrder, impactCalculator]
+  );
 
   // Performance optimization and responsive design hooks
   const { 
@@ -107,17 +212,52 @@ export default function OrderbookVisualizerPage() {
   const responsiveSettings = getCurrentSettings();
   const uiLayout = getUILayout();
 
+  // Pressure zone analysis runs in a worker
+  useEffect(() => {
+    const client = new OrderbookWorkerClient();
+    analysisWorkerRef.current = client;
+    
+    return () => {
+      client.terminate();
+      analysisWorkerRef.current = null;
+    };
+  }, []);
+
   // Apply filters when data or settings change
   useEffect(() => {
     if (data && filterSettings) {
       const filtered = filterService.filterOrderbookData(data, filterSettings);
       setFilteredData(filtered);
-      
-      // Analyze pressure zones
-      const analysis = pressureZoneAnalyzer.analyzePressureZones(data);
-      setPressureZoneAnalysis(analysis);
+    } else if (!data) {
+      // e.g. historical mode before a session is loaded
+      setFilteredData(null);
     }
-  }, [data, filterSettings, filterService, pressureZoneAnalyzer]);
+  }, [data, filterSettings, filterService]);
+
+  // Latest prints and metrics for the analyzer; read by the analysis effect so they alone don't trigger a run
+  useEffect(() => {
+    tradesRef.current = isHistorical ? [] : trades;
+    metricsRef.current = isHistorical ? null : metrics;
+  }, [trades, metrics, isHistorical]);
+
+  // Detector settings reach the worker with the next analysis
+  useEffect(() => {
+    detectorConfigsRef.current = detectorSettings.configs;
+  }, [detectorSettings.configs]);
+
+  // Analyze pressure zones; results of superseded books resolve null and are dropped
+  useEffect(() => {
+    if (!data || !analysisWorkerRef.current) return;
+    
+    analysisWorkerRef.current.analyze(data, {
+      symbol: bookSymbol,
+      trades: tradesRef.current,
+      metrics: metricsRef.current,
+      detectors: detectorConfigsRef.current
+    }).then(analysis => {
+      if (analysis) setPressureZoneAnalysis(analysis);
+    });
+  }, [data, bookSymbol]);
 
   // Update filter settings when autoRotate changes
   useEffect(() => {
@@ -128,7 +268,11 @@ export default function OrderbookVisualizerPage() {
     setIsStarted(true);
     if (tryRealTime) {
       try {
-        await connectRealTime();
+        if (aggregateVenues) {
+          await connectMultiVenue(DEFAULT_VENUES);
+        } else {
+          await connectRealTime();
+        }
       } catch (err) {
         console.log('Real-time connection failed, showing recovery prompt');
         setShowRecoveryPrompt(true);
@@ -161,6 +305,11 @@ export default function OrderbookVisualizerPage() {
     connectDemo();
   };
 
+  // Opening a side panel closes whichever one was open
+  const togglePanel = (panel: SidePanel) => {
+    setActivePanel(current => (current === panel ? null : panel));
+  };
+
   // Rotation control handlers
   const handleResetCamera = () => {
     setCameraReset(prev => prev + 1);
@@ -195,6 +344,7 @@ export default function OrderbookVisualizerPage() {
   };
 
   const currentPrice = data?.bids[0]?.price || 0;
+  const hasVenueData = !!data && [...data.bids, ...data.asks].some(entry => entry.venue);
 
   return (
     <div 
@@ -276,7 +426,7 @@ export default function OrderbookVisualizerPage() {
             </div>
             
             <div className="text-xs text-muted-foreground">
-              Symbol: {symbol} | Updates: {connectionStats?.reconnections || 0}
+              Symbol: {bookSymbol} | Updates: {connectionStats?.reconnections || 0}
             </div>
             
             {currentPrice > 0 && (
@@ -291,12 +441,24 @@ export default function OrderbookVisualizerPage() {
               </div>
             )}
             
+            {/* Venue Color Legend */}
+            {hasVenueData && (
+              <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                {DEFAULT_VENUES.map(venue => (
+                  <span key={venue.id} className="flex items-center space-x-1">
+                    <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: venue.color }} />
+                    <span className="text-muted-foreground">{venue.name}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+            
             {/* Quick Export Button */}
             {filteredData && (
               <button
                 onClick={() => {
                   const exportService = OrderbookExportService.getInstance();
-                  const snapshot = exportService.createSnapshot(filteredData, symbol, pressureZoneAnalysis || undefined);
+                  const snapshot = exportService.createSnapshot(filteredData, bookSymbol, pressureZoneAnalysis || undefined, isHistorical ? undefined : metrics ?? undefined);
                   exportService.exportAsJSON(snapshot);
                 }}
                 className="w-full px-2 py-1 text-xs bg-green-600 hover:bg-green-700 text-white rounded transition-colors"
@@ -327,8 +489,8 @@ export default function OrderbookVisualizerPage() {
           onClick={() => {
             setShowRotationControls(!showRotationControls);
             // Close export panel when opening rotation controls
-            if (!showRotationControls) {
-              setShowExportPanel(false);
+            if (!showRotationControls && activePanel === 'export') {
+              setActivePanel(null);
             }
           }}
           className="bg-card hover:bg-accent text-foreground px-3 py-2 rounded-lg text-sm transition-colors border border-border"
@@ -338,9 +500,9 @@ export default function OrderbookVisualizerPage() {
         {(!isMounted || !uiLayout.compactMode) && (
           <button
             onClick={() => {
-              setShowExportPanel(!showExportPanel);
+              togglePanel('export');
               // Close rotation controls when opening export panel
-              if (!showExportPanel) {
+              if (activePanel !== 'export') {
                 setShowRotationControls(false);
               }
             }}
@@ -349,6 +511,65 @@ export default function OrderbookVisualizerPage() {
             📥 {isMounted && deviceInfo.type === 'mobile' ? '' : 'Export'}
           </button>
         )}
+        {(!isMounted || !uiLayout.compactMode) && (
+          <button
+            onClick={() => togglePanel('monitor')}
+            className="bg-card hover:bg-accent text-foreground px-3 py-2 rounded-lg text-sm transition-colors border border-border"
+          >
+            📡 {activePanel === 'monitor' ? 'Hide Monitor' : 'Monitor'}
+          </button>
+        )}
+        {(!isMounted || !uiLayout.compactMode) && (
+          <button
+            onClick={() => togglePanel('impact')}
+            className="bg-card hover:bg-accent text-foreground px-3 py-2 rounded-lg text-sm transition-colors border border-border"
+          >
+            💧 {activePanel === 'impact' ? 'Hide Impact' : 'Impact'}
+          </button>
+        )}
+        {(!isMounted || !uiLayout.compactMode) && (
+          <button
+            onClick={() => togglePanel('metrics')}
+            className="bg-card hover:bg-accent text-foreground px-3 py-2 rounded-lg text-sm transition-colors border border-border"
+          >
+            📐 {activePanel === 'metrics' ? 'Hide Metrics' : 'Metrics'}
+          </button>
+        )}
+        {(!isMounted || !uiLayout.compactMode) && (
+          <button
+            onClick={() => togglePanel('rules')}
+            className="bg-card hover:bg-accent text-foreground px-3 py-2 rounded-lg text-sm transition-colors border border-border"
+          >
+            🔔 {activePanel === 'rules' ? 'Hide Rules' : 'Rules'}
+          </button>
+        )}
+        {(!isMounted || !uiLayout.compactMode) && (
+          <button
+            onClick={() => togglePanel('detectors')}
+            className="bg-card hover:bg-accent text-foreground px-3 py-2 rounded-lg text-sm transition-colors border border-border"
+          >
+            🧩 {activePanel === 'detectors' ? 'Hide Detectors' : 'Detectors'}
+          </button>
+        )}
+        {(!isMounted || !uiLayout.compactMode) && (
+          <button
+            onClick={() => togglePanel('liquidity')}
+            className="bg-card hover:bg-accent text-foreground px-3 py-2 rounded-lg text-sm transition-colors border border-border"
+          >
+            🔥 {activePanel === 'liquidity' ? 'Hide Liquidity' : 'Liquidity'}
+          </button>
+        )}
+        {(!isMounted || !uiLayout.compactMode) && (
+          <button
+            onClick={() => {
+              setShowCharts(!showCharts);
+              setHoverTime(null);
+            }}
+            className="bg-card hover:bg-accent text-foreground px-3 py-2 rounded-lg text-sm transition-colors border border-border"
+          >
+            📈 {showCharts ? 'Hide Charts' : 'Charts'}
+          </button>
+        )}
         <button
           onClick={() => setShowControlPanel(!showControlPanel)}
           className="bg-card hover:bg-accent text-foreground px-3 py-2 rounded-lg text-sm transition-colors border border-border"
@@ -376,8 +597,133 @@ export default function OrderbookVisualizerPage() {
           <InteractiveControlPanel
             settings={filterSettings}
             onSettingsChange={setFilterSettings}
-            availableVenues={['Binance', 'Coinbase', 'Kraken', 'Bitfinex']}
+            availableVenues={DEFAULT_VENUES.map(venue => venue.id)}
             currentPrice={currentPrice}
+            symbol={symbol}
+            symbolSummaries={symbolSummaries}
+            onSymbolChange={switchSymbol}
+          />
+        </div>
+      )}
+
+      {/* Connection Monitor */}
+      {activePanel === 'monitor' && isStarted && (
+        <div className="absolute top-48 left-4 z-10 w-80">
+          <ConnectionMonitor
+            connectionState={connectionState}
+            isRealTime={isRealTime}
+            error={error}
+            connectionStats={connectionStats}
+            syncInfo={syncInfo}
+          />
+        </div>
+      )}
+
+      {/* Market Impact Estimate */}
+      {activePanel === 'impact' && isStarted && (
+        <div className="absolute top-48 left-4 z-10 w-80">
+          <MarketImpactPanel
+            symbol={bookSymbol}
+            order={impactOrder}
+            result={marketImpact}
+            onOrderChange={setImpactOrder}
+            showOverlay={showImpactOverlay}
+            onShowOverlayChange={setShowImpactOverlay}
+          />
+        </div>
+      )}
+
+      {/* Microstructure Metrics */}
+      {activePanel === 'metrics' && isStarted && (
+        <div className="absolute top-48 left-4 z-10 w-80 max-h-[60vh] overflow-y-auto">
+          <MicrostructurePanel metrics={isHistorical ? null : metrics} />
+        </div>
+      )}
+
+      {/* Alert Rules */}
+      {activePanel === 'rules' && (
+        <div className="absolute top-48 left-4 z-10 w-96 max-h-[60vh] overflow-y-auto">
+          <AlertRulesPanel
+            rules={alertRules.rules}
+            symbol={symbol}
+            onAdd={alertRules.addRule}
+            onUpdate={alertRules.updateRule}
+            onRemove={alertRules.removeRule}
+            onImport={alertRules.importRules}
+            onExport={alertRules.exportRules}
+          />
+          <AlertSinksPanel
+            configs={alertSinks.configs}
+            log={alertSinks.log}
+            onUpdate={alertSinks.updateSink}
+            onTest={alertSinks.testSink}
+            onClearLog={alertSinks.clearLog}
+            onRequestPermission={alertSinks.requestNotificationPermission}
+            className="mt-2"
+          />
+        </div>
+      )}
+
+      {/* Zone Detectors */}
+      {activePanel === 'detectors' && (
+        <div className="absolute top-48 left-4 z-10 w-80 max-h-[60vh] overflow-y-auto">
+          <DetectorPanel
+            configs={detectorSettings.configs}
+            stats={pressureZoneAnalysis?.detectorStats ?? []}
+            onUpdate={detectorSettings.updateDetector}
+            onReset={detectorSettings.resetDetectors}
+          />
+        </div>
+      )}
+
+      {/* Liquidity Heatmap */}
+      {activePanel === 'liquidity' && isStarted && (
+        <div className="absolute top-48 left-4 z-10 w-[28rem] max-w-[calc(100vw-2rem)]">
+          <LiquidityHeatmapPanel
+            history={liquidityHeatmap.history}
+            version={liquidityHeatmap.version}
+            settings={liquiditySettings}
+            onSettingsChange={update => setLiquiditySettings(current => ({ ...current, ...update }))}
+            trades={isHistorical ? undefined : trades}
+            symbol={bookSymbol}
+            showInScene={showLiquidityPlane}
+            onShowInSceneChange={setShowLiquidityPlane}
+          />
+        </div>
+      )}
+
+      {/* Rule Firings */}
+      <NotificationSystem alerts={alertRules.alerts} />
+
+      {/* Metrics Time Series - above the playback controls in historical mode */}
+      {showCharts && isStarted && (
+        <div className={`absolute left-1/2 transform -translate-x-1/2 z-10 w-[40rem] max-w-[calc(100vw-2rem)] bg-card border border-border rounded-lg p-2 ${
+          isHistorical ? 'bottom-64' : 'bottom-4'
+        }`}>
+          <TimeSeriesChart
+            series={chartHistory.series}
+            start={chartHistory.start}
+            end={chartHistory.end}
+            symbol={bookSymbol}
+            crosshairTime={hoverTime}
+            onHoverTime={setHoverTime}
+          />
+        </div>
+      )}
+
+      {/* Historical Playback Controls */}
+      {isStarted && isHistorical && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-10 w-96">
+          <PlaybackControlPanel
+            state={playback.state}
+            error={playback.error}
+            onLoadText={playback.loadText}
+            onLoadRecorded={playback.loadRecordedSession}
+            onPlay={playback.play}
+            onPause={playback.pause}
+            onStep={playback.stepForward}
+            onSeek={playback.seek}
+            onSpeedChange={playback.setSpeed}
           />
         </div>
       )}
@@ -393,14 +739,22 @@ export default function OrderbookVisualizerPage() {
       )}
 
       {/* Export Control Panel */}
-      {showExportPanel && (
+      {activePanel === 'export' && (
         <div className="absolute top-48 left-4 z-10 w-80">
           <ExportControlPanel
             data={filteredData}
             pressureZoneAnalysis={pressureZoneAnalysis}
-            symbol={symbol}
+            symbol={bookSymbol}
+            metrics={isHistorical ? null : metrics}
             className="max-h-96 overflow-y-auto"
           />
+          <SessionRecorderPanel
+            status={recorderStatus}
+            canRecord={isRealTime && isConnected}
+            onStart={startRecording}
+            onStop={stopRecording}
+            className="mt-2"
+          />
         </div>
       )}
 
@@ -478,6 +832,7 @@ export default function OrderbookVisualizerPage() {
             data={filteredData || data}
             autoRotate={filterSettings.autoRotate}
             timeDepth={isMounted && deviceInfo.isLowEnd ? 5 : 10}
+            historyLength={isMounted && deviceInfo.isLowEnd ? 60 : 120}
             showDepthSurface={filterSettings.showDepthSurface}
             showPressureZones={filterSettings.showPressureZones && (!isMounted || !uiLayout.compactMode)}
             showHeatmap={filterSettings.showHeatmap && (!isMounted || !uiLayout.compactMode)}
@@ -485,6 +840,16 @@ export default function OrderbookVisualizerPage() {
             rotationSpeed={rotationSpeed}
             rotationAxis={rotationAxis}
             cameraReset={cameraReset}
+            venues={DEFAULT_VENUES}
+            externalPressureZones={pressureZoneAnalysis?.zones ?? null}
+            symbol={bookSymbol}
+            trades={isHistorical ? undefined : trades}
+            showTrades={filterSettings.showTrades}
+            marketImpact={showImpactOverlay ? marketImpact : null}
+            liquidityHeatmap={showLiquidityPlane ? { ...liquidityHeatmap, settings: liquiditySettings } : null}
+            hoverTime={showCharts ? hoverTime : null}
+            onHoverTime={showCharts ? setHoverTime : undefined}
+            referenceTime={isHistorical ? playback.state?.currentTime : undefined}
           />
           
           {/* Enhanced 3D Pressure Zones */}
@@ -544,6 +909,18 @@ export default function OrderbookVisualizerPage() {
                 />
                 <span>Try real-time connection first (falls back to demo if failed)</span>
               </label>
+              
+              {tryRealTime && (
+                <label className="flex items-center justify-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={aggregateVenues}
+                    onChange={(e) => setAggregateVenues(e.target.checked)}
+                    className="rounded"
+                  />
+                  <span>Aggregate {DEFAULT_VENUES.map(venue => venue.name).join(', ')} books</span>
+                </label>
+              )}
             </div>
             
             <button
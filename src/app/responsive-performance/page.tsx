@@ -244,6 +244,7 @@ export default function ResponsivePerformancePage() {
           showPressureZones: true,
           showHeatmap: true,
           showDepthSurface: true,
+          showTrades: true,
           autoRotate: false,
           showAxisLabels: true,
           showGrid: true,
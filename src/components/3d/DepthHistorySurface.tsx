@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { BufferAttribute, BufferGeometry, Color, DoubleSide, Mesh } from 'three';
+import { ProcessedOrderbookData } from '@/types/orderbook';
+
+interface DepthHistorySurfaceProps {
+  data: ProcessedOrderbookData;
+  historyLength?: number; // Number of past book states kept in the ring buffer
+  columns?: number; // Price resolution of each slice
+  sampleInterval?: number; // Minimum ms between captured slices
+  frontZ?: number; // Z of the newest slice
+  depth?: number; // Z distance covered by the full history
+  bidColor: string;
+  askColor: string;
+  opacity?: number;
+}
+
+// Matches the X (-10..10) and Y (0..8) scaling used for the bars
+const X_EXTENT = 20;
+const MAX_HEIGHT = 8;
+
+/**
+ * Waterfall of past cumulative depth curves along Z. Each captured book state
+ * is written into a ring of rows stored twice in the vertex buffer, so the
+ * newest-to-oldest window is always a contiguous index range: a new slice only
+ * overwrites the oldest row (and its copy), then the draw range and mesh
+ * offset shift by one row.
+ */
+export const DepthHistorySurface: React.FC<DepthHistorySurfaceProps> = ({
+  data,
+  historyLength = 120,
+  columns = 80,
+  sampleInterval = 250,
+  frontZ = 0,
+  depth = 20,
+  bidColor,
+  askColor,
+  opacity = 0.75
+}) => {
+  const meshRef = useRef<Mesh>(null);
+  const sliceCountRef = useRef(0);
+  const lastSampleRef = useRef(0);
+  const rowSpacing = depth / Math.max(historyLength - 1, 1);
+  const indicesPerRow = (columns - 1) * 6;
+
+  const geometry = useMemo(() => {
+    const rows = historyLength * 2;
+    const positions = new Float32Array(rows * columns * 3);
+    const colors = new Float32Array(rows * columns * 3);
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        const offset = (row * columns + col) * 3;
+        positions[offset] = (col / (columns - 1)) * X_EXTENT - X_EXTENT / 2;
+        positions[offset + 1] = 0;
+        positions[offset + 2] = row * rowSpacing;
+      }
+    }
+
+    // Quads between consecutive rows; the window draws historyLength - 1 strips
+    const indices = new Uint32Array((rows - 1) * indicesPerRow);
+    let i = 0;
+    for (let row = 0; row < rows - 1; row++) {
+      for (let col = 0; col < columns - 1; col++) {
+        const a = row * columns + col;
+        const b = a + 1;
+        const c = a + columns;
+        const d = c + 1;
+        indices.set([a, c, b, b, c, d], i);
+        i += 6;
+      }
+    }
+
+    const geom = new BufferGeometry();
+    geom.setAttribute('position', new BufferAttribute(positions, 3));
+    geom.setAttribute('color', new BufferAttribute(colors, 3));
+    geom.setIndex(new BufferAttribute(indices, 1));
+    geom.setDrawRange(0, 0); // Nothing to draw until two slices exist
+    return geom;
+  }, [historyLength, columns, rowSpacing, indicesPerRow]);
+
+  useEffect(() => {
+    sliceCountRef.current = 0;
+    return () => geometry.dispose();
+  }, [geometry]);
+
+  const bid = useMemo(() => new Color(bidColor), [bidColor]);
+  const ask = useMemo(() => new Color(askColor), [askColor]);
+
+  // Capture a slice whenever the book changes (throttled to sampleInterval)
+  useEffect(() => {
+    if (!data || !data.bids.length || !data.asks.length) return;
+
+    const now = Date.now();
+    if (now - lastSampleRef.current < sampleInterval) return;
+    lastSampleRef.current = now;
+
+    const heights = buildDepthSlice(data, columns);
+    const mid = (data.bids[0].price + data.asks[0].price) / 2;
+    const range = data.priceRange.max - data.priceRange.min || 1;
+    const midColumn = ((mid - data.priceRange.min) / range) * (columns - 1);
+
+    const slot = sliceCountRef.current % historyLength;
+    sliceCountRef.current++;
+    const filled = Math.min(sliceCountRef.current, historyLength);
+
+    const position = geometry.getAttribute('position') as BufferAttribute;
+    const color = geometry.getAttribute('color') as BufferAttribute;
+
+    // Write the slice into its ring row and the mirror row historyLength rows later
+    [slot, slot + historyLength].forEach(row => {
+      const start = row * columns;
+      for (let col = 0; col < columns; col++) {
+        const vertex = start + col;
+        const sideColor = col <= midColumn ? bid : ask;
+        const shade = 0.25 + heights[col] * 0.75;
+        position.array[vertex * 3 + 1] = heights[col] * MAX_HEIGHT;
+        color.array[vertex * 3] = sideColor.r * shade;
+        color.array[vertex * 3 + 1] = sideColor.g * shade;
+        color.array[vertex * 3 + 2] = sideColor.b * shade;
+      }
+      position.addUpdateRange(start * 3, columns * 3);
+      color.addUpdateRange(start * 3, columns * 3);
+    });
+    position.needsUpdate = true;
+    color.needsUpdate = true;
+
+    // Once full, the window is rows (slot + 1) .. (slot + historyLength); its last row is the new slice
+    const windowStart = filled < historyLength ? 0 : (slot + 1) % historyLength;
+    geometry.setDrawRange(windowStart * indicesPerRow, (filled - 1) * indicesPerRow);
+
+    if (meshRef.current) {
+      meshRef.current.position.z = frontZ - (windowStart + filled - 1) * rowSpacing;
+    }
+  }, [data, geometry, historyLength, columns, sampleInterval, frontZ, rowSpacing, indicesPerRow, bid, ask]);
+
+  return (
+    <mesh ref={meshRef} geometry={geometry} frustumCulled={false}>
+      <meshBasicMaterial vertexColors transparent opacity={opacity} side={DoubleSide} />
+    </mesh>
+  );
+};
+
+/**
+ * Cumulative depth per price column, normalized to 0..1. Bids accumulate
+ * downward from the best bid and asks upward from the best ask.
+ */
+function buildDepthSlice(data: ProcessedOrderbookData, columns: number): Float32Array {
+  const bidColumns = new Float32Array(columns);
+  const askColumns = new Float32Array(columns);
+  const range = data.priceRange.max - data.priceRange.min || 1;
+  const toColumn = (price: number) =>
+    Math.min(columns - 1, Math.max(0, Math.round(((price - data.priceRange.min) / range) * (columns - 1))));
+
+  data.bids.forEach(entry => { bidColumns[toColumn(entry.price)] += entry.quantity; });
+  data.asks.forEach(entry => { askColumns[toColumn(entry.price)] += entry.quantity; });
+
+  const bestBidColumn = toColumn(data.bids[0].price);
+  const bestAskColumn = toColumn(data.asks[0].price);
+  const heights = new Float32Array(columns);
+
+  let total = 0;
+  for (let col = bestBidColumn; col >= 0; col--) {
+    total += bidColumns[col];
+    heights[col] = total;
+  }
+  total = 0;
+  for (let col = bestAskColumn; col < columns; col++) {
+    total += askColumns[col];
+    heights[col] = Math.max(heights[col], total);
+  }
+
+  let max = 0;
+  heights.forEach(height => { max = Math.max(max, height); });
+  if (max > 0) {
+    for (let col = 0; col < columns; col++) {
+      heights[col] /= max;
+    }
+  }
+
+  return heights;
+}
+
+export default DepthHistorySurface;
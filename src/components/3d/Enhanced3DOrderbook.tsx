@@ -6,6 +6,7 @@ import { Group, Vector3, BufferGeometry, Float32BufferAttribute, Mesh, MeshLambe
 import { Text, Line, Html } from '@react-three/drei';
 import { ProcessedOrderbookData, PressureZone, OrderbookEntry } from '@/types/orderbook';
 import { useTheme3D } from '@/hooks/useTheme3D';
+import InstancedOrderbookBars, { InstancedBarLevel } from './InstancedOrderbookBars';
 
 interface Enhanced3DOrderbookProps {
   data: ProcessedOrderbookData;
@@ -339,28 +340,25 @@ export const Enhanced3DOrderbook: React.FC<Enhanced3DOrderbookProps> = ({
     );
   };
 
-  // Render individual 3D bars
+  // Render all bars through a single instanced mesh
+  const barLevels = useMemo<InstancedBarLevel[]>(() => barData.map(bar => ({
+    key: `${bar.type}:${bar.timestamp}:${bar.price}`,
+    x: bar.position.x,
+    z: bar.position.z,
+    height: bar.scale.y,
+    width: bar.scale.x,
+    depth: bar.scale.z,
+    color: bar.color
+  })), [barData]);
+
   const renderBars = () => {
     return (
-      <group>
-        {barData.map((bar, index) => (
-          <mesh
-            key={index}
-            position={bar.position}
-            scale={bar.scale}
-            onClick={interactionEnabled ? () => handleBarClick(bar) : undefined}
-            onPointerEnter={interactionEnabled ? () => handleBarHover(bar) : undefined}
-            onPointerLeave={interactionEnabled ? () => handleBarHover(null) : undefined}
-          >
-            <boxGeometry args={[1, 1, 1]} />
-            <meshLambertMaterial
-              color={bar.color}
-              transparent
-              opacity={bar.opacity}
-            />
-          </mesh>
-        ))}
-      </group>
+      <InstancedOrderbookBars
+        levels={barLevels}
+        transitionDuration={0}
+        onLevelClick={interactionEnabled ? (index) => handleBarClick(barData[index]) : undefined}
+        onLevelHover={interactionEnabled ? (index) => handleBarHover(index === null ? null : barData[index]) : undefined}
+      />
     );
   };
 
@@ -0,0 +1,264 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, ThreeEvent } from '@react-three/fiber';
+import { Color, DynamicDrawUsage, InstancedBufferAttribute, InstancedMesh } from 'three';
+import { performanceOptimizer } from '@/utils/performanceOptimizer';
+
+export interface InstancedBarLevel {
+  key: string; // Stable identity (e.g. side + venue + price) used to animate between updates
+  x: number;
+  z: number;
+  height: number;
+  color: string | Color;
+  width?: number;
+  depth?: number;
+}
+
+interface InstancedOrderbookBarsProps {
+  levels: InstancedBarLevel[]; // In priority order; levels beyond capacity are dropped
+  transitionDuration?: number; // Seconds
+  barWidth?: number;
+  barDepth?: number;
+  opacity?: number;
+  maxInstances?: number; // Overrides the LOD capacity
+  onLevelClick?: (index: number) => void;
+  onLevelHover?: (index: number | null) => void;
+}
+
+/**
+ * Draws every order book bar as one instance of a unit box. Per-slot animation
+ * state lives in typed arrays and a single useFrame pass writes the instance
+ * matrices while a transition is running, so updates cost one draw call
+ * regardless of the number of levels.
+ */
+export const InstancedOrderbookBars: React.FC<InstancedOrderbookBarsProps> = ({
+  levels,
+  transitionDuration = 0.5,
+  barWidth = 0.4,
+  barDepth = 0.4,
+  opacity = 0.9,
+  maxInstances,
+  onLevelClick,
+  onLevelHover
+}) => {
+  const meshRef = useRef<InstancedMesh>(null);
+  const capacity = useMemo(
+    () => maxInstances ?? performanceOptimizer.getLODConfig().maxInstances,
+    [maxInstances]
+  );
+
+  // Slot buffers: positions/heights animate from -> to; removed levels shrink to zero
+  const buffers = useMemo(() => ({
+    fromX: new Float32Array(capacity),
+    toX: new Float32Array(capacity),
+    fromZ: new Float32Array(capacity),
+    toZ: new Float32Array(capacity),
+    fromHeight: new Float32Array(capacity),
+    toHeight: new Float32Array(capacity),
+    currentHeight: new Float32Array(capacity),
+    currentX: new Float32Array(capacity),
+    currentZ: new Float32Array(capacity),
+    width: new Float32Array(capacity),
+    depth: new Float32Array(capacity),
+    removing: new Uint8Array(capacity),
+    levelIndex: new Int32Array(capacity).fill(-1)
+  }), [capacity]);
+
+  const slotsRef = useRef<Map<string, number>>(new Map());
+  const freeSlotsRef = useRef<number[]>([]);
+  const highWaterRef = useRef(0);
+  const transitionStartRef = useRef(0);
+  const animatingRef = useRef(false);
+  const hoveredRef = useRef<number | null>(null);
+  const scratchColor = useMemo(() => new Color(), []);
+
+  useEffect(() => {
+    slotsRef.current = new Map();
+    freeSlotsRef.current = [];
+    highWaterRef.current = 0;
+
+    const mesh = meshRef.current;
+    if (mesh) {
+      mesh.instanceMatrix.setUsage(DynamicDrawUsage);
+      mesh.instanceColor = new InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+      mesh.instanceColor.setUsage(DynamicDrawUsage);
+      mesh.count = 0;
+    }
+  }, [capacity]);
+
+  // Diff the new levels against the occupied slots and start a transition
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh || !mesh.instanceColor) return;
+
+    const slots = slotsRef.current;
+    const freeSlots = freeSlotsRef.current;
+    const seen = new Set<string>();
+    const visible = levels.length > capacity ? levels.slice(0, capacity) : levels;
+
+    const allocateSlot = (): number | null => {
+      if (freeSlots.length > 0) return freeSlots.pop()!;
+      if (highWaterRef.current < capacity) return highWaterRef.current++;
+
+      // Full: reuse a bar that is already shrinking away
+      for (const [key, slot] of slots) {
+        if (buffers.removing[slot] && !seen.has(key)) {
+          slots.delete(key);
+          return slot;
+        }
+      }
+      return null;
+    };
+
+    visible.forEach((level, index) => {
+      seen.add(level.key);
+      let slot = slots.get(level.key);
+
+      if (slot === undefined) {
+        const allocated = allocateSlot();
+        if (allocated === null) return;
+        slot = allocated;
+        slots.set(level.key, slot);
+
+        // New bars grow from the floor at their target position
+        buffers.currentX[slot] = level.x;
+        buffers.currentZ[slot] = level.z;
+        buffers.currentHeight[slot] = 0;
+      }
+
+      buffers.fromX[slot] = buffers.currentX[slot];
+      buffers.fromZ[slot] = buffers.currentZ[slot];
+      buffers.fromHeight[slot] = buffers.currentHeight[slot];
+      buffers.toX[slot] = level.x;
+      buffers.toZ[slot] = level.z;
+      buffers.toHeight[slot] = level.height;
+      buffers.width[slot] = level.width ?? barWidth;
+      buffers.depth[slot] = level.depth ?? barDepth;
+      buffers.removing[slot] = 0;
+      buffers.levelIndex[slot] = index;
+
+      scratchColor.set(level.color);
+      mesh.instanceColor!.setXYZ(slot, scratchColor.r, scratchColor.g, scratchColor.b);
+    });
+
+    slots.forEach((slot, key) => {
+      if (seen.has(key)) return;
+      buffers.fromX[slot] = buffers.currentX[slot];
+      buffers.fromZ[slot] = buffers.currentZ[slot];
+      buffers.fromHeight[slot] = buffers.currentHeight[slot];
+      buffers.toX[slot] = buffers.currentX[slot];
+      buffers.toZ[slot] = buffers.currentZ[slot];
+      buffers.toHeight[slot] = 0;
+      buffers.removing[slot] = 1;
+      buffers.levelIndex[slot] = -1;
+    });
+
+    mesh.count = highWaterRef.current;
+    mesh.instanceColor.needsUpdate = true;
+    transitionStartRef.current = performance.now() / 1000;
+    animatingRef.current = true;
+  }, [levels, capacity, buffers, barWidth, barDepth, scratchColor]);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh || !animatingRef.current) return;
+
+    const elapsed = performance.now() / 1000 - transitionStartRef.current;
+    const progress = transitionDuration > 0 ? Math.min(elapsed / transitionDuration, 1) : 1;
+    const eased = easeInOutCubic(progress);
+    const matrices = mesh.instanceMatrix.array as Float32Array;
+    const count = highWaterRef.current;
+
+    for (let slot = 0; slot < count; slot++) {
+      const x = buffers.fromX[slot] + (buffers.toX[slot] - buffers.fromX[slot]) * eased;
+      const z = buffers.fromZ[slot] + (buffers.toZ[slot] - buffers.fromZ[slot]) * eased;
+      const height = buffers.fromHeight[slot] + (buffers.toHeight[slot] - buffers.fromHeight[slot]) * eased;
+      buffers.currentX[slot] = x;
+      buffers.currentZ[slot] = z;
+      buffers.currentHeight[slot] = height;
+
+      // Scale + translation only, written straight into the column-major matrix
+      const visible = height > 0;
+      const offset = slot * 16;
+      matrices[offset] = visible ? buffers.width[slot] : 0;
+      matrices[offset + 1] = 0;
+      matrices[offset + 2] = 0;
+      matrices[offset + 3] = 0;
+      matrices[offset + 4] = 0;
+      matrices[offset + 5] = visible ? height : 0;
+      matrices[offset + 6] = 0;
+      matrices[offset + 7] = 0;
+      matrices[offset + 8] = 0;
+      matrices[offset + 9] = 0;
+      matrices[offset + 10] = visible ? buffers.depth[slot] : 0;
+      matrices[offset + 11] = 0;
+      matrices[offset + 12] = x;
+      matrices[offset + 13] = height / 2;
+      matrices[offset + 14] = z;
+      matrices[offset + 15] = 1;
+    }
+
+    mesh.instanceMatrix.clearUpdateRanges();
+    mesh.instanceMatrix.addUpdateRange(0, count * 16);
+    mesh.instanceMatrix.needsUpdate = true;
+    // Bounds are recomputed lazily on the next raycast
+    mesh.boundingSphere = null;
+    mesh.boundingBox = null;
+
+    if (progress >= 1) {
+      animatingRef.current = false;
+
+      // Release slots of bars that finished shrinking
+      slotsRef.current.forEach((slot, key) => {
+        if (buffers.removing[slot]) {
+          slotsRef.current.delete(key);
+          buffers.removing[slot] = 0;
+          freeSlotsRef.current.push(slot);
+        }
+      });
+    }
+  });
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    if (!onLevelClick || event.instanceId === undefined) return;
+    const index = buffers.levelIndex[event.instanceId];
+    if (index >= 0) onLevelClick(index);
+  };
+
+  // Only report hover changes, not every pointer move over the same bar
+  const setHovered = (index: number | null) => {
+    if (!onLevelHover || hoveredRef.current === index) return;
+    hoveredRef.current = index;
+    onLevelHover(index);
+  };
+
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    if (event.instanceId === undefined) return;
+    const index = buffers.levelIndex[event.instanceId];
+    setHovered(index >= 0 ? index : null);
+  };
+
+  const interactive = !!(onLevelClick || onLevelHover);
+
+  return (
+    <instancedMesh
+      key={capacity}
+      ref={meshRef}
+      args={[undefined, undefined, capacity]}
+      frustumCulled={false}
+      onClick={interactive ? handleClick : undefined}
+      onPointerMove={interactive ? handlePointerMove : undefined}
+      onPointerOut={onLevelHover ? () => setHovered(null) : undefined}
+    >
+      <boxGeometry args={[1, 1, 1]} />
+      <meshPhongMaterial color="#ffffff" transparent opacity={opacity} />
+    </instancedMesh>
+  );
+};
+
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+export default InstancedOrderbookBars;
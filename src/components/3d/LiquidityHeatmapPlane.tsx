@@ -0,0 +1,234 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import {
+  Color,
+  DataTexture,
+  DynamicDrawUsage,
+  FloatType,
+  InstancedBufferAttribute,
+  InstancedMesh,
+  NearestFilter,
+  RedFormat,
+  ShaderMaterial
+} from 'three';
+import { Text } from '@react-three/drei';
+import { TradeEvent } from '@/types/orderbook';
+import { DEFAULT_HEATMAP_SETTINGS, LiquidityHeatmapHistory, LiquidityHeatmapSettings } from '@/services/liquidityHeatmap';
+
+interface LiquidityHeatmapPlaneProps {
+  history: LiquidityHeatmapHistory;
+  version: number; // Changes whenever the history's cells do
+  width: number;
+  height: number;
+  position?: [number, number, number];
+  rotation?: [number, number, number];
+  settings?: Partial<LiquidityHeatmapSettings>;
+  trades?: TradeEvent[];
+  buyColor: string;
+  sellColor: string;
+  labelColor?: string; // Draws price and time labels when set
+  formatPrice?: (price: number) => string;
+  opacity?: number;
+  maxBubbles?: number;
+}
+
+const MAX_BUBBLE_FRACTION = 0.03; // Largest bubble radius as a fraction of the plane height
+const MIN_BUBBLE_FRACTION = 0.004;
+
+const vertexShader = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+// Ring column for screen x is fract(x + offset); sizes map through a dark-to-hot ramp
+const fragmentShader = `
+  uniform sampler2D cells;
+  uniform float offset;
+  uniform float level;
+  uniform float logScale;
+  uniform float opacity;
+
+  varying vec2 vUv;
+
+  vec3 ramp(float t) {
+    vec3 color = mix(vec3(0.0, 0.0, 0.04), vec3(0.02, 0.15, 0.55), smoothstep(0.0, 0.2, t));
+    color = mix(color, vec3(0.0, 0.75, 0.85), smoothstep(0.2, 0.5, t));
+    color = mix(color, vec3(1.0, 0.85, 0.1), smoothstep(0.5, 0.8, t));
+    return mix(color, vec3(1.0), smoothstep(0.8, 1.0, t));
+  }
+
+  void main() {
+    float size = texture2D(cells, vec2(fract(vUv.x + offset), vUv.y)).r;
+    float t = logScale > 0.5 ? log(1.0 + size) / log(1.0 + level) : size / level;
+    gl_FragColor = vec4(ramp(clamp(t, 0.0, 1.0)), opacity);
+  }
+`;
+
+/**
+ * Scrolling liquidity heatmap: time on X (newest at the right edge), price on
+ * Y, resting size as color. The history's cell buffer backs a float
+ * DataTexture directly, so a new slot costs one texture upload and scrolling
+ * is a uniform. Executed trades are overlaid as bubbles sized by quantity
+ * (cube root) and colored by aggressor. Used flat in the liquidity panel and
+ * as a textured plane in the 3D scene.
+ */
+export const LiquidityHeatmapPlane: React.FC<LiquidityHeatmapPlaneProps> = ({
+  history,
+  version,
+  width,
+  height,
+  position = [0, 0, 0],
+  rotation = [0, 0, 0],
+  settings,
+  trades,
+  buyColor,
+  sellColor,
+  labelColor,
+  formatPrice = price => price.toFixed(2),
+  opacity = 1,
+  maxBubbles = 400
+}) => {
+  const { scale, autoContrast, gain } = { ...DEFAULT_HEATMAP_SETTINGS, ...settings };
+  const bubblesRef = useRef<InstancedMesh>(null);
+  const buy = useMemo(() => new Color(buyColor), [buyColor]);
+  const sell = useMemo(() => new Color(sellColor), [sellColor]);
+
+  const texture = useMemo(() => {
+    const { columns, rows } = history.getOptions();
+    const dataTexture = new DataTexture(history.getCells(), columns, rows, RedFormat, FloatType);
+    dataTexture.magFilter = NearestFilter;
+    dataTexture.minFilter = NearestFilter;
+    dataTexture.needsUpdate = true;
+    return dataTexture;
+  }, [history]);
+
+  const material = useMemo(() => new ShaderMaterial({
+    uniforms: {
+      cells: { value: texture },
+      offset: { value: 0 },
+      level: { value: 1 },
+      logScale: { value: 1 },
+      opacity: { value: 1 }
+    },
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false
+  }), [texture]);
+
+  useEffect(() => () => {
+    texture.dispose();
+    material.dispose();
+  }, [texture, material]);
+
+  // Upload the new slot and scroll so the newest column sits at the right edge
+  useEffect(() => {
+    const { columns } = history.getOptions();
+    const contrast = autoContrast ? history.getContrastLevel() : history.getMaxSize();
+
+    texture.needsUpdate = true;
+    material.uniforms.offset.value = (history.getHead() + 1) / columns;
+    material.uniforms.level.value = Math.max(contrast / Math.max(gain, 0.01), 1e-9);
+    material.uniforms.logScale.value = scale === 'log' ? 1 : 0;
+    material.uniforms.opacity.value = opacity;
+  }, [history, version, texture, material, autoContrast, gain, scale, opacity]);
+
+  useEffect(() => {
+    const mesh = bubblesRef.current;
+    if (!mesh) return;
+
+    mesh.instanceMatrix.setUsage(DynamicDrawUsage);
+    mesh.instanceColor = new InstancedBufferAttribute(new Float32Array(maxBubbles * 3), 3);
+    mesh.instanceColor.setUsage(DynamicDrawUsage);
+    mesh.count = 0;
+  }, [maxBubbles]);
+
+  // Bubbles move with the slots, so they are placed once per slot rather than per frame
+  useEffect(() => {
+    const mesh = bubblesRef.current;
+    if (!mesh || !mesh.instanceColor) return;
+
+    const { start, end } = history.getTimeRange();
+    const { min, max } = history.getPriceRange();
+    const visible = (trades ?? [])
+      .filter(trade => trade.tradeTime >= start && trade.tradeTime <= end && trade.price >= min && trade.price <= max)
+      .slice(-maxBubbles);
+
+    let maxQuantity = 0;
+    visible.forEach(trade => { if (trade.quantity > maxQuantity) maxQuantity = trade.quantity; });
+
+    const matrices = mesh.instanceMatrix.array as Float32Array;
+    visible.forEach((trade, index) => {
+      const radius = height * (MIN_BUBBLE_FRACTION +
+        (MAX_BUBBLE_FRACTION - MIN_BUBBLE_FRACTION) * Math.cbrt(trade.quantity / (maxQuantity || 1)));
+      const color = trade.aggressor === 'buy' ? buy : sell;
+
+      const offset = index * 16;
+      matrices.fill(0, offset, offset + 16);
+      matrices[offset] = radius;
+      matrices[offset + 5] = radius;
+      matrices[offset + 10] = 1;
+      matrices[offset + 12] = ((trade.tradeTime - start) / (end - start) - 0.5) * width;
+      matrices[offset + 13] = ((trade.price - min) / (max - min || 1) - 0.5) * height;
+      matrices[offset + 14] = 0.01;
+      matrices[offset + 15] = 1;
+      mesh.instanceColor!.setXYZ(index, color.r, color.g, color.b);
+    });
+
+    mesh.count = visible.length;
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.instanceColor.needsUpdate = true;
+  }, [history, version, trades, maxBubbles, width, height, buy, sell]);
+
+  // Read on every render: the price range moves whenever the history re-centers
+  const priceRange = labelColor && history.getHead() >= 0 ? history.getPriceRange() : null;
+  const labels = priceRange && {
+    min: formatPrice(priceRange.min),
+    max: formatPrice(priceRange.max),
+    window: `-${history.getOptions().timeWindow / 60000}m`
+  };
+
+  const fontSize = height * 0.04;
+
+  return (
+    <group position={position} rotation={rotation}>
+      <mesh material={material}>
+        <planeGeometry args={[width, height]} />
+      </mesh>
+
+      <instancedMesh
+        key={maxBubbles}
+        ref={bubblesRef}
+        args={[undefined, undefined, maxBubbles]}
+        frustumCulled={false}
+      >
+        <circleGeometry args={[1, 16]} />
+        <meshBasicMaterial color="#ffffff" transparent opacity={0.8} depthWrite={false} />
+      </instancedMesh>
+
+      {labels && (
+        <>
+          <Text position={[-width / 2 - 0.2, height / 2, 0]} fontSize={fontSize} color={labelColor} anchorX="right" anchorY="top">
+            {labels.max}
+          </Text>
+          <Text position={[-width / 2 - 0.2, -height / 2, 0]} fontSize={fontSize} color={labelColor} anchorX="right" anchorY="bottom">
+            {labels.min}
+          </Text>
+          <Text position={[-width / 2, -height / 2 - 0.2, 0]} fontSize={fontSize} color={labelColor} anchorX="left" anchorY="top">
+            {labels.window}
+          </Text>
+          <Text position={[width / 2, -height / 2 - 0.2, 0]} fontSize={fontSize} color={labelColor} anchorX="right" anchorY="top">
+            now
+          </Text>
+        </>
+      )}
+    </group>
+  );
+};
+
+export default LiquidityHeatmapPlane;
@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import { DoubleSide } from 'three';
+
+export interface ImpactBox {
+  key: string;
+  x: number;
+  z: number;
+  height: number; // Full bar height
+  filledHeight: number; // Portion of the bar the order would take
+}
+
+interface MarketImpactOverlayProps {
+  boxes: ImpactBox[];
+  vwapX?: number | null; // Scene X of the average fill price
+  depth: number; // Z extent of the VWAP marker
+  color?: string;
+  maxBoxes?: number;
+}
+
+/**
+ * Highlights the bars a hypothetical market order would consume: a solid
+ * sleeve over the filled part of each level, an outline of the whole bar,
+ * and a translucent plane at the VWAP.
+ */
+export const MarketImpactOverlay: React.FC<MarketImpactOverlayProps> = ({
+  boxes,
+  vwapX,
+  depth,
+  color = '#facc15',
+  maxBoxes = 200
+}) => {
+  return (
+    <group>
+      {boxes.slice(0, maxBoxes).map(box => (
+        <group key={box.key} position={[box.x, 0, box.z]}>
+          <mesh position={[0, box.filledHeight / 2, 0]}>
+            <boxGeometry args={[0.5, Math.max(box.filledHeight, 0.01), 0.5]} />
+            <meshBasicMaterial color={color} transparent opacity={0.45} depthWrite={false} />
+          </mesh>
+          <mesh position={[0, box.height / 2, 0]}>
+            <boxGeometry args={[0.5, Math.max(box.height, 0.01), 0.5]} />
+            <meshBasicMaterial color={color} wireframe />
+          </mesh>
+        </group>
+      ))}
+
+      {vwapX !== null && vwapX !== undefined && (
+        <mesh position={[vwapX, 4, 0]} rotation={[0, Math.PI / 2, 0]}>
+          <planeGeometry args={[depth, 8]} />
+          <meshBasicMaterial color={color} transparent opacity={0.15} side={DoubleSide} depthWrite={false} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+export default MarketImpactOverlay;
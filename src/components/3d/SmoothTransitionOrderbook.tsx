@@ -1,14 +1,24 @@
 'use client';
 
-import React, { useRef, useMemo, useEffect, useState } from 'react';
+import React, { useRef, useMemo, useEffect, useState, useCallback } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Group, Vector3 } from 'three';
+import { Group } from 'three';
 import { Text } from '@react-three/drei';
-import { ProcessedOrderbookData, PressureZone } from '@/types/orderbook';
+import { ProcessedOrderbookData, PressureZone, VenueConfig, OrderbookEntry, TradeEvent } from '@/types/orderbook';
 import PressureZoneVisualization from './PressureZoneVisualization';
 import PressureHeatmap from './PressureHeatmap';
+import DepthHistorySurface from './DepthHistorySurface';
+import InstancedOrderbookBars, { InstancedBarLevel } from './InstancedOrderbookBars';
+import TradePrints from './TradePrints';
+import MarketImpactOverlay, { ImpactBox } from './MarketImpactOverlay';
+import TimeCursor from './TimeCursor';
+import LiquidityHeatmapPlane from './LiquidityHeatmapPlane';
 import { PressureZoneAnalyzer } from '@/services/pressureZoneAnalyzer';
+import { symbolRegistry } from '@/services/symbolRegistry';
+import { MarketImpactResult } from '@/services/marketImpactCalculator';
+import { LiquidityHeatmapHistory, LiquidityHeatmapSettings } from '@/services/liquidityHeatmap';
 import { useTheme3D } from '@/hooks/useTheme3D';
+import { getMidPrice, toBasisPoints, withBasisPointWindow } from '@/utils/basisPoints';
 
 interface SmoothTransitionOrderbookProps {
   data: ProcessedOrderbookData;
@@ -23,17 +33,18 @@ interface SmoothTransitionOrderbookProps {
   rotationSpeed?: number;
   rotationAxis?: 'x' | 'y' | 'z';
   cameraReset?: number;
-}
-
-interface AnimatedBarData {
-  price: number;
-  targetQuantity: number;
-  currentQuantity: number;
-  targetPosition: Vector3;
-  currentPosition: Vector3;
-  type: 'bid' | 'ask';
-  isNew: boolean;
-  isRemoving: boolean;
+  venues?: VenueConfig[]; // Colors bars by originating venue when entries carry one
+  historyLength?: number; // Past book states kept for the depth history surface
+  externalPressureZones?: PressureZone[] | null; // Zones analyzed by the caller; skips the local analysis
+  symbol?: string; // Drives label precision and analyzer thresholds
+  priceWindowBps?: number; // Centers the price axis on mid, spanning +/- this many basis points
+  trades?: TradeEvent[]; // Recent prints, drawn as spheres receding with the depth history
+  showTrades?: boolean;
+  marketImpact?: MarketImpactResult | null; // Highlights the levels a hypothetical market order would consume
+  hoverTime?: number | null; // Time marked on the history axis, shared with the metrics charts
+  onHoverTime?: (time: number | null) => void; // Reports the time under the pointer on the history axis
+  referenceTime?: number; // Clock for the front of the history axis; wall time when omitted
+  liquidityHeatmap?: { history: LiquidityHeatmapHistory; version: number; settings: LiquidityHeatmapSettings } | null; // Drawn as a wall behind the depth history
 }
 
 export const SmoothTransitionOrderbook: React.FC<SmoothTransitionOrderbookProps> = ({ 
@@ -48,18 +59,29 @@ export const SmoothTransitionOrderbook: React.FC<SmoothTransitionOrderbookProps>
   showAxisLabels = true,
   rotationSpeed = 0.5,
   rotationAxis = 'z',
-  cameraReset = 0
+  cameraReset = 0,
+  venues = [],
+  historyLength = 120,
+  externalPressureZones,
+  symbol = 'BTCUSDT',
+  priceWindowBps,
+  trades,
+  showTrades = true,
+  marketImpact,
+  hoverTime = null,
+  onHoverTime,
+  referenceTime,
+  liquidityHeatmap
 }) => {
   const groupRef = useRef<Group>(null);
-  const [animatedBars, setAnimatedBars] = useState<AnimatedBarData[]>([]);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [pressureZones, setPressureZones] = useState<PressureZone[]>([]);
-  const lastDataRef = useRef<ProcessedOrderbookData | null>(null);
   const transitionStartTimeRef = useRef<number>(0);
-  const pressureAnalyzerRef = useRef(new PressureZoneAnalyzer());
+  const pressureAnalyzerRef = useRef(new PressureZoneAnalyzer(symbol));
   
   // Get theme colors for 3D components
   const themeColors = useTheme3D();
+  const formatPrice = useCallback((price: number) => symbolRegistry.formatPrice(symbol, price), [symbol]);
   
   // Handle camera reset
   useEffect(() => {
@@ -70,7 +92,7 @@ export const SmoothTransitionOrderbook: React.FC<SmoothTransitionOrderbookProps>
   }, [cameraReset]);
   
   // Auto-rotation that continues smoothly during data updates
-  useFrame((state) => {
+  useFrame(() => {
     if (groupRef.current) {
       // Only rotate if rotationSpeed > 0 (manual control takes priority over autoRotate)
       if (rotationSpeed > 0) {
@@ -91,158 +113,146 @@ export const SmoothTransitionOrderbook: React.FC<SmoothTransitionOrderbookProps>
       }
     }
     
-    // Handle smooth transitions
+    // Bars animate inside InstancedOrderbookBars; this only tracks the status label
     if (isTransitioning) {
-      const elapsed = state.clock.elapsedTime - transitionStartTimeRef.current;
-      const progress = Math.min(elapsed / transitionDuration, 1);
-      
-      // Use easing function for smooth transitions
-      const easedProgress = easeInOutCubic(progress);
-      
-      setAnimatedBars(prevBars => 
-        prevBars.map(bar => ({
-          ...bar,
-          currentQuantity: lerp(bar.currentQuantity, bar.targetQuantity, easedProgress),
-          currentPosition: new Vector3().lerpVectors(bar.currentPosition, bar.targetPosition, easedProgress)
-        }))
-      );
-      
-      if (progress >= 1) {
+      const elapsed = performance.now() / 1000 - transitionStartTimeRef.current;
+      if (elapsed >= transitionDuration) {
         setIsTransitioning(false);
       }
     }
   });
 
-  // Process data changes and initiate smooth transitions
+  // Start the status transition and refresh pressure zones on each data change
   useEffect(() => {
     if (!data || !data.bids.length || !data.asks.length) return;
     
-    const newAnimatedBars: AnimatedBarData[] = [];
-    
-    // Process bids (negative Z for front positioning)
-    data.bids.forEach((bid, index) => {
-      const x = normalizePrice(bid.price, data.priceRange);
-      const y = normalizeQuantity(bid.quantity, data.maxQuantity) / 2;
-      const z = -timeDepth / 4 + (index / data.bids.length) * (timeDepth / 2); // Front half
-      
-      const targetPosition = new Vector3(x, y, z);
-      
-      // Check if this bar existed in previous data
-      const existingBar = lastDataRef.current?.bids.find(prevBid => prevBid.price === bid.price);
-      
-      newAnimatedBars.push({
-        price: bid.price,
-        targetQuantity: bid.quantity,
-        currentQuantity: existingBar?.quantity || 0,
-        targetPosition,
-        currentPosition: existingBar ? targetPosition.clone() : new Vector3(x, 0, z),
-        type: 'bid',
-        isNew: !existingBar,
-        isRemoving: false
-      });
-    });
-    
-    // Process asks (positive Z for back positioning)
-    data.asks.forEach((ask, index) => {
-      const x = normalizePrice(ask.price, data.priceRange);
-      const y = normalizeQuantity(ask.quantity, data.maxQuantity) / 2;
-      const z = timeDepth / 4 + (index / data.asks.length) * (timeDepth / 2); // Back half
-      const targetPosition = new Vector3(x, y, z);
-      
-      // Check if this bar existed in previous data
-      const existingBar = lastDataRef.current?.asks.find(prevAsk => prevAsk.price === ask.price);
-      
-      newAnimatedBars.push({
-        price: ask.price,
-        targetQuantity: ask.quantity,
-        currentQuantity: existingBar?.quantity || 0,
-        targetPosition,
-        currentPosition: existingBar ? targetPosition.clone() : new Vector3(x, 0, z),
-        type: 'ask',
-        isNew: !existingBar,
-        isRemoving: false
-      });
-    });
-    
-    // Add removing bars (bars that existed before but are no longer in new data)
-    if (lastDataRef.current) {
-      lastDataRef.current.bids.forEach((prevBid, index) => {
-        if (!data.bids.find(bid => bid.price === prevBid.price)) {
-          const x = normalizePrice(prevBid.price, data.priceRange);
-          const z = (index / lastDataRef.current!.bids.length) * timeDepth - timeDepth / 2;
-          
-          newAnimatedBars.push({
-            price: prevBid.price,
-            targetQuantity: 0,
-            currentQuantity: prevBid.quantity,
-            targetPosition: new Vector3(x, 0, z),
-            currentPosition: new Vector3(x, normalizeQuantity(prevBid.quantity, data.maxQuantity) / 2, z),
-            type: 'bid',
-            isNew: false,
-            isRemoving: true
-          });
-        }
-      });
-      
-      lastDataRef.current.asks.forEach((prevAsk, index) => {
-        if (!data.asks.find(ask => ask.price === prevAsk.price)) {
-          const x = normalizePrice(prevAsk.price, data.priceRange);
-          const z = (index / lastDataRef.current!.asks.length) * timeDepth - timeDepth / 2;
-          
-          newAnimatedBars.push({
-            price: prevAsk.price,
-            targetQuantity: 0,
-            currentQuantity: prevAsk.quantity,
-            targetPosition: new Vector3(x, 0, z),
-            currentPosition: new Vector3(x, normalizeQuantity(prevAsk.quantity, data.maxQuantity) / 2, z),
-            type: 'ask',
-            isNew: false,
-            isRemoving: true
-          });
-        }
-      });
-    }
-    
-    setAnimatedBars(newAnimatedBars);
     setIsTransitioning(true);
     transitionStartTimeRef.current = performance.now() / 1000;
-    lastDataRef.current = data;
     
-    // Analyze pressure zones if enabled
-    if (showPressureZones) {
+    // Analyze pressure zones if enabled and the caller doesn't supply them
+    if (showPressureZones && externalPressureZones === undefined) {
+      pressureAnalyzerRef.current.setSymbol(symbol);
       const analysis = pressureAnalyzerRef.current.analyzePressureZones(data);
       setPressureZones(analysis.zones);
     }
-  }, [data, timeDepth, showPressureZones]);
+  }, [data, showPressureZones, externalPressureZones, symbol]);
 
-  const { priceRange, maxQuantity } = useMemo(() => {
-    if (!data || !data.bids.length || !data.asks.length) {
-      return { priceRange: { min: 0, max: 1 }, maxQuantity: 1 };
+  useEffect(() => {
+    if (externalPressureZones !== undefined) {
+      setPressureZones(externalPressureZones ?? []);
     }
-    return { priceRange: data.priceRange, maxQuantity: data.maxQuantity };
-  }, [data]);
+  }, [externalPressureZones]);
 
-  // Normalize coordinates for 3D space
-  const normalizePrice = (price: number, range: { min: number; max: number }) => {
-    return ((price - range.min) / (range.max - range.min)) * 20 - 10; // X-axis: -10 to +10
-  };
+  // Rendered book: the full view, or a fixed basis-point window around mid
+  const viewData = useMemo(() => {
+    if (!data || !priceWindowBps) return data;
+    return withBasisPointWindow(data, priceWindowBps);
+  }, [data, priceWindowBps]);
 
-  const normalizeQuantity = (quantity: number, maxQty: number) => {
-    return (quantity / maxQty) * 8; // Y-axis: 0 to 8
-  };
+  const priceRange = useMemo(() => {
+    if (!viewData || !viewData.bids.length || !viewData.asks.length) {
+      return { min: 0, max: 1 };
+    }
+    return viewData.priceRange;
+  }, [viewData]);
+
+  // A basis-point window can leave zones off the axis
+  const visibleZones = useMemo(() => {
+    if (!priceWindowBps) return pressureZones;
+    return pressureZones.filter(zone => zone.centerPrice >= priceRange.min && zone.centerPrice <= priceRange.max);
+  }, [pressureZones, priceWindowBps, priceRange]);
 
   // Generate price tick marks
   const generatePriceTicks = () => {
     const tickCount = 10;
     const step = (priceRange.max - priceRange.min) / tickCount;
+    const mid = priceWindowBps ? getMidPrice(viewData) : null;
+
+    if (mid !== null) {
+      const stepBps = (priceWindowBps! * 2) / tickCount;
+      return Array.from({ length: tickCount + 1 }, (_, i) => {
+        const bps = toBasisPoints(priceRange.min + i * step, mid);
+        return {
+          label: `${bps > 0 ? '+' : ''}${bps.toFixed(stepBps >= 1 ? 0 : 1)}bp`,
+          position: normalizePrice(priceRange.min + i * step, priceRange)
+        };
+      });
+    }
+
+    // Enough decimals to tell ticks apart, but never finer than the symbol's tick size
+    const decimals = step > 0
+      ? Math.min(Math.max(Math.ceil(-Math.log10(step)), 0), symbolRegistry.get(symbol).pricePrecision)
+      : 0;
     return Array.from({ length: tickCount + 1 }, (_, i) => ({
-      price: priceRange.min + i * step,
+      label: `$${(priceRange.min + i * step).toFixed(decimals)}`,
       position: normalizePrice(priceRange.min + i * step, priceRange)
     }));
   };
 
   const priceTicks = generatePriceTicks();
 
+  const venueColors = useMemo(() => {
+    const colors = new Map<string, string>();
+    venues.forEach(venue => colors.set(venue.id, venue.color));
+    return colors;
+  }, [venues]);
+
+  // Bids fill the front half of the Z range and asks the back half, best levels first
+  const barLevels = useMemo<InstancedBarLevel[]>(() => {
+    if (!viewData || !viewData.bids.length || !viewData.asks.length) return [];
+
+    const toLevels = (entries: OrderbookEntry[], type: 'bid' | 'ask', zStart: number): InstancedBarLevel[] => {
+      const sideColor = type === 'bid' ? themeColors.bidColor : themeColors.askColor;
+      return entries.map((entry, index) => ({
+        key: `${type}:${entry.venue ?? ''}:${entry.price}`,
+        x: normalizePrice(entry.price, viewData.priceRange),
+        z: zStart + (index / entries.length) * (timeDepth / 2),
+        height: normalizeQuantity(entry.quantity, viewData.maxQuantity),
+        // Venue color when the entry carries one, otherwise the side color
+        color: (entry.venue && venueColors.get(entry.venue)) || sideColor
+      }));
+    };
+
+    const bids = toLevels(viewData.bids, 'bid', -timeDepth / 4);
+    const asks = toLevels(viewData.asks, 'ask', timeDepth / 4);
+
+    // Interleave so truncation to the instance capacity keeps levels nearest the spread
+    const levels: InstancedBarLevel[] = [];
+    for (let i = 0; i < Math.max(bids.length, asks.length); i++) {
+      if (i < bids.length) levels.push(bids[i]);
+      if (i < asks.length) levels.push(asks[i]);
+    }
+    return levels;
+  }, [viewData, timeDepth, venueColors, themeColors]);
+
+  // Consumed levels that are on screen, matched to their bars by key
+  const impactBoxes = useMemo<ImpactBox[]>(() => {
+    if (!marketImpact || marketImpact.consumed.length === 0) return [];
+
+    const type = marketImpact.order.side === 'buy' ? 'ask' : 'bid';
+    const barsByKey = new Map(barLevels.map(level => [level.key, level]));
+    const boxes: ImpactBox[] = [];
+
+    marketImpact.consumed.forEach(level => {
+      const bar = barsByKey.get(`${type}:${level.venue ?? ''}:${level.price}`);
+      if (!bar) return;
+
+      boxes.push({
+        key: bar.key,
+        x: bar.x,
+        z: bar.z,
+        height: bar.height,
+        filledHeight: level.levelQuantity > 0 ? bar.height * (level.filledQuantity / level.levelQuantity) : 0
+      });
+    });
+    return boxes;
+  }, [marketImpact, barLevels]);
+
+  const impactVwap = marketImpact?.vwap ?? null;
+  const impactVwapX = impactVwap !== null && impactVwap >= priceRange.min && impactVwap <= priceRange.max
+    ? normalizePrice(impactVwap, priceRange)
+    : null;
+
   return (
     <group ref={groupRef}>
       {/* Enhanced 3D Axes */}
@@ -265,7 +275,7 @@ export const SmoothTransitionOrderbook: React.FC<SmoothTransitionOrderbookProps>
             anchorX="center"
             anchorY="top"
           >
-            ${tick.price.toFixed(0)}
+            {tick.label}
           </Text>
         </group>
       ))}
@@ -281,7 +291,7 @@ export const SmoothTransitionOrderbook: React.FC<SmoothTransitionOrderbookProps>
             anchorY="middle"
             rotation={[0, 0, 0]}
           >
-            Price ($)
+            {priceWindowBps ? 'Price (bp from mid)' : 'Price ($)'}
           </Text>
           
           <Text
@@ -309,35 +319,80 @@ export const SmoothTransitionOrderbook: React.FC<SmoothTransitionOrderbookProps>
       )}
 
       {/* Animated Order Bars with Smooth Transitions */}
-      {animatedBars.filter(bar => bar.currentQuantity > 0).map((bar, index) => {
-        const height = normalizeQuantity(bar.currentQuantity, maxQuantity);
-        const color = bar.type === 'bid' ? themeColors.bidColor : themeColors.askColor;
-        const emissiveColor = bar.type === 'bid' ? 
-          (themeColors.bidColor + '40') : // Add some transparency
-          (themeColors.askColor + '40');
-        const opacity = bar.isRemoving ? 0.3 : (bar.isNew ? 0.7 : 0.9);
-        
-        return (
-          <mesh 
-            key={`${bar.type}-${bar.price}-${index}`} 
-            position={[bar.currentPosition.x, bar.currentPosition.y, bar.currentPosition.z]}
-          >
-            <boxGeometry args={[0.4, height, 0.4]} />
-            <meshPhongMaterial 
-              color={color} 
-              transparent 
-              opacity={opacity}
-              emissive={emissiveColor}
-              emissiveIntensity={0.1}
-            />
-          </mesh>
-        );
-      })}
+      <InstancedOrderbookBars
+        levels={barLevels}
+        transitionDuration={transitionDuration}
+      />
+      
+      {/* Market Impact - bars a hypothetical order would consume */}
+      {impactBoxes.length > 0 && (
+        <MarketImpactOverlay
+          boxes={impactBoxes}
+          vwapX={impactVwapX}
+          depth={timeDepth}
+        />
+      )}
+      
+      {/* Depth History Surface - past book states recede along Z behind the bars */}
+      {showDepthSurface && (
+        <DepthHistorySurface
+          data={viewData}
+          historyLength={historyLength}
+          frontZ={-timeDepth / 2}
+          depth={timeDepth * 2}
+          bidColor={themeColors.bidColor}
+          askColor={themeColors.askColor}
+        />
+      )}
+      
+      {/* Trade Prints - same time axis as the depth history (250ms per slice) */}
+      {showTrades && trades && trades.length > 0 && (
+        <TradePrints
+          trades={trades}
+          priceRange={priceRange}
+          frontZ={-timeDepth / 2}
+          depth={timeDepth * 2}
+          timeWindow={historyLength * 250}
+          buyColor={themeColors.bidColor}
+          sellColor={themeColors.askColor}
+        />
+      )}
+      
+      {/* Liquidity Heatmap - resting size over time, standing behind the end of the history axis */}
+      {liquidityHeatmap && (
+        <LiquidityHeatmapPlane
+          history={liquidityHeatmap.history}
+          version={liquidityHeatmap.version}
+          settings={liquidityHeatmap.settings}
+          width={20}
+          height={10}
+          position={[0, 5, -timeDepth / 2 - timeDepth * 2 - 1]}
+          trades={trades}
+          buyColor={themeColors.bidColor}
+          sellColor={themeColors.askColor}
+          labelColor={showAxisLabels ? themeColors.text : undefined}
+          formatPrice={formatPrice}
+          opacity={0.9}
+        />
+      )}
+      
+      {/* Time Cursor - links the history axis to the metrics charts */}
+      {(onHoverTime || hoverTime !== null) && (
+        <TimeCursor
+          hoverTime={hoverTime}
+          onHoverTime={onHoverTime}
+          frontZ={-timeDepth / 2}
+          depth={timeDepth * 2}
+          timeWindow={historyLength * 250}
+          referenceTime={referenceTime}
+          color={themeColors.text}
+        />
+      )}
       
       {/* Pressure Zone Visualization */}
-      {showPressureZones && pressureZones.length > 0 && (
+      {showPressureZones && visibleZones.length > 0 && (
         <PressureZoneVisualization
-          pressureZones={pressureZones}
+          pressureZones={visibleZones}
           maxPrice={priceRange.max}
           minPrice={priceRange.min}
           showHeatmap={showHeatmap}
@@ -346,9 +401,9 @@ export const SmoothTransitionOrderbook: React.FC<SmoothTransitionOrderbookProps>
       )}
       
       {/* Pressure Heatmap Overlay - Enhanced for better visibility */}
-      {showHeatmap && pressureZones.length > 0 && (
+      {showHeatmap && visibleZones.length > 0 && (
         <PressureHeatmap
-          pressureZones={pressureZones}
+          pressureZones={visibleZones}
           maxPrice={priceRange.max}
           minPrice={priceRange.min}
           width={22} // Slightly larger for better coverage
@@ -385,13 +440,13 @@ export const SmoothTransitionOrderbook: React.FC<SmoothTransitionOrderbookProps>
   );
 };
 
-// Utility functions for smooth animations
-function lerp(start: number, end: number, factor: number): number {
-  return start + (end - start) * factor;
+// Normalize coordinates for 3D space
+function normalizePrice(price: number, range: { min: number; max: number }): number {
+  return ((price - range.min) / (range.max - range.min)) * 20 - 10; // X-axis: -10 to +10
 }
 
-function easeInOutCubic(t: number): number {
-  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+function normalizeQuantity(quantity: number, maxQty: number): number {
+  return (quantity / maxQty) * 8; // Y-axis: 0 to 8
 }
 
 export default SmoothTransitionOrderbook;
@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { Vector3 } from 'three';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+
+/**
+ * Camera pose shared by several canvases. Whichever pane the user drags
+ * publishes its pose; the others copy it on their next frame.
+ */
+export interface CameraSync {
+  position: Vector3;
+  target: Vector3;
+  version: number; // Bumped on every published change
+  source: string | null; // Pane that published the current pose
+}
+
+export function createCameraSync(position: [number, number, number] = [15, 15, 15]): CameraSync {
+  return {
+    position: new Vector3(...position),
+    target: new Vector3(0, 0, 0),
+    version: 0,
+    source: null
+  };
+}
+
+interface SyncedOrbitControlsProps {
+  sync: CameraSync;
+  paneId: string;
+  enabled?: boolean; // When false the pane's camera moves independently
+  minDistance?: number;
+  maxDistance?: number;
+}
+
+export const SyncedOrbitControls: React.FC<SyncedOrbitControlsProps> = ({
+  sync,
+  paneId,
+  enabled = true,
+  minDistance = 2,
+  maxDistance = 100
+}) => {
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+  const appliedVersionRef = useRef<number>(-1);
+  const applyingRef = useRef<boolean>(false);
+  const camera = useThree(state => state.camera);
+
+  // Follow poses published by other panes
+  useFrame(() => {
+    const controls = controlsRef.current;
+    if (!enabled || !controls || appliedVersionRef.current === sync.version) return;
+
+    appliedVersionRef.current = sync.version;
+    if (sync.source === paneId) return;
+
+    applyingRef.current = true;
+    camera.position.copy(sync.position);
+    controls.target.copy(sync.target);
+    controls.update();
+    applyingRef.current = false;
+  });
+
+  const handleChange = () => {
+    const controls = controlsRef.current;
+    if (!enabled || !controls || applyingRef.current) return;
+
+    sync.position.copy(camera.position);
+    sync.target.copy(controls.target);
+    sync.version++;
+    sync.source = paneId;
+    appliedVersionRef.current = sync.version;
+  };
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      onChange={handleChange}
+      enablePan={true}
+      enableZoom={true}
+      enableRotate={true}
+      // Damping would keep followers publishing their own settling motion
+      enableDamping={false}
+      screenSpacePanning={false}
+      minDistance={minDistance}
+      maxDistance={maxDistance}
+      maxPolarAngle={Math.PI}
+    />
+  );
+};
+
+export default SyncedOrbitControls;
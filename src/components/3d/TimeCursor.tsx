@@ -0,0 +1,77 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { DoubleSide, Group, Mesh } from 'three';
+
+interface TimeCursorProps {
+  hoverTime: number | null; // Time to mark, from this scene or a linked chart
+  onHoverTime?: (time: number | null) => void;
+  frontZ?: number; // Z of the current moment
+  depth?: number; // Z distance covered by `timeWindow`
+  timeWindow?: number; // Milliseconds represented by `depth`
+  referenceTime?: number; // Clock for the front slice; wall time when omitted
+  color?: string;
+}
+
+// Matches the X (-10..10) and Y (0..8) scaling used for the bars
+const X_EXTENT = 20;
+const MAX_HEIGHT = 8;
+
+/**
+ * Links the scene's time axis to a time cursor. An invisible floor over the
+ * depth history converts hovered Z back to a timestamp, and a translucent
+ * slice marks `hoverTime`, drifting back with the history as time passes.
+ */
+export const TimeCursor: React.FC<TimeCursorProps> = ({
+  hoverTime,
+  onHoverTime,
+  frontZ = 0,
+  depth = 20,
+  timeWindow = 30000,
+  referenceTime,
+  color = '#ffffff'
+}) => {
+  const groupRef = useRef<Group>(null);
+  const sliceRef = useRef<Mesh>(null);
+
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    if (!onHoverTime || !groupRef.current) return;
+    // Back into this component's frame, undoing any rotation of the scene
+    const local = groupRef.current.worldToLocal(event.point.clone());
+    const age = ((frontZ - local.z) / depth) * timeWindow;
+    onHoverTime((referenceTime ?? Date.now()) - Math.min(Math.max(age, 0), timeWindow));
+  };
+
+  useFrame(() => {
+    const slice = sliceRef.current;
+    if (!slice) return;
+
+    const age = hoverTime !== null ? (referenceTime ?? Date.now()) - hoverTime : -1;
+    slice.visible = age >= 0 && age <= timeWindow;
+    slice.position.z = frontZ - (age / timeWindow) * depth;
+  });
+
+  return (
+    <group ref={groupRef}>
+      {onHoverTime && (
+        <mesh
+          position={[0, 0, frontZ - depth / 2]}
+          rotation={[-Math.PI / 2, 0, 0]}
+          onPointerMove={handlePointerMove}
+          onPointerOut={() => onHoverTime(null)}
+        >
+          <planeGeometry args={[X_EXTENT, depth]} />
+          <meshBasicMaterial transparent opacity={0} depthWrite={false} side={DoubleSide} />
+        </mesh>
+      )}
+
+      <mesh ref={sliceRef} position={[0, MAX_HEIGHT / 2, frontZ]} visible={false}>
+        <planeGeometry args={[X_EXTENT, MAX_HEIGHT]} />
+        <meshBasicMaterial color={color} transparent opacity={0.12} side={DoubleSide} depthWrite={false} />
+      </mesh>
+    </group>
+  );
+};
+
+export default TimeCursor;
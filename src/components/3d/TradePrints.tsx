@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Color, DynamicDrawUsage, InstancedBufferAttribute, InstancedMesh } from 'three';
+import { TradeEvent } from '@/types/orderbook';
+
+interface TradePrintsProps {
+  trades: TradeEvent[]; // Oldest first; only the newest `maxPrints` are drawn
+  priceRange: { min: number; max: number };
+  frontZ?: number; // Z of a print at the moment it trades
+  depth?: number; // Z distance a print travels before it expires
+  timeWindow?: number; // Milliseconds a print stays visible
+  buyColor: string;
+  sellColor: string;
+  maxPrints?: number;
+}
+
+// Matches the X (-10..10) scaling used for the bars
+const X_EXTENT = 20;
+const MIN_RADIUS = 0.08;
+const MAX_RADIUS = 0.6;
+
+/**
+ * Executed trades as spheres at their price, drifting back along Z with age
+ * like the depth history surface, so prints line up with the book state they
+ * traded against. Radius grows with quantity (cube root, so volume tracks
+ * size); color is the aggressor side. Prints shrink away over the last fifth
+ * of the window.
+ */
+export const TradePrints: React.FC<TradePrintsProps> = ({
+  trades,
+  priceRange,
+  frontZ = 0,
+  depth = 20,
+  timeWindow = 30000,
+  buyColor,
+  sellColor,
+  maxPrints = 500
+}) => {
+  const meshRef = useRef<InstancedMesh>(null);
+  const buy = useMemo(() => new Color(buyColor), [buyColor]);
+  const sell = useMemo(() => new Color(sellColor), [sellColor]);
+
+  const visible = useMemo(
+    () => (trades.length > maxPrints ? trades.slice(-maxPrints) : trades),
+    [trades, maxPrints]
+  );
+
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    mesh.instanceMatrix.setUsage(DynamicDrawUsage);
+    mesh.instanceColor = new InstancedBufferAttribute(new Float32Array(maxPrints * 3), 3);
+    mesh.instanceColor.setUsage(DynamicDrawUsage);
+    mesh.count = 0;
+  }, [maxPrints]);
+
+  // Colors only change with the trade set
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh || !mesh.instanceColor) return;
+
+    visible.forEach((trade, index) => {
+      const color = trade.aggressor === 'buy' ? buy : sell;
+      mesh.instanceColor!.setXYZ(index, color.r, color.g, color.b);
+    });
+    mesh.instanceColor.needsUpdate = true;
+    mesh.count = visible.length;
+  }, [visible, buy, sell]);
+
+  // Positions and sizes age every frame
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh || visible.length === 0) return;
+
+    const now = Date.now();
+    const range = priceRange.max - priceRange.min || 1;
+    let maxQuantity = 0;
+    visible.forEach(trade => { if (trade.quantity > maxQuantity) maxQuantity = trade.quantity; });
+
+    const matrices = mesh.instanceMatrix.array as Float32Array;
+    visible.forEach((trade, index) => {
+      const age = Math.max(now - trade.tradeTime, 0) / timeWindow;
+      const inRange = trade.price >= priceRange.min && trade.price <= priceRange.max;
+      const fade = age < 0.8 ? 1 : Math.max(0, (1 - age) / 0.2);
+      const radius = inRange && age < 1
+        ? (MIN_RADIUS + (MAX_RADIUS - MIN_RADIUS) * Math.cbrt(trade.quantity / (maxQuantity || 1))) * fade
+        : 0;
+
+      const offset = index * 16;
+      matrices.fill(0, offset, offset + 16);
+      matrices[offset] = radius;
+      matrices[offset + 5] = radius;
+      matrices[offset + 10] = radius;
+      matrices[offset + 12] = ((trade.price - priceRange.min) / range) * X_EXTENT - X_EXTENT / 2;
+      matrices[offset + 13] = radius;
+      matrices[offset + 14] = frontZ - Math.min(age, 1) * depth;
+      matrices[offset + 15] = 1;
+    });
+
+    mesh.instanceMatrix.clearUpdateRanges();
+    mesh.instanceMatrix.addUpdateRange(0, visible.length * 16);
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh
+      key={maxPrints}
+      ref={meshRef}
+      args={[undefined, undefined, maxPrints]}
+      frustumCulled={false}
+    >
+      <sphereGeometry args={[1, 12, 8]} />
+      <meshPhongMaterial color="#ffffff" transparent opacity={0.85} />
+    </instancedMesh>
+  );
+};
+
+export default TradePrints;
@@ -0,0 +1,282 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  AlertRule,
+  RuleCondition,
+  RuleMetric,
+  RuleOperator,
+  RuleSeverity,
+  RULE_METRICS,
+  createRuleId,
+  describeCondition,
+  validateRule
+} from '@/services/alertRules';
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  symbol: string;
+  onAdd: (rule: AlertRule) => void;
+  onUpdate: (rule: AlertRule) => void;
+  onRemove: (id: string) => void;
+  onImport: (text: string) => number;
+  onExport: () => string;
+  className?: string;
+}
+
+type EditableCondition = Exclude<RuleCondition, { kind: 'group' }>;
+
+const emptyThreshold = (): EditableCondition => ({ kind: 'threshold', metric: 'spread_bps', operator: '>', value: 5 });
+
+const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({
+  rules,
+  symbol,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onImport,
+  onExport,
+  className = ''
+}) => {
+  const [name, setName] = useState('');
+  const [severity, setSeverity] = useState<RuleSeverity>('medium');
+  const [logic, setLogic] = useState<'and' | 'or'>('and');
+  const [cooldownSeconds, setCooldownSeconds] = useState(60);
+  const [symbolOnly, setSymbolOnly] = useState(true);
+  const [conditions, setConditions] = useState<EditableCondition[]>([emptyThreshold()]);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const updateCondition = (index: number, condition: EditableCondition) => {
+    setConditions(prev => prev.map((existing, i) => (i === index ? condition : existing)));
+  };
+
+  const handleAdd = () => {
+    try {
+      onAdd(validateRule({
+        id: createRuleId(),
+        name,
+        enabled: true,
+        symbol: symbolOnly ? symbol : undefined,
+        logic,
+        conditions,
+        cooldownMs: cooldownSeconds * 1000,
+        severity
+      }));
+      setName('');
+      setConditions([emptyThreshold()]);
+      setMessage(null);
+    } catch (e) {
+      setMessage({ text: (e as Error).message, error: true });
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const count = onImport(await file.text());
+      setMessage({ text: `Imported ${count} rule${count === 1 ? '' : 's'}`, error: false });
+    } catch (e) {
+      setMessage({ text: `Import failed: ${(e as Error).message}`, error: true });
+    }
+    event.target.value = '';
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([onExport()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `alert-rules-${new Date().toISOString()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClass = 'px-2 py-1 bg-background border border-border rounded text-foreground';
+
+  return (
+    <div className={`bg-card border border-border rounded-lg p-3 space-y-3 text-sm ${className}`}>
+      {/* Rules Header */}
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-foreground">Alert Rules</span>
+        <div className="flex gap-1 text-xs">
+          <label className="px-2 py-1 rounded bg-muted text-muted-foreground hover:bg-accent cursor-pointer">
+            Import
+            <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={rules.length === 0}
+            className="px-2 py-1 rounded bg-muted text-muted-foreground hover:bg-accent disabled:opacity-50"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+
+      {/* Rule List */}
+      {rules.length === 0 ? (
+        <div className="text-xs text-muted-foreground">No rules yet. Rules are saved in this browser.</div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div key={rule.id} className="p-2 rounded border border-border text-xs space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-1 font-medium text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => onUpdate({ ...rule, enabled: e.target.checked })}
+                    className="rounded"
+                  />
+                  <span>{rule.name}</span>
+                </label>
+                <button onClick={() => onRemove(rule.id)} className="text-muted-foreground hover:text-red-400">
+                  ✕
+                </button>
+              </div>
+              <div className="text-muted-foreground">
+                {rule.conditions.map(condition => describeCondition(condition, rule.symbol ?? symbol)).join(` ${rule.logic.toUpperCase()} `)}
+              </div>
+              <div className="text-muted-foreground">
+                {rule.severity} · {rule.cooldownMs / 1000}s cooldown · {rule.symbol ?? 'any symbol'}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New Rule */}
+      <div className="space-y-2 border-t border-border pt-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Rule name"
+          className={`w-full ${inputClass}`}
+        />
+
+        {conditions.map((condition, index) => (
+          <div key={index} className="flex items-center gap-1 text-xs">
+            <select
+              value={condition.kind === 'cross' ? 'cross' : condition.metric}
+              onChange={(e) => updateCondition(index, e.target.value === 'cross'
+                ? { kind: 'cross', level: 0, direction: 'any' }
+                : { kind: 'threshold', metric: e.target.value as RuleMetric, operator: '>', value: 0 })}
+              className={inputClass}
+            >
+              {(Object.keys(RULE_METRICS) as RuleMetric[]).map(metric => (
+                <option key={metric} value={metric}>{RULE_METRICS[metric].label}</option>
+              ))}
+              <option value="cross">Price crosses</option>
+            </select>
+
+            {condition.kind === 'threshold' ? (
+              <>
+                <select
+                  value={condition.operator}
+                  onChange={(e) => updateCondition(index, { ...condition, operator: e.target.value as RuleOperator })}
+                  className={inputClass}
+                >
+                  {['>', '>=', '<', '<='].map(operator => (
+                    <option key={operator} value={operator}>{operator}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  value={condition.value}
+                  onChange={(e) => updateCondition(index, { ...condition, value: Number(e.target.value) })}
+                  className={`w-20 ${inputClass}`}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={(condition.forMs ?? 0) / 1000}
+                  onChange={(e) => updateCondition(index, { ...condition, forMs: Math.max(0, Number(e.target.value)) * 1000 || undefined })}
+                  title="Seconds the condition must hold"
+                  className={`w-14 ${inputClass}`}
+                />
+                <span className="text-muted-foreground">s</span>
+              </>
+            ) : (
+              <>
+                <select
+                  value={condition.direction}
+                  onChange={(e) => updateCondition(index, { ...condition, direction: e.target.value as 'up' | 'down' | 'any' })}
+                  className={inputClass}
+                >
+                  <option value="any">either way</option>
+                  <option value="up">up</option>
+                  <option value="down">down</option>
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  value={condition.level}
+                  onChange={(e) => updateCondition(index, { ...condition, level: Number(e.target.value) })}
+                  className={`w-24 ${inputClass}`}
+                />
+              </>
+            )}
+
+            {conditions.length > 1 && (
+              <button
+                onClick={() => setConditions(prev => prev.filter((_, i) => i !== index))}
+                className="text-muted-foreground hover:text-red-400"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <button
+            onClick={() => setConditions(prev => [...prev, emptyThreshold()])}
+            className="px-2 py-1 rounded bg-muted text-muted-foreground hover:bg-accent"
+          >
+            + Condition
+          </button>
+          <select value={logic} onChange={(e) => setLogic(e.target.value as 'and' | 'or')} className={inputClass}>
+            <option value="and">All (AND)</option>
+            <option value="or">Any (OR)</option>
+          </select>
+          <select value={severity} onChange={(e) => setSeverity(e.target.value as RuleSeverity)} className={inputClass}>
+            {(['low', 'medium', 'high', 'critical'] as const).map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-muted-foreground">
+            Cooldown
+            <input
+              type="number"
+              min={0}
+              value={cooldownSeconds}
+              onChange={(e) => setCooldownSeconds(Math.max(0, Number(e.target.value) || 0))}
+              className={`w-14 ${inputClass}`}
+            />
+            s
+          </label>
+          <label className="flex items-center gap-1 text-muted-foreground">
+            <input type="checkbox" checked={symbolOnly} onChange={(e) => setSymbolOnly(e.target.checked)} className="rounded" />
+            {symbol} only
+          </label>
+        </div>
+
+        <button
+          onClick={handleAdd}
+          className="w-full px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+        >
+          Add Rule
+        </button>
+
+        {message && (
+          <div className={`text-xs ${message.error ? 'text-red-400' : 'text-green-400'}`}>{message.text}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertRulesPanel;
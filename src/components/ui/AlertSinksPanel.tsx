@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertSeverity, AlertSinkConfig, DeliveryLogEntry } from '@/services/alertSinks';
+
+interface AlertSinksPanelProps {
+  configs: AlertSinkConfig[];
+  log: DeliveryLogEntry[];
+  onUpdate: (config: AlertSinkConfig) => void;
+  onTest: (sinkId: string) => void;
+  onClearLog: () => void;
+  onRequestPermission: () => Promise<NotificationPermission>;
+  className?: string;
+}
+
+const SINK_LABELS: Record<AlertSinkConfig['kind'], string> = {
+  browser: '🖥️ Browser notification',
+  audio: '🔊 Sound',
+  webhook: '🌐 Webhook'
+};
+
+const STATUS_COLORS: Record<DeliveryLogEntry['status'], string> = {
+  delivered: 'text-green-400',
+  filtered: 'text-muted-foreground',
+  rate_limited: 'text-yellow-400',
+  failed: 'text-red-400'
+};
+
+const AlertSinksPanel: React.FC<AlertSinksPanelProps> = ({
+  configs,
+  log,
+  onUpdate,
+  onTest,
+  onClearLog,
+  onRequestPermission,
+  className = ''
+}) => {
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+
+  useEffect(() => {
+    setPermission(typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported');
+  }, []);
+
+  const inputClass = 'px-2 py-1 bg-background border border-border rounded text-foreground';
+
+  return (
+    <div className={`bg-card border border-border rounded-lg p-3 space-y-3 text-sm ${className}`}>
+      <div className="font-semibold text-foreground">Alert Delivery</div>
+
+      {/* Sink Settings */}
+      {configs.map(config => (
+        <div key={config.id} className="space-y-1 text-xs">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-1 text-foreground">
+              <input
+                type="checkbox"
+                checked={config.enabled}
+                onChange={(e) => onUpdate({ ...config, enabled: e.target.checked })}
+                className="rounded"
+              />
+              <span>{SINK_LABELS[config.kind]}</span>
+            </label>
+            <button
+              onClick={() => onTest(config.id)}
+              className="px-2 py-0.5 rounded bg-muted text-muted-foreground hover:bg-accent"
+            >
+              Test
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <span>Min</span>
+            <select
+              value={config.minSeverity}
+              onChange={(e) => onUpdate({ ...config, minSeverity: e.target.value as AlertSeverity })}
+              className={inputClass}
+            >
+              {(['low', 'medium', 'high', 'critical'] as const).map(level => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+            </select>
+            <span>Max/min</span>
+            <input
+              type="number"
+              min={0}
+              value={config.maxPerMinute}
+              onChange={(e) => onUpdate({ ...config, maxPerMinute: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+              className={`w-14 ${inputClass}`}
+            />
+          </div>
+
+          {config.kind === 'webhook' && (
+            <input
+              value={config.url ?? ''}
+              onChange={(e) => onUpdate({ ...config, url: e.target.value })}
+              placeholder="https://..."
+              className={`w-full font-mono ${inputClass}`}
+            />
+          )}
+
+          {config.kind === 'browser' && permission !== 'granted' && (
+            <div className="flex items-center justify-between text-muted-foreground">
+              <span>Permission: {permission}</span>
+              {permission === 'default' && (
+                <button
+                  onClick={async () => setPermission(await onRequestPermission())}
+                  className="px-2 py-0.5 rounded bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  Allow
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {/* Delivery Log */}
+      <div className="border-t border-border pt-2 space-y-1">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">Delivery log</span>
+          {log.length > 0 && (
+            <button onClick={onClearLog} className="text-muted-foreground hover:text-foreground">
+              Clear
+            </button>
+          )}
+        </div>
+        {log.length === 0 ? (
+          <div className="text-xs text-muted-foreground">Nothing sent yet.</div>
+        ) : (
+          <div className="max-h-40 overflow-y-auto space-y-0.5 text-xs font-mono">
+            {log.map(entry => (
+              <div key={entry.id} className="flex gap-2" title={entry.message}>
+                <span className="text-muted-foreground">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                <span className="text-foreground">{entry.sinkId}</span>
+                <span className={STATUS_COLORS[entry.status]}>{entry.status.replace('_', ' ')}</span>
+                <span className="text-muted-foreground truncate">{entry.detail ?? entry.severity}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertSinksPanel;
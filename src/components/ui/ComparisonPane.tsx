@@ -0,0 +1,205 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { PerspectiveCamera } from '@react-three/drei';
+import SmoothTransitionOrderbook from '@/components/3d/SmoothTransitionOrderbook';
+import { SyncedOrbitControls, CameraSync } from '@/components/3d/SyncedOrbitControls';
+import PressureZoneStats from '@/components/ui/PressureZoneStats';
+import { useRealTimeOrderbook } from '@/services/realTimeDataManager';
+import { OrderbookWorkerClient } from '@/services/orderbookWorkerClient';
+import { PressureZoneAnalysis } from '@/services/pressureZoneAnalyzer';
+import { symbolRegistry } from '@/services/symbolRegistry';
+import { MicrostructureSnapshot } from '@/services/microstructureMetrics';
+import { useDetectorSettings } from '@/services/detectorSettings';
+import { TradeEvent, VenueConfig } from '@/types/orderbook';
+import { getMidPrice, toBasisPoints } from '@/utils/basisPoints';
+
+interface ComparisonPaneProps {
+  paneId: string;
+  symbol: string;
+  venue: VenueConfig | null; // Null reads the direct Binance stream
+  mode: 'demo' | 'live';
+  cameraSync: CameraSync;
+  syncCameras: boolean;
+  priceWindowBps: number;
+  showPressureZones: boolean;
+  showHeatmap: boolean;
+  showStats: boolean;
+  onRemove?: () => void;
+  className?: string;
+}
+
+/**
+ * One book of the comparison view: its own data connection, pressure zone
+ * analysis and canvas, with the camera optionally following the other panes.
+ */
+const ComparisonPane: React.FC<ComparisonPaneProps> = ({
+  paneId,
+  symbol,
+  venue,
+  mode,
+  cameraSync,
+  syncCameras,
+  priceWindowBps,
+  showPressureZones,
+  showHeatmap,
+  showStats,
+  onRemove,
+  className = ''
+}) => {
+  const {
+    data,
+    connectionState,
+    error,
+    activeSymbol,
+    trades,
+    metrics,
+    connectRealTime,
+    connectMultiVenue,
+    connectDemo,
+    disconnect,
+    switchSymbol
+  } = useRealTimeOrderbook(symbol);
+
+  const [analysis, setAnalysis] = useState<PressureZoneAnalysis | null>(null);
+  const analysisWorkerRef = useRef<OrderbookWorkerClient | null>(null);
+  const tradesRef = useRef<TradeEvent[]>([]);
+  const metricsRef = useRef<MicrostructureSnapshot | null>(null);
+  const { configs: detectorConfigs } = useDetectorSettings();
+  const detectorConfigsRef = useRef(detectorConfigs);
+
+  useEffect(() => {
+    if (mode === 'demo') {
+      connectDemo();
+    } else if (venue) {
+      connectMultiVenue([venue]);
+    } else {
+      connectRealTime();
+    }
+
+    return () => {
+      disconnect();
+    };
+  }, [mode, venue, connectDemo, connectMultiVenue, connectRealTime, disconnect]);
+
+  useEffect(() => {
+    switchSymbol(symbol);
+  }, [symbol, switchSymbol]);
+
+  // Pressure zone analysis runs in a worker per pane
+  useEffect(() => {
+    const client = new OrderbookWorkerClient();
+    analysisWorkerRef.current = client;
+
+    return () => {
+      client.terminate();
+      analysisWorkerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    tradesRef.current = trades;
+    metricsRef.current = metrics;
+  }, [trades, metrics]);
+
+  // Same saved detector settings as the main view
+  useEffect(() => {
+    detectorConfigsRef.current = detectorConfigs;
+  }, [detectorConfigs]);
+
+  useEffect(() => {
+    if (!data || !analysisWorkerRef.current) return;
+
+    analysisWorkerRef.current.analyze(data, {
+      symbol: activeSymbol,
+      trades: tradesRef.current,
+      metrics: metricsRef.current,
+      detectors: detectorConfigsRef.current
+    }).then(result => {
+      if (result) setAnalysis(result);
+    });
+  }, [data, activeSymbol]);
+
+  const mid = data ? getMidPrice(data) : null;
+  const spreadBps = data && mid !== null ? toBasisPoints(data.asks[0].price, mid) * 2 : null;
+
+  return (
+    <div className={`flex flex-col bg-gray-800 rounded-lg border border-gray-700 overflow-hidden ${className}`}>
+      {/* Pane Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700 text-sm">
+        <div className="flex items-center gap-2">
+          <div className={`w-2 h-2 rounded-full ${
+            connectionState === 'connected' ? 'bg-green-500' :
+            connectionState === 'connecting' ? 'bg-yellow-500' : 'bg-red-500'
+          }`}></div>
+          <span className="font-mono font-semibold text-white">{activeSymbol}</span>
+          <span className="text-gray-400">{venue ? venue.name : 'Binance'}</span>
+        </div>
+        <div className="flex items-center gap-3 font-mono text-xs">
+          <span className="text-gray-300">
+            Mid {mid !== null ? symbolRegistry.formatPrice(activeSymbol, mid) : '—'}
+          </span>
+          <span className="text-blue-400">
+            Spread {spreadBps !== null ? `${spreadBps.toFixed(2)}bp` : '—'}
+          </span>
+          {onRemove && (
+            <button
+              onClick={onRemove}
+              className="text-gray-400 hover:text-white transition-colors"
+              title="Remove pane"
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Book */}
+      <div className="relative flex-1 min-h-[280px]">
+        {error && (
+          <div className="absolute top-2 left-2 z-10 text-xs text-red-400 bg-gray-900/80 rounded px-2 py-1">
+            {error}
+          </div>
+        )}
+        {data ? (
+          <Canvas className="w-full h-full" gl={{ antialias: true, alpha: false, stencil: false }}>
+            <PerspectiveCamera makeDefault position={[15, 15, 15]} />
+            <SyncedOrbitControls sync={cameraSync} paneId={paneId} enabled={syncCameras} />
+
+            <ambientLight intensity={0.6} />
+            <directionalLight position={[10, 10, 5]} intensity={0.6} />
+            <pointLight position={[-10, -10, -5]} intensity={0.3} />
+
+            <SmoothTransitionOrderbook
+              data={data}
+              autoRotate={false}
+              timeDepth={10}
+              rotationSpeed={0}
+              showPressureZones={showPressureZones}
+              showHeatmap={showHeatmap}
+              showAxisLabels={true}
+              externalPressureZones={analysis?.zones ?? null}
+              symbol={activeSymbol}
+              priceWindowBps={priceWindowBps}
+              trades={trades}
+            />
+          </Canvas>
+        ) : (
+          <div className="flex items-center justify-center h-full text-gray-400 text-sm">
+            {connectionState === 'connecting' ? 'Connecting...' : 'Waiting for data...'}
+          </div>
+        )}
+      </div>
+
+      {/* Per-pane Pressure Zones */}
+      {showStats && (
+        <div className="border-t border-gray-700 max-h-64 overflow-y-auto">
+          <PressureZoneStats analysis={analysis} className="rounded-none" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPane;
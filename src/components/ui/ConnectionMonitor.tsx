@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { ConnectionState } from '@/types/orderbook';
+import { ConnectionState, BookSyncInfo } from '@/types/orderbook';
 
 interface ConnectionMonitorProps {
   connectionState: ConnectionState;
@@ -21,6 +21,7 @@ interface ConnectionMonitorProps {
     gapDuration: number;
     reconnecting: boolean;
   };
+  syncInfo?: BookSyncInfo | null;
 }
 
 export const ConnectionMonitor: React.FC<ConnectionMonitorProps> = ({
@@ -28,7 +29,8 @@ export const ConnectionMonitor: React.FC<ConnectionMonitorProps> = ({
   isRealTime,
   error,
   connectionStats,
-  dataGapInfo
+  dataGapInfo,
+  syncInfo
 }) => {
   const [currentTime, setCurrentTime] = useState(Date.now());
   const [timeSinceLastUpdate, setTimeSinceLastUpdate] = useState(0);
@@ -81,6 +83,24 @@ export const ConnectionMonitor: React.FC<ConnectionMonitorProps> = ({
     return `${(ms / 60000).toFixed(1)}m`;
   };
 
+  const getBookSyncLabel = () => {
+    switch (syncInfo?.state) {
+      case 'in_sync': return 'In sync';
+      case 'buffering': return 'Loading snapshot';
+      case 'resyncing': return 'Resyncing';
+      default: return 'N/A';
+    }
+  };
+
+  const getBookSyncColor = () => {
+    switch (syncInfo?.state) {
+      case 'in_sync': return 'text-green-400';
+      case 'buffering': return 'text-blue-400';
+      case 'resyncing': return 'text-orange-400';
+      default: return 'text-gray-400';
+    }
+  };
+
   const getStatusIcon = () => {
     switch (connectionState) {
       case 'connected':
@@ -106,6 +126,11 @@ export const ConnectionMonitor: React.FC<ConnectionMonitorProps> = ({
             DATA GAP
           </div>
         )}
+        {!dataGapInfo?.detected && syncInfo?.state === 'resyncing' && (
+          <div className="bg-orange-600 text-white text-xs px-2 py-1 rounded animate-pulse">
+            RESYNCING
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-2 gap-4 text-sm">
@@ -130,6 +155,14 @@ export const ConnectionMonitor: React.FC<ConnectionMonitorProps> = ({
               {getConnectionQuality()}
             </span>
           </div>
+          {isRealTime && (
+            <div>
+              <span className="text-gray-400">Book:</span>{' '}
+              <span className={getBookSyncColor()}>
+                {getBookSyncLabel()}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Statistics */}
@@ -154,6 +187,18 @@ export const ConnectionMonitor: React.FC<ConnectionMonitorProps> = ({
         </div>
       </div>
 
+      {/* Book Sequence Info */}
+      {isRealTime && syncInfo && syncInfo.state !== 'idle' && (
+        <div className="mt-3 pt-3 border-t border-gray-600">
+          <div className="grid grid-cols-2 gap-2 text-xs text-gray-400">
+            <div>Update ID: <span className="text-cyan-400 font-mono">{syncInfo.lastUpdateId}</span></div>
+            <div>Buffered: <span className="text-cyan-400">{syncInfo.bufferedEvents}</span></div>
+            <div>Seq. Gaps: <span className="text-orange-400">{syncInfo.sequenceGaps}</span></div>
+            <div>Resyncs: <span className="text-orange-400">{syncInfo.resyncCount}</span></div>
+          </div>
+        </div>
+      )}
+
       {/* Data Freshness */}
       {connectionStats?.lastUpdateTime && (
         <div className="mt-3 pt-3 border-t border-gray-600">
@@ -0,0 +1,111 @@
+'use client';
+
+import React from 'react';
+import { BUILT_IN_DETECTORS, DetectorConfig, DetectorInfo, DetectorStats, MAX_DETECTOR_WEIGHT } from '@/services/zoneDetectors';
+
+interface DetectorPanelProps {
+  configs: Record<string, DetectorConfig>;
+  stats: DetectorStats[]; // From the latest analysis
+  onUpdate: (id: string, update: Partial<DetectorConfig>) => void;
+  onReset: () => void;
+  className?: string;
+}
+
+const DetectorPanel: React.FC<DetectorPanelProps> = ({
+  configs,
+  stats,
+  onUpdate,
+  onReset,
+  className = ''
+}) => {
+  // Detectors registered beyond the built-in ones are known only from their stats
+  const detectors: DetectorInfo[] = [
+    ...BUILT_IN_DETECTORS,
+    ...stats
+      .filter(entry => !BUILT_IN_DETECTORS.some(info => info.id === entry.id))
+      .map(entry => ({ id: entry.id, label: entry.label, description: '' }))
+  ];
+  const totalMs = stats.reduce((sum, entry) => sum + (entry.enabled ? entry.lastMs : 0), 0);
+
+  const inputClass = 'px-1 py-0.5 bg-background border border-border rounded text-foreground';
+
+  return (
+    <div className={`bg-card border border-border rounded-lg p-3 space-y-3 text-sm ${className}`}>
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-foreground">Zone Detectors</span>
+        <button onClick={onReset} className="text-xs text-muted-foreground hover:text-foreground">
+          Reset
+        </button>
+      </div>
+
+      {/* Detector Settings */}
+      {detectors.map(info => {
+        const config = configs[info.id] ?? { enabled: true, weight: 1, params: {} };
+        const entry = stats.find(stat => stat.id === info.id);
+
+        return (
+          <div key={info.id} className="space-y-1 text-xs">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-1 text-foreground" title={info.description}>
+                <input
+                  type="checkbox"
+                  checked={config.enabled}
+                  onChange={(e) => onUpdate(info.id, { enabled: e.target.checked })}
+                  className="rounded"
+                />
+                <span>{info.label}</span>
+              </label>
+              {entry && entry.runs > 0 && config.enabled && (
+                <span className={`font-mono ${entry.lastError ? 'text-red-400' : 'text-muted-foreground'}`} title={entry.lastError}>
+                  {entry.averageMs.toFixed(2)}ms · {entry.lastZoneCount}→{entry.contributedZones}
+                </span>
+              )}
+            </div>
+
+            {config.enabled && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <span>Weight</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_DETECTOR_WEIGHT}
+                  step={0.1}
+                  value={config.weight}
+                  onChange={(e) => onUpdate(info.id, { weight: Number(e.target.value) })}
+                  className="flex-1"
+                />
+                <span className="w-8 text-right font-mono text-foreground">{config.weight.toFixed(1)}</span>
+              </div>
+            )}
+
+            {config.enabled && Object.entries(info.params ?? {}).map(([key, param]) => (
+              <div key={key} className="flex items-center justify-between text-muted-foreground">
+                <span>{param.label}</span>
+                <input
+                  type="number"
+                  min={param.min}
+                  max={param.max}
+                  step={param.step}
+                  value={config.params[key] ?? param.default}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (isFinite(value)) onUpdate(info.id, { params: { [key]: value } });
+                  }}
+                  className={`w-16 ${inputClass}`}
+                />
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      {/* Totals */}
+      <div className="border-t border-border pt-2 flex justify-between text-xs">
+        <span className="text-muted-foreground">Last pass</span>
+        <span className="font-mono text-foreground">{stats.length > 0 ? `${totalMs.toFixed(2)}ms` : '—'}</span>
+      </div>
+    </div>
+  );
+};
+
+export default DetectorPanel;
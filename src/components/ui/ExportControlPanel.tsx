@@ -4,11 +4,13 @@ import React, { useState } from 'react';
 import { ProcessedOrderbookData } from '@/types/orderbook';
 import { PressureZoneAnalysis } from '@/services/pressureZoneAnalyzer';
 import { OrderbookExportService, ExportOptions } from '@/services/exportService';
+import { MicrostructureSnapshot } from '@/services/microstructureMetrics';
 
 interface ExportControlPanelProps {
   data: ProcessedOrderbookData | null;
   pressureZoneAnalysis: PressureZoneAnalysis | null;
   symbol: string;
+  metrics?: MicrostructureSnapshot | null;
   className?: string;
 }
 
@@ -16,6 +18,7 @@ const ExportControlPanel: React.FC<ExportControlPanelProps> = ({
   data,
   pressureZoneAnalysis,
   symbol,
+  metrics,
   className = ''
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -77,7 +80,7 @@ const ExportControlPanel: React.FC<ExportControlPanelProps> = ({
     try {
       setExportStatus('Generating analysis report...');
       
-      const report = exportService.generateAnalysisReport(data, pressureZoneAnalysis, symbol);
+      const report = exportService.generateAnalysisReport(data, pressureZoneAnalysis, symbol, metrics ?? undefined);
       
       if (exportFormat === 'json') {
         exportService.exportAnalysisReport(report);
@@ -98,7 +101,12 @@ const ExportControlPanel: React.FC<ExportControlPanelProps> = ({
     if (!data) return;
     try {
       setExportStatus('Exporting JSON snapshot...');
-      const snapshot = exportService.createSnapshot(data, symbol, includePressureZones ? pressureZoneAnalysis || undefined : undefined);
+      const snapshot = exportService.createSnapshot(
+        data,
+        symbol,
+        includePressureZones ? pressureZoneAnalysis || undefined : undefined,
+        metrics ?? undefined
+      );
       exportService.exportAsJSON(snapshot);
       setExportStatus('JSON snapshot exported successfully');
       setTimeout(() => setExportStatus(''), 3000);
@@ -112,7 +120,7 @@ const ExportControlPanel: React.FC<ExportControlPanelProps> = ({
     if (!data) return;
     try {
       setExportStatus('Exporting CSV data...');
-      exportService.exportAsCSV(data);
+      exportService.exportAsCSV(data, symbol);
       setExportStatus('CSV data exported successfully');
       setTimeout(() => setExportStatus(''), 3000);
     } catch (error) {
@@ -128,7 +136,7 @@ const ExportControlPanel: React.FC<ExportControlPanelProps> = ({
     }
     try {
       setExportStatus('Generating text report...');
-      const report = exportService.generateAnalysisReport(data, pressureZoneAnalysis, symbol);
+      const report = exportService.generateAnalysisReport(data, pressureZoneAnalysis, symbol, metrics ?? undefined);
       exportService.exportAnalysisReportAsText(report);
       setExportStatus('Text report exported successfully');
       setTimeout(() => setExportStatus(''), 3000);
@@ -145,7 +153,7 @@ const ExportControlPanel: React.FC<ExportControlPanelProps> = ({
     }
     try {
       setExportStatus('Generating JSON report...');
-      const report = exportService.generateAnalysisReport(data, pressureZoneAnalysis, symbol);
+      const report = exportService.generateAnalysisReport(data, pressureZoneAnalysis, symbol, metrics ?? undefined);
       exportService.exportAnalysisReport(report);
       setExportStatus('JSON report exported successfully');
       setTimeout(() => setExportStatus(''), 3000);
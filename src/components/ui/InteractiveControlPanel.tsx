@@ -1,6 +1,8 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
+import { SymbolSummary } from '@/types/orderbook';
+import SymbolPicker from '@/components/ui/SymbolPicker';
 
 export interface FilterSettings {
   priceRange: {
@@ -22,6 +24,7 @@ export interface FilterSettings {
   showPressureZones: boolean;
   showHeatmap: boolean;
   showDepthSurface: boolean;
+  showTrades: boolean;
   autoRotate: boolean;
   showAxisLabels: boolean;
   showGrid: boolean;
@@ -33,6 +36,9 @@ interface InteractiveControlPanelProps {
   onSettingsChange: (settings: FilterSettings) => void;
   availableVenues: string[];
   currentPrice?: number;
+  symbol?: string;
+  symbolSummaries?: SymbolSummary[];
+  onSymbolChange?: (symbol: string) => void;
   className?: string;
 }
 
@@ -41,6 +47,9 @@ const InteractiveControlPanel: React.FC<InteractiveControlPanelProps> = ({
   onSettingsChange,
   availableVenues,
   currentPrice,
+  symbol,
+  symbolSummaries = [],
+  onSymbolChange,
   className = ''
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -155,6 +164,15 @@ const InteractiveControlPanel: React.FC<InteractiveControlPanelProps> = ({
           {/* Filters Tab */}
           {activeTab === 'filters' && (
             <div className="space-y-4">
+              {/* Symbol Switcher */}
+              {symbol && onSymbolChange && (
+                <SymbolPicker
+                  symbol={symbol}
+                  summaries={symbolSummaries}
+                  onSymbolChange={onSymbolChange}
+                />
+              )}
+
               {/* Price Range Filter */}
               <div className="bg-gray-700 rounded-lg p-3">
                 <div className="flex items-center justify-between mb-2">
@@ -247,7 +265,7 @@ const InteractiveControlPanel: React.FC<InteractiveControlPanelProps> = ({
                         onChange={() => handleVenueToggle(venue)}
                         className="rounded"
                       />
-                      <span className="text-gray-300">{venue}</span>
+                      <span className="text-gray-300 capitalize">{venue}</span>
                     </label>
                   ))}
                 </div>
@@ -283,6 +301,29 @@ const InteractiveControlPanel: React.FC<InteractiveControlPanelProps> = ({
           {/* Visualization Tab */}
           {activeTab === 'visualization' && (
             <div className="space-y-4">
+              {/* Data Source Selector */}
+              <div className="bg-gray-700 rounded-lg p-3">
+                <label className="text-sm font-medium text-white mb-2 block">Data Source</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { value: 'realtime', label: 'Live' },
+                    { value: 'historical', label: 'Historical' }
+                  ].map(mode => (
+                    <button
+                      key={mode.value}
+                      onClick={() => handleVisualizationModeChange(mode.value as FilterSettings['visualizationMode'])}
+                      className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                        settings.visualizationMode === mode.value
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                      }`}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* Time Range Selector */}
               <div className="bg-gray-700 rounded-lg p-3">
                 <label className="text-sm font-medium text-white mb-2 block">Time Range</label>
@@ -342,6 +383,15 @@ const InteractiveControlPanel: React.FC<InteractiveControlPanelProps> = ({
                     />
                     <span className="text-gray-300">Depth Surface</span>
                   </label>
+                  <label className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={settings.showTrades}
+                      onChange={(e) => updateSettings({ showTrades: e.target.checked })}
+                      className="rounded"
+                    />
+                    <span className="text-gray-300">Trade Prints</span>
+                  </label>
                   <label className="flex items-center space-x-2 text-sm">
                     <input
                       type="checkbox"
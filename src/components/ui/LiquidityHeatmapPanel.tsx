@@ -0,0 +1,159 @@
+'use client';
+
+import React from 'react';
+import { Canvas, useThree } from '@react-three/fiber';
+import { TradeEvent } from '@/types/orderbook';
+import { HeatmapScale, LiquidityHeatmapHistory, LiquidityHeatmapSettings } from '@/services/liquidityHeatmap';
+import { symbolRegistry } from '@/services/symbolRegistry';
+import { useTheme3D } from '@/hooks/useTheme3D';
+import LiquidityHeatmapPlane from '@/components/3d/LiquidityHeatmapPlane';
+
+interface LiquidityHeatmapPanelProps {
+  history: LiquidityHeatmapHistory;
+  version: number;
+  settings: LiquidityHeatmapSettings;
+  onSettingsChange: (update: Partial<LiquidityHeatmapSettings>) => void;
+  trades?: TradeEvent[];
+  symbol: string;
+  showInScene: boolean;
+  onShowInSceneChange: (show: boolean) => void;
+  height?: number;
+  className?: string;
+}
+
+const WINDOW_OPTIONS = [
+  { label: '1m', value: 60 * 1000 },
+  { label: '5m', value: 5 * 60 * 1000 },
+  { label: '15m', value: 15 * 60 * 1000 }
+];
+
+// Legend stops matching the plane's color ramp
+const RAMP_GRADIENT = 'linear-gradient(to right, #00000a, #05268c, #00bfd9, #ffd91a, #ffffff)';
+
+/**
+ * Plane sized to the orthographic canvas, one unit per pixel
+ */
+const FullCanvasPlane: React.FC<Omit<React.ComponentProps<typeof LiquidityHeatmapPlane>, 'width' | 'height'>> = props => {
+  const size = useThree(state => state.size);
+  return <LiquidityHeatmapPlane {...props} width={size.width} height={size.height} />;
+};
+
+const LiquidityHeatmapPanel: React.FC<LiquidityHeatmapPanelProps> = ({
+  history,
+  version,
+  settings,
+  onSettingsChange,
+  trades,
+  symbol,
+  showInScene,
+  onShowInSceneChange,
+  height = 240,
+  className = ''
+}) => {
+  const themeColors = useTheme3D();
+  const { min, max } = history.getPriceRange();
+  const hasData = history.getHead() >= 0;
+  const formatPrice = (price: number) => symbolRegistry.formatPrice(symbol, price);
+
+  const inputClass = 'px-1 py-0.5 bg-background border border-border rounded text-foreground';
+
+  return (
+    <div className={`bg-card border border-border rounded-lg p-3 space-y-2 text-sm ${className}`}>
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-foreground">Liquidity Heatmap</span>
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={showInScene}
+            onChange={(e) => onShowInSceneChange(e.target.checked)}
+            className="rounded"
+          />
+          <span>Show in 3D</span>
+        </label>
+      </div>
+
+      {/* Heatmap */}
+      <div className="relative rounded overflow-hidden bg-black" style={{ height }}>
+        <Canvas orthographic camera={{ position: [0, 0, 10], zoom: 1 }} gl={{ antialias: true, alpha: false }}>
+          <FullCanvasPlane
+            history={history}
+            version={version}
+            settings={settings}
+            trades={trades}
+            buyColor={themeColors.bidColor}
+            sellColor={themeColors.askColor}
+          />
+        </Canvas>
+        {hasData ? (
+          <>
+            <span className="absolute top-1 left-1 text-[10px] font-mono text-white/80">{formatPrice(max)}</span>
+            <span className="absolute bottom-1 left-1 text-[10px] font-mono text-white/80">{formatPrice(min)}</span>
+            <span className="absolute bottom-1 right-1 text-[10px] font-mono text-white/60">now</span>
+          </>
+        ) : (
+          <span className="absolute inset-0 flex items-center justify-center text-xs text-white/60">
+            Waiting for order book…
+          </span>
+        )}
+      </div>
+
+      {/* Display Settings */}
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <label className="flex items-center gap-1">
+          <span>Window</span>
+          <select
+            value={settings.timeWindow}
+            onChange={(e) => onSettingsChange({ timeWindow: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {WINDOW_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <span>Scale</span>
+          <select
+            value={settings.scale}
+            onChange={(e) => onSettingsChange({ scale: e.target.value as HeatmapScale })}
+            className={inputClass}
+          >
+            <option value="log">Log</option>
+            <option value="linear">Linear</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-1" title="Scale colors to the 98th percentile of resting size instead of the largest wall">
+          <input
+            type="checkbox"
+            checked={settings.autoContrast}
+            onChange={(e) => onSettingsChange({ autoContrast: e.target.checked })}
+            className="rounded"
+          />
+          <span>Auto contrast</span>
+        </label>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span>Gain</span>
+        <input
+          type="range"
+          min={0.25}
+          max={4}
+          step={0.25}
+          value={settings.gain}
+          onChange={(e) => onSettingsChange({ gain: Number(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-8 text-right font-mono text-foreground">{settings.gain.toFixed(2)}</span>
+      </div>
+
+      <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+        <span>Less</span>
+        <div className="flex-1 h-2 rounded" style={{ background: RAMP_GRADIENT }} />
+        <span>More resting size</span>
+      </div>
+    </div>
+  );
+};
+
+export default LiquidityHeatmapPanel;
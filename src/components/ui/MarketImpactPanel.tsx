@@ -0,0 +1,119 @@
+'use client';
+
+import React from 'react';
+import { MarketImpactOrder, MarketImpactResult } from '@/services/marketImpactCalculator';
+import { symbolRegistry } from '@/services/symbolRegistry';
+
+interface MarketImpactPanelProps {
+  symbol: string;
+  order: MarketImpactOrder;
+  result: MarketImpactResult | null;
+  onOrderChange: (order: MarketImpactOrder) => void;
+  showOverlay: boolean;
+  onShowOverlayChange: (show: boolean) => void;
+  className?: string;
+}
+
+const MarketImpactPanel: React.FC<MarketImpactPanelProps> = ({
+  symbol,
+  order,
+  result,
+  onOrderChange,
+  showOverlay,
+  onShowOverlayChange,
+  className = ''
+}) => {
+  const info = symbolRegistry.get(symbol);
+  const formatPrice = (price: number | null) => (price !== null ? symbolRegistry.formatPrice(symbol, price) : '—');
+  const formatQuote = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  const formatUnfilled = (value: number) => (
+    order.unit === 'base' ? symbolRegistry.formatQuantity(symbol, value) : formatQuote(value)
+  );
+
+  return (
+    <div className={`bg-card border border-border rounded-lg p-3 space-y-3 ${className}`}>
+      {/* Impact Header */}
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-foreground">Market Impact</span>
+        <label className="flex items-center space-x-1 text-xs text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={showOverlay}
+            onChange={(e) => onShowOverlayChange(e.target.checked)}
+            className="rounded"
+          />
+          <span>Highlight in 3D</span>
+        </label>
+      </div>
+
+      {/* Order Input */}
+      <div className="flex items-center gap-2 text-sm">
+        <div className="flex rounded overflow-hidden border border-border">
+          {(['buy', 'sell'] as const).map(side => (
+            <button
+              key={side}
+              onClick={() => onOrderChange({ ...order, side })}
+              className={`px-3 py-1 transition-colors ${
+                order.side === side
+                  ? side === 'buy' ? 'bg-green-600 text-white' : 'bg-red-600 text-white'
+                  : 'bg-muted text-muted-foreground hover:bg-accent'
+              }`}
+            >
+              {side === 'buy' ? 'Buy' : 'Sell'}
+            </button>
+          ))}
+        </div>
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={order.size}
+          onChange={(e) => onOrderChange({ ...order, size: Math.max(0, Number(e.target.value) || 0) })}
+          className="w-24 px-2 py-1 bg-background border border-border rounded font-mono text-foreground"
+        />
+        <select
+          value={order.unit}
+          onChange={(e) => onOrderChange({ ...order, unit: e.target.value as MarketImpactOrder['unit'] })}
+          className="px-2 py-1 bg-background border border-border rounded text-foreground"
+        >
+          <option value="base">{info.baseAsset}</option>
+          <option value="quote">{info.quoteAsset}</option>
+        </select>
+      </div>
+
+      {/* Fill Estimate */}
+      {result && result.vwap !== null ? (
+        <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs font-mono">
+          <span className="text-muted-foreground">VWAP</span>
+          <span className="text-right text-foreground">{formatPrice(result.vwap)}</span>
+          <span className="text-muted-foreground">Worst price</span>
+          <span className="text-right text-foreground">{formatPrice(result.worstPrice)}</span>
+          <span className="text-muted-foreground">Slippage (touch)</span>
+          <span className="text-right text-yellow-400">{result.slippageBps.toFixed(2)}bp</span>
+          <span className="text-muted-foreground">Slippage (mid)</span>
+          <span className="text-right text-yellow-400">{result.midSlippageBps.toFixed(2)}bp</span>
+          <span className="text-muted-foreground">Levels consumed</span>
+          <span className="text-right text-foreground">{result.levelsConsumed}</span>
+          <span className="text-muted-foreground">Filled</span>
+          <span className="text-right text-foreground">
+            {symbolRegistry.formatQuantity(symbol, result.filledBase)} {info.baseAsset}
+          </span>
+          <span className="text-muted-foreground">Notional</span>
+          <span className="text-right text-foreground">
+            {formatQuote(result.filledQuote)} {info.quoteAsset}
+          </span>
+        </div>
+      ) : (
+        <div className="text-xs text-muted-foreground">Enter a size to estimate the fill against the current book.</div>
+      )}
+
+      {result && !result.fullyFilled && result.vwap !== null && (
+        <div className="text-xs text-red-400">
+          Visible depth exhausted: {formatUnfilled(result.unfilledSize)} {order.unit === 'base' ? info.baseAsset : info.quoteAsset} unfilled
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarketImpactPanel;
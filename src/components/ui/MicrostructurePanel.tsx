@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useState } from 'react';
+import { MicrostructureSnapshot } from '@/services/microstructureMetrics';
+import { symbolRegistry } from '@/services/symbolRegistry';
+
+interface MicrostructurePanelProps {
+  metrics: MicrostructureSnapshot | null;
+  className?: string;
+}
+
+const formatSigned = (value: number, digits: number) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const MicrostructurePanel: React.FC<MicrostructurePanelProps> = ({ metrics, className = '' }) => {
+  const [windowIndex, setWindowIndex] = useState(0);
+
+  if (!metrics) {
+    return (
+      <div className={`bg-card border border-border rounded-lg p-3 ${className}`}>
+        <div className="font-semibold text-foreground mb-1">Microstructure</div>
+        <div className="text-xs text-muted-foreground">Waiting for book updates...</div>
+      </div>
+    );
+  }
+
+  const { current, symbol } = metrics;
+  const rolling = metrics.rolling[Math.min(windowIndex, metrics.rolling.length - 1)];
+  const formatQuantity = (quantity: number) => symbolRegistry.formatQuantity(symbol, quantity);
+  const imbalancePercent = ((current.imbalance + 1) / 2) * 100;
+
+  return (
+    <div className={`bg-card border border-border rounded-lg p-3 space-y-3 ${className}`}>
+      {/* Metrics Header */}
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-foreground">Microstructure</span>
+        <span className="text-xs text-muted-foreground font-mono">{symbol}</span>
+      </div>
+
+      {/* Current Update */}
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs font-mono">
+        <span className="text-muted-foreground">Microprice</span>
+        <span className="text-right text-foreground">{symbolRegistry.formatPrice(symbol, current.microprice)}</span>
+        <span className="text-muted-foreground">Weighted mid</span>
+        <span className="text-right text-foreground">{symbolRegistry.formatPrice(symbol, current.weightedMid)}</span>
+        <span className="text-muted-foreground">Spread</span>
+        <span className="text-right text-foreground">{current.spreadBps.toFixed(2)}bp</span>
+        <span className="text-muted-foreground">OFI (update)</span>
+        <span className={`text-right ${current.ofi >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+          {formatSigned(current.ofi, 4)}
+        </span>
+      </div>
+
+      {/* Top-N Imbalance */}
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs">
+          <span className="text-muted-foreground">Book imbalance</span>
+          <span className="font-mono text-foreground">{formatSigned(current.imbalance, 2)}</span>
+        </div>
+        <div className="h-2 w-full rounded bg-red-600/60 overflow-hidden">
+          <div className="h-full bg-green-500" style={{ width: `${imbalancePercent}%` }} />
+        </div>
+      </div>
+
+      {/* Depth Bands */}
+      <div className="space-y-1 text-xs font-mono">
+        {current.depth.map(band => (
+          <div key={band.bps} className="flex justify-between">
+            <span className="text-muted-foreground">±{band.bps}bp</span>
+            <span>
+              <span className="text-green-400">{formatQuantity(band.bidDepth)}</span>
+              <span className="text-muted-foreground"> / </span>
+              <span className="text-red-400">{formatQuantity(band.askDepth)}</span>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Rolling Window */}
+      {rolling && (
+        <div className="space-y-2">
+          <div className="flex gap-1">
+            {metrics.rolling.map((window, index) => (
+              <button
+                key={window.windowMs}
+                onClick={() => setWindowIndex(index)}
+                className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                  index === windowIndex ? 'bg-blue-600 text-white' : 'bg-muted text-muted-foreground hover:bg-accent'
+                }`}
+              >
+                {window.windowMs / 1000}s
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs font-mono">
+            <span className="text-muted-foreground">OFI</span>
+            <span className={`text-right ${rolling.ofi >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {formatSigned(rolling.ofi, 4)}
+            </span>
+            <span className="text-muted-foreground">Mean imbalance</span>
+            <span className="text-right text-foreground">{formatSigned(rolling.meanImbalance, 2)}</span>
+            <span className="text-muted-foreground">Mean spread</span>
+            <span className="text-right text-foreground">{rolling.meanSpreadBps.toFixed(2)}bp</span>
+            <span className="text-muted-foreground">Cancel rate</span>
+            <span className="text-right text-foreground">{formatQuantity(rolling.cancelRate)}/s</span>
+            <span className="text-muted-foreground">Replenish rate</span>
+            <span className="text-right text-foreground">{formatQuantity(rolling.replenishRate)}/s</span>
+            <span className="text-muted-foreground">Microprice drift</span>
+            <span className="text-right text-foreground">{formatSigned(rolling.micropriceDriftBps, 2)}bp</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MicrostructurePanel;
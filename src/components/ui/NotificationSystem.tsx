@@ -23,7 +23,8 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({
     // Add new alerts to visible list
     const newAlerts = alerts.filter(alert => !hiddenAlerts.has(alert.id));
     setVisibleAlerts(prev => {
-      const combined = [...prev, ...newAlerts];
+      const shown = new Set(prev.map(alert => alert.id));
+      const combined = [...prev, ...newAlerts.filter(alert => !shown.has(alert.id))];
       return combined.slice(-maxNotifications);
     });
   }, [alerts, hiddenAlerts, maxNotifications]);
@@ -65,6 +66,10 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({
       case 'weakening': return '📉';
       case 'volume_spike': return '💥';
       case 'cluster_formation': return '🎯';
+      case 'order_flow_imbalance': return '⚖️';
+      case 'liquidity_withdrawal': return '🫥';
+      case 'dissolution': return '💨';
+      case 'custom_rule': return '🔔';
       default: return '📊';
     }
   };
@@ -77,6 +82,10 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({
       case 'weakening': return 'Zone Weakening';
       case 'volume_spike': return 'Volume Spike';
       case 'cluster_formation': return 'Cluster Formation';
+      case 'order_flow_imbalance': return 'Order Flow Imbalance';
+      case 'liquidity_withdrawal': return 'Liquidity Withdrawal';
+      case 'dissolution': return 'Zone Dissolved';
+      case 'custom_rule': return 'Rule Triggered';
       default: return 'Alert';
     }
   };
@@ -119,18 +128,22 @@ const NotificationSystem: React.FC<NotificationSystemProps> = ({
                 
                 {/* Zone details */}
                 <div className="text-xs opacity-80 space-y-1">
-                  <div className="flex justify-between">
-                    <span>Price:</span>
-                    <span className="font-mono">${alert.zone.centerPrice.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Intensity:</span>
-                    <span className="font-mono">{(alert.zone.intensity * 100).toFixed(1)}%</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Volume:</span>
-                    <span className="font-mono">{formatVolume(alert.zone.totalVolume)}</span>
-                  </div>
+                  {alert.zone && (
+                    <>
+                      <div className="flex justify-between">
+                        <span>Price:</span>
+                        <span className="font-mono">${alert.zone.centerPrice.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Intensity:</span>
+                        <span className="font-mono">{(alert.zone.intensity * 100).toFixed(1)}%</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Volume:</span>
+                        <span className="font-mono">{formatVolume(alert.zone.totalVolume)}</span>
+                      </div>
+                    </>
+                  )}
                   {alert.metadata && (
                     <>
                       {alert.metadata.volumeChange && (
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { PlaybackState, PLAYBACK_SPEEDS } from '@/services/sessionPlayback';
+
+interface RecordedSession {
+  file: string;
+  size: number;
+  modified: number;
+}
+
+interface PlaybackControlPanelProps {
+  state: PlaybackState | null;
+  error: string | null;
+  onLoadText: (text: string) => void;
+  onLoadRecorded: (fileName: string) => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onStep: () => void;
+  onSeek: (timestamp: number) => void;
+  onSpeedChange: (speed: number) => void;
+  className?: string;
+}
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString('en-US', { hour12: false });
+};
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+const PlaybackControlPanel: React.FC<PlaybackControlPanelProps> = ({
+  state,
+  error,
+  onLoadText,
+  onLoadRecorded,
+  onPlay,
+  onPause,
+  onStep,
+  onSeek,
+  onSpeedChange,
+  className = ''
+}) => {
+  const [sessions, setSessions] = useState<RecordedSession[]>([]);
+  const [selectedSession, setSelectedSession] = useState('');
+
+  // Recorded sessions are only available when running against the local server
+  useEffect(() => {
+    fetch('/api/sessions')
+      .then(response => response.ok ? response.json() : { sessions: [] })
+      .then(body => setSessions(body.sessions || []))
+      .catch(() => setSessions([]));
+  }, []);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    onLoadText(await file.text());
+    event.target.value = '';
+  };
+
+  const handleSessionChange = (fileName: string) => {
+    setSelectedSession(fileName);
+    if (fileName) {
+      onLoadRecorded(fileName);
+    }
+  };
+
+  return (
+    <div className={`bg-card border border-border rounded-lg p-3 space-y-3 ${className}`}>
+      {/* Playback Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <div className={`w-3 h-3 rounded-full ${state?.isPlaying ? 'bg-blue-500 animate-pulse' : 'bg-gray-500'}`} />
+          <span className="font-semibold text-foreground">Historical Playback</span>
+        </div>
+        {state && (
+          <span className="text-xs text-muted-foreground">{state.symbol}</span>
+        )}
+      </div>
+
+      {/* Session Source */}
+      <div className="space-y-2 text-xs">
+        <label className="block text-muted-foreground">
+          Open session (.ndjson) or exported snapshot (.json)
+          <input
+            type="file"
+            accept=".ndjson,.json,application/json"
+            onChange={handleFileChange}
+            className="w-full text-foreground mt-1"
+          />
+        </label>
+        {sessions.length > 0 && (
+          <select
+            value={selectedSession}
+            onChange={(e) => handleSessionChange(e.target.value)}
+            className="w-full bg-secondary text-foreground rounded px-2 py-1"
+          >
+            <option value="">Recorded sessions...</option>
+            {sessions.map(session => (
+              <option key={session.file} value={session.file}>{session.file}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-xs text-red-400">{error}</div>
+      )}
+
+      {state && (
+        <>
+          {/* Transport Controls */}
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={state.isPlaying ? onPause : onPlay}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm transition-colors"
+            >
+              {state.isPlaying ? '❚❚ Pause' : '▶ Play'}
+            </button>
+            <button
+              onClick={onStep}
+              className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm transition-colors"
+              title="Apply the next depth update"
+            >
+              ⏭ Step
+            </button>
+            <select
+              value={state.speed}
+              onChange={(e) => onSpeedChange(Number(e.target.value))}
+              className="bg-secondary text-foreground rounded px-2 py-1 text-sm"
+            >
+              {PLAYBACK_SPEEDS.map(speed => (
+                <option key={speed} value={speed}>{speed}x</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Timeline Scrubber */}
+          <div className="space-y-1">
+            <input
+              type="range"
+              min={state.startTime}
+              max={state.endTime}
+              step={100}
+              value={Math.max(state.startTime, state.currentTime)}
+              onChange={(e) => onSeek(Number(e.target.value))}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-muted-foreground font-mono">
+              <span>{formatTime(state.startTime)}</span>
+              <span className="text-foreground">
+                {formatTime(state.currentTime)} (+{formatDuration(state.currentTime - state.startTime)})
+              </span>
+              <span>{formatTime(state.endTime)}</span>
+            </div>
+          </div>
+
+          <div className="text-xs text-muted-foreground">
+            Record {state.position.toLocaleString()} / {state.totalRecords.toLocaleString()}
+            {state.timeRange !== 'live' && ` | Window: last ${state.timeRange}`}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackControlPanel;
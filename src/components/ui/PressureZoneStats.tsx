@@ -19,6 +19,7 @@ const PressureZoneStats: React.FC<PressureZoneStatsProps> = ({ analysis, classNa
   }
 
   const { statistics, alerts } = analysis;
+  const absorptionZones = analysis.zones.flatMap(zone => (zone.absorption ? [{ zone, info: zone.absorption }] : []));
 
   const getSeverityColor = (severity: PressureZoneAlert['severity']) => {
     switch (severity) {
@@ -38,6 +39,9 @@ const PressureZoneStats: React.FC<PressureZoneStatsProps> = ({ analysis, classNa
       case 'weakening': return '📉';
       case 'volume_spike': return '💥';
       case 'cluster_formation': return '🎯';
+      case 'order_flow_imbalance': return '⚖️';
+      case 'liquidity_withdrawal': return '🫥';
+      case 'dissolution': return '💨';
       default: return '📊';
     }
   };
@@ -117,6 +121,31 @@ const PressureZoneStats: React.FC<PressureZoneStatsProps> = ({ analysis, classNa
         </div>
       )}
 
+      {/* Zone Lifecycle */}
+      {statistics.temporalAnalysis && (
+        <div className="mb-6">
+          <h4 className="text-md font-semibold text-white mb-3">Zone Lifecycle</h4>
+          <div className="grid grid-cols-4 gap-2">
+            <div className="bg-gray-700 p-2 rounded">
+              <div className="text-xs text-gray-400">Forming</div>
+              <div className="text-lg font-bold text-white">{statistics.temporalAnalysis.formingZones}</div>
+            </div>
+            <div className="bg-green-900/20 p-2 rounded border border-green-700/30">
+              <div className="text-xs text-green-400">Rising</div>
+              <div className="text-lg font-bold text-green-300">{statistics.temporalAnalysis.strengtheningZones}</div>
+            </div>
+            <div className="bg-red-900/20 p-2 rounded border border-red-700/30">
+              <div className="text-xs text-red-400">Fading</div>
+              <div className="text-lg font-bold text-red-300">{statistics.temporalAnalysis.weakeningZones}</div>
+            </div>
+            <div className="bg-gray-700 p-2 rounded">
+              <div className="text-xs text-gray-400">Avg Age</div>
+              <div className="text-lg font-bold text-white">{statistics.temporalAnalysis.averageZoneAge.toFixed(0)}s</div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Strongest Zone */}
       {statistics.strongestZone && (
         <div className="mb-6">
@@ -132,7 +161,15 @@ const PressureZoneStats: React.FC<PressureZoneStatsProps> = ({ analysis, classNa
                 </div>
                 <div className="text-xs text-gray-500 mt-1">
                   Volume: {formatVolume(statistics.strongestZone.totalVolume)}
+                  {statistics.strongestZone.lifecycle && (
+                    <> • Peak {(statistics.strongestZone.lifecycle.peakIntensity * 100).toFixed(0)}% • {statistics.strongestZone.lifecycle.trend}</>
+                  )}
                 </div>
+                {statistics.strongestZone.detectors && statistics.strongestZone.detectors.length > 0 && (
+                  <div className="text-xs text-gray-500">
+                    Detected by: {statistics.strongestZone.detectors.join(', ')}
+                  </div>
+                )}
               </div>
               <div className="text-right">
                 <div className="text-blue-300 font-bold">
@@ -147,6 +184,32 @@ const PressureZoneStats: React.FC<PressureZoneStatsProps> = ({ analysis, classNa
         </div>
       )}
 
+      {/* Absorbing Levels */}
+      {absorptionZones.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-md font-semibold text-white mb-2">Absorption</h4>
+          <div className="space-y-2">
+            {absorptionZones.slice(0, 3).map(({ zone, info }) => (
+              <div key={zone.id} className="bg-cyan-900/20 p-3 rounded border border-cyan-700/30">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <div className="text-cyan-300 font-semibold">
+                      {zone.side.toUpperCase()} ${zone.centerPrice.toFixed(2)}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      Hidden ~{formatVolume(info.hiddenVolume)} • Shown {formatVolume(info.visibleVolume)} • {info.refillCount} refills
+                    </div>
+                  </div>
+                  <div className="text-right text-cyan-300 font-bold">
+                    {((zone.confidence ?? 0) * 100).toFixed(0)}%
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Critical Levels */}
       {statistics.criticalLevels.length > 0 && (
         <div className="mb-6">
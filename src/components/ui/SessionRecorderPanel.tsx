@@ -0,0 +1,119 @@
+'use client';
+
+import React, { useState } from 'react';
+import { RecorderOptions, RecorderStatus } from '@/services/sessionRecorder';
+
+interface SessionRecorderPanelProps {
+  status: RecorderStatus | null;
+  canRecord: boolean;
+  onStart: (options: Partial<RecorderOptions>) => void;
+  onStop: () => void;
+  className?: string;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const SessionRecorderPanel: React.FC<SessionRecorderPanelProps> = ({
+  status,
+  canRecord,
+  onStart,
+  onStop,
+  className = ''
+}) => {
+  const [maxFileMB, setMaxFileMB] = useState(50);
+  const [maxFileMinutes, setMaxFileMinutes] = useState(60);
+
+  const isRecording = !!status && status.state !== 'idle';
+
+  const handleStart = () => {
+    onStart({
+      maxFileBytes: maxFileMB * 1024 * 1024,
+      maxFileDuration: maxFileMinutes * 60 * 1000
+    });
+  };
+
+  return (
+    <div className={`bg-card border border-border rounded-lg p-3 space-y-3 ${className}`}>
+      {/* Recorder Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <div className={`w-3 h-3 rounded-full ${isRecording ? 'bg-red-500 animate-pulse' : 'bg-gray-500'}`} />
+          <span className="font-semibold text-foreground">Session Recorder</span>
+        </div>
+        {isRecording ? (
+          <button
+            onClick={onStop}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm transition-colors"
+          >
+            ■ Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={!canRecord}
+            className="bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white px-3 py-1 rounded text-sm transition-colors"
+          >
+            ● Record
+          </button>
+        )}
+      </div>
+
+      {!canRecord && !isRecording && (
+        <div className="text-xs text-muted-foreground">
+          Recording captures the live Binance stream and is unavailable in demo mode.
+        </div>
+      )}
+
+      {/* Rotation Settings */}
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <label className="text-muted-foreground">
+          Rotate at (MB)
+          <input
+            type="number"
+            min={1}
+            value={maxFileMB}
+            onChange={(e) => setMaxFileMB(Math.max(1, Number(e.target.value)))}
+            disabled={isRecording}
+            className="w-full bg-secondary text-foreground rounded px-2 py-1 mt-1"
+          />
+        </label>
+        <label className="text-muted-foreground">
+          Rotate every (min)
+          <input
+            type="number"
+            min={1}
+            value={maxFileMinutes}
+            onChange={(e) => setMaxFileMinutes(Math.max(1, Number(e.target.value)))}
+            disabled={isRecording}
+            className="w-full bg-secondary text-foreground rounded px-2 py-1 mt-1"
+          />
+        </label>
+      </div>
+
+      {/* Recording Status */}
+      {status && status.files.length > 0 && (
+        <div className="text-xs space-y-1">
+          {isRecording && (
+            <div className="text-muted-foreground">
+              {status.state === 'awaiting_snapshot' ? 'Waiting for snapshot...' : (
+                <>Writing <span className="font-mono text-foreground">{status.currentFile}</span> ({formatBytes(status.currentFileBytes)})</>
+              )}
+            </div>
+          )}
+          <div className="text-muted-foreground">
+            Records: {status.recordsWritten.toLocaleString()} | Files: {status.files.length}
+          </div>
+          {status.lastError && (
+            <div className="text-red-400">{status.lastError}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionRecorderPanel;
@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { SymbolSummary } from '@/types/orderbook';
+import { symbolRegistry } from '@/services/symbolRegistry';
+
+interface SymbolPickerProps {
+  symbol: string;
+  summaries: SymbolSummary[];
+  onSymbolChange: (symbol: string) => void;
+  className?: string;
+}
+
+const MAX_RESULTS = 8;
+
+/**
+ * Searchable symbol switcher. Subscribed symbols are listed first with their
+ * live spread; any other known symbol (or a typed one) subscribes on selection.
+ */
+const SymbolPicker: React.FC<SymbolPickerProps> = ({
+  symbol,
+  summaries,
+  onSymbolChange,
+  className = ''
+}) => {
+  const [query, setQuery] = useState('');
+
+  const summaryBySymbol = useMemo(
+    () => new Map(summaries.map(summary => [summary.symbol, summary])),
+    [summaries]
+  );
+
+  const results = useMemo(() => {
+    const search = query.trim().toUpperCase();
+    const subscribed = summaries.map(summary => summary.symbol);
+    const listed = symbolRegistry.list().map(info => info.symbol).filter(name => !summaryBySymbol.has(name));
+
+    const matches = [...subscribed, ...listed].filter(name => {
+      if (!search) return true;
+      const info = symbolRegistry.get(name);
+      return name.includes(search) || info.baseAsset.includes(search) || info.quoteAsset.includes(search);
+    });
+
+    // Allow symbols missing from the cached exchangeInfo
+    if (search.length >= 5 && /^[A-Z0-9]+$/.test(search) && !matches.includes(search)) {
+      matches.push(search);
+    }
+
+    return matches.slice(0, MAX_RESULTS);
+  }, [query, summaries, summaryBySymbol]);
+
+  const formatSpread = (summary: SymbolSummary | undefined) => {
+    if (!summary || summary.spread === null) return '—';
+    return symbolRegistry.formatPrice(summary.symbol, summary.spread);
+  };
+
+  const handleSelect = (name: string) => {
+    setQuery('');
+    onSymbolChange(name);
+  };
+
+  return (
+    <div className={`bg-gray-700 rounded-lg p-3 ${className}`}>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-white">Symbol</label>
+        <span className="text-xs text-blue-400 font-mono">{symbol}</span>
+      </div>
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && results.length > 0) {
+            handleSelect(results[0]);
+          }
+        }}
+        placeholder="Search symbols (e.g. ETH, SOLUSDT)..."
+        className="w-full bg-gray-600 text-white text-sm rounded px-3 py-2 mb-2"
+      />
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {results.map(name => {
+          const summary = summaryBySymbol.get(name);
+          const isActive = name === symbol;
+
+          return (
+            <button
+              key={name}
+              onClick={() => handleSelect(name)}
+              className={`w-full flex justify-between items-center text-xs rounded px-2 py-1 transition-colors ${
+                isActive ? 'bg-blue-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+              }`}
+            >
+              <span className="font-mono">
+                {name}
+                {summary && summary.syncState !== 'in_sync' && summary.syncState !== 'idle' && (
+                  <span className="ml-1 text-yellow-400">syncing</span>
+                )}
+              </span>
+              <span className={summary ? 'font-mono' : 'text-gray-400'}>
+                {summary ? `spread ${formatSpread(summary)}` : 'subscribe'}
+              </span>
+            </button>
+          );
+        })}
+        {results.length === 0 && (
+          <div className="text-xs text-gray-400 px-2 py-1">No matching symbols</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SymbolPicker;
@@ -0,0 +1,291 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MetricField, MetricsSeries } from '@/services/metricsHistory';
+import { symbolRegistry } from '@/services/symbolRegistry';
+import { useTheme3D } from '@/hooks/useTheme3D';
+
+interface TimeSeriesChartProps {
+  series: MetricsSeries;
+  start: number; // Left edge of the time axis, ms
+  end: number; // Right edge of the time axis, ms
+  symbol: string;
+  crosshairTime?: number | null; // Shared with the 3D scene's time cursor
+  onHoverTime?: (time: number | null) => void;
+  height?: number;
+  className?: string;
+}
+
+interface Pane {
+  label: string;
+  lines: { field: MetricField; color: string }[];
+  format: (value: number) => string;
+  range?: [number, number]; // Fixed range instead of fitting the visible data
+  step?: boolean; // Hold values between samples, for counts
+}
+
+const AXIS_HEIGHT = 16;
+const PANE_GAP = 4;
+const LABEL_WIDTH = 72;
+
+/**
+ * Binary search for the sample closest to `time`
+ */
+const nearestIndex = (timestamps: Float64Array, time: number): number => {
+  let low = 0;
+  let high = timestamps.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (timestamps[mid] < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  if (low > 0 && time - timestamps[low - 1] < timestamps[low] - time) return low - 1;
+  return low;
+};
+
+const formatClock = (time: number, withSeconds: boolean) => new Date(time).toLocaleTimeString([], {
+  hour: '2-digit',
+  minute: '2-digit',
+  second: withSeconds ? '2-digit' : undefined
+});
+
+/**
+ * Stacked line charts of book metrics on a shared time axis, drawn on one
+ * canvas. Each pane reduces its samples to a min/max pair per pixel column,
+ * so a day of one-second samples costs no more to draw than the chart is wide.
+ * The crosshair follows either the mouse or `crosshairTime`.
+ */
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
+  series,
+  start,
+  end,
+  symbol,
+  crosshairTime = null,
+  onHoverTime,
+  height = 260,
+  className = ''
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const themeColors = useTheme3D();
+
+  const panes: Pane[] = useMemo(() => [
+    {
+      label: 'Mid',
+      lines: [{ field: 'midPrice', color: themeColors.accent }],
+      format: value => symbolRegistry.formatPrice(symbol, value)
+    },
+    {
+      label: 'Spread',
+      lines: [{ field: 'spreadBps', color: themeColors.pressureColors.medium }],
+      format: value => `${value.toFixed(2)}bp`
+    },
+    {
+      label: 'Imbalance',
+      lines: [{ field: 'imbalance', color: themeColors.text }],
+      format: value => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`,
+      range: [-1, 1]
+    },
+    {
+      label: 'Depth',
+      lines: [
+        { field: 'bidDepth', color: themeColors.bidColor },
+        { field: 'askDepth', color: themeColors.askColor }
+      ],
+      format: value => symbolRegistry.formatQuantity(symbol, value)
+    },
+    {
+      label: 'Zones',
+      lines: [{ field: 'zoneCount', color: themeColors.pressureColors.high }],
+      format: value => value.toFixed(0),
+      step: true
+    }
+  ], [themeColors, symbol]);
+
+  // Track the container width
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.floor(entries[0].contentRect.width));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+    context.font = '10px ui-monospace, monospace';
+    context.textBaseline = 'top';
+
+    const plotWidth = Math.max(width - LABEL_WIDTH, 1);
+    const span = Math.max(end - start, 1);
+    const paneHeight = (height - AXIS_HEIGHT - PANE_GAP * (panes.length - 1)) / panes.length;
+    const toX = (time: number) => ((time - start) / span) * plotWidth;
+    const { timestamps, length } = series;
+
+    panes.forEach((pane, paneIndex) => {
+      const top = paneIndex * (paneHeight + PANE_GAP);
+
+      // Fit the visible values unless the pane has a fixed range
+      let [min, max] = pane.range ?? [Infinity, -Infinity];
+      if (!pane.range) {
+        pane.lines.forEach(line => {
+          const values = series.values[line.field];
+          for (let i = 0; i < length; i++) {
+            if (values[i] < min) min = values[i];
+            if (values[i] > max) max = values[i];
+          }
+        });
+        if (min === Infinity) {
+          min = 0;
+          max = 1;
+        }
+        if (max - min < 1e-12) {
+          const pad = Math.abs(max) * 0.001 || 1;
+          min -= pad;
+          max += pad;
+        }
+      }
+      const toY = (value: number) => top + paneHeight - ((value - min) / (max - min)) * paneHeight;
+
+      // Pane frame and labels
+      context.strokeStyle = themeColors.gridColor;
+      context.lineWidth = 1;
+      context.strokeRect(0.5, top + 0.5, plotWidth - 1, paneHeight - 1);
+      context.fillStyle = themeColors.text;
+      context.textAlign = 'left';
+      context.fillText(pane.label, plotWidth + 4, top + 1);
+      context.globalAlpha = 0.6;
+      context.fillText(pane.format(max), plotWidth + 4, top + 12);
+      context.fillText(pane.format(min), plotWidth + 4, top + paneHeight - 11);
+      context.globalAlpha = 1;
+
+      if (pane.range && min < 0 && max > 0) {
+        context.setLineDash([2, 3]);
+        context.beginPath();
+        context.moveTo(0, toY(0) + 0.5);
+        context.lineTo(plotWidth, toY(0) + 0.5);
+        context.stroke();
+        context.setLineDash([]);
+      }
+
+      // One min/max segment per pixel column
+      pane.lines.forEach(line => {
+        const values = series.values[line.field];
+        context.strokeStyle = line.color;
+        context.lineWidth = 1.25;
+        context.beginPath();
+
+        let column = -1;
+        let columnMin = 0;
+        let columnMax = 0;
+        let last = 0;
+        let started = false;
+        const flush = () => {
+          if (column < 0) return;
+          if (!started) {
+            context.moveTo(column, toY(columnMin));
+            started = true;
+          } else if (pane.step) {
+            context.lineTo(column, toY(last));
+          }
+          context.lineTo(column, toY(columnMin));
+          context.lineTo(column, toY(columnMax));
+        };
+
+        for (let i = 0; i < length; i++) {
+          const x = Math.round(toX(timestamps[i]));
+          const value = values[i];
+          if (x !== column) {
+            flush();
+            if (column >= 0) last = values[i - 1];
+            column = x;
+            columnMin = value;
+            columnMax = value;
+          } else {
+            columnMin = Math.min(columnMin, value);
+            columnMax = Math.max(columnMax, value);
+          }
+        }
+        flush();
+        context.stroke();
+      });
+    });
+
+    // Time axis
+    const axisTop = height - AXIS_HEIGHT + 3;
+    const withSeconds = span <= 15 * 60 * 1000;
+    context.fillStyle = themeColors.text;
+    context.globalAlpha = 0.6;
+    context.textAlign = 'left';
+    context.fillText(formatClock(start, withSeconds), 0, axisTop);
+    context.textAlign = 'right';
+    context.fillText(formatClock(end, withSeconds), plotWidth, axisTop);
+    context.globalAlpha = 1;
+
+    // Crosshair with the nearest sample's values
+    if (crosshairTime !== null && crosshairTime >= start && crosshairTime <= end) {
+      const x = Math.round(toX(crosshairTime)) + 0.5;
+      context.strokeStyle = themeColors.text;
+      context.globalAlpha = 0.5;
+      context.beginPath();
+      context.moveTo(x, 0);
+      context.lineTo(x, height - AXIS_HEIGHT);
+      context.stroke();
+      context.globalAlpha = 1;
+
+      context.textAlign = 'center';
+      context.fillText(formatClock(crosshairTime, true), Math.min(Math.max(x, 30), plotWidth - 30), axisTop);
+
+      if (length > 0) {
+        const index = nearestIndex(timestamps, crosshairTime);
+        const alignRight = x > plotWidth / 2;
+        context.textAlign = alignRight ? 'right' : 'left';
+        panes.forEach((pane, paneIndex) => {
+          const top = paneIndex * (paneHeight + PANE_GAP);
+          const text = pane.lines.map(line => pane.format(series.values[line.field][index])).join(' / ');
+          context.fillStyle = themeColors.background;
+          const textWidth = context.measureText(text).width;
+          context.fillRect(alignRight ? x - textWidth - 6 : x + 2, top + 2, textWidth + 4, 12);
+          context.fillStyle = themeColors.text;
+          context.fillText(text, alignRight ? x - 4 : x + 4, top + 3);
+        });
+      }
+    }
+  }, [series, start, end, crosshairTime, width, height, themeColors, panes]);
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onHoverTime) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const fraction = (event.clientX - bounds.left) / Math.max(bounds.width - LABEL_WIDTH, 1);
+    onHoverTime(fraction >= 0 && fraction <= 1 ? start + fraction * (end - start) : null);
+  };
+
+  return (
+    <div ref={containerRef} className={`w-full ${className}`}>
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height }}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => onHoverTime?.(null)}
+        className="block cursor-crosshair"
+      />
+    </div>
+  );
+};
+
+export default TimeSeriesChart;
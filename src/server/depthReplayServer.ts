@@ -0,0 +1,402 @@
+import fs from 'fs';
+import http from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { OrderbookUpdate, SessionRecord, TradeEvent } from '@/types/orderbook';
+import { parseSessionRecords } from '@/utils/sessionFormat';
+
+export interface DepthReplayOptions {
+  port: number;
+  speed: number; // Playback multiplier, 1 = recorded pace
+  loop: boolean;
+}
+
+export interface DepthReplayStatus {
+  symbol: string;
+  speed: number;
+  paused: boolean;
+  position: number;
+  totalRecords: number;
+  lastUpdateId: number;
+  sessionTime: number;
+  clients: number;
+}
+
+const DEFAULT_OPTIONS: DepthReplayOptions = {
+  port: 9443,
+  speed: 1,
+  loop: true
+};
+
+/**
+ * Serves a recorded session over the Binance spot protocol:
+ * `/ws/<symbol>@depth`, `/ws/<symbol>@aggTrade` and `/stream?streams=...`
+ * WebSocket streams plus the `/api/v3/depth` REST snapshot, so the real
+ * ingestion path can run offline.
+ */
+export class DepthReplayServer {
+  private records: SessionRecord[];
+  private options: DepthReplayOptions;
+  private symbol: string;
+  private httpServer: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  // Client -> subscribed streams, and whether it wants the combined-stream wrapper
+  private clients: Map<WebSocket, { streams: Set<string>; combined: boolean }> = new Map();
+
+  // Replayed book state
+  private bids: Map<string, string> = new Map();
+  private asks: Map<string, string> = new Map();
+  private lastUpdateId: number = 0;
+  private cursor: number = 0;
+  private paused: boolean = false;
+  private playbackTimeout: NodeJS.Timeout | null = null;
+
+  // Long idle stretches in a session (e.g. between rotated files) are compressed
+  private readonly MAX_IDLE_GAP = 5000;
+
+  constructor(records: SessionRecord[], options: Partial<DepthReplayOptions> = {}) {
+    const firstSnapshot = records.find(record => record.type === 'snapshot');
+    if (!firstSnapshot) {
+      throw new Error('Session contains no snapshot record');
+    }
+
+    // Rotated or concatenated files need not be in time order; the stable sort keeps ties as recorded
+    this.records = [...records].sort((a, b) => a.t - b.t);
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.symbol = firstSnapshot.data.symbol.toUpperCase();
+  }
+
+  public static fromFile(filePath: string, options: Partial<DepthReplayOptions> = {}): DepthReplayServer {
+    const text = fs.readFileSync(filePath, 'utf8');
+    return new DepthReplayServer(parseSessionRecords(text), options);
+  }
+
+  // Public methods
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer = http.createServer(this.handleHttpRequest.bind(this));
+      this.wss = new WebSocketServer({ noServer: true });
+
+      this.httpServer.on('upgrade', (request, socket, head) => {
+        const subscription = this.parseStreamPath(request.url || '');
+        if (!subscription) {
+          socket.destroy();
+          return;
+        }
+
+        this.wss!.handleUpgrade(request, socket, head, ws => {
+          this.clients.set(ws, subscription);
+          ws.on('message', raw => this.handleClientMessage(ws, raw.toString()));
+          ws.on('close', () => this.clients.delete(ws));
+        });
+      });
+
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, () => {
+        console.log(
+          `Depth replay for ${this.symbol} listening on http://localhost:${this.options.port} ` +
+          `(${this.records.length} records, ${this.options.speed}x)`
+        );
+        this.resetPlayback();
+        this.scheduleNext();
+        resolve();
+      });
+    });
+  }
+
+  public stop(): Promise<void> {
+    if (this.playbackTimeout) {
+      clearTimeout(this.playbackTimeout);
+      this.playbackTimeout = null;
+    }
+
+    this.clients.forEach((_, ws) => ws.close(1000));
+    this.clients.clear();
+    this.wss?.close();
+    this.wss = null;
+
+    return new Promise(resolve => {
+      if (!this.httpServer) {
+        resolve();
+        return;
+      }
+      this.httpServer.close(() => resolve());
+      this.httpServer = null;
+    });
+  }
+
+  public setSpeed(speed: number): void {
+    if (!isFinite(speed) || speed <= 0) {
+      throw new Error(`Invalid playback speed: ${speed}`);
+    }
+    this.options.speed = speed;
+  }
+
+  public pause(): void {
+    this.paused = true;
+    if (this.playbackTimeout) {
+      clearTimeout(this.playbackTimeout);
+      this.playbackTimeout = null;
+    }
+  }
+
+  public resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.scheduleNext();
+  }
+
+  public getStatus(): DepthReplayStatus {
+    return {
+      symbol: this.symbol,
+      speed: this.options.speed,
+      paused: this.paused,
+      position: this.cursor,
+      totalRecords: this.records.length,
+      lastUpdateId: this.lastUpdateId,
+      sessionTime: this.records[Math.max(0, this.cursor - 1)]?.t ?? 0,
+      clients: this.clients.size
+    };
+  }
+
+  // Playback
+  private resetPlayback(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.lastUpdateId = 0;
+    this.cursor = 0;
+  }
+
+  private scheduleNext(): void {
+    if (this.paused || !this.httpServer) return;
+
+    if (this.cursor >= this.records.length) {
+      if (!this.options.loop) {
+        console.log('Replay finished');
+        return;
+      }
+
+      // Update ids restart from the beginning, so clients must re-snapshot
+      console.log('Replay looping to start');
+      this.clients.forEach((_, ws) => ws.close(1012, 'Replay restarted'));
+      this.resetPlayback();
+    }
+
+    const record = this.records[this.cursor];
+    const previous = this.records[this.cursor - 1];
+    const gap = previous ? Math.min(Math.max(record.t - previous.t, 0), this.MAX_IDLE_GAP) : 0;
+
+    this.playbackTimeout = setTimeout(() => {
+      this.playbackTimeout = null;
+      this.applyRecord(record);
+      this.cursor++;
+      this.scheduleNext();
+    }, gap / this.options.speed);
+  }
+
+  private applyRecord(record: SessionRecord): void {
+    if (record.type === 'trade') {
+      this.broadcastTrade(record.data);
+      return;
+    }
+
+    if (record.type === 'snapshot') {
+      this.bids.clear();
+      this.asks.clear();
+      record.data.bids.forEach(level => this.bids.set(level.price, level.quantity));
+      record.data.asks.forEach(level => this.asks.set(level.price, level.quantity));
+      this.lastUpdateId = record.data.lastUpdateId;
+      return;
+    }
+
+    const update = record.data;
+    // Diffs recorded while the snapshot was loading are already in it, and those
+    // before the first snapshot have no book to apply to
+    if (this.lastUpdateId === 0 || update.finalUpdateId <= this.lastUpdateId) return;
+
+    this.applyLevels(this.bids, update.bids);
+    this.applyLevels(this.asks, update.asks);
+    this.lastUpdateId = update.finalUpdateId;
+    this.broadcastDepth(update);
+  }
+
+  private applyLevels(side: Map<string, string>, levels: OrderbookUpdate['bids']): void {
+    levels.forEach(level => {
+      if (parseFloat(level.quantity) === 0) {
+        side.delete(level.price);
+      } else {
+        side.set(level.price, level.quantity);
+      }
+    });
+  }
+
+  private broadcastDepth(update: OrderbookUpdate): void {
+    this.broadcast(`${update.symbol.toLowerCase()}@depth`, {
+      e: 'depthUpdate',
+      E: Date.now(),
+      s: update.symbol.toUpperCase(),
+      U: update.firstUpdateId,
+      u: update.finalUpdateId,
+      b: update.bids.map(level => [level.price, level.quantity]),
+      a: update.asks.map(level => [level.price, level.quantity])
+    });
+  }
+
+  /**
+   * Recorded prints go out as aggTrade events stamped now, like the depth events
+   */
+  private broadcastTrade(trade: TradeEvent): void {
+    const now = Date.now();
+    this.broadcast(`${this.symbol.toLowerCase()}@aggTrade`, {
+      e: 'aggTrade',
+      E: now,
+      s: this.symbol,
+      a: trade.tradeId,
+      p: String(trade.price),
+      q: String(trade.quantity),
+      T: now,
+      m: trade.aggressor === 'sell'
+    });
+  }
+
+  private broadcast(stream: string, event: object): void {
+    const raw = JSON.stringify(event);
+    const wrapped = JSON.stringify({ stream, data: event });
+    // Subscriptions are normalized to lower case
+    const key = stream.toLowerCase();
+
+    this.clients.forEach((subscription, ws) => {
+      if (ws.readyState !== WebSocket.OPEN || !subscription.streams.has(key)) return;
+      ws.send(subscription.combined ? wrapped : raw);
+    });
+  }
+
+  // Protocol handling
+  private parseStreamPath(url: string): { streams: Set<string>; combined: boolean } | null {
+    const { pathname, searchParams } = new URL(url, 'http://localhost');
+    // Update-speed suffixes (@100ms) are accepted but ignored
+    const normalize = (stream: string) => stream.toLowerCase().replace(/@\d+ms$/, '');
+
+    if (pathname.startsWith('/ws/')) {
+      return { streams: new Set([normalize(pathname.slice(4))]), combined: false };
+    }
+
+    if (pathname === '/stream' && searchParams.get('streams')) {
+      const streams = searchParams.get('streams')!.split('/').map(normalize);
+      return { streams: new Set(streams), combined: true };
+    }
+
+    return null;
+  }
+
+  /**
+   * Live SUBSCRIBE/UNSUBSCRIBE requests, answered like Binance with `{ result: null, id }`
+   */
+  private handleClientMessage(ws: WebSocket, raw: string): void {
+    const subscription = this.clients.get(ws);
+    if (!subscription) return;
+
+    let request: { method?: string; params?: unknown; id?: unknown };
+    try {
+      request = JSON.parse(raw);
+    } catch {
+      ws.send(JSON.stringify({ error: { code: 2, msg: 'Invalid JSON' } }));
+      return;
+    }
+
+    const params = Array.isArray(request.params) ? request.params.map(String) : [];
+    const normalize = (stream: string) => stream.toLowerCase().replace(/@\d+ms$/, '');
+
+    switch (request.method) {
+      case 'SUBSCRIBE':
+        params.forEach(stream => subscription.streams.add(normalize(stream)));
+        ws.send(JSON.stringify({ result: null, id: request.id ?? null }));
+        return;
+
+      case 'UNSUBSCRIBE':
+        params.forEach(stream => subscription.streams.delete(normalize(stream)));
+        ws.send(JSON.stringify({ result: null, id: request.id ?? null }));
+        return;
+
+      case 'LIST_SUBSCRIPTIONS':
+        ws.send(JSON.stringify({ result: Array.from(subscription.streams), id: request.id ?? null }));
+        return;
+
+      default:
+        ws.send(JSON.stringify({ error: { code: 2, msg: `Unknown method: ${request.method}` }, id: request.id ?? null }));
+    }
+  }
+
+  private handleHttpRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const { pathname, searchParams } = new URL(request.url || '/', 'http://localhost');
+
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204);
+      response.end();
+      return;
+    }
+
+    switch (pathname) {
+      case '/api/v3/ping':
+        this.sendJson(response, 200, {});
+        return;
+
+      case '/api/v3/depth': {
+        const symbol = (searchParams.get('symbol') || '').toUpperCase();
+        if (symbol !== this.symbol) {
+          this.sendJson(response, 400, { code: -1121, msg: 'Invalid symbol.' });
+          return;
+        }
+        const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 5000);
+        this.sendJson(response, 200, this.getDepthSnapshot(limit));
+        return;
+      }
+
+      case '/replay/status':
+        this.sendJson(response, 200, this.getStatus());
+        return;
+
+      case '/replay/speed':
+        try {
+          this.setSpeed(parseFloat(searchParams.get('value') || ''));
+          this.sendJson(response, 200, this.getStatus());
+        } catch (error) {
+          this.sendJson(response, 400, { msg: (error as Error).message });
+        }
+        return;
+
+      case '/replay/pause':
+        this.pause();
+        this.sendJson(response, 200, this.getStatus());
+        return;
+
+      case '/replay/resume':
+        this.resume();
+        this.sendJson(response, 200, this.getStatus());
+        return;
+
+      default:
+        this.sendJson(response, 404, { msg: 'Not found' });
+    }
+  }
+
+  private getDepthSnapshot(limit: number): { lastUpdateId: number; bids: string[][]; asks: string[][] } {
+    const sortSide = (side: Map<string, string>, descending: boolean) =>
+      Array.from(side.entries())
+        .sort((a, b) => descending ? parseFloat(b[0]) - parseFloat(a[0]) : parseFloat(a[0]) - parseFloat(b[0]))
+        .slice(0, limit);
+
+    return {
+      lastUpdateId: this.lastUpdateId,
+      bids: sortSide(this.bids, true),
+      asks: sortSide(this.asks, false)
+    };
+  }
+
+  private sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,106 @@
+import http from 'http';
+import { WebhookPayload } from '@/services/alertSinks';
+
+export interface WebhookStubOptions {
+  port: number;
+  status: number; // Response status, to exercise the app's failure handling
+}
+
+const DEFAULT_OPTIONS: WebhookStubOptions = {
+  port: 8787,
+  status: 200
+};
+
+/**
+ * Minimal webhook receiver for testing alert delivery locally. Accepts
+ * cross-origin JSON POSTs on any path, logs them, and keeps the received
+ * payloads for `GET /received`.
+ */
+export class WebhookStubServer {
+  private options: WebhookStubOptions;
+  private httpServer: http.Server | null = null;
+  private received: Array<{ receivedAt: number; path: string; body: WebhookPayload | unknown }> = [];
+
+  private readonly MAX_RECEIVED = 200;
+
+  constructor(options: Partial<WebhookStubOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Public methods
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer = http.createServer(this.handleHttpRequest.bind(this));
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, () => {
+        console.log(`Webhook stub listening on http://localhost:${this.options.port} (responding ${this.options.status})`);
+        resolve();
+      });
+    });
+  }
+
+  public stop(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.httpServer) {
+        resolve();
+        return;
+      }
+      this.httpServer.close(() => resolve());
+      this.httpServer = null;
+    });
+  }
+
+  public getReceived(): Array<{ receivedAt: number; path: string; body: WebhookPayload | unknown }> {
+    return [...this.received];
+  }
+
+  // Private methods
+  private handleHttpRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204);
+      response.end();
+      return;
+    }
+
+    if (request.method === 'GET' && pathname === '/received') {
+      this.sendJson(response, 200, { received: this.received });
+      return;
+    }
+
+    if (request.method !== 'POST') {
+      this.sendJson(response, 405, { msg: 'Method not allowed' });
+      return;
+    }
+
+    let text = '';
+    request.on('data', chunk => { text += chunk; });
+    request.on('end', () => {
+      let body: unknown;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        this.sendJson(response, 400, { msg: 'Invalid JSON' });
+        return;
+      }
+
+      this.received = [...this.received, { receivedAt: Date.now(), path: pathname, body }].slice(-this.MAX_RECEIVED);
+      const alert = (body as Partial<WebhookPayload>).alert;
+      console.log(
+        `${new Date().toISOString()} POST ${pathname}` +
+        (alert ? ` [${alert.severity}] ${alert.message}` : ` ${text}`)
+      );
+      this.sendJson(response, this.options.status, { ok: this.options.status < 400 });
+    });
+  }
+
+  private sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
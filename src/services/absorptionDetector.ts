@@ -0,0 +1,228 @@
+import { AbsorptionInfo, ProcessedOrderbookData, TradeEvent } from '@/types/orderbook';
+
+export interface AbsorptionLevel {
+  side: 'bid' | 'ask';
+  price: number;
+  confidence: number; // 0-1
+  info: AbsorptionInfo;
+}
+
+interface LevelState extends AbsorptionInfo {
+  side: 'bid' | 'ask';
+  price: number;
+  peakVisible: number;
+  lastActivity: number;
+}
+
+interface BookSnapshot {
+  levels: Map<string, number>;
+  worstBid: number;
+  worstAsk: number;
+}
+
+/**
+ * Infers iceberg and absorbing liquidity by correlating executed volume at a
+ * price with the resting quantity shown there across successive book updates.
+ * A level that trades X but loses less than X of its displayed size was
+ * refilled by hidden orders; repeated refills build confidence.
+ *
+ * Trades and depth arrive on separate streams, so a single refill can be
+ * timing noise; levels need several before they are reported.
+ */
+export class AbsorptionDetector {
+  private tickSize: number;
+  private levels: Map<string, LevelState> = new Map();
+  private pendingExecutions: Map<string, { side: 'bid' | 'ask'; price: number; volume: number }> = new Map();
+  private previousBook: BookSnapshot | null = null;
+
+  // Configuration
+  private readonly LEVEL_TTL = 60000; // Forget levels idle this long
+  private readonly MIN_REFILLS = 2;
+  private readonly MIN_REFILL_FRACTION = 0.25; // Of the executed volume, for an update to count as a refill
+  private readonly MIN_CONFIDENCE = 0.3;
+
+  constructor(tickSize: number) {
+    this.tickSize = tickSize > 0 ? tickSize : 0.01;
+  }
+
+  // Public methods
+  /**
+   * Forget all state, e.g. after a symbol switch
+   */
+  public reset(tickSize?: number): void {
+    if (tickSize && tickSize > 0) this.tickSize = tickSize;
+    this.levels.clear();
+    this.pendingExecutions.clear();
+    this.previousBook = null;
+  }
+
+  /**
+   * Queue executions to be matched against the next book update. Sell
+   * aggressors trade into bids, buy aggressors into asks.
+   */
+  public addTrades(trades: TradeEvent[]): void {
+    for (const trade of trades) {
+      const side = trade.aggressor === 'sell' ? 'bid' : 'ask';
+      const key = this.getKey(side, trade.price);
+      const pending = this.pendingExecutions.get(key);
+
+      if (pending) {
+        pending.volume += trade.quantity;
+      } else {
+        this.pendingExecutions.set(key, { side, price: trade.price, volume: trade.quantity });
+      }
+    }
+  }
+
+  /**
+   * Match queued executions against the change in resting size since the
+   * previous update and return the levels currently judged to be absorbing
+   */
+  public update(data: ProcessedOrderbookData, now: number = Date.now()): AbsorptionLevel[] {
+    const book = this.snapshot(data);
+
+    if (this.previousBook) {
+      for (const [key, execution] of this.pendingExecutions) {
+        const previous = this.previousBook.levels.get(key);
+        const current = this.getRestingQuantity(book, key, execution);
+
+        // Without both sides of the comparison nothing can be inferred
+        if (previous === undefined || current === undefined) continue;
+
+        const refill = Math.min(execution.volume, Math.max(0, current - (previous - execution.volume)));
+        this.recordExecution(key, execution, previous, current, refill, now);
+      }
+    }
+
+    this.pendingExecutions.clear();
+    this.previousBook = book;
+    this.pruneLevels(now);
+
+    return this.getAbsorbingLevels();
+  }
+
+  public getAbsorbingLevels(): AbsorptionLevel[] {
+    const result: AbsorptionLevel[] = [];
+
+    for (const level of this.levels.values()) {
+      if (level.refillCount < this.MIN_REFILLS || level.hiddenVolume <= 0) continue;
+
+      const confidence = this.calculateConfidence(level);
+      if (confidence < this.MIN_CONFIDENCE) continue;
+
+      result.push({
+        side: level.side,
+        price: level.price,
+        confidence,
+        info: {
+          executedVolume: level.executedVolume,
+          hiddenVolume: level.hiddenVolume,
+          visibleVolume: level.visibleVolume,
+          refillCount: level.refillCount,
+          firstSeen: level.firstSeen,
+          lastRefill: level.lastRefill
+        }
+      });
+    }
+
+    return result.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  // Private methods
+  private getKey(side: 'bid' | 'ask', price: number): string {
+    return `${side}:${Math.round(price / this.tickSize)}`;
+  }
+
+  private snapshot(data: ProcessedOrderbookData): BookSnapshot {
+    const levels = new Map<string, number>();
+    let worstBid = Infinity;
+    let worstAsk = -Infinity;
+
+    data.bids.forEach(bid => {
+      levels.set(this.getKey('bid', bid.price), bid.quantity);
+      worstBid = Math.min(worstBid, bid.price);
+    });
+    data.asks.forEach(ask => {
+      levels.set(this.getKey('ask', ask.price), ask.quantity);
+      worstAsk = Math.max(worstAsk, ask.price);
+    });
+
+    return { levels, worstBid, worstAsk };
+  }
+
+  /**
+   * Resting size at a level; a missing level inside the visible depth is
+   * empty, one beyond it is unknown
+   */
+  private getRestingQuantity(
+    book: BookSnapshot,
+    key: string,
+    execution: { side: 'bid' | 'ask'; price: number }
+  ): number | undefined {
+    const quantity = book.levels.get(key);
+    if (quantity !== undefined) return quantity;
+
+    const withinDepth = execution.side === 'bid'
+      ? execution.price >= book.worstBid
+      : execution.price <= book.worstAsk;
+    return withinDepth ? 0 : undefined;
+  }
+
+  private recordExecution(
+    key: string,
+    execution: { side: 'bid' | 'ask'; price: number; volume: number },
+    previous: number,
+    current: number,
+    refill: number,
+    now: number
+  ): void {
+    let level = this.levels.get(key);
+    if (!level) {
+      level = {
+        side: execution.side,
+        price: execution.price,
+        executedVolume: 0,
+        hiddenVolume: 0,
+        visibleVolume: current,
+        refillCount: 0,
+        firstSeen: now,
+        lastRefill: 0,
+        peakVisible: previous,
+        lastActivity: now
+      };
+      this.levels.set(key, level);
+    }
+
+    level.executedVolume += execution.volume;
+    level.hiddenVolume += refill;
+    level.visibleVolume = current;
+    level.peakVisible = Math.max(level.peakVisible, previous, current);
+    level.lastActivity = now;
+
+    if (refill >= execution.volume * this.MIN_REFILL_FRACTION) {
+      level.refillCount++;
+      level.lastRefill = now;
+    }
+  }
+
+  /**
+   * Blend of how often the level refilled, how much of what traded came
+   * back, and how many times its displayed size has traded
+   */
+  private calculateConfidence(level: LevelState): number {
+    const refillScore = Math.min(level.refillCount / 5, 1);
+    const replenishedRatio = level.executedVolume > 0 ? level.hiddenVolume / level.executedVolume : 0;
+    const turnover = level.peakVisible > 0 ? level.executedVolume / level.peakVisible : 0;
+    const turnoverScore = Math.min(turnover / 3, 1);
+
+    return Math.min(1, refillScore * 0.4 + replenishedRatio * 0.3 + turnoverScore * 0.3);
+  }
+
+  private pruneLevels(now: number): void {
+    for (const [key, level] of this.levels) {
+      if (now - level.lastActivity > this.LEVEL_TTL) {
+        this.levels.delete(key);
+      }
+    }
+  }
+}
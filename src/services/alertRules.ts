@@ -0,0 +1,430 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { PressureZoneAlert } from '@/services/pressureZoneAnalyzer';
+import { symbolRegistry } from '@/services/symbolRegistry';
+
+export type RuleMetric = 'spread_bps' | 'imbalance' | 'mid_price' | 'zone_intensity' | 'data_gap_ms';
+export type RuleOperator = '>' | '>=' | '<' | '<=';
+export type RuleSeverity = PressureZoneAlert['severity'];
+
+/**
+ * Metric compared against a value, optionally required to hold for `forMs`
+ */
+export interface ThresholdCondition {
+  kind: 'threshold';
+  metric: RuleMetric;
+  operator: RuleOperator;
+  value: number;
+  forMs?: number;
+}
+
+/**
+ * Mid price moving through a level between two evaluations
+ */
+export interface CrossCondition {
+  kind: 'cross';
+  level: number;
+  direction: 'up' | 'down' | 'any';
+}
+
+/**
+ * Nested conditions, so rules can mix AND and OR
+ */
+export interface ConditionGroup {
+  kind: 'group';
+  logic: 'and' | 'or';
+  conditions: RuleCondition[];
+}
+
+export type RuleCondition = ThresholdCondition | CrossCondition | ConditionGroup;
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  symbol?: string; // Only evaluated for this symbol; any symbol when omitted
+  logic: 'and' | 'or';
+  conditions: RuleCondition[];
+  cooldownMs: number;
+  severity: RuleSeverity;
+}
+
+/**
+ * Market state a rule set is evaluated against. Book-derived values are null
+ * while the book is empty.
+ */
+export interface RuleInputs {
+  timestamp: number;
+  symbol: string;
+  midPrice: number | null;
+  spreadBps: number | null;
+  imbalance: number | null; // Top-of-book (bid - ask) / (bid + ask), -1..1
+  zoneIntensity: number | null; // Strongest pressure zone, 0..1
+  dataGapMs: number; // Time since the last book update
+}
+
+interface RuleState {
+  lastFired: number;
+  conditionSince: Map<string, number>; // Condition path -> first time it held
+  lastMid: number | null;
+}
+
+export const RULE_METRICS: Record<RuleMetric, { label: string; unit: string }> = {
+  spread_bps: { label: 'Spread', unit: 'bp' },
+  imbalance: { label: 'Imbalance', unit: '' },
+  mid_price: { label: 'Mid price', unit: '' },
+  zone_intensity: { label: 'Zone intensity', unit: '' },
+  data_gap_ms: { label: 'Data gap', unit: 'ms' }
+};
+
+const RULE_FILE_VERSION = 1;
+const SEVERITIES: RuleSeverity[] = ['low', 'medium', 'high', 'critical'];
+const OPERATORS: RuleOperator[] = ['>', '>=', '<', '<='];
+
+/**
+ * Throws unless `value` is a well-formed condition
+ */
+function validateCondition(value: unknown, path: string): RuleCondition {
+  const condition = value as Partial<RuleCondition> | null;
+  if (!condition || typeof condition !== 'object') {
+    throw new Error(`${path}: expected a condition object`);
+  }
+
+  switch (condition.kind) {
+    case 'threshold': {
+      const { metric, operator, value: threshold, forMs } = condition as Partial<ThresholdCondition>;
+      if (!metric || !(metric in RULE_METRICS)) throw new Error(`${path}: unknown metric "${metric}"`);
+      if (!operator || !OPERATORS.includes(operator)) throw new Error(`${path}: unknown operator "${operator}"`);
+      if (typeof threshold !== 'number' || !isFinite(threshold)) throw new Error(`${path}: value must be a number`);
+      if (forMs !== undefined && (typeof forMs !== 'number' || forMs < 0)) throw new Error(`${path}: forMs must be >= 0`);
+      return { kind: 'threshold', metric, operator, value: threshold, forMs };
+    }
+    case 'cross': {
+      const { level, direction = 'any' } = condition as Partial<CrossCondition>;
+      if (typeof level !== 'number' || !isFinite(level)) throw new Error(`${path}: level must be a number`);
+      if (!['up', 'down', 'any'].includes(direction)) throw new Error(`${path}: unknown direction "${direction}"`);
+      return { kind: 'cross', level, direction };
+    }
+    case 'group': {
+      const { logic, conditions } = condition as Partial<ConditionGroup>;
+      if (logic !== 'and' && logic !== 'or') throw new Error(`${path}: logic must be "and" or "or"`);
+      if (!Array.isArray(conditions)) throw new Error(`${path}: conditions must be an array`);
+      return { kind: 'group', logic, conditions: conditions.map((child, i) => validateCondition(child, `${path}.conditions[${i}]`)) };
+    }
+    default:
+      throw new Error(`${path}: unknown condition kind "${condition.kind}"`);
+  }
+}
+
+/**
+ * Throws unless `value` is a well-formed rule; fills defaults for optional fields
+ */
+export function validateRule(value: unknown, path: string = 'rule'): AlertRule {
+  const rule = value as Partial<AlertRule> | null;
+  if (!rule || typeof rule !== 'object') throw new Error(`${path}: expected a rule object`);
+  if (typeof rule.name !== 'string' || rule.name.trim() === '') throw new Error(`${path}: name is required`);
+  if (!Array.isArray(rule.conditions) || rule.conditions.length === 0) {
+    throw new Error(`${path}: at least one condition is required`);
+  }
+
+  const severity = rule.severity ?? 'medium';
+  if (!SEVERITIES.includes(severity)) throw new Error(`${path}: unknown severity "${severity}"`);
+
+  return {
+    id: typeof rule.id === 'string' && rule.id ? rule.id : createRuleId(),
+    name: rule.name.trim(),
+    enabled: rule.enabled ?? true,
+    symbol: rule.symbol ? rule.symbol.toUpperCase() : undefined,
+    logic: rule.logic === 'or' ? 'or' : 'and',
+    conditions: rule.conditions.map((condition, i) => validateCondition(condition, `${path}.conditions[${i}]`)),
+    cooldownMs: Math.max(0, Number(rule.cooldownMs) || 0),
+    severity
+  };
+}
+
+export function createRuleId(): string {
+  return `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Human-readable summary of a condition, used in alert messages and the rule list
+ */
+export function describeCondition(condition: RuleCondition, symbol?: string): string {
+  switch (condition.kind) {
+    case 'threshold': {
+      const { label, unit } = RULE_METRICS[condition.metric];
+      const value = condition.metric === 'mid_price' && symbol
+        ? symbolRegistry.formatPrice(symbol, condition.value)
+        : `${condition.value}${unit}`;
+      const duration = condition.forMs ? ` for ${condition.forMs / 1000}s` : '';
+      return `${label} ${condition.operator} ${value}${duration}`;
+    }
+    case 'cross': {
+      const level = symbol ? symbolRegistry.formatPrice(symbol, condition.level) : condition.level.toString();
+      return `Price crosses ${condition.direction === 'any' ? '' : `${condition.direction} `}${level}`;
+    }
+    case 'group':
+      return `(${condition.conditions.map(child => describeCondition(child, symbol)).join(` ${condition.logic.toUpperCase()} `)})`;
+  }
+}
+
+/**
+ * Evaluates user-defined alert rules against market state. Each rule keeps
+ * its own cooldown, the time each duration condition started holding, and
+ * the previous mid for cross conditions. Rules persist to localStorage and
+ * can be exchanged as JSON files.
+ */
+export class AlertRuleEngine {
+  private rules: AlertRule[] = [];
+  private states: Map<string, RuleState> = new Map();
+
+  // Callbacks
+  private onRulesChangeCallback?: (rules: AlertRule[]) => void;
+
+  // Configuration
+  private readonly STORAGE_KEY: string;
+
+  constructor(storageKey: string = 'orderbook-alert-rules') {
+    this.STORAGE_KEY = storageKey;
+  }
+
+  // Public methods
+  public onRulesChange(callback: (rules: AlertRule[]) => void): void {
+    this.onRulesChangeCallback = callback;
+  }
+
+  public getRules(): AlertRule[] {
+    return [...this.rules];
+  }
+
+  public addRule(rule: AlertRule): void {
+    this.setRules([...this.rules, validateRule(rule)]);
+  }
+
+  /**
+   * Replace a rule by id; its evaluation state starts over
+   */
+  public updateRule(rule: AlertRule): void {
+    const validated = validateRule(rule);
+    this.states.delete(validated.id);
+    this.setRules(this.rules.map(existing => (existing.id === validated.id ? validated : existing)));
+  }
+
+  public removeRule(id: string): void {
+    this.states.delete(id);
+    this.setRules(this.rules.filter(rule => rule.id !== id));
+  }
+
+  public setRules(rules: AlertRule[]): void {
+    this.rules = rules;
+    const ids = new Set(rules.map(rule => rule.id));
+    Array.from(this.states.keys()).forEach(id => {
+      if (!ids.has(id)) this.states.delete(id);
+    });
+    this.save();
+    this.onRulesChangeCallback?.(this.getRules());
+  }
+
+  /**
+   * Evaluate every enabled rule, returning alerts for those that fired
+   */
+  public evaluate(inputs: RuleInputs): PressureZoneAlert[] {
+    const alerts: PressureZoneAlert[] = [];
+
+    this.rules.forEach(rule => {
+      if (!rule.enabled || (rule.symbol && rule.symbol !== inputs.symbol.toUpperCase())) return;
+
+      const state = this.states.get(rule.id) ?? { lastFired: -Infinity, conditionSince: new Map(), lastMid: null };
+      this.states.set(rule.id, state);
+
+      // Every condition is evaluated, even after the outcome is known, so duration timers keep running
+      const results = rule.conditions.map((condition, i) => this.evaluateCondition(condition, `${i}`, inputs, state));
+      const matched = rule.logic === 'and' ? results.every(Boolean) : results.some(Boolean);
+      state.lastMid = inputs.midPrice ?? state.lastMid;
+
+      if (matched && inputs.timestamp - state.lastFired >= rule.cooldownMs) {
+        state.lastFired = inputs.timestamp;
+        alerts.push(this.createAlert(rule, inputs));
+      }
+    });
+
+    return alerts;
+  }
+
+  /**
+   * Restore rules saved by a previous session; invalid entries are dropped
+   */
+  public load(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return;
+      this.rules = this.parseRules(JSON.parse(stored), true);
+      this.onRulesChangeCallback?.(this.getRules());
+    } catch (e) {
+      console.warn('Failed to load alert rules:', e);
+    }
+  }
+
+  public exportJSON(): string {
+    return JSON.stringify({ version: RULE_FILE_VERSION, rules: this.rules }, null, 2);
+  }
+
+  /**
+   * Add rules from an exported file, or a bare array of rules. Imported rules
+   * replace existing ones with the same id. Throws on the first invalid rule.
+   */
+  public importJSON(text: string): number {
+    const parsed = JSON.parse(text);
+    const imported = this.parseRules(Array.isArray(parsed) ? parsed : parsed?.rules, false);
+    const ids = new Set(imported.map(rule => rule.id));
+    this.setRules([...this.rules.filter(rule => !ids.has(rule.id)), ...imported]);
+    return imported.length;
+  }
+
+  // Private methods
+  private save(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.rules));
+    } catch (e) {
+      console.warn('Failed to save alert rules:', e);
+    }
+  }
+
+  private parseRules(value: unknown, skipInvalid: boolean): AlertRule[] {
+    if (!Array.isArray(value)) throw new Error('Expected an array of rules');
+
+    return value.flatMap((rule, i) => {
+      try {
+        return [validateRule(rule, `rules[${i}]`)];
+      } catch (e) {
+        if (!skipInvalid) throw e;
+        console.warn('Skipping invalid alert rule:', e);
+        return [];
+      }
+    });
+  }
+
+  private evaluateCondition(condition: RuleCondition, path: string, inputs: RuleInputs, state: RuleState): boolean {
+    switch (condition.kind) {
+      case 'threshold': {
+        const value = this.metricValue(condition.metric, inputs);
+        const holds = value !== null && this.compare(value, condition.operator, condition.value);
+        if (!holds) {
+          state.conditionSince.delete(path);
+          return false;
+        }
+        if (!condition.forMs) return true;
+
+        const since = state.conditionSince.get(path) ?? inputs.timestamp;
+        state.conditionSince.set(path, since);
+        return inputs.timestamp - since >= condition.forMs;
+      }
+      case 'cross': {
+        const previous = state.lastMid;
+        const current = inputs.midPrice;
+        if (previous === null || current === null) return false;
+
+        const up = previous < condition.level && current >= condition.level;
+        const down = previous > condition.level && current <= condition.level;
+        return condition.direction === 'up' ? up : condition.direction === 'down' ? down : up || down;
+      }
+      case 'group': {
+        const results = condition.conditions.map((child, i) => this.evaluateCondition(child, `${path}.${i}`, inputs, state));
+        return condition.logic === 'and' ? results.every(Boolean) : results.some(Boolean);
+      }
+    }
+  }
+
+  private metricValue(metric: RuleMetric, inputs: RuleInputs): number | null {
+    switch (metric) {
+      case 'spread_bps': return inputs.spreadBps;
+      case 'imbalance': return inputs.imbalance;
+      case 'mid_price': return inputs.midPrice;
+      case 'zone_intensity': return inputs.zoneIntensity;
+      case 'data_gap_ms': return inputs.dataGapMs;
+    }
+  }
+
+  private compare(value: number, operator: RuleOperator, threshold: number): boolean {
+    switch (operator) {
+      case '>': return value > threshold;
+      case '>=': return value >= threshold;
+      case '<': return value < threshold;
+      case '<=': return value <= threshold;
+    }
+  }
+
+  private createAlert(rule: AlertRule, inputs: RuleInputs): PressureZoneAlert {
+    const summary = rule.conditions
+      .map(condition => describeCondition(condition, inputs.symbol))
+      .join(` ${rule.logic.toUpperCase()} `);
+
+    return {
+      id: `${rule.id}-${inputs.timestamp}`,
+      type: 'custom_rule',
+      severity: rule.severity,
+      message: `${rule.name}: ${summary}`,
+      timestamp: inputs.timestamp,
+      confidence: 1,
+      metadata: {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        imbalance: inputs.imbalance ?? undefined
+      }
+    };
+  }
+}
+
+/**
+ * Owns a persisted rule engine and evaluates it whenever `inputs` change and
+ * once a second in between, so data gap conditions fire while the feed is
+ * silent. Returns the rules, the most recent firings and the rule editors.
+ */
+export const useAlertRules = (inputs: Omit<RuleInputs, 'timestamp' | 'dataGapMs'> | null, enabled: boolean = true) => {
+  const [engine] = useState(() => new AlertRuleEngine());
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [alerts, setAlerts] = useState<PressureZoneAlert[]>([]);
+  const inputsRef = useRef(inputs);
+  const lastUpdateRef = useRef(Date.now());
+
+  useEffect(() => {
+    engine.onRulesChange(setRules);
+    engine.load();
+  }, [engine]);
+
+  const evaluate = useCallback(() => {
+    const current = inputsRef.current;
+    if (!current) return;
+
+    const timestamp = Date.now();
+    const fired = engine.evaluate({ ...current, timestamp, dataGapMs: timestamp - lastUpdateRef.current });
+    if (fired.length > 0) {
+      setAlerts(fired);
+    }
+  }, [engine]);
+
+  useEffect(() => {
+    inputsRef.current = inputs;
+    lastUpdateRef.current = Date.now();
+    if (enabled) evaluate();
+  }, [inputs, enabled, evaluate]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const interval = setInterval(evaluate, 1000);
+    return () => clearInterval(interval);
+  }, [enabled, evaluate]);
+
+  return {
+    rules,
+    alerts,
+    addRule: useCallback((rule: AlertRule) => engine.addRule(rule), [engine]),
+    updateRule: useCallback((rule: AlertRule) => engine.updateRule(rule), [engine]),
+    removeRule: useCallback((id: string) => engine.removeRule(id), [engine]),
+    importRules: useCallback((text: string) => engine.importJSON(text), [engine]),
+    exportRules: useCallback(() => engine.exportJSON(), [engine])
+  };
+};
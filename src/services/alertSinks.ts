@@ -0,0 +1,393 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PressureZoneAlert } from '@/services/pressureZoneAnalyzer';
+
+export type AlertSeverity = PressureZoneAlert['severity'];
+export type AlertSinkKind = 'browser' | 'audio' | 'webhook';
+
+export interface AlertSinkConfig {
+  id: string;
+  kind: AlertSinkKind;
+  enabled: boolean;
+  minSeverity: AlertSeverity; // Alerts below this severity are filtered out
+  maxPerMinute: number; // Deliveries allowed in any 60s window; 0 disables the limit
+  url?: string; // Webhook endpoint
+}
+
+export interface DeliveryLogEntry {
+  id: string;
+  timestamp: number;
+  sinkId: string;
+  alertId: string;
+  severity: AlertSeverity;
+  message: string;
+  status: 'delivered' | 'filtered' | 'rate_limited' | 'failed';
+  detail?: string;
+}
+
+/**
+ * Body POSTed to webhook sinks
+ */
+export interface WebhookPayload {
+  source: 'orderbook-visualizer';
+  alert: {
+    id: string;
+    type: PressureZoneAlert['type'];
+    severity: AlertSeverity;
+    message: string;
+    timestamp: number;
+    price?: number; // Zone center, for zone alerts
+    metadata?: PressureZoneAlert['metadata'];
+  };
+}
+
+/**
+ * A delivery channel; rejects when the alert could not be delivered
+ */
+export interface AlertSink {
+  deliver(alert: PressureZoneAlert): Promise<void>;
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export const DEFAULT_SINKS: AlertSinkConfig[] = [
+  { id: 'browser', kind: 'browser', enabled: false, minSeverity: 'high', maxPerMinute: 6 },
+  { id: 'audio', kind: 'audio', enabled: false, minSeverity: 'medium', maxPerMinute: 12 },
+  { id: 'webhook', kind: 'webhook', enabled: false, minSeverity: 'medium', maxPerMinute: 30, url: 'http://localhost:8787/alerts' }
+];
+
+/**
+ * System notifications through the Notification API, visible while the tab
+ * is in the background. Permission has to be granted from a user gesture
+ * first, see `requestPermission`.
+ */
+export class BrowserNotificationSink implements AlertSink {
+  public static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  public static requestPermission(): Promise<NotificationPermission> {
+    return BrowserNotificationSink.isSupported()
+      ? Notification.requestPermission()
+      : Promise.resolve('denied');
+  }
+
+  public async deliver(alert: PressureZoneAlert): Promise<void> {
+    if (!BrowserNotificationSink.isSupported()) {
+      throw new Error('Notifications are not supported in this browser');
+    }
+    if (Notification.permission !== 'granted') {
+      throw new Error(`Notification permission is ${Notification.permission}`);
+    }
+
+    new Notification(`${alert.severity.toUpperCase()} · ${alert.type.replace(/_/g, ' ')}`, {
+      body: alert.message,
+      tag: alert.id
+    });
+  }
+}
+
+/**
+ * Short synthesized tones, so each severity is recognizable without
+ * looking: one low beep for low up to a rising four-tone figure for critical
+ */
+export class AudioCueSink implements AlertSink {
+  private context: AudioContext | null = null;
+
+  // Frequencies (Hz) of each beep per severity
+  private readonly CUES: Record<AlertSeverity, number[]> = {
+    low: [440],
+    medium: [660, 660],
+    high: [880, 660, 880],
+    critical: [660, 880, 1100, 1320]
+  };
+  private readonly BEEP_DURATION = 0.12;
+  private readonly BEEP_GAP = 0.06;
+
+  public async deliver(alert: PressureZoneAlert): Promise<void> {
+    if (typeof window === 'undefined' || !('AudioContext' in window)) {
+      throw new Error('Web Audio is not supported in this browser');
+    }
+
+    this.context = this.context ?? new AudioContext();
+    // Contexts created before a user gesture start suspended
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+
+    const context = this.context;
+    const start = context.currentTime;
+    this.CUES[alert.severity].forEach((frequency, index) => {
+      const at = start + index * (this.BEEP_DURATION + this.BEEP_GAP);
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = alert.severity === 'critical' ? 'square' : 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, at);
+      gain.gain.exponentialRampToValueAtTime(0.2, at + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.0001, at + this.BEEP_DURATION);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(at);
+      oscillator.stop(at + this.BEEP_DURATION);
+    });
+  }
+}
+
+/**
+ * POSTs each alert as JSON to a URL. Requests go straight from the browser,
+ * so the endpoint must allow cross-origin POSTs (the bundled stub does).
+ */
+export class WebhookSink implements AlertSink {
+  private url: string;
+
+  private readonly TIMEOUT = 5000;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  public async deliver(alert: PressureZoneAlert): Promise<void> {
+    const payload: WebhookPayload = {
+      source: 'orderbook-visualizer',
+      alert: {
+        id: alert.id,
+        type: alert.type,
+        severity: alert.severity,
+        message: alert.message,
+        timestamp: alert.timestamp,
+        price: alert.zone?.centerPrice,
+        metadata: alert.metadata
+      }
+    };
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.TIMEOUT);
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * Fans alerts out to the configured sinks. Each sink filters by severity and
+ * is rate limited over a sliding minute; every attempt, including the ones
+ * filtered or dropped, lands in the delivery log. Sink settings persist to
+ * localStorage.
+ */
+export class AlertDispatcher {
+  private configs: AlertSinkConfig[];
+  private sinks: Map<string, AlertSink> = new Map();
+  private deliveries: Map<string, number[]> = new Map(); // Sink id -> recent delivery times
+  private log: DeliveryLogEntry[] = [];
+  private seenAlerts: Set<string> = new Set();
+  private logSequence: number = 0;
+
+  // Callbacks
+  private onConfigsChangeCallback?: (configs: AlertSinkConfig[]) => void;
+  private onLogCallback?: (log: DeliveryLogEntry[]) => void;
+
+  // Configuration
+  private readonly STORAGE_KEY: string;
+  private readonly MAX_LOG_ENTRIES = 100;
+  private readonly MAX_SEEN_ALERTS = 500;
+  private readonly RATE_WINDOW = 60000;
+
+  constructor(storageKey: string = 'orderbook-alert-sinks') {
+    this.STORAGE_KEY = storageKey;
+    this.configs = DEFAULT_SINKS.map(config => ({ ...config }));
+  }
+
+  // Public methods
+  public onConfigsChange(callback: (configs: AlertSinkConfig[]) => void): void {
+    this.onConfigsChangeCallback = callback;
+  }
+
+  public onLog(callback: (log: DeliveryLogEntry[]) => void): void {
+    this.onLogCallback = callback;
+  }
+
+  public getConfigs(): AlertSinkConfig[] {
+    return this.configs.map(config => ({ ...config }));
+  }
+
+  public getLog(): DeliveryLogEntry[] {
+    return [...this.log];
+  }
+
+  public updateSink(config: AlertSinkConfig): void {
+    this.configs = this.configs.map(existing => (existing.id === config.id ? { ...config } : existing));
+    this.sinks.delete(config.id);
+    this.save();
+    this.onConfigsChangeCallback?.(this.getConfigs());
+  }
+
+  /**
+   * Send alerts to every enabled sink; alerts already dispatched are skipped
+   */
+  public async dispatch(alerts: PressureZoneAlert[], now: number = Date.now()): Promise<void> {
+    const fresh = alerts.filter(alert => !this.seenAlerts.has(alert.id));
+    fresh.forEach(alert => this.seenAlerts.add(alert.id));
+    if (this.seenAlerts.size > this.MAX_SEEN_ALERTS) {
+      this.seenAlerts = new Set(Array.from(this.seenAlerts).slice(-this.MAX_SEEN_ALERTS / 2));
+    }
+
+    const attempts = fresh.flatMap(alert => this.configs
+      .filter(config => config.enabled)
+      .map(config => this.deliverTo(config, alert, now, false)));
+    await Promise.all(attempts);
+  }
+
+  /**
+   * Deliver a sample alert to one sink, bypassing its filters
+   */
+  public async test(sinkId: string, severity: AlertSeverity = 'high'): Promise<void> {
+    const config = this.configs.find(existing => existing.id === sinkId);
+    if (!config) return;
+
+    const now = Date.now();
+    await this.deliverTo(config, {
+      id: `test-${sinkId}-${now}`,
+      type: 'custom_rule',
+      severity,
+      message: `Test alert from the ${config.kind} sink`,
+      timestamp: now,
+      confidence: 1
+    }, now, true);
+  }
+
+  public clearLog(): void {
+    this.log = [];
+    this.onLogCallback?.(this.getLog());
+  }
+
+  /**
+   * Restore sink settings saved by a previous session
+   */
+  public load(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return;
+      const saved: Partial<AlertSinkConfig>[] = JSON.parse(stored);
+      // Merge onto the defaults so sinks added later still appear
+      this.configs = DEFAULT_SINKS.map(defaults => {
+        const match = saved.find(config => config.id === defaults.id);
+        return { ...defaults, ...match, kind: defaults.kind };
+      });
+      this.sinks.clear();
+      this.onConfigsChangeCallback?.(this.getConfigs());
+    } catch (e) {
+      console.warn('Failed to load alert sink settings:', e);
+    }
+  }
+
+  // Private methods
+  private save(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.configs));
+    } catch (e) {
+      console.warn('Failed to save alert sink settings:', e);
+    }
+  }
+
+  private getSink(config: AlertSinkConfig): AlertSink {
+    let sink = this.sinks.get(config.id);
+    if (!sink) {
+      switch (config.kind) {
+        case 'browser': sink = new BrowserNotificationSink(); break;
+        case 'audio': sink = new AudioCueSink(); break;
+        case 'webhook': sink = new WebhookSink(config.url ?? ''); break;
+      }
+      this.sinks.set(config.id, sink);
+    }
+    return sink;
+  }
+
+  private async deliverTo(config: AlertSinkConfig, alert: PressureZoneAlert, now: number, force: boolean): Promise<void> {
+    if (!force && SEVERITY_RANK[alert.severity] < SEVERITY_RANK[config.minSeverity]) {
+      this.record(config, alert, now, 'filtered', `below ${config.minSeverity}`);
+      return;
+    }
+
+    const recent = (this.deliveries.get(config.id) ?? []).filter(time => now - time < this.RATE_WINDOW);
+    if (!force && config.maxPerMinute > 0 && recent.length >= config.maxPerMinute) {
+      this.deliveries.set(config.id, recent);
+      this.record(config, alert, now, 'rate_limited', `${config.maxPerMinute}/min`);
+      return;
+    }
+    this.deliveries.set(config.id, [...recent, now]);
+
+    try {
+      if (config.kind === 'webhook' && !config.url) {
+        throw new Error('No webhook URL configured');
+      }
+      await this.getSink(config).deliver(alert);
+      this.record(config, alert, now, 'delivered');
+    } catch (e) {
+      this.record(config, alert, now, 'failed', (e as Error).message);
+    }
+  }
+
+  private record(
+    config: AlertSinkConfig,
+    alert: PressureZoneAlert,
+    timestamp: number,
+    status: DeliveryLogEntry['status'],
+    detail?: string
+  ): void {
+    this.log = [{
+      id: `delivery-${++this.logSequence}`,
+      timestamp,
+      sinkId: config.id,
+      alertId: alert.id,
+      severity: alert.severity,
+      message: alert.message,
+      status,
+      detail
+    }, ...this.log].slice(0, this.MAX_LOG_ENTRIES);
+    this.onLogCallback?.(this.getLog());
+  }
+}
+
+/**
+ * Owns a persisted dispatcher and sends each new batch of `alerts` through it.
+ * Returns the sink settings, the delivery log (newest first) and controls.
+ */
+export const useAlertSinks = (alerts: PressureZoneAlert[]) => {
+  const [dispatcher] = useState(() => new AlertDispatcher());
+  const [configs, setConfigs] = useState<AlertSinkConfig[]>(() => dispatcher.getConfigs());
+  const [log, setLog] = useState<DeliveryLogEntry[]>([]);
+
+  useEffect(() => {
+    dispatcher.onConfigsChange(setConfigs);
+    dispatcher.onLog(setLog);
+    dispatcher.load();
+  }, [dispatcher]);
+
+  useEffect(() => {
+    if (alerts.length > 0) {
+      dispatcher.dispatch(alerts);
+    }
+  }, [alerts, dispatcher]);
+
+  return {
+    configs,
+    log,
+    updateSink: useCallback((config: AlertSinkConfig) => dispatcher.updateSink(config), [dispatcher]),
+    testSink: useCallback((sinkId: string) => dispatcher.test(sinkId), [dispatcher]),
+    clearLog: useCallback(() => dispatcher.clearLog(), [dispatcher]),
+    requestNotificationPermission: BrowserNotificationSink.requestPermission
+  };
+};
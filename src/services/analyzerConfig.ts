@@ -0,0 +1,79 @@
+import cachedAnalyzerConfig from '@/data/analyzerConfig.json';
+
+/**
+ * Pressure zone analyzer thresholds. All are relative or quote-denominated,
+ * so one set reads the same across symbols whose prices and lot sizes differ
+ * by orders of magnitude.
+ */
+export interface AnalyzerConfig {
+  clusteringDistance: number; // Fraction of price within which orders group into a level
+  minOrdersForZone: number; // Orders a grouped level needs to become a zone
+  volumeSpikeMultiplier: number; // Multiple of the average level size that counts as a spike
+  minZoneNotional: number; // Quote-currency value a zone needs; converted to base volume at the mid
+}
+
+export interface AnalyzerConfigFile {
+  defaults: AnalyzerConfig;
+  symbols: Record<string, Partial<AnalyzerConfig>>;
+}
+
+export const ANALYZER_CONFIG_KEYS: Array<keyof AnalyzerConfig> = [
+  'clusteringDistance',
+  'minOrdersForZone',
+  'volumeSpikeMultiplier',
+  'minZoneNotional'
+];
+
+/**
+ * Analyzer thresholds per symbol, from `src/data/analyzerConfig.json`.
+ * Symbols without an entry, and fields an entry leaves out, use the defaults.
+ */
+export class AnalyzerConfigRegistry {
+  private defaults: AnalyzerConfig;
+  private symbols: Map<string, Partial<AnalyzerConfig>> = new Map();
+
+  constructor(file: AnalyzerConfigFile) {
+    this.defaults = { ...file.defaults };
+    this.load(file);
+  }
+
+  // Public methods
+  public load(file: AnalyzerConfigFile): void {
+    this.defaults = { ...this.defaults, ...file.defaults };
+    Object.entries(file.symbols).forEach(([symbol, config]) => {
+      this.symbols.set(symbol.toUpperCase(), { ...config });
+    });
+  }
+
+  public get(symbol: string): AnalyzerConfig {
+    return { ...this.defaults, ...this.symbols.get(symbol.toUpperCase()) };
+  }
+
+  public getDefaults(): AnalyzerConfig {
+    return { ...this.defaults };
+  }
+
+  /**
+   * Replace a symbol's overrides; fields equal to the defaults are dropped
+   */
+  public set(symbol: string, config: Partial<AnalyzerConfig>): void {
+    const overrides: Partial<AnalyzerConfig> = {};
+    ANALYZER_CONFIG_KEYS.forEach(key => {
+      const value = config[key];
+      if (value !== undefined && value !== this.defaults[key]) {
+        overrides[key] = value;
+      }
+    });
+    this.symbols.set(symbol.toUpperCase(), overrides);
+  }
+
+  public toJSON(): AnalyzerConfigFile {
+    const symbols: Record<string, Partial<AnalyzerConfig>> = {};
+    this.symbols.forEach((config, symbol) => {
+      if (Object.keys(config).length > 0) symbols[symbol] = { ...config };
+    });
+    return { defaults: { ...this.defaults }, symbols };
+  }
+}
+
+export const analyzerConfigRegistry = new AnalyzerConfigRegistry(cachedAnalyzerConfig as AnalyzerConfigFile);
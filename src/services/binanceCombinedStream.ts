@@ -0,0 +1,193 @@
+import { OrderbookUpdate, TradeEvent } from '@/types/orderbook';
+import { BINANCE_WS_URL, BinanceDepthEvent, isTradeEvent, parseDepthEvent, parseTradeEvent } from '@/services/binanceWebSocket';
+
+/**
+ * One combined-stream connection (`/stream?streams=a@depth/a@aggTrade/...`)
+ * carrying the depth diffs and trades of several symbols. Symbols are added
+ * and removed with live SUBSCRIBE/UNSUBSCRIBE requests instead of
+ * reconnecting; after a reconnect the current set is requested in the URL again.
+ */
+export class BinanceCombinedStream {
+  private ws: WebSocket | null = null;
+  private symbols: Set<string> = new Set();
+  private isConnected: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private nextRequestId: number = 1;
+
+  // Callbacks
+  private onDataCallback?: (update: OrderbookUpdate) => void;
+  private onTradeCallback?: (trade: TradeEvent) => void;
+  private onErrorCallback?: (error: Error) => void;
+
+  // Configuration
+  private readonly MAX_RECONNECT_ATTEMPTS = 5;
+  private readonly RECONNECT_DELAY = 1000;
+  private readonly STREAM_TYPES = ['depth', 'aggTrade'];
+
+  constructor(symbols: string[] = []) {
+    symbols.forEach(symbol => this.symbols.add(symbol.toLowerCase()));
+  }
+
+  // Public methods
+  public connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.symbols.size === 0) {
+        reject(new Error('No symbols to subscribe to'));
+        return;
+      }
+
+      try {
+        const streams = Array.from(this.symbols).flatMap(symbol => this.getStreams(symbol)).join('/');
+        const wsUrl = `${BINANCE_WS_URL}/stream?streams=${streams}`;
+        console.log('Connecting to combined stream:', wsUrl);
+        this.ws = new WebSocket(wsUrl);
+
+        this.ws.onopen = () => {
+          this.isConnected = true;
+          this.reconnectAttempts = 0;
+          resolve();
+        };
+
+        this.ws.onmessage = (event) => {
+          try {
+            const message = JSON.parse(event.data);
+
+            // Replies to SUBSCRIBE/UNSUBSCRIBE carry only an id
+            if (message.id !== undefined && !message.stream) {
+              if (message.error) {
+                console.error('Stream subscription request failed:', message.error);
+              }
+              return;
+            }
+
+            const data = message.data;
+            if (!data) return;
+
+            if (data.e === 'depthUpdate') {
+              if (this.onDataCallback) {
+                this.onDataCallback(parseDepthEvent(data as BinanceDepthEvent));
+              }
+            } else if (isTradeEvent(data) && this.onTradeCallback) {
+              this.onTradeCallback(parseTradeEvent(data));
+            }
+          } catch (error) {
+            console.error('Error parsing combined stream message:', error);
+            if (this.onErrorCallback) {
+              this.onErrorCallback(new Error('Failed to parse WebSocket message'));
+            }
+          }
+        };
+
+        this.ws.onerror = () => {
+          const errorMessage = 'Combined stream connection failed. Please check your internet connection.';
+          console.error(errorMessage);
+          if (this.onErrorCallback) {
+            this.onErrorCallback(new Error(errorMessage));
+          }
+          reject(new Error(errorMessage));
+        };
+
+        this.ws.onclose = (event) => {
+          console.log('Combined stream closed:', event.code, event.reason);
+          this.isConnected = false;
+
+          // Only attempt reconnection if it wasn't a clean close
+          if (event.code !== 1000 && this.ws) {
+            this.handleReconnect();
+          }
+        };
+      } catch (error) {
+        console.error('Failed to create WebSocket:', error);
+        reject(error);
+      }
+    });
+  }
+
+  public disconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close(1000);
+    }
+    this.isConnected = false;
+  }
+
+  /**
+   * Add a symbol's depth and trade streams; takes effect immediately when connected
+   */
+  public subscribe(symbol: string): void {
+    const lower = symbol.toLowerCase();
+    if (this.symbols.has(lower)) return;
+
+    this.symbols.add(lower);
+    this.sendRequest('SUBSCRIBE', lower);
+  }
+
+  public unsubscribe(symbol: string): void {
+    const lower = symbol.toLowerCase();
+    if (!this.symbols.delete(lower)) return;
+
+    this.sendRequest('UNSUBSCRIBE', lower);
+  }
+
+  public onData(callback: (update: OrderbookUpdate) => void): void {
+    this.onDataCallback = callback;
+  }
+
+  public onTrade(callback: (trade: TradeEvent) => void): void {
+    this.onTradeCallback = callback;
+  }
+
+  public onError(callback: (error: Error) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  public getSymbols(): string[] {
+    return Array.from(this.symbols).map(symbol => symbol.toUpperCase());
+  }
+
+  public isConnectedToServer(): boolean {
+    return this.isConnected && this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  // Private methods
+  private getStreams(symbol: string): string[] {
+    return this.STREAM_TYPES.map(type => `${symbol}@${type}`);
+  }
+
+  private sendRequest(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', symbol: string): void {
+    // While disconnected the next connect picks the change up from the URL
+    if (!this.isConnectedToServer()) return;
+
+    this.ws!.send(JSON.stringify({
+      method,
+      params: this.getStreams(symbol),
+      id: this.nextRequestId++
+    }));
+  }
+
+  private handleReconnect(): void {
+    if (this.reconnectAttempts < this.MAX_RECONNECT_ATTEMPTS) {
+      this.reconnectAttempts++;
+      console.log(`Attempting to reconnect... (${this.reconnectAttempts}/${this.MAX_RECONNECT_ATTEMPTS})`);
+
+      this.reconnectTimeout = setTimeout(() => {
+        this.reconnectTimeout = null;
+        this.connect().catch((error) => {
+          console.error('Reconnection failed:', error);
+        });
+      }, this.RECONNECT_DELAY * this.reconnectAttempts);
+    } else {
+      console.error('Max reconnection attempts reached');
+      if (this.onErrorCallback) {
+        this.onErrorCallback(new Error('Failed to reconnect after maximum attempts'));
+      }
+    }
+  }
+}
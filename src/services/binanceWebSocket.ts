@@ -1,4 +1,60 @@
-import { OrderbookSnapshot, OrderbookUpdate, WebSocketMessage } from '@/types/orderbook';
+import { OrderbookSnapshot, OrderbookUpdate, OrderbookLevel, TradeEvent, WebSocketMessage } from '@/types/orderbook';
+
+// Endpoints can be pointed at a local replay server (see scripts/replay-server.ts)
+export const BINANCE_WS_URL = process.env.NEXT_PUBLIC_BINANCE_WS_URL || 'wss://stream.binance.com:9443';
+export const BINANCE_REST_URL = process.env.NEXT_PUBLIC_BINANCE_REST_URL || 'https://api.binance.com';
+
+// Binance sends levels as [price, quantity] tuples
+const toLevels = (levels: [string, string][] | undefined): OrderbookLevel[] =>
+  (levels || []).map(([price, quantity]) => ({ price, quantity }));
+
+// Raw `<symbol>@depth` event as sent by Binance
+export interface BinanceDepthEvent {
+  e: string;
+  E: number;
+  s: string;
+  U: number;
+  u: number;
+  b?: [string, string][];
+  a?: [string, string][];
+}
+
+export const parseDepthEvent = (event: BinanceDepthEvent): OrderbookUpdate => ({
+  eventType: event.e,
+  eventTime: event.E,
+  symbol: event.s,
+  firstUpdateId: event.U,
+  finalUpdateId: event.u,
+  bids: toLevels(event.b),
+  asks: toLevels(event.a)
+});
+
+// Raw `<symbol>@trade` / `<symbol>@aggTrade` event; aggTrade carries `a` instead of `t`
+export interface BinanceTradeEvent {
+  e: 'trade' | 'aggTrade';
+  E: number;
+  s: string;
+  t?: number;
+  a?: number;
+  p: string;
+  q: string;
+  T: number;
+  m: boolean; // Buyer is the maker
+}
+
+export const isTradeEvent = (event: { e?: string }): event is BinanceTradeEvent =>
+  event.e === 'trade' || event.e === 'aggTrade';
+
+export const parseTradeEvent = (event: BinanceTradeEvent): TradeEvent => ({
+  eventType: event.e,
+  eventTime: event.E,
+  tradeTime: event.T,
+  symbol: event.s,
+  tradeId: (event.e === 'aggTrade' ? event.a : event.t) ?? 0,
+  price: parseFloat(event.p),
+  quantity: parseFloat(event.q),
+  aggressor: event.m ? 'sell' : 'buy'
+});
 
 export class BinanceWebSocketService {
   private ws: WebSocket | null = null;
@@ -8,6 +64,7 @@ export class BinanceWebSocketService {
   private maxReconnectAttempts: number = 5;
   private reconnectDelay: number = 1000;
   private onDataCallback?: (data: OrderbookUpdate) => void;
+  private onTradeCallback?: (trade: TradeEvent) => void;
   private onErrorCallback?: (error: Error) => void;
 
   constructor(symbol: string = 'BTCUSDT') {
@@ -18,7 +75,7 @@ export class BinanceWebSocketService {
     return new Promise((resolve, reject) => {
       try {
         // Use the standard Binance WebSocket URL format for depth updates
-        const wsUrl = `wss://stream.binance.com:9443/ws/${this.symbol}@depth`;
+        const wsUrl = `${BINANCE_WS_URL}/ws/${this.symbol}@depth`;
         console.log('Connecting to WebSocket:', wsUrl);
         this.ws = new WebSocket(wsUrl);
 
@@ -37,32 +94,19 @@ export class BinanceWebSocketService {
             // Handle Binance depth stream format
             if (data.e === 'depthUpdate') {
               // This is a depth update event
-              const update: OrderbookUpdate = {
-                eventType: data.e,
-                eventTime: data.E,
-                symbol: data.s,
-                firstUpdateId: data.U,
-                finalUpdateId: data.u,
-                bids: data.b || [],
-                asks: data.a || []
-              };
-              
               if (this.onDataCallback) {
-                this.onDataCallback(update);
+                this.onDataCallback(parseDepthEvent(data));
+              }
+            } else if (isTradeEvent(data)) {
+              if (this.onTradeCallback) {
+                this.onTradeCallback(parseTradeEvent(data));
               }
             } else if (data.stream && data.data) {
               // Stream wrapper format
               if (data.data.e === 'depthUpdate' && this.onDataCallback) {
-                const update: OrderbookUpdate = {
-                  eventType: data.data.e,
-                  eventTime: data.data.E,
-                  symbol: data.data.s,
-                  firstUpdateId: data.data.U,
-                  finalUpdateId: data.data.u,
-                  bids: data.data.b || [],
-                  asks: data.data.a || []
-                };
-                this.onDataCallback(update);
+                this.onDataCallback(parseDepthEvent(data.data));
+              } else if (isTradeEvent(data.data) && this.onTradeCallback) {
+                this.onTradeCallback(parseTradeEvent(data.data));
               }
             } else {
               console.log('Unknown message format:', data);
@@ -113,6 +157,10 @@ export class BinanceWebSocketService {
     this.onDataCallback = callback;
   }
 
+  public onTrade(callback: (trade: TradeEvent) => void): void {
+    this.onTradeCallback = callback;
+  }
+
   public onError(callback: (error: Error) => void): void {
     this.onErrorCallback = callback;
   }
@@ -153,7 +201,7 @@ export class BinanceWebSocketService {
   public static async getOrderbookSnapshot(symbol: string, limit: number = 100): Promise<OrderbookSnapshot> {
     try {
       const response = await fetch(
-        `https://api.binance.com/api/v3/depth?symbol=${symbol.toUpperCase()}&limit=${limit}`
+        `${BINANCE_REST_URL}/api/v3/depth?symbol=${symbol.toUpperCase()}&limit=${limit}`
       );
       
       if (!response.ok) {
@@ -53,10 +53,11 @@ export class DataFilterService {
       );
     }
 
-    // Apply venue filter (if venue data is available)
-    if (settings.venues.length > 0 && settings.venues.length < this.getAvailableVenues(data).length) {
-      // This would filter by venue if venue data is available in the orderbook entries
-      // For now, we'll skip this as the current data structure doesn't include venue information
+    // Apply venue filter - entries without venue information are always kept
+    if (this.getAvailableVenues(data).length > 0) {
+      const selectedVenues = new Set(settings.venues);
+      filteredBids = filteredBids.filter(order => !order.venue || selectedVenues.has(order.venue));
+      filteredAsks = filteredAsks.filter(order => !order.venue || selectedVenues.has(order.venue));
     }
 
     // Apply order type filter
@@ -120,17 +121,20 @@ export class DataFilterService {
     return (
       order.price.toString().includes(searchTerm) ||
       order.quantity.toString().includes(searchTerm) ||
-      order.timestamp.toString().includes(searchTerm)
+      order.timestamp.toString().includes(searchTerm) ||
+      (order.venue?.includes(searchTerm) ?? false)
     );
   }
 
   /**
-   * Get available venues from the data (placeholder for future implementation)
+   * Get the venue ids present in the data
    */
   private getAvailableVenues(data: ProcessedOrderbookData): string[] {
-    // This would extract venue information from the data
-    // For now, return default venues
-    return ['Binance', 'Coinbase', 'Kraken', 'Bitfinex'];
+    const venues = new Set<string>();
+    [...data.bids, ...data.asks].forEach(order => {
+      if (order.venue) venues.add(order.venue);
+    });
+    return Array.from(venues);
   }
 
   /**
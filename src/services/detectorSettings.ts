@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BUILT_IN_DETECTORS, DetectorConfig, defaultDetectorConfig } from '@/services/zoneDetectors';
+
+/**
+ * User settings for the pressure zone detectors, persisted to localStorage.
+ * The analyzer runs in a worker, so these are sent along with each analysis
+ * request rather than applied here.
+ */
+export class DetectorSettings {
+  private configs: Record<string, DetectorConfig>;
+
+  // Callbacks
+  private onChangeCallback?: (configs: Record<string, DetectorConfig>) => void;
+
+  // Configuration
+  private readonly STORAGE_KEY: string;
+
+  constructor(storageKey: string = 'orderbook-detector-config') {
+    this.STORAGE_KEY = storageKey;
+    this.configs = this.getDefaults();
+  }
+
+  // Public methods
+  public onChange(callback: (configs: Record<string, DetectorConfig>) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  public getConfigs(): Record<string, DetectorConfig> {
+    return { ...this.configs };
+  }
+
+  /**
+   * Change one detector's settings; detectors not built in start from plain defaults
+   */
+  public update(id: string, update: Partial<DetectorConfig>): void {
+    const current = this.configs[id] ?? { enabled: true, weight: 1, params: {} };
+    this.configs = {
+      ...this.configs,
+      [id]: { ...current, ...update, params: { ...current.params, ...update.params } }
+    };
+    this.save();
+    this.onChangeCallback?.(this.getConfigs());
+  }
+
+  public reset(): void {
+    this.configs = this.getDefaults();
+    this.save();
+    this.onChangeCallback?.(this.getConfigs());
+  }
+
+  /**
+   * Restore settings saved by a previous session
+   */
+  public load(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return;
+      const saved: Record<string, Partial<DetectorConfig>> = JSON.parse(stored);
+      // Merge onto the defaults so detectors and params added later still appear
+      const configs = this.getDefaults();
+      Object.entries(saved).forEach(([id, config]) => {
+        const defaults = configs[id] ?? { enabled: true, weight: 1, params: {} };
+        configs[id] = { ...defaults, ...config, params: { ...defaults.params, ...config.params } };
+      });
+      this.configs = configs;
+      this.onChangeCallback?.(this.getConfigs());
+    } catch (e) {
+      console.warn('Failed to load detector settings:', e);
+    }
+  }
+
+  // Private methods
+  private save(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.configs));
+    } catch (e) {
+      console.warn('Failed to save detector settings:', e);
+    }
+  }
+
+  private getDefaults(): Record<string, DetectorConfig> {
+    const configs: Record<string, DetectorConfig> = {};
+    BUILT_IN_DETECTORS.forEach(info => {
+      configs[info.id] = defaultDetectorConfig(info);
+    });
+    return configs;
+  }
+}
+
+/**
+ * Owns the persisted detector settings. Returns them with update and reset controls.
+ */
+export const useDetectorSettings = () => {
+  const [settings] = useState(() => new DetectorSettings());
+  const [configs, setConfigs] = useState<Record<string, DetectorConfig>>(() => settings.getConfigs());
+
+  useEffect(() => {
+    settings.onChange(setConfigs);
+    settings.load();
+  }, [settings]);
+
+  return {
+    configs,
+    updateDetector: useCallback(
+      (id: string, update: Partial<DetectorConfig>) => settings.update(id, update),
+      [settings]
+    ),
+    resetDetectors: useCallback(() => settings.reset(), [settings])
+  };
+};
@@ -1,5 +1,7 @@
 import { ProcessedOrderbookData, OrderbookEntry } from '@/types/orderbook';
 import { PressureZoneAnalysis } from './pressureZoneAnalyzer';
+import { MicrostructureSnapshot } from './microstructureMetrics';
+import { symbolRegistry } from './symbolRegistry';
 
 export interface ExportOptions {
   format: 'json' | 'csv' | 'pdf' | 'excel';
@@ -26,6 +28,7 @@ export interface OrderbookSnapshot {
     };
   };
   pressureZoneAnalysis?: PressureZoneAnalysis;
+  microstructure?: MicrostructureSnapshot;
 }
 
 export interface AnalysisReport {
@@ -51,6 +54,7 @@ export interface AnalysisReport {
     supportLevels: number[];
     resistanceLevels: number[];
   };
+  microstructure?: MicrostructureSnapshot;
   recommendations: string[];
 }
 
@@ -70,7 +74,8 @@ export class OrderbookExportService {
   public createSnapshot(
     data: ProcessedOrderbookData,
     symbol: string = 'BTCUSDT',
-    pressureZoneAnalysis?: PressureZoneAnalysis
+    pressureZoneAnalysis?: PressureZoneAnalysis,
+    microstructure?: MicrostructureSnapshot
   ): OrderbookSnapshot {
     const timestamp = new Date().toISOString();
     const spread = data.asks.length > 0 && data.bids.length > 0 
@@ -97,6 +102,7 @@ export class OrderbookExportService {
         },
       },
       pressureZoneAnalysis,
+      microstructure,
     };
   }
 
@@ -106,7 +112,8 @@ export class OrderbookExportService {
   public generateAnalysisReport(
     data: ProcessedOrderbookData,
     pressureZoneAnalysis: PressureZoneAnalysis,
-    symbol: string = 'BTCUSDT'
+    symbol: string = 'BTCUSDT',
+    microstructure?: MicrostructureSnapshot
   ): AnalysisReport {
     const allOrders = [...data.bids, ...data.asks];
     const totalVolume = allOrders.reduce((sum, order) => sum + order.quantity, 0);
@@ -148,6 +155,7 @@ export class OrderbookExportService {
         supportLevels,
         resistanceLevels,
       },
+      microstructure,
       recommendations,
     };
   }
@@ -164,8 +172,8 @@ export class OrderbookExportService {
   /**
    * Export data as CSV
    */
-  public exportAsCSV(data: ProcessedOrderbookData, filename?: string): void {
-    const csvContent = this.convertToCSV(data);
+  public exportAsCSV(data: ProcessedOrderbookData, symbol: string = 'BTCUSDT', filename?: string): void {
+    const csvContent = this.convertToCSV(data, symbol);
     const blob = new Blob([csvContent], { type: 'text/csv' });
     this.downloadFile(blob, filename || `orderbook-data-${new Date().toISOString()}.csv`);
   }
@@ -204,7 +212,7 @@ export class OrderbookExportService {
     } else {
       // For CSV, combine all data
       const combinedCSV = snapshots.map(snapshot => 
-        this.convertToCSV(snapshot.data, snapshot.timestamp)
+        this.convertToCSV(snapshot.data, snapshot.symbol, snapshot.timestamp)
       ).join('\n\n');
       const blob = new Blob([combinedCSV], { type: 'text/csv' });
       this.downloadFile(blob, `orderbook-batch-export-${new Date().toISOString()}.csv`);
@@ -212,18 +220,29 @@ export class OrderbookExportService {
   }
 
   // Private helper methods
-  private convertToCSV(data: ProcessedOrderbookData, timestamp?: string): string {
+  private convertToCSV(data: ProcessedOrderbookData, symbol: string, timestamp?: string): string {
+    const info = symbolRegistry.get(symbol);
     const headers = ['Type', 'Price', 'Quantity', 'Timestamp', 'Total'];
     const rows = [headers.join(',')];
 
+    // Values use the symbol's tick and lot precision; totals are in the quote asset
+    const totalDecimals = Math.min(info.pricePrecision + info.quantityPrecision, 8);
+    const formatRow = (type: string, entry: OrderbookEntry) => [
+      type,
+      entry.price.toFixed(info.pricePrecision),
+      entry.quantity.toFixed(info.quantityPrecision),
+      timestamp || entry.timestamp,
+      (entry.price * entry.quantity).toFixed(totalDecimals)
+    ].join(',');
+
     // Add bid data
     data.bids.forEach(bid => {
-      rows.push(`Bid,${bid.price},${bid.quantity},${timestamp || bid.timestamp},${bid.price * bid.quantity}`);
+      rows.push(formatRow('Bid', bid));
     });
 
     // Add ask data
     data.asks.forEach(ask => {
-      rows.push(`Ask,${ask.price},${ask.quantity},${timestamp || ask.timestamp},${ask.price * ask.quantity}`);
+      rows.push(formatRow('Ask', ask));
     });
 
     return rows.join('\n');
@@ -259,6 +278,7 @@ Market Direction: ${report.marketIndicators.marketDirection.toUpperCase()}
 
 Support Levels: ${report.marketIndicators.supportLevels.map(level => `$${level.toFixed(2)}`).join(', ')}
 Resistance Levels: ${report.marketIndicators.resistanceLevels.map(level => `$${level.toFixed(2)}`).join(', ')}
+${report.microstructure ? this.formatMicrostructureAsText(report.microstructure) : ''}
 
 RECOMMENDATIONS
 ---------------
@@ -268,6 +288,32 @@ Generated by Enhanced 3D Orderbook Visualization System
     `;
   }
 
+  private formatMicrostructureAsText(metrics: MicrostructureSnapshot): string {
+    const { current } = metrics;
+    const depth = current.depth
+      .map(band => `  ±${band.bps}bp: ${band.bidDepth.toFixed(4)} bid / ${band.askDepth.toFixed(4)} ask`)
+      .join('\n');
+    const rolling = metrics.rolling
+      .map(window => `  ${window.windowMs / 1000}s: OFI ${window.ofi.toFixed(4)}, ` +
+        `imbalance ${window.meanImbalance.toFixed(3)}, spread ${window.meanSpreadBps.toFixed(2)}bp, ` +
+        `cancel ${window.cancelRate.toFixed(4)}/s, replenish ${window.replenishRate.toFixed(4)}/s, ` +
+        `microprice drift ${window.micropriceDriftBps.toFixed(2)}bp`)
+      .join('\n');
+
+    return `
+MICROSTRUCTURE
+--------------
+Microprice: $${current.microprice.toFixed(2)}
+Weighted Mid: $${current.weightedMid.toFixed(2)}
+Spread: ${current.spreadBps.toFixed(2)}bp
+Top-of-Book Imbalance: ${current.imbalance.toFixed(3)}
+Depth:
+${depth}
+Rolling Windows:
+${rolling}
+`;
+  }
+
   private calculateLiquidityScore(data: ProcessedOrderbookData): number {
     const totalVolume = [...data.bids, ...data.asks].reduce((sum, order) => sum + order.quantity, 0);
     const orderCount = data.bids.length + data.asks.length;
@@ -0,0 +1,265 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ProcessedOrderbookData } from '@/types/orderbook';
+import { getMidPrice } from '@/utils/basisPoints';
+
+export type HeatmapScale = 'linear' | 'log';
+
+export interface LiquidityHeatmapOptions {
+  timeWindow: number; // Milliseconds covered by the full width
+  columns: number; // Time slots across the window
+  rows: number; // Price bins
+  windowBps: number; // Price axis spans +/- this many basis points around mid when it is laid out
+}
+
+export const DEFAULT_HEATMAP_OPTIONS: LiquidityHeatmapOptions = {
+  timeWindow: 5 * 60 * 1000,
+  columns: 300,
+  rows: 200,
+  windowBps: 50
+};
+
+/**
+ * How the heatmap is drawn; shared by the flat panel and the 3D plane
+ */
+export interface LiquidityHeatmapSettings {
+  timeWindow: number;
+  scale: HeatmapScale;
+  autoContrast: boolean; // Top of the color scale at a high percentile instead of the largest cell
+  gain: number; // Multiplies brightness on top of the contrast level
+}
+
+export const DEFAULT_HEATMAP_SETTINGS: LiquidityHeatmapSettings = {
+  timeWindow: DEFAULT_HEATMAP_OPTIONS.timeWindow,
+  scale: 'log',
+  autoContrast: true,
+  gain: 1
+};
+
+/**
+ * Move rows of a row-major buffer down by `shift` rows (up when negative),
+ * zeroing the rows that open up
+ */
+function shiftRows(buffer: Float32Array, shift: number, rows: number, stride: number): void {
+  if (Math.abs(shift) >= rows) {
+    buffer.fill(0);
+  } else if (shift > 0) {
+    buffer.copyWithin(0, shift * stride);
+    buffer.fill(0, (rows - shift) * stride);
+  } else if (shift < 0) {
+    buffer.copyWithin(-shift * stride, 0, (rows + shift) * stride);
+    buffer.fill(0, 0, -shift * stride);
+  }
+}
+
+/**
+ * Resting size per (time, price) cell over a sliding window, laid out as a
+ * rows x columns single-channel texture: row-major, row 0 at the lowest
+ * price. Time columns form a ring, so a new slot only overwrites the oldest
+ * column and the renderer scrolls by offsetting U by the head. Price bins are
+ * fixed in absolute price; when mid drifts near an edge the rows shift by a
+ * whole number of bins, so older columns stay aligned with the levels they
+ * recorded. A gap between books carries the previous book forward, since
+ * resting orders persist until the next update says otherwise.
+ */
+export class LiquidityHeatmapHistory {
+  private options: LiquidityHeatmapOptions;
+  private cells: Float32Array;
+  private column: Float32Array; // Latest book rasterized into one column
+  private head: number = -1; // Column holding the newest slot
+  private lastSlotTime: number = -Infinity;
+  private minPrice: number = 0; // Lower edge of row 0
+  private binSize: number = 0;
+  private contrastScratch: Float32Array;
+  private contrastCache: { slotTime: number; percentile: number; level: number } | null = null;
+
+  // Configuration
+  private readonly SLOT_INTERVAL: number;
+  private readonly RECENTER_MARGIN = 0.2; // Shift rows once mid is within this fraction of an edge
+
+  constructor(options: Partial<LiquidityHeatmapOptions> = {}) {
+    this.options = { ...DEFAULT_HEATMAP_OPTIONS, ...options };
+    this.SLOT_INTERVAL = this.options.timeWindow / this.options.columns;
+    this.cells = new Float32Array(this.options.rows * this.options.columns);
+    this.column = new Float32Array(this.options.rows);
+    this.contrastScratch = new Float32Array(this.cells.length);
+  }
+
+  // Public methods
+  /**
+   * Record a book at `timestamp`; returns false when either side is empty
+   */
+  public add(data: ProcessedOrderbookData, timestamp: number): boolean {
+    const mid = getMidPrice(data);
+    if (mid === null) return false;
+
+    if (timestamp < this.lastSlotTime) {
+      this.clear();
+    }
+    if (this.binSize === 0) {
+      this.layout(mid);
+    } else {
+      this.recenter(mid);
+    }
+
+    const columns = this.options.columns;
+    const first = this.head < 0;
+    const steps = first ? 1 : Math.floor((timestamp - this.lastSlotTime) / this.SLOT_INTERVAL);
+
+    // Carry the previous book through skipped slots before writing the new one
+    for (let step = 1; step < Math.min(steps, columns); step++) {
+      this.writeColumn((this.head + step) % columns);
+    }
+
+    this.rasterize(data);
+    if (steps > 0) {
+      this.head = (this.head + Math.min(steps, columns)) % columns;
+      this.lastSlotTime = first ? timestamp : this.lastSlotTime + steps * this.SLOT_INTERVAL;
+    }
+    // Within a slot the newest book replaces the slot's earlier one
+    this.writeColumn(this.head);
+    return true;
+  }
+
+  public clear(): void {
+    this.cells.fill(0);
+    this.head = -1;
+    this.lastSlotTime = -Infinity;
+    this.binSize = 0;
+    this.contrastCache = null;
+  }
+
+  public getOptions(): LiquidityHeatmapOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Texture data; the same array for the history's lifetime
+   */
+  public getCells(): Float32Array {
+    return this.cells;
+  }
+
+  /**
+   * Column holding the newest slot, or -1 before the first book
+   */
+  public getHead(): number {
+    return this.head;
+  }
+
+  public getPriceRange(): { min: number; max: number } {
+    return { min: this.minPrice, max: this.minPrice + this.binSize * this.options.rows };
+  }
+
+  /**
+   * Time at the left and right edges; the right edge is the newest slot
+   */
+  public getTimeRange(): { start: number; end: number } {
+    const end = this.head < 0 ? Date.now() : this.lastSlotTime + this.SLOT_INTERVAL;
+    return { start: end - this.options.timeWindow, end };
+  }
+
+  /**
+   * Size at the given percentile of non-empty cells. Used as the top of the
+   * color scale so a few outsized walls do not wash out everything else.
+   * Computed once per slot.
+   */
+  public getContrastLevel(percentile: number = 0.98): number {
+    const cached = this.contrastCache;
+    if (cached && cached.slotTime === this.lastSlotTime && cached.percentile === percentile) return cached.level;
+
+    let count = 0;
+    for (let i = 0; i < this.cells.length; i++) {
+      if (this.cells[i] > 0) this.contrastScratch[count++] = this.cells[i];
+    }
+    const level = count === 0
+      ? 1
+      : this.contrastScratch.subarray(0, count).sort()[Math.min(count - 1, Math.floor(percentile * count))];
+
+    this.contrastCache = { slotTime: this.lastSlotTime, percentile, level };
+    return level;
+  }
+
+  public getMaxSize(): number {
+    let max = 0;
+    for (let i = 0; i < this.cells.length; i++) {
+      if (this.cells[i] > max) max = this.cells[i];
+    }
+    return max || 1;
+  }
+
+  // Private methods
+  private layout(mid: number): void {
+    const { rows, windowBps } = this.options;
+    this.binSize = (mid * 2 * windowBps) / 10000 / rows;
+    this.minPrice = (Math.round(mid / this.binSize) - Math.floor(rows / 2)) * this.binSize;
+  }
+
+  /**
+   * Shift rows so mid sits back at the center once it nears an edge
+   */
+  private recenter(mid: number): void {
+    const { rows, columns } = this.options;
+    const position = (mid - this.minPrice) / (this.binSize * rows);
+    if (position >= this.RECENTER_MARGIN && position <= 1 - this.RECENTER_MARGIN) return;
+
+    const shift = Math.round(position * rows - rows / 2);
+    this.minPrice += shift * this.binSize;
+    shiftRows(this.cells, shift, rows, columns);
+    shiftRows(this.column, shift, rows, 1);
+  }
+
+  private rasterize(data: ProcessedOrderbookData): void {
+    const rows = this.options.rows;
+    this.column.fill(0);
+
+    const addEntry = (entry: ProcessedOrderbookData['bids'][number]) => {
+      // Prices on a bin edge belong to the bin above, despite float error
+      const row = Math.floor((entry.price - this.minPrice) / this.binSize + 1e-6);
+      if (row >= 0 && row < rows) this.column[row] += entry.quantity;
+    };
+    data.bids.forEach(addEntry);
+    data.asks.forEach(addEntry);
+  }
+
+  private writeColumn(column: number): void {
+    const { rows, columns } = this.options;
+    for (let row = 0; row < rows; row++) {
+      this.cells[row * columns + column] = this.column[row];
+    }
+  }
+}
+
+/**
+ * Record every book into a liquidity heatmap history. Like
+ * `useMetricsHistory`, `timestamp` defaults to wall time, playback passes its
+ * own clock, and a seek backwards or a new `resetKey` starts over. `version`
+ * changes whenever the cells do.
+ */
+export const useLiquidityHeatmap = (
+  data: ProcessedOrderbookData | null,
+  options: Partial<LiquidityHeatmapOptions> & { timestamp?: number; resetKey?: string; enabled?: boolean } = {}
+) => {
+  const { timestamp, resetKey, enabled = true, timeWindow, columns, rows, windowBps } = options;
+  const history = useMemo(
+    () => new LiquidityHeatmapHistory(Object.fromEntries(
+      Object.entries({ timeWindow, columns, rows, windowBps }).filter(([, value]) => value !== undefined)
+    )),
+    [timeWindow, columns, rows, windowBps]
+  );
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    history.clear();
+    setVersion(v => v + 1);
+  }, [history, resetKey]);
+
+  useEffect(() => {
+    if (!enabled || !data) return;
+
+    if (history.add(data, timestamp ?? Date.now())) {
+      setVersion(v => v + 1);
+    }
+  }, [history, data, enabled, timestamp]);
+
+  return { history, version };
+};
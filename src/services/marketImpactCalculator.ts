@@ -0,0 +1,98 @@
+import { OrderbookEntry, ProcessedOrderbookData } from '@/types/orderbook';
+import { getMidPrice, toBasisPoints } from '@/utils/basisPoints';
+
+export interface MarketImpactOrder {
+  side: 'buy' | 'sell';
+  size: number;
+  unit: 'base' | 'quote'; // Size in the base asset (e.g. BTC) or quote notional (e.g. USDT)
+}
+
+export interface ConsumedLevel {
+  price: number;
+  venue?: string;
+  filledQuantity: number; // Base quantity taken from the level
+  levelQuantity: number; // Resting quantity before the fill
+}
+
+export interface MarketImpactResult {
+  order: MarketImpactOrder;
+  filledBase: number;
+  filledQuote: number;
+  vwap: number | null; // Average fill price; null when nothing could fill
+  bestPrice: number | null; // Touch on the side being walked
+  worstPrice: number | null; // Last level reached
+  midPrice: number | null;
+  slippageBps: number; // VWAP vs. the touch, positive is worse for the taker
+  midSlippageBps: number; // VWAP vs. mid, includes half the spread
+  levelsConsumed: number;
+  fullyFilled: boolean;
+  unfilledSize: number; // Remaining, in the order's unit
+  consumed: ConsumedLevel[];
+}
+
+/**
+ * Estimates what a market order would cost against the current book by
+ * walking the opposite side from the touch: buys lift asks, sells hit bids.
+ * Only displayed liquidity is considered, so hidden size and queue changes
+ * during execution are not reflected.
+ */
+export class MarketImpactCalculator {
+  public calculate(data: ProcessedOrderbookData, order: MarketImpactOrder): MarketImpactResult {
+    const levels = this.getLevels(data, order.side);
+    const midPrice = getMidPrice(data);
+    const consumed: ConsumedLevel[] = [];
+    let remaining = Math.max(order.size, 0);
+    let filledBase = 0;
+    let filledQuote = 0;
+
+    for (const level of levels) {
+      if (remaining <= 0) break;
+      if (level.quantity <= 0) continue;
+
+      // Quote orders convert the remaining notional at this level's price
+      const available = order.unit === 'base' ? level.quantity : level.quantity * level.price;
+      const take = Math.min(available, remaining);
+      const baseTaken = order.unit === 'base' ? take : take / level.price;
+
+      consumed.push({
+        price: level.price,
+        venue: level.venue,
+        filledQuantity: baseTaken,
+        levelQuantity: level.quantity
+      });
+      filledBase += baseTaken;
+      filledQuote += baseTaken * level.price;
+      remaining -= take;
+    }
+
+    const vwap = filledBase > 0 ? filledQuote / filledBase : null;
+    const bestPrice = levels.length > 0 ? levels[0].price : null;
+    const direction = order.side === 'buy' ? 1 : -1;
+
+    return {
+      order,
+      filledBase,
+      filledQuote,
+      vwap,
+      bestPrice,
+      worstPrice: consumed.length > 0 ? consumed[consumed.length - 1].price : null,
+      midPrice,
+      slippageBps: vwap !== null && bestPrice !== null ? toBasisPoints(vwap, bestPrice) * direction : 0,
+      midSlippageBps: vwap !== null && midPrice !== null ? toBasisPoints(vwap, midPrice) * direction : 0,
+      levelsConsumed: consumed.length,
+      fullyFilled: order.size > 0 && remaining <= order.size * 1e-9,
+      unfilledSize: Math.max(remaining, 0),
+      consumed
+    };
+  }
+
+  // Private methods
+  /**
+   * Opposite side ordered from the touch outwards
+   */
+  private getLevels(data: ProcessedOrderbookData, side: 'buy' | 'sell'): OrderbookEntry[] {
+    return side === 'buy'
+      ? [...data.asks].sort((a, b) => a.price - b.price)
+      : [...data.bids].sort((a, b) => b.price - a.price);
+  }
+}
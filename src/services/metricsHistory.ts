@@ -0,0 +1,191 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { ProcessedOrderbookData } from '@/types/orderbook';
+import { getMidPrice, toBasisPoints } from '@/utils/basisPoints';
+import { PlaybackTimeRange, TIME_RANGE_MS } from '@/services/sessionPlayback';
+
+export const METRIC_FIELDS = ['midPrice', 'spreadBps', 'imbalance', 'bidDepth', 'askDepth', 'zoneCount'] as const;
+export type MetricField = typeof METRIC_FIELDS[number];
+
+export type MetricsSample = { timestamp: number } & Record<MetricField, number>;
+
+/**
+ * Contiguous, oldest-first view of a time window. Arrays are views into the
+ * history's buffers and are only valid until the next sample is added.
+ */
+export interface MetricsSeries {
+  timestamps: Float64Array;
+  values: Record<MetricField, Float64Array>;
+  length: number;
+}
+
+// Window shown for the 'live' time range
+export const LIVE_WINDOW_MS = 5 * 60 * 1000;
+
+const IMBALANCE_LEVELS = 5;
+
+/**
+ * Summarize one book state into a chart sample
+ */
+export function sampleBook(data: ProcessedOrderbookData, zoneCount: number, timestamp: number): MetricsSample | null {
+  const midPrice = getMidPrice(data);
+  if (midPrice === null) return null;
+
+  const sum = (entries: ProcessedOrderbookData['bids']) => entries.reduce((total, entry) => total + entry.quantity, 0);
+  const topBids = sum(data.bids.slice(0, IMBALANCE_LEVELS));
+  const topAsks = sum(data.asks.slice(0, IMBALANCE_LEVELS));
+
+  return {
+    timestamp,
+    midPrice,
+    spreadBps: toBasisPoints(data.asks[0].price, midPrice) - toBasisPoints(data.bids[0].price, midPrice),
+    imbalance: topBids + topAsks > 0 ? (topBids - topAsks) / (topBids + topAsks) : 0,
+    bidDepth: sum(data.bids),
+    askDepth: sum(data.asks),
+    zoneCount
+  };
+}
+
+/**
+ * Fixed-capacity time series of book metrics, sampled at most once per
+ * interval. Like the depth history surface, every sample is written twice
+ * into a buffer of double capacity, so any window is one contiguous range
+ * and reads never copy.
+ */
+export class MetricsHistory {
+  private capacity: number;
+  private timestamps: Float64Array;
+  private values: Record<MetricField, Float64Array>;
+  private head: number = 0; // Next write position in the first half
+  private count: number = 0;
+  private lastSampleTime: number = -Infinity;
+
+  // Configuration
+  private readonly SAMPLE_INTERVAL: number;
+
+  constructor(retentionMs: number = TIME_RANGE_MS['1d'], sampleInterval: number = 1000) {
+    this.SAMPLE_INTERVAL = sampleInterval;
+    this.capacity = Math.ceil(retentionMs / sampleInterval);
+    this.timestamps = new Float64Array(this.capacity * 2);
+    this.values = Object.fromEntries(
+      METRIC_FIELDS.map(field => [field, new Float64Array(this.capacity * 2)])
+    ) as Record<MetricField, Float64Array>;
+  }
+
+  // Public methods
+  /**
+   * Append a sample; returns false when it falls inside the current interval
+   */
+  public add(sample: MetricsSample): boolean {
+    if (sample.timestamp - this.lastSampleTime < this.SAMPLE_INTERVAL) return false;
+
+    const second = this.head + this.capacity;
+    this.timestamps[this.head] = sample.timestamp;
+    this.timestamps[second] = sample.timestamp;
+    METRIC_FIELDS.forEach(field => {
+      this.values[field][this.head] = sample[field];
+      this.values[field][second] = sample[field];
+    });
+
+    this.head = (this.head + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+    this.lastSampleTime = sample.timestamp;
+    return true;
+  }
+
+  public clear(): void {
+    this.head = 0;
+    this.count = 0;
+    this.lastSampleTime = -Infinity;
+  }
+
+  public getLatestTime(): number | null {
+    return this.count > 0 ? this.lastSampleTime : null;
+  }
+
+  /**
+   * Samples with timestamps in [start, end]
+   */
+  public getRange(start: number, end: number): MetricsSeries {
+    // Oldest retained sample; the duplicated half makes [oldest, oldest + count) contiguous
+    const oldest = (this.head - this.count + this.capacity) % this.capacity;
+    const first = this.lowerBound(oldest, oldest + this.count, start);
+    const last = this.lowerBound(first, oldest + this.count, end, true);
+
+    return {
+      timestamps: this.timestamps.subarray(first, last),
+      values: Object.fromEntries(
+        METRIC_FIELDS.map(field => [field, this.values[field].subarray(first, last)])
+      ) as Record<MetricField, Float64Array>,
+      length: last - first
+    };
+  }
+
+  // Private methods
+  /**
+   * First index in [low, high) whose timestamp is >= target (> target when `inclusive`)
+   */
+  private lowerBound(low: number, high: number, target: number, inclusive: boolean = false): number {
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      const before = inclusive ? this.timestamps[mid] <= target : this.timestamps[mid] < target;
+      if (before) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
+
+/**
+ * Sample every book into a shared history and expose the window selected by
+ * `timeRange`, ending at the newest sample. `timestamp` defaults to wall
+ * time; playback passes its own clock, and a jump backwards (a seek) or a new
+ * `resetKey` starts the history over.
+ */
+export const useMetricsHistory = (
+  data: ProcessedOrderbookData | null,
+  zoneCount: number,
+  timeRange: PlaybackTimeRange,
+  options: { timestamp?: number; resetKey?: string; enabled?: boolean } = {}
+) => {
+  const { timestamp, resetKey, enabled = true } = options;
+  const [history] = useState(() => new MetricsHistory());
+  const [, setVersion] = useState(0);
+  // Sampled with the next book rather than triggering one
+  const zoneCountRef = useRef(zoneCount);
+
+  useEffect(() => {
+    zoneCountRef.current = zoneCount;
+  }, [zoneCount]);
+
+  useEffect(() => {
+    history.clear();
+    setVersion(v => v + 1);
+  }, [history, resetKey]);
+
+  useEffect(() => {
+    if (!enabled || !data) return;
+
+    const now = timestamp ?? Date.now();
+    const latest = history.getLatestTime();
+    if (latest !== null && now < latest) {
+      history.clear();
+    }
+
+    const sample = sampleBook(data, zoneCountRef.current, now);
+    if (sample && history.add(sample)) {
+      setVersion(v => v + 1);
+    }
+  }, [history, data, enabled, timestamp]);
+
+  // Views are only rebuilt when a sample lands, so the chart redraws at the sample rate.
+  // Every sample moves the latest time forward and a reset clears it.
+  const latest = history.getLatestTime();
+  return useMemo(() => {
+    const end = latest ?? Date.now();
+    const start = end - (timeRange === 'live' ? LIVE_WINDOW_MS : TIME_RANGE_MS[timeRange]);
+    return { series: history.getRange(start, end), start, end };
+  }, [history, latest, timeRange]);
+};
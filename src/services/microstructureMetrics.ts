@@ -0,0 +1,298 @@
+import { OrderbookEntry, ProcessedOrderbookData, TradeEvent } from '@/types/orderbook';
+import { toBasisPoints } from '@/utils/basisPoints';
+
+export interface DepthBand {
+  bps: number;
+  bidDepth: number; // Base quantity resting within `bps` below mid
+  askDepth: number; // Base quantity resting within `bps` above mid
+}
+
+export interface MicrostructureMetrics {
+  timestamp: number;
+  midPrice: number;
+  microprice: number; // Top-of-book mid weighted toward the thinner side
+  weightedMid: number; // Microprice generalized to the top N levels
+  spreadBps: number;
+  imbalance: number; // Top-N (bid - ask) / (bid + ask), -1..1
+  depth: DepthBand[];
+  ofi: number; // Order flow imbalance of this update, base units; positive is buying pressure
+  cancelledVolume: number; // Resting size removed without trading since the previous update
+  replenishedVolume: number; // Resting size added since the previous update
+}
+
+export interface RollingMetrics {
+  windowMs: number;
+  samples: number;
+  ofi: number; // Summed over the window
+  cancelRate: number; // Base units per second
+  replenishRate: number;
+  meanSpreadBps: number;
+  meanImbalance: number;
+  micropriceDriftBps: number; // Microprice change across the window
+}
+
+export interface MicrostructureSnapshot {
+  symbol: string;
+  current: MicrostructureMetrics;
+  rolling: RollingMetrics[]; // One per configured window, shortest first
+}
+
+export interface MicrostructureConfig {
+  topLevels: number; // Levels per side for imbalance and weighted mid
+  depthBands: number[]; // Basis points from mid
+  windows: number[]; // Rolling window lengths in milliseconds
+}
+
+interface Sample {
+  timestamp: number;
+  ofi: number;
+  cancelledVolume: number;
+  replenishedVolume: number;
+  spreadBps: number;
+  imbalance: number;
+  microprice: number;
+}
+
+interface SideState {
+  levels: Map<number, number>; // Price -> quantity
+  best: number;
+  worst: number;
+  bestQuantity: number;
+}
+
+const DEFAULT_CONFIG: MicrostructureConfig = {
+  topLevels: 5,
+  depthBands: [10, 25, 50],
+  windows: [5000, 30000, 60000]
+};
+
+/**
+ * Per-update order book microstructure metrics for one symbol, with rolling
+ * aggregates. OFI follows Cont, Kukanov and Stoikov: changes in best bid and
+ * ask size, signed by whether the touch moved. Cancellations are size that
+ * left a level beyond what traded there, so trades should be fed in through
+ * addTrades before the update they belong to. Only the displayed depth is
+ * seen, so bands wider than the book under-report.
+ */
+export class MicrostructureMetricsEngine {
+  private symbol: string;
+  private config: MicrostructureConfig;
+  private previousBids: SideState | null = null;
+  private previousAsks: SideState | null = null;
+  private samples: Sample[] = [];
+  private pendingExecutions: Map<string, number> = new Map(); // `${side}:${price}` -> executed base quantity
+  private latest: MicrostructureSnapshot | null = null;
+
+  constructor(symbol: string, config: Partial<MicrostructureConfig> = {}) {
+    this.symbol = symbol.toUpperCase();
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      windows: [...(config.windows ?? DEFAULT_CONFIG.windows)].sort((a, b) => a - b)
+    };
+  }
+
+  // Public methods
+  public reset(): void {
+    this.previousBids = null;
+    this.previousAsks = null;
+    this.samples = [];
+    this.pendingExecutions.clear();
+    this.latest = null;
+  }
+
+  /**
+   * Executions since the last update; sells trade against bids, buys against asks
+   */
+  public addTrades(trades: TradeEvent[]): void {
+    trades.forEach(trade => {
+      const key = `${trade.aggressor === 'sell' ? 'bid' : 'ask'}:${trade.price}`;
+      this.pendingExecutions.set(key, (this.pendingExecutions.get(key) ?? 0) + trade.quantity);
+    });
+  }
+
+  /**
+   * Compute metrics for a new book state; null while either side is empty
+   */
+  public update(data: ProcessedOrderbookData, timestamp: number = Date.now()): MicrostructureSnapshot | null {
+    const bids = this.toSide(data.bids, 'bid');
+    const asks = this.toSide(data.asks, 'ask');
+    if (!bids || !asks) return null;
+
+    const midPrice = (bids.best + asks.best) / 2;
+    const topBids = this.topLevels(data.bids, 'bid');
+    const topAsks = this.topLevels(data.asks, 'ask');
+    const bidVolume = topBids.reduce((sum, level) => sum + level.quantity, 0);
+    const askVolume = topAsks.reduce((sum, level) => sum + level.quantity, 0);
+
+    const flow = this.previousBids && this.previousAsks
+      ? this.calculateFlow(bids, asks, this.previousBids, this.previousAsks, midPrice)
+      : { ofi: 0, cancelledVolume: 0, replenishedVolume: 0 };
+
+    const current: MicrostructureMetrics = {
+      timestamp,
+      midPrice,
+      microprice: this.calculateMicroprice(bids.best, bids.bestQuantity, asks.best, asks.bestQuantity),
+      weightedMid: this.calculateMicroprice(this.vwap(topBids), bidVolume, this.vwap(topAsks), askVolume),
+      spreadBps: toBasisPoints(asks.best, midPrice) - toBasisPoints(bids.best, midPrice),
+      imbalance: bidVolume + askVolume > 0 ? (bidVolume - askVolume) / (bidVolume + askVolume) : 0,
+      depth: this.config.depthBands.map(bps => ({
+        bps,
+        bidDepth: this.depthWithin(data.bids, midPrice, -bps),
+        askDepth: this.depthWithin(data.asks, midPrice, bps)
+      })),
+      ...flow
+    };
+
+    this.previousBids = bids;
+    this.previousAsks = asks;
+    this.pendingExecutions.clear();
+    this.recordSample(current);
+
+    this.latest = {
+      symbol: this.symbol,
+      current,
+      rolling: this.config.windows.map(windowMs => this.calculateRolling(windowMs, timestamp))
+    };
+    return this.latest;
+  }
+
+  public getLatest(): MicrostructureSnapshot | null {
+    return this.latest;
+  }
+
+  // Private methods
+  private toSide(entries: OrderbookEntry[], side: 'bid' | 'ask'): SideState | null {
+    if (entries.length === 0) return null;
+
+    const levels = new Map<number, number>();
+    let best = entries[0];
+    let worst = entries[0].price;
+    entries.forEach(entry => {
+      levels.set(entry.price, (levels.get(entry.price) ?? 0) + entry.quantity);
+      const better = side === 'bid' ? entry.price > best.price : entry.price < best.price;
+      if (better) best = entry;
+      worst = side === 'bid' ? Math.min(worst, entry.price) : Math.max(worst, entry.price);
+    });
+
+    return { levels, best: best.price, worst, bestQuantity: levels.get(best.price) ?? 0 };
+  }
+
+  private topLevels(entries: OrderbookEntry[], side: 'bid' | 'ask'): OrderbookEntry[] {
+    return [...entries]
+      .sort((a, b) => (side === 'bid' ? b.price - a.price : a.price - b.price))
+      .slice(0, this.config.topLevels);
+  }
+
+  private vwap(entries: OrderbookEntry[]): number {
+    const volume = entries.reduce((sum, entry) => sum + entry.quantity, 0);
+    return volume > 0 ? entries.reduce((sum, entry) => sum + entry.price * entry.quantity, 0) / volume : 0;
+  }
+
+  /**
+   * Each price weighted by the opposite side's size, so the result leans
+   * toward the side more likely to be taken out next
+   */
+  private calculateMicroprice(bidPrice: number, bidSize: number, askPrice: number, askSize: number): number {
+    const total = bidSize + askSize;
+    return total > 0 ? (bidPrice * askSize + askPrice * bidSize) / total : (bidPrice + askPrice) / 2;
+  }
+
+  private depthWithin(entries: OrderbookEntry[], midPrice: number, bps: number): number {
+    return entries.reduce((sum, entry) => {
+      const distance = toBasisPoints(entry.price, midPrice);
+      const inside = bps < 0 ? distance >= bps && distance <= 0 : distance <= bps && distance >= 0;
+      return inside ? sum + entry.quantity : sum;
+    }, 0);
+  }
+
+  private calculateFlow(
+    bids: SideState,
+    asks: SideState,
+    previousBids: SideState,
+    previousAsks: SideState,
+    midPrice: number
+  ): { ofi: number; cancelledVolume: number; replenishedVolume: number } {
+    // Bid contribution: size added at or above the old touch minus size lost at or below it
+    const bidFlow = (bids.best >= previousBids.best ? bids.bestQuantity : 0) -
+      (bids.best <= previousBids.best ? previousBids.bestQuantity : 0);
+    const askFlow = (asks.best <= previousAsks.best ? asks.bestQuantity : 0) -
+      (asks.best >= previousAsks.best ? previousAsks.bestQuantity : 0);
+
+    // Level changes are only counted inside the widest band, away from the edge of the displayed depth
+    const band = Math.max(...this.config.depthBands, 0);
+    let cancelledVolume = 0;
+    let replenishedVolume = 0;
+
+    const compare = (current: SideState, previous: SideState, side: 'bid' | 'ask') => {
+      const prices = new Set([...current.levels.keys(), ...previous.levels.keys()]);
+      prices.forEach(price => {
+        if (Math.abs(toBasisPoints(price, midPrice)) > band) return;
+
+        const before = this.quantityAt(previous, price, side);
+        const after = this.quantityAt(current, price, side);
+        if (before === undefined || after === undefined) return;
+
+        const executed = this.pendingExecutions.get(`${side}:${price}`) ?? 0;
+        const change = after - before;
+        if (change > 0) {
+          replenishedVolume += change;
+        } else {
+          cancelledVolume += Math.max(0, -change - executed);
+        }
+      });
+    };
+    compare(bids, previousBids, 'bid');
+    compare(asks, previousAsks, 'ask');
+
+    return { ofi: bidFlow - askFlow, cancelledVolume, replenishedVolume };
+  }
+
+  /**
+   * Size at a price; absent inside the displayed depth means empty, beyond it unknown
+   */
+  private quantityAt(state: SideState, price: number, side: 'bid' | 'ask'): number | undefined {
+    const quantity = state.levels.get(price);
+    if (quantity !== undefined) return quantity;
+
+    const withinDepth = side === 'bid' ? price >= state.worst : price <= state.worst;
+    return withinDepth ? 0 : undefined;
+  }
+
+  private recordSample(metrics: MicrostructureMetrics): void {
+    this.samples.push({
+      timestamp: metrics.timestamp,
+      ofi: metrics.ofi,
+      cancelledVolume: metrics.cancelledVolume,
+      replenishedVolume: metrics.replenishedVolume,
+      spreadBps: metrics.spreadBps,
+      imbalance: metrics.imbalance,
+      microprice: metrics.microprice
+    });
+
+    const cutoff = metrics.timestamp - this.config.windows[this.config.windows.length - 1];
+    const firstKept = this.samples.findIndex(sample => sample.timestamp >= cutoff);
+    if (firstKept > 0) {
+      this.samples = this.samples.slice(firstKept);
+    }
+  }
+
+  private calculateRolling(windowMs: number, now: number): RollingMetrics {
+    const samples = this.samples.filter(sample => sample.timestamp >= now - windowMs);
+    const count = samples.length;
+    // Rates use the covered span until the window has filled
+    const seconds = count > 0 ? Math.max(Math.min(windowMs, now - samples[0].timestamp), 1000) / 1000 : 1;
+    const sum = (select: (sample: Sample) => number) => samples.reduce((total, sample) => total + select(sample), 0);
+
+    return {
+      windowMs,
+      samples: count,
+      ofi: sum(sample => sample.ofi),
+      cancelRate: sum(sample => sample.cancelledVolume) / seconds,
+      replenishRate: sum(sample => sample.replenishedVolume) / seconds,
+      meanSpreadBps: count > 0 ? sum(sample => sample.spreadBps) / count : 0,
+      meanImbalance: count > 0 ? sum(sample => sample.imbalance) / count : 0,
+      micropriceDriftBps: count > 1 ? toBasisPoints(samples[count - 1].microprice, samples[0].microprice) : 0
+    };
+  }
+}
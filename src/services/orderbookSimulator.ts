@@ -1,31 +1,23 @@
-import { OrderbookSnapshot, OrderbookUpdate, OrderbookLevel, PressureZone } from '@/types/orderbook';
+import { OrderbookSnapshot, OrderbookUpdate, OrderbookLevel, PressureZone, TradeEvent } from '@/types/orderbook';
+import { FixedPointCodec, getCodec } from '@/utils/fixedPoint';
+import { symbolRegistry } from '@/services/symbolRegistry';
 
 export class OrderbookSimulator {
   private symbol: string;
   private basePrice: number;
+  private codec: FixedPointCodec; // Generated levels are snapped to the symbol's tick and lot size
   private isRunning: boolean = false;
   private intervalId: NodeJS.Timeout | null = null;
   private onDataCallback?: (data: OrderbookUpdate) => void;
   private updateId: number = 1000;
+  private tradeId: number = 1;
   private pressureZones: PressureZone[] = [];
   private orderHistory: { price: number; quantity: number; timestamp: number; side: 'bid' | 'ask' }[] = [];
 
   constructor(symbol: string = 'BTCUSDT') {
     this.symbol = symbol.toUpperCase();
-    // Set realistic base prices for different symbols
-    switch (this.symbol) {
-      case 'BTCUSDT':
-        this.basePrice = 65000;
-        break;
-      case 'ETHUSDT':
-        this.basePrice = 3500;
-        break;
-      case 'ADAUSDT':
-        this.basePrice = 0.45;
-        break;
-      default:
-        this.basePrice = 100;
-    }
+    this.codec = getCodec(this.symbol);
+    this.basePrice = symbolRegistry.get(this.symbol).referencePrice;
   }
 
   public generateSnapshot(depth: number = 50): OrderbookSnapshot {
@@ -45,8 +37,8 @@ export class OrderbookSimulator {
       quantity = this.amplifyQuantityInPressureZone(price, quantity, 'bid');
       
       bids.push({
-        price: price.toFixed(8),
-        quantity: quantity.toFixed(8)
+        price: this.codec.roundPrice(price),
+        quantity: this.formatQuantity(quantity)
       });
     }
 
@@ -60,8 +52,8 @@ export class OrderbookSimulator {
       quantity = this.amplifyQuantityInPressureZone(price, quantity, 'ask');
       
       asks.push({
-        price: price.toFixed(8),
-        quantity: quantity.toFixed(8)
+        price: this.codec.roundPrice(price),
+        quantity: this.formatQuantity(quantity)
       });
     }
 
@@ -74,6 +66,32 @@ export class OrderbookSimulator {
     };
   }
 
+  /**
+   * Prints against the best levels of the last snapshot: buys lift the best
+   * ask, sells hit the best bid.
+   */
+  public generateTrades(count: number = Math.floor(Math.random() * 4)): TradeEvent[] {
+    const bestBid = this.codec.parsePrice(this.basePrice * 0.999);
+    const bestAsk = this.codec.parsePrice(this.basePrice * 1.001);
+    const now = Date.now();
+
+    return Array.from({ length: count }, (_, index) => {
+      const aggressor: 'buy' | 'sell' = Math.random() < 0.5 ? 'buy' : 'sell';
+      const quantity = parseFloat(this.formatQuantity(this.generateQuantity() * 0.2));
+
+      return {
+        eventType: 'aggTrade',
+        eventTime: now,
+        tradeTime: now - (count - index) * 50,
+        symbol: this.symbol,
+        tradeId: this.tradeId++,
+        price: this.codec.priceToNumber(aggressor === 'buy' ? bestAsk : bestBid),
+        quantity,
+        aggressor
+      };
+    });
+  }
+
   public start(updateInterval: number = 500): void {
     if (this.isRunning) return;
 
@@ -100,20 +118,10 @@ export class OrderbookSimulator {
 
   public setSymbol(symbol: string): void {
     this.symbol = symbol.toUpperCase();
-    // Update base price for new symbol
-    switch (this.symbol) {
-      case 'BTCUSDT':
-        this.basePrice = 65000 + (Math.random() - 0.5) * 1000;
-        break;
-      case 'ETHUSDT':
-        this.basePrice = 3500 + (Math.random() - 0.5) * 100;
-        break;
-      case 'ADAUSDT':
-        this.basePrice = 0.45 + (Math.random() - 0.5) * 0.05;
-        break;
-      default:
-        this.basePrice = 100 + (Math.random() - 0.5) * 10;
-    }
+    this.codec = getCodec(this.symbol);
+    // Start near the symbol's reference price, within +/-1%
+    const referencePrice = symbolRegistry.get(this.symbol).referencePrice;
+    this.basePrice = referencePrice + (Math.random() - 0.5) * referencePrice * 0.02;
   }
 
   private generateUpdate(): OrderbookUpdate {
@@ -128,8 +136,8 @@ export class OrderbookSimulator {
       const quantity = Math.random() < 0.1 ? 0 : this.generateQuantity(); // 10% chance of removal
       
       bids.push({
-        price: price.toFixed(8),
-        quantity: quantity.toFixed(8)
+        price: this.codec.roundPrice(price),
+        quantity: this.formatQuantity(quantity)
       });
     }
 
@@ -141,8 +149,8 @@ export class OrderbookSimulator {
       const quantity = Math.random() < 0.1 ? 0 : this.generateQuantity(); // 10% chance of removal
       
       asks.push({
-        price: price.toFixed(8),
-        quantity: quantity.toFixed(8)
+        price: this.codec.roundPrice(price),
+        quantity: this.formatQuantity(quantity)
       });
     }
 
@@ -160,6 +168,12 @@ export class OrderbookSimulator {
     };
   }
 
+  // Non-zero quantities are kept to at least one lot so they don't read as removals
+  private formatQuantity(quantity: number): string {
+    if (quantity === 0) return this.codec.formatQuantity(0);
+    return this.codec.formatQuantity(Math.max(this.codec.parseQuantity(quantity), 1));
+  }
+
   private generateQuantity(): number {
     // Generate realistic quantities with some large orders and many small ones
     const random = Math.random();
@@ -0,0 +1,290 @@
+import { OrderbookSnapshot, OrderbookUpdate, BookSyncInfo, BookSyncState } from '@/types/orderbook';
+
+/**
+ * Keeps a local order book consistent with the exchange's diff stream.
+ *
+ * Follows the Binance depth-stream procedure: diff events are buffered while the
+ * REST snapshot loads, events already covered by the snapshot are dropped, and the
+ * `firstUpdateId`/`finalUpdateId` chain is checked on every event. Any break in the
+ * chain triggers an automatic re-snapshot, retried with backoff until it succeeds
+ * or the synchronizer is stopped.
+ */
+export class OrderbookSynchronizer {
+  private fetchSnapshot: () => Promise<OrderbookSnapshot>;
+  private buffer: OrderbookUpdate[] = [];
+  private lastUpdateId: number = 0;
+  private awaitingFirstEvent: boolean = true;
+  private generation: number = 0;
+  private pendingGeneration: number | null = null; // Generation whose snapshot request is in flight
+  private retryTimeout: NodeJS.Timeout | null = null;
+  private retryResolve: (() => void) | null = null; // Settles the pending delay early on reset
+  private resyncFailures: number = 0;
+  private syncInfo: BookSyncInfo;
+
+  // Callbacks
+  private onSnapshotCallback?: (snapshot: OrderbookSnapshot) => void;
+  private onUpdateCallback?: (update: OrderbookUpdate) => void;
+  private onSyncStateCallback?: (info: BookSyncInfo) => void;
+  private onErrorCallback?: (error: Error) => void;
+
+  // Configuration
+  private readonly MAX_BUFFER_SIZE = 1000;
+  private readonly MAX_SNAPSHOT_ATTEMPTS = 3;
+  private readonly SNAPSHOT_RETRY_DELAY = 1000;
+  private readonly MAX_RESYNC_DELAY = 30000;
+
+  constructor(fetchSnapshot: () => Promise<OrderbookSnapshot>) {
+    this.fetchSnapshot = fetchSnapshot;
+    this.syncInfo = {
+      state: 'idle',
+      lastUpdateId: 0,
+      bufferedEvents: 0,
+      droppedEvents: 0,
+      sequenceGaps: 0,
+      resyncCount: 0,
+      lastSyncTime: 0
+    };
+  }
+
+  // Public methods
+
+  /**
+   * Begin buffering and load the initial snapshot. Resolves once the book is in sync.
+   */
+  public async start(): Promise<void> {
+    this.reset();
+    this.setState('buffering');
+    await this.synchronize(this.generation);
+  }
+
+  public stop(): void {
+    this.reset();
+    this.setState('idle');
+  }
+
+  /**
+   * Reload the snapshot, e.g. after whatever applies the book lost its state.
+   * Does nothing while stopped.
+   */
+  public resynchronize(): void {
+    if (this.syncInfo.state === 'idle') return;
+    this.resync();
+  }
+
+  /**
+   * Feed a raw diff event from the WebSocket stream.
+   */
+  public handleUpdate(update: OrderbookUpdate): void {
+    const state = this.syncInfo.state;
+
+    if (state === 'idle') return;
+
+    if (state === 'buffering' || state === 'resyncing') {
+      this.buffer.push(update);
+      this.syncInfo.bufferedEvents = this.buffer.length;
+
+      if (this.buffer.length > this.MAX_BUFFER_SIZE) {
+        // Keep the newest events; a snapshot older than them is retried by synchronize
+        const kept = this.buffer.slice(-this.MAX_BUFFER_SIZE / 2);
+        this.syncInfo.droppedEvents += this.buffer.length - kept.length;
+        this.buffer = kept;
+        this.syncInfo.bufferedEvents = this.buffer.length;
+
+        // A snapshot already on its way will sync against the trimmed buffer
+        if (this.pendingGeneration !== this.generation) {
+          console.warn('Depth buffer overflow while waiting for snapshot, resynchronizing');
+          this.resync();
+        }
+      }
+      return;
+    }
+
+    this.applyInSequence(update);
+  }
+
+  // Callback setters
+  public onSnapshot(callback: (snapshot: OrderbookSnapshot) => void): void {
+    this.onSnapshotCallback = callback;
+  }
+
+  public onUpdate(callback: (update: OrderbookUpdate) => void): void {
+    this.onUpdateCallback = callback;
+  }
+
+  public onSyncState(callback: (info: BookSyncInfo) => void): void {
+    this.onSyncStateCallback = callback;
+  }
+
+  public onError(callback: (error: Error) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  // Getters
+  public getSyncInfo(): BookSyncInfo {
+    return { ...this.syncInfo };
+  }
+
+  public isInSync(): boolean {
+    return this.syncInfo.state === 'in_sync';
+  }
+
+  // Private methods
+  private async synchronize(generation: number): Promise<void> {
+    this.pendingGeneration = generation;
+    try {
+      await this.alignSnapshot(generation);
+    } finally {
+      if (this.pendingGeneration === generation) {
+        this.pendingGeneration = null;
+      }
+    }
+  }
+
+  private async alignSnapshot(generation: number): Promise<void> {
+    for (let attempt = 1; attempt <= this.MAX_SNAPSHOT_ATTEMPTS; attempt++) {
+      const snapshot = await this.fetchSnapshot();
+
+      // A newer start/resync/stop superseded this request
+      if (generation !== this.generation) return;
+
+      // Drop buffered events the snapshot already contains
+      const pending = this.buffer.filter(update => update.finalUpdateId > snapshot.lastUpdateId);
+      this.syncInfo.droppedEvents += this.buffer.length - pending.length;
+
+      // Snapshot is older than the first event we hold - fetch a newer one
+      if (pending.length > 0 && pending[0].firstUpdateId > snapshot.lastUpdateId + 1) {
+        console.warn(
+          `Snapshot ${snapshot.lastUpdateId} predates buffered event ${pending[0].firstUpdateId} ` +
+          `(attempt ${attempt}/${this.MAX_SNAPSHOT_ATTEMPTS})`
+        );
+        this.buffer = pending;
+        this.syncInfo.bufferedEvents = this.buffer.length;
+        await this.delay(this.SNAPSHOT_RETRY_DELAY);
+        if (generation !== this.generation) return;
+        continue;
+      }
+
+      this.buffer = [];
+      this.syncInfo.bufferedEvents = 0;
+      this.lastUpdateId = snapshot.lastUpdateId;
+      this.awaitingFirstEvent = true;
+
+      if (this.onSnapshotCallback) {
+        this.onSnapshotCallback(snapshot);
+      }
+
+      this.syncInfo.lastSyncTime = Date.now();
+      this.resyncFailures = 0;
+      this.setState('in_sync');
+
+      // Replay buffered events; a gap here will schedule another resync
+      for (const update of pending) {
+        if (!this.applyInSequence(update)) break;
+      }
+      return;
+    }
+
+    throw new Error(`Unable to align depth snapshot after ${this.MAX_SNAPSHOT_ATTEMPTS} attempts`);
+  }
+
+  /**
+   * Apply an event while in sync. Returns false if it triggered a resync.
+   */
+  private applyInSequence(update: OrderbookUpdate): boolean {
+    // Stale event already reflected in the book
+    if (update.finalUpdateId <= this.lastUpdateId) {
+      this.syncInfo.droppedEvents++;
+      return true;
+    }
+
+    const expectedId = this.lastUpdateId + 1;
+    const isContiguous = this.awaitingFirstEvent
+      ? update.firstUpdateId <= expectedId && update.finalUpdateId >= expectedId
+      : update.firstUpdateId === expectedId;
+
+    if (!isContiguous) {
+      console.warn(`Sequence gap detected: expected ${expectedId}, received ${update.firstUpdateId}`);
+      this.syncInfo.sequenceGaps++;
+      this.resync();
+      return false;
+    }
+
+    this.awaitingFirstEvent = false;
+    this.lastUpdateId = update.finalUpdateId;
+    this.syncInfo.lastUpdateId = this.lastUpdateId;
+
+    if (this.onUpdateCallback) {
+      this.onUpdateCallback(update);
+    }
+    return true;
+  }
+
+  private resync(): void {
+    this.generation++;
+    this.syncInfo.resyncCount++;
+    this.setState('resyncing');
+
+    const generation = this.generation;
+    this.synchronize(generation).catch((error: Error) => {
+      if (generation !== this.generation) return;
+      console.error('Order book resync failed:', error);
+      if (this.onErrorCallback) {
+        this.onErrorCallback(error);
+      }
+      this.scheduleResync(generation);
+    });
+  }
+
+  /**
+   * Try again after a failed resync, backing off up to MAX_RESYNC_DELAY
+   */
+  private scheduleResync(generation: number): void {
+    this.resyncFailures++;
+    const delay = Math.min(this.SNAPSHOT_RETRY_DELAY * Math.pow(2, this.resyncFailures - 1), this.MAX_RESYNC_DELAY);
+    this.delay(delay).then(() => {
+      if (generation === this.generation) this.resync();
+    });
+  }
+
+  private reset(): void {
+    this.generation++;
+    this.buffer = [];
+    this.lastUpdateId = 0;
+    this.awaitingFirstEvent = true;
+    this.syncInfo.bufferedEvents = 0;
+    this.syncInfo.lastUpdateId = 0;
+    this.resyncFailures = 0;
+    // Waiters see the new generation and give up
+    this.cancelDelay();
+  }
+
+  private delay(ms: number): Promise<void> {
+    this.cancelDelay();
+    return new Promise(resolve => {
+      this.retryResolve = resolve;
+      this.retryTimeout = setTimeout(() => {
+        this.retryTimeout = null;
+        this.retryResolve = null;
+        resolve();
+      }, ms);
+    });
+  }
+
+  private cancelDelay(): void {
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+    const resolve = this.retryResolve;
+    this.retryResolve = null;
+    resolve?.();
+  }
+
+  private setState(state: BookSyncState): void {
+    this.syncInfo.state = state;
+    this.syncInfo.lastUpdateId = this.lastUpdateId;
+    if (this.onSyncStateCallback) {
+      this.onSyncStateCallback({ ...this.syncInfo });
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { OrderbookSnapshot, OrderbookUpdate, ProcessedOrderbookData } from '@/types/orderbook';
+import { PressureZoneAnalysis } from '@/services/pressureZoneAnalyzer';
+import { OrderbookWorkerHost } from '@/workers/orderbookWorkerHost';
+import {
+  AnalysisContext,
+  OrderbookWorkerRequest,
+  OrderbookWorkerResponse,
+  packBook,
+  unpackBook,
+  getTransferables
+} from '@/workers/orderbookProtocol';
+
+/**
+ * Main-thread side of the order book worker. Per-symbol book results arrive
+ * through `onBook`. `analyze` runs one job at a time: while one runs, only the
+ * latest request waits behind it and any request it replaces resolves null.
+ * Falls back to an in-process host when the
+ * environment has no Worker support or the worker crashes; a crash loses the
+ * worker's books, so `onFallback` asks the owner to reload its snapshots.
+ */
+export class OrderbookWorkerClient {
+  private worker: Worker | null = null;
+  private host: OrderbookWorkerHost | null = null;
+  private nextJobId: number = 1;
+  // Book responses at or below this job were produced before the last reset
+  private resetJobId: number = 0;
+  private runningAnalysis: { jobId: number; resolve: (analysis: PressureZoneAnalysis | null) => void } | null = null;
+  private queuedAnalysis: {
+    data: ProcessedOrderbookData;
+    context: AnalysisContext;
+    resolve: (analysis: PressureZoneAnalysis | null) => void;
+  } | null = null;
+
+  // Callbacks
+  private onBookCallback?: (data: ProcessedOrderbookData, processingTime: number, symbol: string) => void;
+  private onErrorCallback?: (error: string) => void;
+  private onFallbackCallback?: () => void;
+
+  constructor() {
+    if (typeof Worker !== 'undefined') {
+      try {
+        this.worker = new Worker(new URL('../workers/orderbook.worker.ts', import.meta.url));
+        this.worker.onmessage = (event: MessageEvent<OrderbookWorkerResponse>) => this.handleResponse(event.data);
+        this.worker.onerror = (event) => {
+          console.error('Order book worker failed, processing on main thread:', event.message);
+          this.fallBackToHost();
+          this.onFallbackCallback?.();
+        };
+        return;
+      } catch (error) {
+        console.warn('Order book worker unavailable, processing on main thread:', error);
+      }
+    }
+
+    this.fallBackToHost();
+  }
+
+  // Public methods
+  public loadSnapshot(snapshot: OrderbookSnapshot, depth: number = 20): void {
+    this.send({ type: 'snapshot', jobId: this.nextJobId++, snapshot, depth });
+  }
+
+  public applyUpdate(update: OrderbookUpdate): void {
+    this.send({ type: 'update', jobId: this.nextJobId++, update });
+  }
+
+  /**
+   * Analyze pressure zones off the main thread. The context selects the
+   * symbol's thresholds and carries recent trades and metrics for alerts;
+   * resending already-seen prints is harmless. A running job always finishes;
+   * resolves null when a newer request replaces this one before it starts.
+   */
+  public analyze(data: ProcessedOrderbookData, context: AnalysisContext = {}): Promise<PressureZoneAnalysis | null> {
+    return new Promise(resolve => {
+      if (!this.runningAnalysis) {
+        this.startAnalysis(data, context, resolve);
+        return;
+      }
+
+      this.queuedAnalysis?.resolve(null);
+      this.queuedAnalysis = { data, context, resolve };
+    });
+  }
+
+  /**
+   * Forget one symbol's book; its next snapshot starts it again
+   */
+  public dropBook(symbol: string): void {
+    this.send({ type: 'drop', jobId: this.nextJobId++, symbol });
+  }
+
+  public reset(): void {
+    this.cancelAnalyses();
+    this.resetJobId = this.nextJobId++;
+    this.send({ type: 'reset', jobId: this.resetJobId });
+  }
+
+  public terminate(): void {
+    this.cancelAnalyses();
+    this.worker?.terminate();
+    this.worker = null;
+    this.host = null;
+    this.onBookCallback = undefined;
+    this.onFallbackCallback = undefined;
+  }
+
+  public onBook(callback: (data: ProcessedOrderbookData, processingTime: number, symbol: string) => void): void {
+    this.onBookCallback = callback;
+  }
+
+  public onError(callback: (error: string) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  /**
+   * Called after a worker crash, once the in-process host has replaced it with no books
+   */
+  public onFallback(callback: () => void): void {
+    this.onFallbackCallback = callback;
+  }
+
+  public isUsingWorker(): boolean {
+    return this.worker !== null;
+  }
+
+  // Private methods
+  private send(request: OrderbookWorkerRequest, transfer: Transferable[] = []): void {
+    if (this.worker) {
+      this.worker.postMessage(request, transfer);
+    } else if (this.host) {
+      this.host.handleMessage(request);
+    }
+  }
+
+  private handleResponse(response: OrderbookWorkerResponse): void {
+    switch (response.type) {
+      case 'book':
+        if (response.jobId <= this.resetJobId) return;
+        if (this.onBookCallback) {
+          this.onBookCallback(unpackBook(response.book), response.processingTime, response.symbol);
+        }
+        break;
+
+      case 'analysis':
+        this.finishAnalysis(response.jobId, response.analysis);
+        break;
+
+      case 'error':
+        this.finishAnalysis(response.jobId, null);
+        if (this.onErrorCallback) {
+          this.onErrorCallback(response.message);
+        }
+        break;
+    }
+  }
+
+  private startAnalysis(
+    data: ProcessedOrderbookData,
+    context: AnalysisContext,
+    resolve: (analysis: PressureZoneAnalysis | null) => void
+  ): void {
+    const jobId = this.nextJobId++;
+    const book = packBook(data);
+    // Set before sending: the in-process host answers synchronously
+    this.runningAnalysis = { jobId, resolve };
+    this.send({ type: 'analyze', jobId, book, context }, getTransferables(book));
+  }
+
+  /**
+   * Settle the running job and start the queued request, if any
+   */
+  private finishAnalysis(jobId: number, analysis: PressureZoneAnalysis | null): void {
+    if (this.runningAnalysis?.jobId !== jobId) return;
+
+    this.runningAnalysis.resolve(analysis);
+    this.runningAnalysis = null;
+
+    const next = this.queuedAnalysis;
+    this.queuedAnalysis = null;
+    if (next) {
+      this.startAnalysis(next.data, next.context, next.resolve);
+    }
+  }
+
+  private cancelAnalyses(): void {
+    this.queuedAnalysis?.resolve(null);
+    this.queuedAnalysis = null;
+
+    if (!this.runningAnalysis) return;
+
+    this.send({ type: 'cancel', jobId: this.runningAnalysis.jobId });
+    this.runningAnalysis.resolve(null);
+    this.runningAnalysis = null;
+  }
+
+  private fallBackToHost(): void {
+    this.cancelAnalyses();
+    this.worker?.terminate();
+    this.worker = null;
+    this.host = new OrderbookWorkerHost(response => this.handleResponse(response));
+  }
+}
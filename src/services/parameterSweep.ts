@@ -0,0 +1,182 @@
+import { SessionRecord } from '@/types/orderbook';
+import { AnalyzerConfig, ANALYZER_CONFIG_KEYS, analyzerConfigRegistry } from '@/services/analyzerConfig';
+import { DetectorConfigMap } from '@/services/zoneDetectors';
+import { BacktestOptions, BacktestScore, ZoneBacktester, scoreFromCounts } from '@/services/zoneBacktest';
+
+export type ParameterGrid = Partial<Record<keyof AnalyzerConfig, number[]>>;
+
+/**
+ * What to sweep. `grid` applies to every symbol; `symbols` replaces grid
+ * entries for one symbol (e.g. notional sizes). Keys left out of both stay
+ * at the symbol's current setting; with no grid at all, `defaultGrid` is used.
+ */
+export interface SweepSpec {
+  grid?: ParameterGrid;
+  symbols?: Record<string, ParameterGrid>;
+  detectors?: DetectorConfigMap; // Fixed detector settings for every run
+  minResolvedTouches?: number; // Bounces plus breaks a candidate needs before it can be recommended
+}
+
+export const DEFAULT_MIN_RESOLVED_TOUCHES = 30;
+
+export interface SweepSession {
+  name: string;
+  records: SessionRecord[];
+}
+
+export interface SweepCandidate {
+  analyzer: AnalyzerConfig;
+  score: BacktestScore; // Summed over the symbol's sessions
+  confidence: number; // Lower bound of the precision's 95% Wilson interval
+}
+
+export interface SymbolRecommendation {
+  symbol: string;
+  sessions: string[];
+  current: SweepCandidate; // The symbol's settings before the sweep
+  recommended: SweepCandidate; // `current` unless another candidate is strictly more confident
+  candidates: SweepCandidate[]; // Best first
+  insufficientData: boolean; // No candidate resolved enough touches to judge
+}
+
+export interface SweepReport {
+  generatedAt: string;
+  options: Partial<BacktestOptions>;
+  symbols: SymbolRecommendation[];
+}
+
+/**
+ * Grid around a symbol's current settings
+ */
+export function defaultGrid(symbol: string): ParameterGrid {
+  const current = analyzerConfigRegistry.get(symbol);
+  return {
+    clusteringDistance: [0.0005, 0.001, 0.002],
+    minOrdersForZone: [3, 5, 8],
+    minZoneNotional: [0.25, 0.5, 1, 2].map(scale => current.minZoneNotional * scale)
+  };
+}
+
+/**
+ * Every combination of the grid's values
+ */
+export function expandGrid(grid: ParameterGrid): Array<Partial<AnalyzerConfig>> {
+  return ANALYZER_CONFIG_KEYS.reduce<Array<Partial<AnalyzerConfig>>>((combinations, key) => {
+    const values = grid[key];
+    if (!values || values.length === 0) return combinations;
+    return combinations.flatMap(combination => values.map(value => ({ ...combination, [key]: value })));
+  }, [{}]);
+}
+
+/**
+ * Lower bound of the Wilson score interval. Ranks a 9-of-10 bounce rate
+ * below 85-of-100, which a raw ratio would not.
+ */
+export function wilsonLowerBound(successes: number, trials: number, z: number = 1.96): number {
+  if (trials === 0) return 0;
+  const p = successes / trials;
+  const z2 = z * z;
+  return (p + z2 / (2 * trials) - z * Math.sqrt((p * (1 - p) + z2 / (4 * trials)) / trials)) / (1 + z2 / trials);
+}
+
+/**
+ * Backtests a grid of analyzer settings over recorded sessions and recommends
+ * settings per symbol. Each session is scored under every combination, counts
+ * are summed across a symbol's sessions, and combinations are ranked by how
+ * confidently their touched zones held (Wilson lower bound of precision),
+ * then by hit rate. Hit rate alone is no evidence: a combination needs a
+ * minimum of resolved touches and a strictly higher bound than the current
+ * settings to be recommended.
+ */
+export class ParameterSweep {
+  private backtesters: Map<string, Array<{ name: string; backtester: ZoneBacktester }>> = new Map();
+  private spec: SweepSpec;
+  private options: Partial<BacktestOptions>;
+
+  // Callbacks
+  private onProgressCallback?: (symbol: string, done: number, total: number) => void;
+
+  constructor(sessions: SweepSession[], spec: SweepSpec = {}, options: Partial<BacktestOptions> = {}) {
+    this.spec = spec;
+    this.options = { ...options, includeZones: false };
+
+    sessions.forEach(session => {
+      const backtester = new ZoneBacktester(session.records, this.options);
+      const symbol = backtester.getSymbol();
+      this.backtesters.set(symbol, [...(this.backtesters.get(symbol) ?? []), { name: session.name, backtester }]);
+    });
+  }
+
+  // Public methods
+  public onProgress(callback: (symbol: string, done: number, total: number) => void): void {
+    this.onProgressCallback = callback;
+  }
+
+  public run(): SweepReport {
+    const symbols = Array.from(this.backtesters.keys()).sort().map(symbol => this.sweepSymbol(symbol));
+    return { generatedAt: new Date().toISOString(), options: { ...this.options }, symbols };
+  }
+
+  // Private methods
+  private sweepSymbol(symbol: string): SymbolRecommendation {
+    const sessions = this.backtesters.get(symbol) ?? [];
+    const combinations = this.getCombinations(symbol);
+
+    const candidates = combinations.map((analyzer, index) => {
+      const scores = sessions.map(({ backtester }) => backtester.run({
+        name: `sweep-${index}`,
+        detectors: this.spec.detectors ?? {},
+        analyzer
+      }).overall);
+      this.onProgressCallback?.(symbol, index + 1, combinations.length);
+
+      const score = this.sumScores(scores);
+      return {
+        analyzer: { ...analyzerConfigRegistry.get(symbol), ...analyzer },
+        score,
+        confidence: wilsonLowerBound(score.bounced, score.bounced + score.broken)
+      };
+    });
+
+    // The first combination is always the current settings
+    const current = candidates[0];
+    const ranked = [...candidates].sort((a, b) => b.confidence - a.confidence || b.score.hitRate - a.score.hitRate);
+
+    // Only a candidate with enough resolved touches and strictly higher confidence replaces the current settings
+    const minTouches = this.spec.minResolvedTouches ?? DEFAULT_MIN_RESOLVED_TOUCHES;
+    const best = ranked.find(candidate => candidate.score.bounced + candidate.score.broken >= minTouches);
+
+    return {
+      symbol,
+      sessions: sessions.map(session => session.name),
+      current,
+      recommended: best && best.confidence > current.confidence ? best : current,
+      candidates: ranked,
+      insufficientData: !best
+    };
+  }
+
+  private getCombinations(symbol: string): Array<Partial<AnalyzerConfig>> {
+    const { grid, symbols } = this.spec;
+    const symbolGrid = symbols?.[symbol];
+    const combinations = expandGrid(grid || symbolGrid ? { ...grid, ...symbolGrid } : defaultGrid(symbol));
+
+    // Current settings first, without repeating them if the grid contains them
+    const current = analyzerConfigRegistry.get(symbol);
+    const key = (config: Partial<AnalyzerConfig>) => JSON.stringify(ANALYZER_CONFIG_KEYS.map(name => config[name] ?? current[name]));
+    const currentKey = key({});
+    return [{}, ...combinations.filter(combination => key(combination) !== currentKey)];
+  }
+
+  private sumScores(scores: BacktestScore[]): BacktestScore {
+    return scoreFromCounts(scores.reduce((sum, score) => ({
+      zones: sum.zones + score.zones,
+      bounced: sum.bounced + score.bounced,
+      broken: sum.broken + score.broken,
+      touched: sum.touched + score.touched,
+      untouched: sum.untouched + score.untouched,
+      expired: sum.expired + score.expired,
+      atMid: sum.atMid + score.atMid
+    }), { zones: 0, bounced: 0, broken: 0, touched: 0, untouched: 0, expired: 0, atMid: 0 }));
+  }
+}
@@ -1,4 +1,19 @@
-import { PressureZone, ProcessedOrderbookData, OrderbookEntry } from '@/types/orderbook';
+import { PressureZone, ProcessedOrderbookData, OrderbookEntry, TradeEvent } from '@/types/orderbook';
+import { symbolRegistry } from '@/services/symbolRegistry';
+import { AnalyzerConfig, analyzerConfigRegistry } from '@/services/analyzerConfig';
+import { AbsorptionDetector } from '@/services/absorptionDetector';
+import { MicrostructureSnapshot } from '@/services/microstructureMetrics';
+import { ZoneLifecycleTracker, ZoneTransition } from '@/services/zoneLifecycleTracker';
+import {
+  BUILT_IN_DETECTORS,
+  BuiltInDetectorId,
+  DetectorConfig,
+  DetectorConfigMap,
+  DetectorInfo,
+  DetectorRegistry,
+  DetectorStats,
+  ZoneDetector
+} from '@/services/zoneDetectors';
 
 export interface PressureZoneAnalysis {
   zones: PressureZone[];
@@ -50,14 +65,15 @@ export interface PressureZoneAnalysis {
     opacity: number;
     type: 'support' | 'resistance' | 'accumulation' | 'distribution';
   }>;
+  detectorStats?: DetectorStats[];
 }
 
 export interface PressureZoneAlert {
   id: string;
-  type: 'breach' | 'formation' | 'strengthening' | 'weakening' | 'volume_spike' | 'cluster_formation' | 'liquidity_gap' | 'concentration_risk';
+  type: 'breach' | 'formation' | 'strengthening' | 'weakening' | 'volume_spike' | 'cluster_formation' | 'liquidity_gap' | 'concentration_risk' | 'order_flow_imbalance' | 'liquidity_withdrawal' | 'dissolution' | 'custom_rule';
   severity: 'low' | 'medium' | 'high' | 'critical';
   message: string;
-  zone: PressureZone;
+  zone?: PressureZone; // Absent for user rule firings, which are not tied to a zone
   timestamp: number;
   confidence: number; // 0-1 confidence in the alert
   metadata?: {
@@ -66,22 +82,140 @@ export interface PressureZoneAlert {
     clusterSize?: number;
     riskLevel?: number;
     timeToBreakout?: number;
+    tradedVolume?: number; // Aggressor volume printed inside a breached zone
+    confirmedByTrades?: boolean;
+    imbalance?: number; // Rolling top-of-book imbalance, -1..1
+    orderFlowImbalance?: number;
+    cancelRate?: number;
+    replenishRate?: number;
+    ruleId?: string; // User alert rule that fired
+    ruleName?: string;
   };
 }
 
 export class PressureZoneAnalyzer {
-  private previousZones: PressureZone[] = [];
+  private lifecycleTracker: ZoneLifecycleTracker = new ZoneLifecycleTracker();
+  private detectorRegistry: DetectorRegistry = new DetectorRegistry();
   private priceHistory: Array<{ price: number; timestamp: number; volume: number }> = [];
   private volumeHistory: Array<{ timestamp: number; totalVolume: number }> = [];
+  private trades: TradeEvent[] = [];
+  private lastTradeId: number = -1;
+  private absorptionDetector: AbsorptionDetector;
+  private microstructure: MicrostructureSnapshot | null = null;
+  private lastAlertTimes: Map<string, number> = new Map();
+  private clock: () => number; // Session time when replaying recorded data
   
   // Enhanced thresholds and parameters
-  private readonly VOLUME_THRESHOLD = 100;
-  private readonly CLUSTERING_DISTANCE = 0.001; // 0.1% price distance
-  private readonly MIN_ORDERS_FOR_ZONE = 5;
-  private readonly VOLUME_SPIKE_MULTIPLIER = 3; // 3x average volume
+  private symbol: string;
+  private config: AnalyzerConfig = analyzerConfigRegistry.getDefaults(); // Symbol thresholds with any overrides applied
+  private configOverrides: Partial<AnalyzerConfig> = {};
+  private volumeThreshold: number = 0; // Base-asset volume, from minZoneNotional at the current mid
+  private tickSize: number = 0;
   private readonly CLUSTER_MIN_SIZE = 3;
   private readonly MAX_HISTORY_LENGTH = 1000;
   private readonly ALERT_COOLDOWN = 5000; // 5 seconds between similar alerts
+  private readonly TRADE_HISTORY_MS = 30000;
+  private readonly BREACH_TRADE_WINDOW = 5000; // Prints this recent can confirm a breach
+  private readonly BREACH_CONFIRMATION_RATIO = 0.1; // Traded volume vs. resting zone volume
+  private readonly IMBALANCE_ALERT_THRESHOLD = 0.6; // Rolling top-N imbalance magnitude
+  private readonly WITHDRAWAL_RATIO = 2; // Cancel rate vs. replenish rate
+  private readonly DISSOLUTION_ALERT_INTENSITY = 0.6; // Weaker zones fade out silently
+
+  constructor(symbol: string = 'BTCUSDT', clock: () => number = Date.now) {
+    this.symbol = symbol.toUpperCase();
+    this.clock = clock;
+    this.applySymbolThresholds();
+    this.absorptionDetector = new AbsorptionDetector(this.tickSize);
+    this.registerBuiltInDetectors();
+  }
+
+  /**
+   * Override the symbol's analyzer thresholds; the overrides survive symbol switches
+   */
+  public configure(overrides: Partial<AnalyzerConfig>): void {
+    this.configOverrides = { ...overrides };
+    this.applySymbolThresholds();
+  }
+
+  public getConfig(): AnalyzerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Add a zone detector that runs after the built-in ones
+   */
+  public registerDetector(detector: ZoneDetector, config?: Partial<DetectorConfig>): void {
+    this.detectorRegistry.register(detector, config);
+  }
+
+  public unregisterDetector(id: string): boolean {
+    return this.detectorRegistry.unregister(id);
+  }
+
+  /**
+   * Enable, disable, weight or tune detectors by id
+   */
+  public configureDetectors(configs: DetectorConfigMap): void {
+    this.detectorRegistry.configure(configs);
+  }
+
+  public getDetectors(): DetectorInfo[] {
+    return this.detectorRegistry.list();
+  }
+
+  public getDetectorConfigs(): Record<string, DetectorConfig> {
+    return this.detectorRegistry.getConfigs();
+  }
+
+  public getDetectorStats(): DetectorStats[] {
+    return this.detectorRegistry.getStats();
+  }
+
+  /**
+   * Switch the symbol whose thresholds apply; history is kept only for the same symbol
+   */
+  public setSymbol(symbol: string): void {
+    const upper = symbol.toUpperCase();
+    if (upper === this.symbol) return;
+
+    this.symbol = upper;
+    this.lifecycleTracker.reset();
+    this.detectorRegistry.resetStats();
+    this.priceHistory = [];
+    this.volumeHistory = [];
+    this.trades = [];
+    this.lastTradeId = -1;
+    this.applySymbolThresholds();
+    this.absorptionDetector.reset(this.tickSize);
+    this.microstructure = null;
+    this.lastAlertTimes.clear();
+  }
+
+  /**
+   * Latest microstructure metrics, used for order flow and liquidity withdrawal alerts
+   */
+  public setMicrostructure(metrics: MicrostructureSnapshot | null): void {
+    this.microstructure = metrics && metrics.symbol === this.symbol ? metrics : null;
+  }
+
+  /**
+   * Record executed trades used to confirm breach alerts. Prints of other
+   * symbols and ones already seen are ignored, so callers can resend a window.
+   */
+  public addTrades(trades: TradeEvent[]): void {
+    const fresh: TradeEvent[] = [];
+    for (const trade of trades) {
+      if (trade.symbol.toUpperCase() !== this.symbol || trade.tradeId <= this.lastTradeId) continue;
+
+      fresh.push(trade);
+      this.lastTradeId = trade.tradeId;
+    }
+    this.trades.push(...fresh);
+    this.absorptionDetector.addTrades(fresh);
+
+    const cutoff = this.clock() - this.TRADE_HISTORY_MS;
+    this.trades = this.trades.filter(trade => trade.tradeTime >= cutoff);
+  }
 
   public analyzePressureZones(data: ProcessedOrderbookData): PressureZoneAnalysis {
     // Validate input data
@@ -101,13 +235,23 @@ export class PressureZoneAnalyzer {
       return this.getEmptyAnalysis();
     }
 
-    const zones = this.detectPressureZones(data);
+    // The notional threshold follows the price, so it means the same as the market moves
+    const midPrice = this.estimateCurrentPrice(data);
+    if (midPrice > 0 && isFinite(midPrice)) {
+      this.volumeThreshold = this.config.minZoneNotional / midPrice;
+    }
+
+    // Detected zones get stable ids and lifecycles from the tracker
+    const { zones, transitions } = this.lifecycleTracker.update(
+      this.detectPressureZones(data),
+      midPrice,
+      this.clock()
+    );
     const statistics = this.calculateEnhancedStatistics(zones, data);
-    const alerts = this.generateEnhancedAlerts(zones, data);
+    const alerts = this.generateEnhancedAlerts(zones, data, transitions);
     const heatmapData = this.generateHeatmapData(zones, data);
     const gradientOverlay = this.generateGradientOverlay(zones, data);
 
-    this.previousZones = zones;
     this.updateHistory(data);
     
     return {
@@ -115,10 +259,19 @@ export class PressureZoneAnalyzer {
       statistics,
       alerts,
       heatmapData,
-      gradientOverlay
+      gradientOverlay,
+      detectorStats: this.detectorRegistry.getStats()
     };
   }
 
+  private applySymbolThresholds(): void {
+    const info = symbolRegistry.get(this.symbol);
+    this.config = { ...analyzerConfigRegistry.get(this.symbol), ...this.configOverrides };
+    // Until a book arrives, convert at the symbol's typical price
+    this.volumeThreshold = this.config.minZoneNotional / info.referencePrice;
+    this.tickSize = parseFloat(info.tickSize);
+  }
+
   private getEmptyAnalysis(): PressureZoneAnalysis {
     return {
       zones: [],
@@ -155,39 +308,43 @@ export class PressureZoneAnalyzer {
       },
       alerts: [],
       heatmapData: [],
-      gradientOverlay: []
+      gradientOverlay: [],
+      detectorStats: this.detectorRegistry.getStats()
     };
   }
 
-  private detectPressureZones(data: ProcessedOrderbookData): PressureZone[] {
-    const zones: PressureZone[] = [];
-    
-    // 1. Volume-Weighted Clustering Algorithm
-    const volumeBasedZones = this.detectVolumeWeightedClusters(data);
-    zones.push(...volumeBasedZones);
-
-    // 2. Price Action Support/Resistance Detection
-    const supportResistanceZones = this.detectSupportResistanceZones(data);
-    zones.push(...supportResistanceZones);
-
-    // 3. Order Flow Imbalance Analysis
-    const imbalanceZones = this.detectOrderFlowImbalance(data);
-    zones.push(...imbalanceZones);
-
-    // 4. Liquidity Density Mapping
-    const liquidityZones = this.detectLiquidityDensityZones(data);
-    zones.push(...liquidityZones);
+  private registerBuiltInDetectors(): void {
+    const implementations: Record<BuiltInDetectorId, ZoneDetector['detect']> = {
+      volume_clusters: data => this.detectVolumeWeightedClusters(data),
+      support_resistance: data => this.detectSupportResistanceZones(data),
+      order_flow_imbalance: (data, context) => this.detectOrderFlowImbalance(data, context.params.minRatio),
+      liquidity_density: data => this.detectLiquidityDensityZones(data),
+      iceberg: (data, context) => this.detectIcebergOrders(data, context.params.volumeMultiple),
+      hidden_liquidity: (data, context) => this.detectHiddenLiquidity(data, context.params.minOrders),
+      algorithmic: data => this.detectAlgorithmicPatterns(data),
+      absorption: data => this.detectAbsorptionZones(data),
+      volume_profile: data => this.detectTimeWeightedVolumeZones(data)
+    };
 
-    // 5. Market Microstructure Analysis
-    const microstructureZones = this.detectMicrostructureZones(data);
-    zones.push(...microstructureZones);
+    BUILT_IN_DETECTORS.forEach(info => {
+      this.detectorRegistry.register({ ...info, detect: implementations[info.id] });
+    });
+  }
 
-    // 6. Time-Weighted Volume Profile
-    const timeVolumeZones = this.detectTimeWeightedVolumeZones(data);
-    zones.push(...timeVolumeZones);
+  private detectPressureZones(data: ProcessedOrderbookData): PressureZone[] {
+    const zones = this.detectorRegistry.run(data, {
+      symbol: this.symbol,
+      midPrice: this.estimateCurrentPrice(data),
+      tickSize: this.tickSize,
+      volumeThreshold: this.volumeThreshold,
+      trades: this.trades,
+      now: this.clock()
+    });
 
     // Merge and optimize zones using advanced algorithms
-    return this.mergeAndOptimizeZones(zones, data);
+    const merged = this.mergeAndOptimizeZones(zones, data);
+    this.detectorRegistry.recordContributions(merged);
+    return merged;
   }
 
   /**
@@ -260,7 +417,10 @@ export class PressureZoneAnalyzer {
       price: centerPrice,
       volume: totalVolume,
       averageQuantity: totalVolume / totalOrderCount,
-      side: zone1.side
+      side: zone1.side,
+      confidence: zone1.confidence ?? zone2.confidence,
+      absorption: zone1.absorption ?? zone2.absorption,
+      detectors: Array.from(new Set([...(zone1.detectors ?? []), ...(zone2.detectors ?? [])]))
     };
   }
 
@@ -276,14 +436,14 @@ export class PressureZoneAnalyzer {
 
     // Calculate dynamic clustering parameters
     const priceRange = data.priceRange.max - data.priceRange.min;
-    const dynamicEpsilon = priceRange * 0.002; // 0.2% of price range
+    const dynamicEpsilon = Math.max(priceRange * 0.002, this.tickSize); // 0.2% of price range, at least one tick
     const minVolumeThreshold = this.calculateDynamicVolumeThreshold(allOrders);
 
     // Enhanced clustering with volume weighting
     const clusters = this.performVolumeWeightedClustering(allOrders, dynamicEpsilon, minVolumeThreshold);
 
     for (const cluster of clusters) {
-      if (cluster.orders.length >= this.MIN_ORDERS_FOR_ZONE) {
+      if (cluster.orders.length >= this.config.minOrdersForZone) {
         const zone = this.createPressureZoneFromCluster(cluster, data);
         if (zone) zones.push(zone);
       }
@@ -298,17 +458,17 @@ export class PressureZoneAnalyzer {
    * Calculate dynamic volume threshold based on order distribution
    */
   private calculateDynamicVolumeThreshold(orders: OrderbookEntry[]): number {
-    if (orders.length === 0) return this.VOLUME_THRESHOLD;
+    if (orders.length === 0) return this.volumeThreshold;
 
     const volumes = orders.map(order => order.quantity).filter(v => v > 0);
-    if (volumes.length === 0) return this.VOLUME_THRESHOLD;
+    if (volumes.length === 0) return this.volumeThreshold;
 
     // Calculate percentile-based threshold
     volumes.sort((a, b) => a - b);
     const percentile75 = volumes[Math.floor(volumes.length * 0.75)];
     const median = volumes[Math.floor(volumes.length * 0.5)];
     
-    return Math.max(median * 1.5, percentile75 * 0.8, this.VOLUME_THRESHOLD);
+    return Math.max(median * 1.5, percentile75 * 0.8, this.volumeThreshold);
   }
 
   /**
@@ -404,7 +564,7 @@ export class PressureZoneAnalyzer {
       orderCount: cluster.orders.length,
       pressureType,
       type: zoneType,
-      timestamp: Date.now(),
+      timestamp: this.clock(),
       isActive: true,
       price: cluster.centerPrice,
       volume: cluster.totalVolume,
@@ -439,10 +599,10 @@ export class PressureZoneAnalyzer {
     const currentPrice = this.estimateCurrentPrice(data);
     
     // Group bids by price proximity
-    const priceGroups = this.groupOrdersByPrice(bids, 0.001); // 0.1% grouping
+    const priceGroups = this.groupOrdersByPrice(bids, this.config.clusteringDistance);
     
     for (const group of priceGroups) {
-      if (group.totalVolume > this.VOLUME_THRESHOLD && group.orders.length >= this.MIN_ORDERS_FOR_ZONE) {
+      if (group.totalVolume > this.volumeThreshold && group.orders.length >= this.config.minOrdersForZone) {
         const zone = this.createSupportZone(group, currentPrice);
         if (zone) zones.push(zone);
       }
@@ -459,10 +619,10 @@ export class PressureZoneAnalyzer {
     const currentPrice = this.estimateCurrentPrice(data);
     
     // Group asks by price proximity
-    const priceGroups = this.groupOrdersByPrice(asks, 0.001); // 0.1% grouping
+    const priceGroups = this.groupOrdersByPrice(asks, this.config.clusteringDistance);
     
     for (const group of priceGroups) {
-      if (group.totalVolume > this.VOLUME_THRESHOLD && group.orders.length >= this.MIN_ORDERS_FOR_ZONE) {
+      if (group.totalVolume > this.volumeThreshold && group.orders.length >= this.config.minOrdersForZone) {
         const zone = this.createResistanceZone(group, currentPrice);
         if (zone) zones.push(zone);
       }
@@ -501,7 +661,7 @@ export class PressureZoneAnalyzer {
     data: ProcessedOrderbookData
   ): PressureZone | null {
     const totalVolume = imbalance.bidVolume + imbalance.askVolume;
-    if (totalVolume < this.VOLUME_THRESHOLD) return null;
+    if (totalVolume < this.volumeThreshold) return null;
     
     const pressureType = imbalance.imbalance > 0 ? 'support' : 'resistance';
     const intensity = Math.min(Math.abs(imbalance.ratio - 1), 2) / 2; // Normalize to 0-1
@@ -518,7 +678,7 @@ export class PressureZoneAnalyzer {
       orderCount: Math.round(totalVolume / 10), // Estimate
       pressureType,
       type: pressureType,
-      timestamp: Date.now(),
+      timestamp: this.clock(),
       isActive: true,
       price: priceLevel,
       volume: totalVolume,
@@ -630,7 +790,7 @@ export class PressureZoneAnalyzer {
    * Create support zone from price group
    */
   private createSupportZone(group: { orders: OrderbookEntry[], totalVolume: number, centerPrice: number }, currentPrice: number): PressureZone | null {
-    if (group.orders.length < this.MIN_ORDERS_FOR_ZONE) return null;
+    if (group.orders.length < this.config.minOrdersForZone) return null;
     
     const prices = group.orders.map(o => o.price);
     const minPrice = Math.min(...prices);
@@ -650,7 +810,7 @@ export class PressureZoneAnalyzer {
       orderCount: group.orders.length,
       pressureType: 'support',
       type: 'support',
-      timestamp: Date.now(),
+      timestamp: this.clock(),
       isActive: true,
       price: group.centerPrice,
       volume: group.totalVolume,
@@ -663,7 +823,7 @@ export class PressureZoneAnalyzer {
    * Create resistance zone from price group
    */
   private createResistanceZone(group: { orders: OrderbookEntry[], totalVolume: number, centerPrice: number }, currentPrice: number): PressureZone | null {
-    if (group.orders.length < this.MIN_ORDERS_FOR_ZONE) return null;
+    if (group.orders.length < this.config.minOrdersForZone) return null;
     
     const prices = group.orders.map(o => o.price);
     const minPrice = Math.min(...prices);
@@ -683,7 +843,7 @@ export class PressureZoneAnalyzer {
       orderCount: group.orders.length,
       pressureType: 'resistance',
       type: 'resistance',
-      timestamp: Date.now(),
+      timestamp: this.clock(),
       isActive: true,
       price: group.centerPrice,
       volume: group.totalVolume,
@@ -735,7 +895,7 @@ export class PressureZoneAnalyzer {
       orderCount: Math.round(area.density),
       pressureType,
       type: pressureType,
-      timestamp: Date.now(),
+      timestamp: this.clock(),
       isActive: true,
       price: area.centerPrice,
       volume: area.density * area.width,
@@ -747,7 +907,7 @@ export class PressureZoneAnalyzer {
   /**
    * Detect iceberg orders
    */
-  private detectIcebergOrders(data: ProcessedOrderbookData): PressureZone[] {
+  private detectIcebergOrders(data: ProcessedOrderbookData, volumeMultiple: number = 5): PressureZone[] {
     const zones: PressureZone[] = [];
     const allOrders = [...data.bids, ...data.asks];
     
@@ -760,7 +920,7 @@ export class PressureZoneAnalyzer {
     });
     
     const averageVolume = Array.from(priceVolumeMap.values()).reduce((sum, vol) => sum + vol, 0) / priceVolumeMap.size;
-    const icebergThreshold = averageVolume * 5; // 5x average volume
+    const icebergThreshold = averageVolume * volumeMultiple;
     
     for (const [price, volume] of priceVolumeMap.entries()) {
       if (volume > icebergThreshold) {
@@ -778,7 +938,7 @@ export class PressureZoneAnalyzer {
           orderCount: 1, // Typically one large order
           pressureType,
           type: pressureType,
-          timestamp: Date.now(),
+          timestamp: this.clock(),
           isActive: true,
           price: price,
           volume: volume,
@@ -791,10 +951,43 @@ export class PressureZoneAnalyzer {
     return zones;
   }
 
+  /**
+   * Detect levels that keep refilling while they trade. Unlike
+   * detectIcebergOrders this needs trades (see addTrades) and consecutive
+   * updates, and reports how much hidden size was inferred.
+   */
+  private detectAbsorptionZones(data: ProcessedOrderbookData): PressureZone[] {
+    return this.absorptionDetector.update(data, this.clock()).map(level => {
+      const pressureType = level.side === 'bid' ? 'support' : 'resistance';
+      const volume = level.info.visibleVolume + level.info.hiddenVolume;
+
+      return {
+        id: this.generateZoneId(),
+        centerPrice: level.price,
+        minPrice: level.price * 0.999,
+        maxPrice: level.price * 1.001,
+        intensity: level.confidence,
+        strength: 0.6 + level.confidence * 0.35,
+        totalVolume: volume,
+        orderCount: level.info.refillCount,
+        pressureType,
+        type: pressureType,
+        timestamp: this.clock(),
+        isActive: true,
+        price: level.price,
+        volume,
+        averageQuantity: volume / Math.max(level.info.refillCount, 1),
+        side: level.side,
+        confidence: level.confidence,
+        absorption: level.info
+      };
+    });
+  }
+
   /**
    * Detect hidden liquidity patterns
    */
-  private detectHiddenLiquidity(data: ProcessedOrderbookData): PressureZone[] {
+  private detectHiddenLiquidity(data: ProcessedOrderbookData, minOrders: number = 3): PressureZone[] {
     const zones: PressureZone[] = [];
     
     // Analyze order size distribution for anomalies
@@ -816,10 +1009,10 @@ export class PressureZoneAnalyzer {
     );
     
     // Group suspicious orders by price proximity
-    const groups = this.groupOrdersByPrice(suspiciousOrders, 0.002); // 0.2% grouping
+    const groups = this.groupOrdersByPrice(suspiciousOrders, this.config.clusteringDistance * 2);
     
     for (const group of groups) {
-      if (group.orders.length >= 3 && group.totalVolume > this.VOLUME_THRESHOLD) {
+      if (group.orders.length >= minOrders && group.totalVolume > this.volumeThreshold) {
         const currentPrice = this.estimateCurrentPrice(data);
         const pressureType = group.centerPrice < currentPrice ? 'support' : 'resistance';
         
@@ -834,7 +1027,7 @@ export class PressureZoneAnalyzer {
           orderCount: group.orders.length,
           pressureType,
           type: pressureType,
-          timestamp: Date.now(),
+          timestamp: this.clock(),
           isActive: true,
           price: group.centerPrice,
           volume: group.totalVolume,
@@ -851,7 +1044,7 @@ export class PressureZoneAnalyzer {
    * Generate unique zone ID
    */
   private generateZoneId(): string {
-    return `zone_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return `zone_${this.clock()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   /**
@@ -967,7 +1160,7 @@ export class PressureZoneAnalyzer {
           orderCount: count,
           pressureType,
           type: pressureType,
-          timestamp: Date.now(),
+          timestamp: this.clock(),
           isActive: true,
           price: centerPrice,
           volume: count * 100,
@@ -985,7 +1178,7 @@ export class PressureZoneAnalyzer {
    */
   private calculateTimeWeightedVolumeProfile(data: ProcessedOrderbookData): Map<number, { volume: number, timeWeight: number }> {
     const profile = new Map<number, { volume: number, timeWeight: number }>();
-    const currentTime = Date.now();
+    const currentTime = this.clock();
     const allOrders = [...data.bids, ...data.asks];
     
     for (const order of allOrders) {
@@ -1048,7 +1241,7 @@ export class PressureZoneAnalyzer {
       orderCount: Math.round(node.volume / 10), // Estimate
       pressureType,
       type: pressureType,
-      timestamp: Date.now(),
+      timestamp: this.clock(),
       isActive: true,
       price: node.price,
       volume: node.volume,
@@ -1077,7 +1270,7 @@ export class PressureZoneAnalyzer {
   /**
    * Order Flow Imbalance Detection Algorithm
    */
-  private detectOrderFlowImbalance(data: ProcessedOrderbookData): PressureZone[] {
+  private detectOrderFlowImbalance(data: ProcessedOrderbookData, minRatio: number = 2): PressureZone[] {
     const zones: PressureZone[] = [];
     const currentPrice = this.estimateCurrentPrice(data);
 
@@ -1085,7 +1278,7 @@ export class PressureZoneAnalyzer {
     const imbalanceMap = this.calculateOrderFlowImbalance(data, currentPrice);
 
     for (const [priceLevel, imbalance] of imbalanceMap) {
-      if (Math.abs(imbalance.ratio) > 2.0) { // Significant imbalance threshold
+      if (Math.abs(imbalance.ratio) > minRatio) { // Significant imbalance threshold
         const zone = this.createImbalanceZone(priceLevel, imbalance, data);
         if (zone) zones.push(zone);
       }
@@ -1112,27 +1305,6 @@ export class PressureZoneAnalyzer {
     return zones;
   }
 
-  /**
-   * Market Microstructure Analysis for Hidden Liquidity
-   */
-  private detectMicrostructureZones(data: ProcessedOrderbookData): PressureZone[] {
-    const zones: PressureZone[] = [];
-
-    // Detect iceberg orders
-    const icebergZones = this.detectIcebergOrders(data);
-    zones.push(...icebergZones);
-
-    // Detect hidden liquidity patterns
-    const hiddenLiquidityZones = this.detectHiddenLiquidity(data);
-    zones.push(...hiddenLiquidityZones);
-
-    // Detect algorithmic trading patterns
-    const algoZones = this.detectAlgorithmicPatterns(data);
-    zones.push(...algoZones);
-
-    return zones;
-  }
-
   /**
    * Time-Weighted Volume Profile Analysis
    */
@@ -1168,7 +1340,7 @@ export class PressureZoneAnalyzer {
     for (const order of orders) {
       const price = order.price;
       const quantity = order.quantity;
-      const priceGroup = Math.floor(price / (price * this.CLUSTERING_DISTANCE)) * (price * this.CLUSTERING_DISTANCE);
+      const priceGroup = Math.floor(price / (price * this.config.clusteringDistance)) * (price * this.config.clusteringDistance);
       const key = priceGroup.toString();
 
       if (!priceGroups.has(key)) {
@@ -1187,7 +1359,7 @@ export class PressureZoneAnalyzer {
 
     // Calculate enhanced metrics for each group
     for (const [priceStr, group] of priceGroups) {
-      if (group.totalVolume > this.VOLUME_THRESHOLD && group.orders.length >= this.MIN_ORDERS_FOR_ZONE) {
+      if (group.totalVolume > this.volumeThreshold && group.orders.length >= this.config.minOrdersForZone) {
         const centerPrice = parseFloat(priceStr);
         
         // Calculate average price and variance
@@ -1209,13 +1381,13 @@ export class PressureZoneAnalyzer {
         const intensity = (volumeIntensity * 0.5 + orderDensityIntensity * 0.3 + priceConcentrationIntensity * 0.2);
         
         const zone: PressureZone = {
-          id: `${side}_${centerPrice}_${Date.now()}`,
+          id: `${side}_${centerPrice}_${this.clock()}`,
           type: side === 'bid' ? 'support' : 'resistance',
           pressureType: side === 'bid' ? 'support' : 'resistance',
           price: centerPrice,
           centerPrice: group.averagePrice,
-          minPrice: centerPrice - (centerPrice * this.CLUSTERING_DISTANCE),
-          maxPrice: centerPrice + (centerPrice * this.CLUSTERING_DISTANCE),
+          minPrice: centerPrice - (centerPrice * this.config.clusteringDistance),
+          maxPrice: centerPrice + (centerPrice * this.config.clusteringDistance),
           strength: intensity,
           intensity,
           volume: group.totalVolume,
@@ -1223,7 +1395,7 @@ export class PressureZoneAnalyzer {
           averageQuantity: group.totalVolume / group.orders.length,
           orderCount: group.orders.length,
           side,
-          timestamp: Date.now(),
+          timestamp: this.clock(),
           isActive: true
         };
 
@@ -1248,9 +1420,9 @@ export class PressureZoneAnalyzer {
     
     // Dynamic threshold based on volume distribution
     const volumeThreshold = Math.max(
-      averageVolume * this.VOLUME_SPIKE_MULTIPLIER,
+      averageVolume * this.config.volumeSpikeMultiplier,
       medianVolume * 2,
-      this.VOLUME_THRESHOLD
+      this.volumeThreshold
     );
 
     // Detect spikes with enhanced analysis
@@ -1267,7 +1439,7 @@ export class PressureZoneAnalyzer {
         const pressureType = this.determineSpikeType(order, data, volumeThreshold);
 
         const zone: PressureZone = {
-          id: `spike_${price}_${Date.now()}`,
+          id: `spike_${price}_${this.clock()}`,
           type: side === 'bid' ? 'support' : 'resistance',
           pressureType,
           price,
@@ -1281,7 +1453,7 @@ export class PressureZoneAnalyzer {
           averageQuantity: quantity,
           orderCount: 1,
           side,
-          timestamp: Date.now(),
+          timestamp: this.clock(),
           isActive: true
         };
 
@@ -1328,7 +1500,7 @@ export class PressureZoneAnalyzer {
       const priceGap = (currentPrice - previousPrice) / previousPrice;
       
       // If gap is larger than clustering distance, end current cluster
-      if (priceGap > this.CLUSTERING_DISTANCE) {
+      if (priceGap > this.config.clusteringDistance) {
         if (clusterOrders.length >= this.CLUSTER_MIN_SIZE) {
           const clusterZone = this.createClusterZone(clusterOrders, clusterStart, i);
           if (clusterZone) zones.push(clusterZone);
@@ -1374,7 +1546,7 @@ export class PressureZoneAnalyzer {
     const intensity = (volumeIntensity * 0.6 + densityIntensity * 0.4);
 
     return {
-      id: `cluster_${centerPrice}_${Date.now()}`,
+      id: `cluster_${centerPrice}_${this.clock()}`,
       type: side === 'bid' ? 'support' : 'resistance',
       pressureType: 'distribution',
       price: centerPrice,
@@ -1388,7 +1560,7 @@ export class PressureZoneAnalyzer {
       averageQuantity: totalVolume / clusterSize,
       orderCount: clusterSize,
       side,
-      timestamp: Date.now(),
+      timestamp: this.clock(),
       isActive: true
     };
   }
@@ -1403,9 +1575,9 @@ export class PressureZoneAnalyzer {
     // Check for accumulation patterns in bids (large orders near the top)
     for (let i = 0; i < Math.min(5, bidOrders.length); i++) {
       const order = bidOrders[i];
-      if (order.quantity > this.VOLUME_THRESHOLD * 1.5) {
+      if (order.quantity > this.volumeThreshold * 1.5) {
         const zone: PressureZone = {
-          id: `accumulation_bid_${order.price}_${Date.now()}`,
+          id: `accumulation_bid_${order.price}_${this.clock()}`,
           type: 'support',
           pressureType: 'accumulation',
           price: order.price,
@@ -1419,7 +1591,7 @@ export class PressureZoneAnalyzer {
           averageQuantity: order.quantity,
           orderCount: 1,
           side: 'bid',
-          timestamp: Date.now(),
+          timestamp: this.clock(),
           isActive: true
         };
         zones.push(zone);
@@ -1429,9 +1601,9 @@ export class PressureZoneAnalyzer {
     // Check for distribution patterns in asks (large orders near the bottom)
     for (let i = 0; i < Math.min(5, askOrders.length); i++) {
       const order = askOrders[i];
-      if (order.quantity > this.VOLUME_THRESHOLD * 1.5) {
+      if (order.quantity > this.volumeThreshold * 1.5) {
         const zone: PressureZone = {
-          id: `distribution_ask_${order.price}_${Date.now()}`,
+          id: `distribution_ask_${order.price}_${this.clock()}`,
           type: 'resistance',
           pressureType: 'distribution',
           price: order.price,
@@ -1445,7 +1617,7 @@ export class PressureZoneAnalyzer {
           averageQuantity: order.quantity,
           orderCount: 1,
           side: 'ask',
-          timestamp: Date.now(),
+          timestamp: this.clock(),
           isActive: true
         };
         zones.push(zone);
@@ -1532,7 +1704,7 @@ export class PressureZoneAnalyzer {
     const allVolumes = [...data.bids, ...data.asks].map(o => o.quantity);
     const totalVolume = allVolumes.reduce((sum, vol) => sum + vol, 0);
     const averageVolume = totalVolume / allVolumes.length;
-    const volumeSpikes = allVolumes.filter(vol => vol > averageVolume * this.VOLUME_SPIKE_MULTIPLIER).length;
+    const volumeSpikes = allVolumes.filter(vol => vol > averageVolume * this.config.volumeSpikeMultiplier).length;
     
     // Calculate volume concentration (percentage of volume in top zones)
     const topZones = zones.filter(z => z.intensity > 0.6);
@@ -1553,13 +1725,13 @@ export class PressureZoneAnalyzer {
     const priceSpread = data.priceRange.max - data.priceRange.min;
     const clusterDensity = priceSpread > 0 ? totalClusters / priceSpread : 0;
 
-    // Temporal analysis
-    const now = Date.now();
-    const formingZones = zones.filter(z => now - z.timestamp < 30000).length; // Last 30 seconds
-    const strengtheningZones = zones.filter(z => z.intensity > 0.6).length;
-    const weakeningZones = zones.filter(z => z.intensity < 0.4).length;
+    // Temporal analysis from the tracked lifecycles
+    const now = this.clock();
+    const formingZones = zones.filter(z => z.lifecycle?.trend === 'forming').length;
+    const strengtheningZones = zones.filter(z => z.lifecycle?.trend === 'strengthening').length;
+    const weakeningZones = zones.filter(z => z.lifecycle?.trend === 'weakening').length;
     const averageZoneAge = zones.length > 0 
-      ? zones.reduce((sum, z) => sum + (now - z.timestamp), 0) / zones.length / 1000 
+      ? zones.reduce((sum, z) => sum + (now - (z.lifecycle?.birthTime ?? now)), 0) / zones.length / 1000 
       : 0;
 
     // Risk metrics
@@ -1602,74 +1774,36 @@ export class PressureZoneAnalyzer {
     };
   }
 
-  private generateEnhancedAlerts(zones: PressureZone[], data: ProcessedOrderbookData): PressureZoneAlert[] {
+  private generateEnhancedAlerts(
+    zones: PressureZone[],
+    data: ProcessedOrderbookData,
+    transitions: ZoneTransition[]
+  ): PressureZoneAlert[] {
     const alerts: PressureZoneAlert[] = [];
+    const currentPrice = this.estimateCurrentPrice(data);
 
-    // Check for new zone formations
-    for (const zone of zones) {
-      const existingZone = this.previousZones.find(prev => 
-        Math.abs(prev.centerPrice - zone.centerPrice) < (zone.centerPrice * 0.001)
-      );
-
-      if (!existingZone) {
-        alerts.push({
-          id: `formation_${zone.id}`,
-          type: 'formation',
-          severity: zone.intensity > 0.8 ? 'critical' : zone.intensity > 0.6 ? 'high' : zone.intensity > 0.4 ? 'medium' : 'low',
-          message: `New ${zone.pressureType} zone formed at $${zone.centerPrice.toFixed(2)} with ${(zone.intensity * 100).toFixed(1)}% intensity`,
-          zone,
-          timestamp: Date.now(),
-          confidence: Math.min(0.9, zone.intensity + 0.1),
-          metadata: {
-            volumeChange: zone.volume,
-            clusterSize: zone.orderCount
-          }
-        });
-      } else if (zone.intensity > existingZone.intensity * 1.3) {
-        // Zone strengthening
-        alerts.push({
-          id: `strengthening_${zone.id}`,
-          type: 'strengthening',
-          severity: zone.intensity > 0.9 ? 'critical' : zone.intensity > 0.7 ? 'high' : 'medium',
-          message: `${zone.pressureType} zone at $${zone.centerPrice.toFixed(2)} strengthening (${(zone.intensity * 100).toFixed(1)}%)`,
-          zone,
-          timestamp: Date.now(),
-          confidence: Math.min(0.9, zone.intensity + 0.2),
-          metadata: {
-            volumeChange: zone.volume - existingZone.volume
-          }
-        });
-      } else if (zone.intensity < existingZone.intensity * 0.7) {
-        // Zone weakening
-        alerts.push({
-          id: `weakening_${zone.id}`,
-          type: 'weakening',
-          severity: 'medium',
-          message: `${zone.pressureType} zone at $${zone.centerPrice.toFixed(2)} weakening (${(zone.intensity * 100).toFixed(1)}%)`,
-          zone,
-          timestamp: Date.now(),
-          confidence: Math.max(0.3, 1 - zone.intensity),
-          metadata: {
-            volumeChange: zone.volume - existingZone.volume
-          }
-        });
-      }
+    // Zone alerts follow the tracker's lifecycle transitions
+    for (const transition of transitions) {
+      const alert = this.createTransitionAlert(transition, currentPrice);
+      if (alert) alerts.push(alert);
     }
 
+    alerts.push(...this.generateMicrostructureAlerts(zones, data));
+
     // Volume spike alerts
     const allVolumes = [...data.bids, ...data.asks].map(o => o.quantity);
     const averageVolume = allVolumes.reduce((sum, vol) => sum + vol, 0) / allVolumes.length;
-    const volumeSpikes = allVolumes.filter(vol => vol > averageVolume * this.VOLUME_SPIKE_MULTIPLIER);
+    const volumeSpikes = allVolumes.filter(vol => vol > averageVolume * this.config.volumeSpikeMultiplier);
     
     if (volumeSpikes.length > 0) {
       const maxSpike = Math.max(...volumeSpikes);
       alerts.push({
-        id: `volume_spike_${Date.now()}`,
+        id: `volume_spike_${this.clock()}`,
         type: 'volume_spike',
         severity: maxSpike > averageVolume * 5 ? 'critical' : maxSpike > averageVolume * 3 ? 'high' : 'medium',
         message: `Volume spike detected: ${volumeSpikes.length} orders with ${(maxSpike / averageVolume).toFixed(1)}x average volume`,
         zone: zones[0] || this.createDummyZone(),
-        timestamp: Date.now(),
+        timestamp: this.clock(),
         confidence: Math.min(0.95, (maxSpike / averageVolume) * 0.2),
         metadata: {
           volumeChange: maxSpike
@@ -1685,12 +1819,12 @@ export class PressureZoneAnalyzer {
       );
       
       alerts.push({
-        id: `cluster_formation_${Date.now()}`,
+        id: `cluster_formation_${this.clock()}`,
         type: 'cluster_formation',
         severity: largestCluster.orderCount > 10 ? 'high' : 'medium',
         message: `Price cluster detected: ${largestCluster.orderCount} orders at $${largestCluster.centerPrice.toFixed(2)}`,
         zone: largestCluster,
-        timestamp: Date.now(),
+        timestamp: this.clock(),
         confidence: Math.min(0.9, largestCluster.orderCount / 15),
         metadata: {
           clusterSize: largestCluster.orderCount
@@ -1701,6 +1835,174 @@ export class PressureZoneAnalyzer {
     return alerts;
   }
 
+  /**
+   * Alert for a zone lifecycle transition, or null when it is not worth reporting
+   */
+  private createTransitionAlert(transition: ZoneTransition, currentPrice: number): PressureZoneAlert | null {
+    const { zone, timestamp, previousIntensity } = transition;
+    const intensity = `${(zone.intensity * 100).toFixed(1)}%`;
+
+    switch (transition.type) {
+      case 'formed':
+        return {
+          id: `formation_${zone.id}`,
+          type: 'formation',
+          severity: zone.intensity > 0.8 ? 'critical' : zone.intensity > 0.6 ? 'high' : zone.intensity > 0.4 ? 'medium' : 'low',
+          message: `New ${zone.pressureType} zone formed at $${zone.centerPrice.toFixed(2)} with ${intensity} intensity`,
+          zone,
+          timestamp,
+          confidence: Math.min(0.9, zone.intensity + 0.1),
+          metadata: {
+            volumeChange: zone.volume,
+            clusterSize: zone.orderCount
+          }
+        };
+
+      case 'strengthened':
+        return {
+          id: `strengthening_${zone.id}_${timestamp}`,
+          type: 'strengthening',
+          severity: zone.intensity > 0.9 ? 'critical' : zone.intensity > 0.7 ? 'high' : 'medium',
+          message: `${zone.pressureType} zone at $${zone.centerPrice.toFixed(2)} strengthening (${(previousIntensity * 100).toFixed(1)}% → ${intensity})`,
+          zone,
+          timestamp,
+          confidence: Math.min(0.9, zone.intensity + 0.2),
+          metadata: {
+            volumeChange: zone.volume
+          }
+        };
+
+      case 'weakened':
+        return {
+          id: `weakening_${zone.id}_${timestamp}`,
+          type: 'weakening',
+          severity: 'medium',
+          message: `${zone.pressureType} zone at $${zone.centerPrice.toFixed(2)} weakening (${(previousIntensity * 100).toFixed(1)}% → ${intensity})`,
+          zone,
+          timestamp,
+          confidence: Math.max(0.3, 1 - zone.intensity),
+          metadata: {
+            volumeChange: zone.volume
+          }
+        };
+
+      case 'breached': {
+        // Bid liquidity is taken by sellers, ask liquidity by buyers
+        const tradedVolume = this.getTradedVolume(zone.minPrice, zone.maxPrice, zone.side === 'bid' ? 'sell' : 'buy');
+        const confirmedByTrades = zone.volume > 0 && tradedVolume >= zone.volume * this.BREACH_CONFIRMATION_RATIO;
+
+        return {
+          id: `breach_${zone.id}`,
+          type: 'breach',
+          severity: confirmedByTrades
+            ? (zone.intensity > 0.6 ? 'critical' : 'high')
+            : (zone.intensity > 0.6 ? 'medium' : 'low'),
+          message: `${zone.pressureType} zone at $${zone.centerPrice.toFixed(2)} breached` +
+            (confirmedByTrades ? `, ${symbolRegistry.formatQuantity(this.symbol, tradedVolume)} traded through it` : ' without confirming prints'),
+          zone,
+          timestamp,
+          confidence: confirmedByTrades ? Math.min(0.95, 0.6 + zone.intensity * 0.35) : 0.3,
+          metadata: {
+            priceChange: currentPrice - zone.centerPrice,
+            tradedVolume,
+            confirmedByTrades
+          }
+        };
+      }
+
+      case 'dissolved':
+        // Only significant zones are worth reporting when they fade out
+        if (zone.intensity < this.DISSOLUTION_ALERT_INTENSITY) return null;
+        return {
+          id: `dissolution_${zone.id}`,
+          type: 'dissolution',
+          severity: 'low',
+          message: `${zone.pressureType} zone at $${zone.centerPrice.toFixed(2)} dissolved without being traded through`,
+          zone,
+          timestamp,
+          confidence: 0.5
+        };
+    }
+  }
+
+  /**
+   * Alerts from the shortest rolling window of the microstructure metrics.
+   * These fire on sustained conditions, so each type is rate limited.
+   */
+  private generateMicrostructureAlerts(zones: PressureZone[], data: ProcessedOrderbookData): PressureZoneAlert[] {
+    const window = this.microstructure?.rolling[0];
+    if (!window || window.samples < 2) return [];
+
+    const alerts: PressureZoneAlert[] = [];
+    const now = this.clock();
+    const currentPrice = this.estimateCurrentPrice(data);
+    // Flow alerts concern the touch, so they reference the zone nearest the mid
+    const nearestZone = (side: 'bid' | 'ask') => zones
+      .filter(zone => zone.side === side)
+      .sort((a, b) => Math.abs(a.centerPrice - currentPrice) - Math.abs(b.centerPrice - currentPrice))[0]
+      ?? this.createDummyZone();
+
+    if (Math.abs(window.meanImbalance) >= this.IMBALANCE_ALERT_THRESHOLD && this.canAlert('order_flow_imbalance', now)) {
+      const buying = window.meanImbalance > 0;
+      alerts.push({
+        id: `order_flow_imbalance_${now}`,
+        type: 'order_flow_imbalance',
+        severity: Math.abs(window.meanImbalance) > 0.8 ? 'high' : 'medium',
+        message: `${buying ? 'Bid' : 'Ask'}-heavy book: ${(Math.abs(window.meanImbalance) * 100).toFixed(0)}% imbalance over ${window.windowMs / 1000}s`,
+        zone: nearestZone(buying ? 'bid' : 'ask'),
+        timestamp: now,
+        // Stronger when order flow agrees with the resting imbalance
+        confidence: Math.min(0.9, Math.abs(window.meanImbalance) * (Math.sign(window.ofi) === Math.sign(window.meanImbalance) ? 1 : 0.6)),
+        metadata: {
+          imbalance: window.meanImbalance,
+          orderFlowImbalance: window.ofi
+        }
+      });
+    }
+
+    if (window.cancelRate > 0 && window.cancelRate >= window.replenishRate * this.WITHDRAWAL_RATIO &&
+        this.canAlert('liquidity_withdrawal', now)) {
+      const ratio = window.replenishRate > 0 ? window.cancelRate / window.replenishRate : Infinity;
+      alerts.push({
+        id: `liquidity_withdrawal_${now}`,
+        type: 'liquidity_withdrawal',
+        severity: ratio > this.WITHDRAWAL_RATIO * 2 ? 'high' : 'medium',
+        message: `Liquidity being pulled: cancellations at ${isFinite(ratio) ? `${ratio.toFixed(1)}x` : 'far above'} replenishment over ${window.windowMs / 1000}s`,
+        // Reference the thinner side, where pulled size matters most
+        zone: nearestZone(window.meanImbalance >= 0 ? 'ask' : 'bid'),
+        timestamp: now,
+        confidence: Math.min(0.9, 0.4 + Math.min(ratio, 10) * 0.05),
+        metadata: {
+          cancelRate: window.cancelRate,
+          replenishRate: window.replenishRate
+        }
+      });
+    }
+
+    return alerts;
+  }
+
+  private canAlert(key: string, now: number): boolean {
+    const last = this.lastAlertTimes.get(key) ?? 0;
+    if (now - last < this.ALERT_COOLDOWN) return false;
+
+    this.lastAlertTimes.set(key, now);
+    return true;
+  }
+
+  /**
+   * Recent aggressor volume printed inside a price range
+   */
+  private getTradedVolume(minPrice: number, maxPrice: number, aggressor: 'buy' | 'sell'): number {
+    const since = this.clock() - this.BREACH_TRADE_WINDOW;
+    return this.trades.reduce((sum, trade) =>
+      trade.aggressor === aggressor && trade.tradeTime >= since &&
+      trade.price >= minPrice && trade.price <= maxPrice
+        ? sum + trade.quantity
+        : sum,
+    0);
+  }
+
   private createDummyZone(): PressureZone {
     return {
       id: 'dummy',
@@ -1717,7 +2019,7 @@ export class PressureZoneAnalyzer {
       averageQuantity: 0,
       orderCount: 0,
       side: 'bid',
-      timestamp: Date.now(),
+      timestamp: this.clock(),
       isActive: false
     };
   }
@@ -1859,12 +2161,12 @@ export class PressureZoneAnalyzer {
     
     this.priceHistory.push({ 
       price: currentPrice, 
-      timestamp: Date.now(),
+      timestamp: this.clock(),
       volume: totalVolume
     });
     
     this.volumeHistory.push({
-      timestamp: Date.now(),
+      timestamp: this.clock(),
       totalVolume
     });
     
@@ -1,9 +1,15 @@
 'use client';
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { ProcessedOrderbookData, OrderbookUpdate, ConnectionState } from '@/types/orderbook';
+import { ProcessedOrderbookData, OrderbookSnapshot, OrderbookUpdate, ConnectionState, BookSyncInfo, VenueConfig, SymbolSummary, TradeEvent } from '@/types/orderbook';
 import { BinanceWebSocketService } from '@/services/binanceWebSocket';
+import { BinanceCombinedStream } from '@/services/binanceCombinedStream';
+import { OrderbookSynchronizer } from '@/services/orderbookSynchronizer';
 import { OrderbookSimulator } from '@/services/orderbookSimulator';
+import { VenueAggregator } from '@/services/venueAggregator';
+import { SessionRecorder, RecorderOptions, RecorderStatus } from '@/services/sessionRecorder';
+import { OrderbookWorkerClient } from '@/services/orderbookWorkerClient';
+import { MicrostructureMetricsEngine, MicrostructureSnapshot } from '@/services/microstructureMetrics';
 
 interface DataGapInfo {
   detected: boolean;
@@ -21,8 +27,30 @@ interface ConnectionStats {
   status: ConnectionState;
 }
 
+// Sequencing and latest processed book of one subscribed symbol
+interface SymbolFeed {
+  symbol: string;
+  synchronizer: OrderbookSynchronizer;
+  data: ProcessedOrderbookData | null;
+  trades: TradeEvent[]; // Recent prints, oldest first
+  metrics: MicrostructureMetricsEngine;
+  lastUpdateTime: number;
+}
+
+/**
+ * Owns the market data connection for the visualizer. In real-time mode every
+ * subscribed symbol shares one combined Binance stream and keeps its own
+ * synchronized book, so switching between subscribed symbols is instant; only
+ * the active symbol's book is emitted through `onData`.
+ */
 export class RealTimeDataManager {
-  private wsService: BinanceWebSocketService | null = null;
+  private symbol: string; // Active symbol
+  private stream: BinanceCombinedStream;
+  private feeds: Map<string, SymbolFeed> = new Map();
+  private venueAggregator: VenueAggregator | null = null;
+  private activeVenues: VenueConfig[] | null = null;
+  private recorder: SessionRecorder;
+  private bookWorker: OrderbookWorkerClient;
   private simulator: OrderbookSimulator | null = null;
   private currentData: ProcessedOrderbookData | null = null;
   private isRealTimeMode: boolean = false;
@@ -33,20 +61,34 @@ export class RealTimeDataManager {
   private onDataCallback?: (data: ProcessedOrderbookData) => void;
   private onStatusCallback?: (status: ConnectionState, stats: ConnectionStats) => void;
   private onErrorCallback?: (error: string) => void;
+  private onSyncStateCallback?: (info: BookSyncInfo) => void;
+  private onSymbolSummariesCallback?: (summaries: SymbolSummary[]) => void;
+  private onTradesCallback?: (trades: TradeEvent[]) => void;
+  private onMetricsCallback?: (metrics: MicrostructureSnapshot | null) => void;
   
   // Timeouts and intervals
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private dataGapTimeout: NodeJS.Timeout | null = null;
   private simulatorInterval: NodeJS.Timeout | null = null;
   private latencyCheckInterval: NodeJS.Timeout | null = null;
+  private summaryInterval: NodeJS.Timeout | null = null;
+  private tradeFlushTimeout: NodeJS.Timeout | null = null;
   
   // Configuration
   private readonly MAX_RECONNECT_ATTEMPTS = 5;
   private readonly RECONNECT_BASE_DELAY = 1000;
   private readonly DATA_GAP_THRESHOLD = 10000; // 10 seconds
   private readonly LATENCY_CHECK_INTERVAL = 30000; // 30 seconds
+  private readonly SYNC_SNAPSHOT_DEPTH = 1000; // Diffs touch levels far from the touch; a shallow seed leaves holes
+  private readonly RECORDING_SNAPSHOT_DEPTH = 1000;
+  private readonly DISPLAY_DEPTH = 20; // Applied by the worker when it builds display data
+  private readonly SUMMARY_INTERVAL = 1000;
+  private readonly TRADE_HISTORY_MS = 30000;
+  private readonly MAX_TRADES = 500;
+  private readonly TRADE_FLUSH_INTERVAL = 250; // Prints are delivered in batches
   
   constructor(symbol: string = 'BTCUSDT') {
+    this.symbol = symbol.toUpperCase();
     this.connectionStats = {
       totalConnections: 0,
       reconnections: 0,
@@ -63,8 +105,22 @@ export class RealTimeDataManager {
       reconnecting: false
     };
     
-    this.wsService = new BinanceWebSocketService(symbol);
-    this.simulator = new OrderbookSimulator(symbol);
+    this.stream = new BinanceCombinedStream([this.symbol]);
+    this.stream.onData(this.handleStreamUpdate.bind(this));
+    this.stream.onTrade(this.handleTrade.bind(this));
+    this.stream.onError(this.handleConnectionError.bind(this));
+    this.simulator = new OrderbookSimulator(this.symbol);
+    
+    this.recorder = new SessionRecorder();
+    
+    // Snapshots and diffs are applied off the main thread
+    this.bookWorker = new OrderbookWorkerClient();
+    this.bookWorker.onBook(this.handleProcessedBook.bind(this));
+    this.bookWorker.onError(message => console.error('Order book worker error:', message));
+    // The replacement host starts without books; diffs would be dropped until the next snapshot
+    this.bookWorker.onFallback(() => this.feeds.forEach(feed => feed.synchronizer.resynchronize()));
+    
+    this.feeds.set(this.symbol, this.createFeed(this.symbol));
   }
   
   // Public methods
@@ -72,26 +128,26 @@ export class RealTimeDataManager {
     try {
       this.setStatus('connecting');
       this.isRealTimeMode = true;
+      this.activeVenues = null;
+      this.feeds.forEach(feed => { feed.data = null; });
       
-      if (!this.wsService) {
-        throw new Error('WebSocket service not initialized');
-      }
+      // Connect to the combined stream first so diffs are buffered while snapshots load
+      this.stream.disconnect();
+      await this.stream.connect();
       
-      // Set up callbacks
-      this.wsService.onData(this.handleRealTimeUpdate.bind(this));
-      this.wsService.onError(this.handleConnectionError.bind(this));
-      
-      // Get initial snapshot
-      const snapshot = await BinanceWebSocketService.getOrderbookSnapshot('BTCUSDT', 20);
-      this.processSnapshot(snapshot);
-      
-      // Connect to real-time stream
-      await this.wsService.connect();
+      // Every feed loads a snapshot and replays its buffered diffs; only the active one is awaited
+      const activeSync = this.getActiveFeed().synchronizer.start();
+      this.feeds.forEach(feed => {
+        if (feed.symbol === this.symbol) return;
+        feed.synchronizer.start().catch(error => console.error(`Failed to sync ${feed.symbol}:`, error));
+      });
+      await activeSync;
       
       this.connectionStats.totalConnections++;
       this.setStatus('connected');
       this.startDataGapMonitoring();
       this.startLatencyChecking();
+      this.startSummaryUpdates();
       
     } catch (error) {
       console.error('Real-time connection failed:', error);
@@ -99,13 +155,41 @@ export class RealTimeDataManager {
     }
   }
   
+  public async connectMultiVenue(venues: VenueConfig[]): Promise<void> {
+    try {
+      this.setStatus('connecting');
+      this.isRealTimeMode = false;
+      this.stopRealTimeServices();
+      this.stopSimulator();
+      
+      this.activeVenues = venues;
+      this.venueAggregator = new VenueAggregator(this.symbol, venues);
+      this.venueAggregator.onData(this.handleAggregatedData.bind(this));
+      this.venueAggregator.onError(error => {
+        if (this.onErrorCallback) {
+          this.onErrorCallback(error);
+        }
+      });
+      
+      await this.venueAggregator.connect();
+      
+      this.connectionStats.totalConnections++;
+      this.setStatus('connected');
+      
+    } catch (error) {
+      console.error('Multi-venue connection failed:', error);
+      this.handleConnectionError(error as Error);
+    }
+  }
+  
   public connectDemo(): void {
     this.setStatus('connecting');
     this.isRealTimeMode = false;
+    this.activeVenues = null;
     this.stopRealTimeServices();
     
     if (!this.simulator) {
-      this.simulator = new OrderbookSimulator('BTCUSDT');
+      this.simulator = new OrderbookSimulator(this.symbol);
     }
     
     // Start simulator with periodic updates
@@ -118,31 +202,144 @@ export class RealTimeDataManager {
       this.generateDemoUpdate();
       this.setStatus('connected');
     }, 500);
+    this.startSummaryUpdates();
   }
   
+  /**
+   * Stop all data sources. Subscribed symbols are kept and resume on the next connect.
+   */
   public disconnect(): void {
+    this.activeVenues = null;
     this.stopRealTimeServices();
     this.stopSimulator();
+    this.bookWorker.reset();
+    this.feeds.forEach(feed => {
+      feed.data = null;
+      feed.trades = [];
+      feed.metrics.reset();
+    });
+    this.flushTrades();
+    if (this.onMetricsCallback) {
+      this.onMetricsCallback(null);
+    }
+    this.stopSummaryUpdates();
     this.setStatus('disconnected');
     this.currentData = null;
   }
   
-  public switchSymbol(symbol: string): void {
-    const wasConnected = this.connectionStats.status === 'connected';
+  /**
+   * Disconnect and release the processing worker; the manager is unusable afterwards
+   */
+  public dispose(): void {
     this.disconnect();
+    this.bookWorker.terminate();
+  }
+  
+  /**
+   * Record the raw depth stream to disk. Only available for the direct Binance stream.
+   */
+  public async startRecording(options: Partial<RecorderOptions> = {}): Promise<void> {
+    if (!this.isRealTimeMode || this.recorder.isRecording()) return;
     
-    this.wsService = new BinanceWebSocketService(symbol);
-    this.simulator = new OrderbookSimulator(symbol);
+    this.recorder.start(this.symbol, options);
     
-    if (wasConnected) {
-      if (this.isRealTimeMode) {
-        this.connectRealTime();
-      } else {
-        this.connectDemo();
+    // Fresh full-depth snapshot so the recording starts from a complete book
+    try {
+      const snapshot = await BinanceWebSocketService.getOrderbookSnapshot(this.symbol, this.RECORDING_SNAPSHOT_DEPTH);
+      this.recorder.recordSnapshot(snapshot);
+    } catch (error) {
+      console.error('Failed to fetch snapshot for recording:', error);
+      await this.recorder.stop();
+      if (this.onErrorCallback) {
+        this.onErrorCallback('Recording could not start: snapshot unavailable');
       }
     }
   }
   
+  public async stopRecording(): Promise<void> {
+    await this.recorder.stop();
+  }
+  
+  /**
+   * Add a symbol to the combined stream. Its book is synchronized in the
+   * background while real-time data is connected.
+   */
+  public subscribeSymbol(symbol: string): void {
+    const upper = symbol.toUpperCase();
+    if (this.feeds.has(upper)) return;
+    
+    const feed = this.createFeed(upper);
+    this.feeds.set(upper, feed);
+    this.stream.subscribe(upper);
+    
+    if (this.isRealTimeMode && this.stream.isConnectedToServer()) {
+      feed.synchronizer.start().catch(error => console.error(`Failed to sync ${upper}:`, error));
+    }
+    this.emitSymbolSummaries();
+  }
+  
+  /**
+   * Remove a symbol from the combined stream; the active symbol can't be removed
+   */
+  public unsubscribeSymbol(symbol: string): void {
+    const upper = symbol.toUpperCase();
+    const feed = this.feeds.get(upper);
+    if (!feed || upper === this.symbol) return;
+    
+    feed.synchronizer.stop();
+    this.feeds.delete(upper);
+    this.stream.unsubscribe(upper);
+    this.bookWorker.dropBook(upper);
+    this.emitSymbolSummaries();
+  }
+  
+  /**
+   * Make `symbol` the displayed book, subscribing it first if needed. A book
+   * that is already synchronized is shown immediately without reconnecting.
+   */
+  public switchSymbol(symbol: string): void {
+    const upper = symbol.toUpperCase();
+    if (upper === this.symbol) return;
+    
+    // Venue connections are per symbol, so the aggregate has to reconnect
+    if (this.activeVenues) {
+      const wasConnected = this.connectionStats.status === 'connected';
+      const venues = this.activeVenues;
+      this.disconnect();
+      this.subscribeSymbol(upper);
+      this.symbol = upper;
+      this.simulator = new OrderbookSimulator(upper);
+      if (wasConnected) {
+        this.connectMultiVenue(venues);
+      }
+      this.emitSymbolSummaries();
+      return;
+    }
+    
+    this.subscribeSymbol(upper);
+    this.symbol = upper;
+    this.simulator = new OrderbookSimulator(upper);
+    
+    const feed = this.getActiveFeed();
+    this.currentData = feed.data;
+    if (feed.data && this.onDataCallback) {
+      this.onDataCallback(feed.data);
+    }
+    if (this.onSyncStateCallback) {
+      this.onSyncStateCallback(feed.synchronizer.getSyncInfo());
+    }
+    this.flushTrades();
+    if (this.onMetricsCallback) {
+      this.onMetricsCallback(feed.metrics.getLatest());
+    }
+    
+    // Demo books are generated per symbol, so produce one right away
+    if (this.simulatorInterval) {
+      this.generateDemoUpdate();
+    }
+    this.emitSymbolSummaries();
+  }
+  
   // Callback setters
   public onData(callback: (data: ProcessedOrderbookData) => void): void {
     this.onDataCallback = callback;
@@ -156,6 +353,32 @@ export class RealTimeDataManager {
     this.onErrorCallback = callback;
   }
   
+  public onSyncState(callback: (info: BookSyncInfo) => void): void {
+    this.onSyncStateCallback = callback;
+  }
+  
+  public onRecorderStatus(callback: (status: RecorderStatus) => void): void {
+    this.recorder.onStatus(callback);
+  }
+  
+  public onSymbolSummaries(callback: (summaries: SymbolSummary[]) => void): void {
+    this.onSymbolSummariesCallback = callback;
+  }
+  
+  /**
+   * Recent trades of the active symbol, oldest first; re-emitted in batches as prints arrive
+   */
+  public onTrades(callback: (trades: TradeEvent[]) => void): void {
+    this.onTradesCallback = callback;
+  }
+  
+  /**
+   * Microstructure metrics of the active symbol, recomputed on every book update
+   */
+  public onMetrics(callback: (metrics: MicrostructureSnapshot | null) => void): void {
+    this.onMetricsCallback = callback;
+  }
+  
   // Getters
   public getCurrentData(): ProcessedOrderbookData | null {
     return this.currentData;
@@ -169,45 +392,197 @@ export class RealTimeDataManager {
     return { ...this.dataGapInfo };
   }
   
+  public getSyncInfo(): BookSyncInfo {
+    return this.getActiveFeed().synchronizer.getSyncInfo();
+  }
+  
+  public getSymbol(): string {
+    return this.symbol;
+  }
+  
+  public getSubscribedSymbols(): string[] {
+    return Array.from(this.feeds.keys());
+  }
+  
+  public getMetrics(): MicrostructureSnapshot | null {
+    return this.getActiveFeed().metrics.getLatest();
+  }
+  
+  /**
+   * Top of book for every subscribed symbol, in subscription order
+   */
+  public getSymbolSummaries(): SymbolSummary[] {
+    return Array.from(this.feeds.values()).map(feed => {
+      const bestBid = feed.data?.bids[0]?.price ?? null;
+      const bestAsk = feed.data?.asks[0]?.price ?? null;
+      
+      return {
+        symbol: feed.symbol,
+        bestBid,
+        bestAsk,
+        spread: bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null,
+        syncState: feed.synchronizer.getSyncInfo().state,
+        lastUpdateTime: feed.lastUpdateTime
+      };
+    });
+  }
+  
   public isConnected(): boolean {
     return this.connectionStats.status === 'connected';
   }
   
   // Private methods
-  private handleRealTimeUpdate(update: OrderbookUpdate): void {
-    try {
-      if (!this.currentData) return;
-      
-      const updateStartTime = performance.now();
-      
-      // Apply updates to current data
-      const updatedData = this.applyOrderbookUpdate(this.currentData, update);
-      this.currentData = updatedData;
-      
-      // Update statistics
-      this.connectionStats.dataUpdates++;
-      this.connectionStats.lastUpdateTime = Date.now();
-      this.dataGapInfo.lastUpdateTime = Date.now();
-      
-      // Calculate latency
-      const latency = performance.now() - updateStartTime;
-      this.updateAverageLatency(latency);
-      
-      // Notify callback
-      if (this.onDataCallback) {
-        this.onDataCallback(updatedData);
+  private createFeed(symbol: string): SymbolFeed {
+    const synchronizer = new OrderbookSynchronizer(async () => {
+      // A resync during a recording is written to it, so it is fetched at recording depth.
+      // Before the recording's own snapshot opens the file, resyncs stay out of it.
+      const status = this.recorder.getStatus();
+      const recording = status.state === 'recording' && status.symbol === symbol;
+      const snapshot = await BinanceWebSocketService.getOrderbookSnapshot(
+        symbol,
+        recording ? Math.max(this.SYNC_SNAPSHOT_DEPTH, this.RECORDING_SNAPSHOT_DEPTH) : this.SYNC_SNAPSHOT_DEPTH
+      );
+      if (recording && this.recorder.getStatus().state === 'recording') {
+        this.recorder.recordSnapshot(snapshot);
       }
-      
-      // Reset data gap detection
-      this.dataGapInfo.detected = false;
-      if (this.dataGapTimeout) {
-        clearTimeout(this.dataGapTimeout);
+      return snapshot;
+    });
+    
+    synchronizer.onSnapshot(this.processSnapshot.bind(this));
+    synchronizer.onUpdate(this.handleRealTimeUpdate.bind(this));
+    synchronizer.onSyncState(info => {
+      if (symbol === this.symbol && this.onSyncStateCallback) {
+        this.onSyncStateCallback(info);
       }
-      this.startDataGapMonitoring();
-      
-    } catch (error) {
-      console.error('Error processing real-time update:', error);
-      this.handleConnectionError(new Error('Failed to process real-time update'));
+    });
+    synchronizer.onError(error => {
+      if (symbol === this.symbol) {
+        this.handleConnectionError(error);
+      } else {
+        console.error(`Order book sync failed for ${symbol}:`, error);
+      }
+    });
+    
+    return {
+      symbol,
+      synchronizer,
+      data: null,
+      trades: [],
+      metrics: new MicrostructureMetricsEngine(symbol),
+      lastUpdateTime: 0
+    };
+  }
+  
+  private getActiveFeed(): SymbolFeed {
+    let feed = this.feeds.get(this.symbol);
+    if (!feed) {
+      feed = this.createFeed(this.symbol);
+      this.feeds.set(this.symbol, feed);
+    }
+    return feed;
+  }
+  
+  private handleStreamUpdate(update: OrderbookUpdate): void {
+    const symbol = update.symbol.toUpperCase();
+    if (this.recorder.getStatus().symbol === symbol) {
+      this.recorder.recordUpdate(update);
+    }
+    
+    // Diff events go through the symbol's synchronizer for sequencing
+    this.feeds.get(symbol)?.synchronizer.handleUpdate(update);
+  }
+  
+  private handleTrade(trade: TradeEvent): void {
+    const symbol = trade.symbol.toUpperCase();
+    const feed = this.feeds.get(symbol);
+    if (!feed) return;
+    
+    feed.trades.push(trade);
+    feed.metrics.addTrades([trade]);
+    if (this.recorder.getStatus().symbol === symbol) {
+      this.recorder.recordTrade(trade);
+    }
+    const cutoff = Date.now() - this.TRADE_HISTORY_MS;
+    const firstKept = feed.trades.findIndex(item => item.tradeTime >= cutoff);
+    const start = Math.max(firstKept === -1 ? feed.trades.length : firstKept, feed.trades.length - this.MAX_TRADES);
+    if (start > 0) {
+      feed.trades = feed.trades.slice(start);
+    }
+    
+    if (symbol === this.symbol && !this.tradeFlushTimeout) {
+      this.tradeFlushTimeout = setTimeout(() => this.flushTrades(), this.TRADE_FLUSH_INTERVAL);
+    }
+  }
+  
+  private flushTrades(): void {
+    if (this.tradeFlushTimeout) {
+      clearTimeout(this.tradeFlushTimeout);
+      this.tradeFlushTimeout = null;
+    }
+    
+    if (this.onTradesCallback) {
+      this.onTradesCallback([...(this.feeds.get(this.symbol)?.trades ?? [])]);
+    }
+  }
+  
+  private handleRealTimeUpdate(update: OrderbookUpdate): void {
+    // The worker applies the diff and reports the resulting book via handleProcessedBook
+    this.bookWorker.applyUpdate(update);
+    
+    // Update statistics
+    this.connectionStats.dataUpdates++;
+    this.connectionStats.lastUpdateTime = Date.now();
+    this.dataGapInfo.lastUpdateTime = Date.now();
+    
+    // Reset data gap detection
+    this.dataGapInfo.detected = false;
+    if (this.dataGapTimeout) {
+      clearTimeout(this.dataGapTimeout);
+    }
+    this.startDataGapMonitoring();
+  }
+  
+  private handleProcessedBook(data: ProcessedOrderbookData, processingTime: number, symbol: string): void {
+    // Multi-venue books are merged on the main thread and not routed through the worker
+    if (this.activeVenues) return;
+    
+    const feed = this.feeds.get(symbol);
+    const metrics = feed ? feed.metrics.update(data) : null;
+    if (feed) {
+      feed.data = data;
+      feed.lastUpdateTime = Date.now();
+    }
+    this.updateAverageLatency(processingTime);
+    
+    // Background symbols only refresh their cached book
+    if (symbol !== this.symbol) return;
+    
+    this.currentData = data;
+    
+    if (this.onDataCallback) {
+      this.onDataCallback(data);
+    }
+    if (this.onMetricsCallback) {
+      this.onMetricsCallback(metrics);
+    }
+  }
+  
+  private handleAggregatedData(data: ProcessedOrderbookData): void {
+    this.currentData = data;
+    const feed = this.getActiveFeed();
+    feed.data = data;
+    feed.lastUpdateTime = Date.now();
+    const metrics = feed.metrics.update(data);
+    
+    this.connectionStats.dataUpdates++;
+    this.connectionStats.lastUpdateTime = Date.now();
+    this.dataGapInfo.lastUpdateTime = Date.now();
+    
+    if (this.onDataCallback) {
+      this.onDataCallback(data);
+    }
+    if (this.onMetricsCallback) {
+      this.onMetricsCallback(metrics);
     }
   }
   
@@ -254,6 +629,7 @@ export class RealTimeDataManager {
     try {
       const snapshot = this.simulator.generateSnapshot(20);
       this.processSnapshot(snapshot);
+      this.simulator.generateTrades().forEach(trade => this.handleTrade(trade));
       
       this.connectionStats.dataUpdates++;
       this.connectionStats.lastUpdateTime = Date.now();
@@ -263,98 +639,8 @@ export class RealTimeDataManager {
     }
   }
   
-  private processSnapshot(snapshot: any): void {
-    const processedData: ProcessedOrderbookData = {
-      bids: snapshot.bids.map((bid: any) => ({
-        price: parseFloat(bid.price),
-        quantity: parseFloat(bid.quantity),
-        timestamp: Date.now()
-      })),
-      asks: snapshot.asks.map((ask: any) => ({
-        price: parseFloat(ask.price),
-        quantity: parseFloat(ask.quantity),
-        timestamp: Date.now()
-      })),
-      maxQuantity: 0,
-      priceRange: { min: 0, max: 0 }
-    };
-    
-    // Calculate derived fields
-    const allQuantities = [...processedData.bids, ...processedData.asks].map(entry => entry.quantity);
-    const allPrices = [...processedData.bids, ...processedData.asks].map(entry => entry.price);
-    
-    processedData.maxQuantity = Math.max(...allQuantities);
-    processedData.priceRange = {
-      min: Math.min(...allPrices),
-      max: Math.max(...allPrices)
-    };
-    
-    this.currentData = processedData;
-    
-    if (this.onDataCallback) {
-      this.onDataCallback(processedData);
-    }
-  }
-  
-  private applyOrderbookUpdate(currentData: ProcessedOrderbookData, update: OrderbookUpdate): ProcessedOrderbookData {
-    const newBids = [...currentData.bids];
-    const newAsks = [...currentData.asks];
-    
-    // Apply bid updates
-    update.bids.forEach(level => {
-      const price = parseFloat(level.price);
-      const quantity = parseFloat(level.quantity);
-      const index = newBids.findIndex(bid => bid.price === price);
-      
-      if (quantity === 0) {
-        if (index !== -1) newBids.splice(index, 1);
-      } else {
-        if (index !== -1) {
-          newBids[index].quantity = quantity;
-          newBids[index].timestamp = Date.now();
-        } else {
-          newBids.push({ price, quantity, timestamp: Date.now() });
-        }
-      }
-    });
-    
-    // Apply ask updates
-    update.asks.forEach(level => {
-      const price = parseFloat(level.price);
-      const quantity = parseFloat(level.quantity);
-      const index = newAsks.findIndex(ask => ask.price === price);
-      
-      if (quantity === 0) {
-        if (index !== -1) newAsks.splice(index, 1);
-      } else {
-        if (index !== -1) {
-          newAsks[index].quantity = quantity;
-          newAsks[index].timestamp = Date.now();
-        } else {
-          newAsks.push({ price, quantity, timestamp: Date.now() });
-        }
-      }
-    });
-    
-    // Sort and limit
-    newBids.sort((a, b) => b.price - a.price);
-    newAsks.sort((a, b) => a.price - b.price);
-    
-    // Recalculate derived fields
-    const limitedBids = newBids.slice(0, 20);
-    const limitedAsks = newAsks.slice(0, 20);
-    const allQuantities = [...limitedBids, ...limitedAsks].map(entry => entry.quantity);
-    const allPrices = [...limitedBids, ...limitedAsks].map(entry => entry.price);
-    
-    return {
-      bids: limitedBids,
-      asks: limitedAsks,
-      maxQuantity: Math.max(...allQuantities),
-      priceRange: {
-        min: Math.min(...allPrices),
-        max: Math.max(...allPrices)
-      }
-    };
+  private processSnapshot(snapshot: OrderbookSnapshot): void {
+    this.bookWorker.loadSnapshot(snapshot, this.DISPLAY_DEPTH);
   }
   
   private startDataGapMonitoring(): void {
@@ -386,6 +672,25 @@ export class RealTimeDataManager {
       this.connectionStats.averageLatency * (1 - alpha) + newLatency * alpha;
   }
   
+  private startSummaryUpdates(): void {
+    this.stopSummaryUpdates();
+    this.summaryInterval = setInterval(() => this.emitSymbolSummaries(), this.SUMMARY_INTERVAL);
+  }
+  
+  private stopSummaryUpdates(): void {
+    if (this.summaryInterval) {
+      clearInterval(this.summaryInterval);
+      this.summaryInterval = null;
+    }
+    this.emitSymbolSummaries();
+  }
+  
+  private emitSymbolSummaries(): void {
+    if (this.onSymbolSummariesCallback) {
+      this.onSymbolSummariesCallback(this.getSymbolSummaries());
+    }
+  }
+  
   private setStatus(status: ConnectionState): void {
     this.connectionStats.status = status;
     if (this.onStatusCallback) {
@@ -394,8 +699,13 @@ export class RealTimeDataManager {
   }
   
   private stopRealTimeServices(): void {
-    if (this.wsService) {
-      this.wsService.disconnect();
+    this.feeds.forEach(feed => feed.synchronizer.stop());
+    this.stream.disconnect();
+    this.recorder.stop();
+    
+    if (this.venueAggregator) {
+      this.venueAggregator.disconnect();
+      this.venueAggregator = null;
     }
     
     if (this.reconnectTimeout) {
@@ -422,13 +732,19 @@ export class RealTimeDataManager {
   }
 }
 
-// Custom hook that uses the RealTimeDataManager
+// Custom hook that uses the RealTimeDataManager; `symbol` is the initially active symbol
 export const useRealTimeOrderbook = (symbol: string = 'BTCUSDT') => {
   const [data, setData] = useState<ProcessedOrderbookData | null>(null);
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
   const [connectionStats, setConnectionStats] = useState<ConnectionStats | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isRealTime, setIsRealTime] = useState<boolean>(false);
+  const [syncInfo, setSyncInfo] = useState<BookSyncInfo | null>(null);
+  const [recorderStatus, setRecorderStatus] = useState<RecorderStatus | null>(null);
+  const [activeSymbol, setActiveSymbol] = useState<string>(symbol.toUpperCase());
+  const [symbolSummaries, setSymbolSummaries] = useState<SymbolSummary[]>([]);
+  const [trades, setTrades] = useState<TradeEvent[]>([]);
+  const [metrics, setMetrics] = useState<MicrostructureSnapshot | null>(null);
   
   const managerRef = useRef<RealTimeDataManager | null>(null);
   
@@ -443,10 +759,17 @@ export const useRealTimeOrderbook = (symbol: string = 'BTCUSDT') => {
       setConnectionStats(stats);
     });
     managerRef.current.onError(setError);
+    managerRef.current.onSyncState(setSyncInfo);
+    managerRef.current.onRecorderStatus(setRecorderStatus);
+    managerRef.current.onSymbolSummaries(setSymbolSummaries);
+    managerRef.current.onTrades(setTrades);
+    managerRef.current.onMetrics(setMetrics);
+    setActiveSymbol(managerRef.current.getSymbol());
+    setSymbolSummaries(managerRef.current.getSymbolSummaries());
     
     return () => {
       if (managerRef.current) {
-        managerRef.current.disconnect();
+        managerRef.current.dispose();
       }
     };
   }, [symbol]);
@@ -459,6 +782,14 @@ export const useRealTimeOrderbook = (symbol: string = 'BTCUSDT') => {
     }
   }, []);
   
+  const connectMultiVenue = useCallback(async (venues: VenueConfig[]) => {
+    if (managerRef.current) {
+      setIsRealTime(true);
+      setError(null);
+      await managerRef.current.connectMultiVenue(venues);
+    }
+  }, []);
+  
   const connectDemo = useCallback(() => {
     if (managerRef.current) {
       setIsRealTime(false);
@@ -473,9 +804,36 @@ export const useRealTimeOrderbook = (symbol: string = 'BTCUSDT') => {
     }
   }, []);
   
+  const startRecording = useCallback(async (options?: Partial<RecorderOptions>) => {
+    if (managerRef.current) {
+      await managerRef.current.startRecording(options);
+    }
+  }, []);
+  
+  const stopRecording = useCallback(async () => {
+    if (managerRef.current) {
+      await managerRef.current.stopRecording();
+    }
+  }, []);
+  
   const switchSymbol = useCallback((newSymbol: string) => {
     if (managerRef.current) {
       managerRef.current.switchSymbol(newSymbol);
+      setActiveSymbol(managerRef.current.getSymbol());
+      // Cached book of the new symbol, or nothing until its snapshot arrives
+      setData(managerRef.current.getCurrentData());
+    }
+  }, []);
+  
+  const subscribeSymbol = useCallback((newSymbol: string) => {
+    if (managerRef.current) {
+      managerRef.current.subscribeSymbol(newSymbol);
+    }
+  }, []);
+  
+  const unsubscribeSymbol = useCallback((oldSymbol: string) => {
+    if (managerRef.current) {
+      managerRef.current.unsubscribeSymbol(oldSymbol);
     }
   }, []);
   
@@ -485,10 +843,21 @@ export const useRealTimeOrderbook = (symbol: string = 'BTCUSDT') => {
     connectionStats,
     error,
     isRealTime,
+    syncInfo,
+    recorderStatus,
+    activeSymbol,
+    symbolSummaries,
+    trades,
+    metrics,
     connectRealTime,
+    connectMultiVenue,
     connectDemo,
     disconnect,
     switchSymbol,
+    subscribeSymbol,
+    unsubscribeSymbol,
+    startRecording,
+    stopRecording,
     isConnected: connectionState === 'connected'
   };
 };
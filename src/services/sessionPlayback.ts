@@ -0,0 +1,493 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { OrderbookLevel, OrderbookSnapshot, OrderbookUpdate, ProcessedOrderbookData, SessionRecord } from '@/types/orderbook';
+import { OrderbookDataProcessor } from '@/utils/orderbookProcessor';
+import { parseSessionRecords } from '@/utils/sessionFormat';
+import { FixedPointCodec, getCodec } from '@/utils/fixedPoint';
+import { FilterSettings } from '@/components/ui/InteractiveControlPanel';
+
+export type PlaybackTimeRange = FilterSettings['timeRange'];
+
+export interface PlaybackOptions {
+  keyframeInterval: number; // Updates between keyframes
+  displayDepth: number; // Levels per side handed to the renderer
+}
+
+export interface PlaybackState {
+  isPlaying: boolean;
+  speed: number;
+  symbol: string;
+  currentTime: number;
+  startTime: number; // Start of the window selected by the time range
+  endTime: number;
+  position: number;
+  totalRecords: number;
+  timeRange: PlaybackTimeRange;
+}
+
+// Full raw book at a point in the session; seeks restore the nearest one
+interface Keyframe {
+  index: number; // Next record to apply after restoring
+  t: number;
+  bids: Map<number, number>; // Ticks -> lots
+  asks: Map<number, number>;
+  lastUpdateId: number;
+}
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 16];
+
+export const TIME_RANGE_MS: Record<Exclude<PlaybackTimeRange, 'live'>, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+const DEFAULT_PLAYBACK_OPTIONS: PlaybackOptions = {
+  keyframeInterval: 500,
+  displayDepth: 20
+};
+
+/**
+ * Convert exported JSON snapshots (single snapshot, array or batch export) into
+ * snapshot session records so they can be scrubbed like a recorded session
+ */
+export function exportedSnapshotsToRecords(value: unknown): SessionRecord[] {
+  const batch = (value as { snapshots?: unknown[] })?.snapshots;
+  const items = Array.isArray(value) ? value : Array.isArray(batch) ? batch : [value];
+  const toLevels = (entries: Array<{ price: number; quantity: number }>): OrderbookLevel[] =>
+    entries.map(entry => ({ price: String(entry.price), quantity: String(entry.quantity) }));
+
+  return items
+    .filter(item => item && typeof item.timestamp === 'string' && Array.isArray(item.data?.bids) && Array.isArray(item.data?.asks))
+    .map(item => {
+      const t = Date.parse(item.timestamp);
+      return {
+        t,
+        type: 'snapshot' as const,
+        data: {
+          bids: toLevels(item.data.bids),
+          asks: toLevels(item.data.asks),
+          lastUpdateId: 0,
+          symbol: item.symbol || 'BTCUSDT',
+          timestamp: t
+        }
+      };
+    })
+    .sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Parse a session file: NDJSON recordings or exported JSON snapshots
+ */
+export function parseSessionFile(text: string): SessionRecord[] {
+  try {
+    const records = exportedSnapshotsToRecords(JSON.parse(text));
+    if (records.length > 0) return records;
+  } catch {
+    // Multi-line NDJSON is not a single JSON document
+  }
+  return parseSessionRecords(text);
+}
+
+/**
+ * Plays a recorded depth session back on a virtual clock. Keyframes of the
+ * raw book are built up front so seeking only replays the records between the
+ * nearest keyframe and the target time.
+ */
+export class SessionPlaybackEngine {
+  private records: SessionRecord[];
+  private options: PlaybackOptions;
+  private processor = new OrderbookDataProcessor();
+  private keyframes: Keyframe[] = [];
+  private symbol: string;
+  private codec: FixedPointCodec;
+
+  // Playback state
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  private lastUpdateId: number = 0;
+  private cursor: number = 0;
+  private currentTime: number = 0;
+  private speed: number = 1;
+  private timeRange: PlaybackTimeRange = 'live';
+  private tickInterval: NodeJS.Timeout | null = null;
+  private lastTickAt: number = 0;
+
+  // Callbacks
+  private onFrameCallback?: (data: ProcessedOrderbookData) => void;
+  private onStateCallback?: (state: PlaybackState) => void;
+
+  private readonly TICK_INTERVAL = 50;
+  // Idle stretches (e.g. between rotated files) are skipped while playing
+  private readonly MAX_IDLE_GAP = 5000;
+
+  constructor(records: SessionRecord[], options: Partial<PlaybackOptions> = {}) {
+    const firstSnapshot = records.find(record => record.type === 'snapshot');
+    if (!firstSnapshot) {
+      throw new Error('Session contains no snapshot record');
+    }
+
+    this.records = [...records].sort((a, b) => a.t - b.t);
+    this.options = { ...DEFAULT_PLAYBACK_OPTIONS, ...options };
+    this.symbol = firstSnapshot.data.symbol.toUpperCase();
+    this.codec = getCodec(this.symbol);
+    this.buildKeyframes();
+    this.currentTime = this.records[0].t;
+  }
+
+  // Public methods
+  public play(): void {
+    if (this.tickInterval) return;
+
+    // Restart from the window start once the end has been reached
+    if (this.cursor >= this.records.length) {
+      this.seek(this.getWindowStart());
+    }
+
+    this.lastTickAt = Date.now();
+    this.tickInterval = setInterval(() => this.tick(), this.TICK_INTERVAL);
+    this.notifyState();
+  }
+
+  public pause(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    this.notifyState();
+  }
+
+  public setSpeed(speed: number): void {
+    const min = PLAYBACK_SPEEDS[0];
+    const max = PLAYBACK_SPEEDS[PLAYBACK_SPEEDS.length - 1];
+    this.speed = Math.min(Math.max(speed, min), max);
+    this.notifyState();
+  }
+
+  /**
+   * Apply exactly one depth update (and any snapshots in front of it)
+   */
+  public stepForward(): void {
+    this.pause();
+
+    while (this.cursor < this.records.length) {
+      const record = this.records[this.cursor++];
+      this.currentTime = record.t;
+      if (this.applyRecord(record) && record.type === 'update') break;
+    }
+
+    this.emitFrame();
+    this.notifyState();
+  }
+
+  /**
+   * Rebuild the book at `timestamp` from the nearest keyframe at or before it
+   */
+  public seek(timestamp: number): void {
+    const target = Math.min(Math.max(timestamp, this.getWindowStart()), this.getEndTime());
+    const keyframe = this.findKeyframe(target);
+
+    this.bids = new Map(keyframe.bids);
+    this.asks = new Map(keyframe.asks);
+    this.lastUpdateId = keyframe.lastUpdateId;
+    this.cursor = keyframe.index;
+
+    this.applyUntil(target);
+    this.currentTime = target;
+    this.lastTickAt = Date.now();
+
+    this.emitFrame();
+    this.notifyState();
+  }
+
+  /**
+   * Limit scrubbing to the trailing window of the session; `live` uses all of it
+   */
+  public setTimeRange(timeRange: PlaybackTimeRange): void {
+    this.timeRange = timeRange;
+    if (this.currentTime < this.getWindowStart()) {
+      this.seek(this.getWindowStart());
+    } else {
+      this.notifyState();
+    }
+  }
+
+  public dispose(): void {
+    this.pause();
+    this.onFrameCallback = undefined;
+    this.onStateCallback = undefined;
+  }
+
+  public onFrame(callback: (data: ProcessedOrderbookData) => void): void {
+    this.onFrameCallback = callback;
+  }
+
+  public onState(callback: (state: PlaybackState) => void): void {
+    this.onStateCallback = callback;
+  }
+
+  public getState(): PlaybackState {
+    return {
+      isPlaying: this.tickInterval !== null,
+      speed: this.speed,
+      symbol: this.symbol,
+      currentTime: this.currentTime,
+      startTime: this.getWindowStart(),
+      endTime: this.getEndTime(),
+      position: this.cursor,
+      totalRecords: this.records.length,
+      timeRange: this.timeRange
+    };
+  }
+
+  // Private methods
+  private tick(): void {
+    const now = Date.now();
+    let target = this.currentTime + (now - this.lastTickAt) * this.speed;
+    this.lastTickAt = now;
+
+    const next = this.records[this.cursor];
+    if (next && next.t - this.currentTime > this.MAX_IDLE_GAP) {
+      target = Math.max(target, next.t);
+    }
+
+    const applied = this.applyUntil(target);
+    this.currentTime = Math.min(target, this.getEndTime());
+
+    if (applied > 0) {
+      this.emitFrame();
+    }
+
+    if (this.cursor >= this.records.length) {
+      this.pause();
+      return;
+    }
+
+    this.notifyState();
+  }
+
+  private applyUntil(target: number): number {
+    let applied = 0;
+    while (this.cursor < this.records.length && this.records[this.cursor].t <= target) {
+      if (this.applyRecord(this.records[this.cursor])) {
+        applied++;
+      }
+      this.cursor++;
+    }
+    return applied;
+  }
+
+  private applyRecord(record: SessionRecord): boolean {
+    // Prints don't change the book
+    if (record.type === 'trade') return false;
+
+    if (record.type === 'snapshot') {
+      this.loadSnapshot(record.data);
+      return true;
+    }
+
+    // Diffs recorded ahead of their snapshot are already contained in it
+    const update = record.data;
+    if (update.finalUpdateId <= this.lastUpdateId) return false;
+
+    this.applyUpdate(update);
+    return true;
+  }
+
+  private loadSnapshot(snapshot: OrderbookSnapshot): void {
+    this.bids = new Map();
+    this.asks = new Map();
+    this.applyLevels(this.bids, snapshot.bids);
+    this.applyLevels(this.asks, snapshot.asks);
+    this.lastUpdateId = snapshot.lastUpdateId;
+  }
+
+  private applyUpdate(update: OrderbookUpdate): void {
+    this.applyLevels(this.bids, update.bids);
+    this.applyLevels(this.asks, update.asks);
+    this.lastUpdateId = update.finalUpdateId;
+  }
+
+  private applyLevels(side: Map<number, number>, levels: OrderbookLevel[]): void {
+    levels.forEach(level => {
+      const price = this.codec.parsePrice(level.price);
+      const quantity = this.codec.parseQuantity(level.quantity);
+      if (quantity === 0) {
+        side.delete(price);
+      } else {
+        side.set(price, quantity);
+      }
+    });
+  }
+
+  private buildKeyframes(): void {
+    let updatesSinceKeyframe = 0;
+    let hasSnapshot = false;
+
+    this.records.forEach((record, index) => {
+      const applied = this.applyRecord(record);
+      if (record.type === 'snapshot') hasSnapshot = true;
+      if (applied && record.type === 'update') updatesSinceKeyframe++;
+
+      if (hasSnapshot && (record.type === 'snapshot' || updatesSinceKeyframe >= this.options.keyframeInterval)) {
+        this.keyframes.push({
+          index: index + 1,
+          t: record.t,
+          bids: new Map(this.bids),
+          asks: new Map(this.asks),
+          lastUpdateId: this.lastUpdateId
+        });
+        updatesSinceKeyframe = 0;
+      }
+    });
+
+    // Start of session: empty book, nothing applied
+    this.keyframes.unshift({
+      index: 0,
+      t: this.records[0].t,
+      bids: new Map(),
+      asks: new Map(),
+      lastUpdateId: 0
+    });
+
+    this.bids.clear();
+    this.asks.clear();
+    this.lastUpdateId = 0;
+  }
+
+  private findKeyframe(timestamp: number): Keyframe {
+    let low = 0;
+    let high = this.keyframes.length - 1;
+
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.keyframes[mid].t <= timestamp) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return this.keyframes[low];
+  }
+
+  private getWindowStart(): number {
+    const sessionStart = this.records[0].t;
+    if (this.timeRange === 'live') return sessionStart;
+    return Math.max(sessionStart, this.getEndTime() - TIME_RANGE_MS[this.timeRange]);
+  }
+
+  private getEndTime(): number {
+    return this.records[this.records.length - 1].t;
+  }
+
+  private buildSnapshot(): OrderbookSnapshot {
+    const depth = this.options.displayDepth;
+    const toLevels = (side: Map<number, number>, descending: boolean): OrderbookLevel[] =>
+      Array.from(side.entries())
+        .sort((a, b) => descending ? b[0] - a[0] : a[0] - b[0])
+        .slice(0, depth)
+        .map(([price, quantity]) => ({
+          price: this.codec.formatPrice(price),
+          quantity: this.codec.formatQuantity(quantity)
+        }));
+
+    return {
+      bids: toLevels(this.bids, true),
+      asks: toLevels(this.asks, false),
+      lastUpdateId: this.lastUpdateId,
+      symbol: this.symbol,
+      timestamp: this.currentTime
+    };
+  }
+
+  private emitFrame(): void {
+    if (this.onFrameCallback) {
+      this.onFrameCallback(this.processor.processSnapshot(this.buildSnapshot()));
+    }
+  }
+
+  private notifyState(): void {
+    if (this.onStateCallback) {
+      this.onStateCallback(this.getState());
+    }
+  }
+}
+
+// React hook for session playback
+export const useSessionPlayback = (timeRange: PlaybackTimeRange = 'live') => {
+  const [frame, setFrame] = useState<ProcessedOrderbookData | null>(null);
+  const [state, setState] = useState<PlaybackState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const engineRef = useRef<SessionPlaybackEngine | null>(null);
+  const timeRangeRef = useRef(timeRange);
+
+  const loadRecords = useCallback((records: SessionRecord[]) => {
+    engineRef.current?.dispose();
+    engineRef.current = null;
+
+    try {
+      const engine = new SessionPlaybackEngine(records);
+      engine.onFrame(setFrame);
+      engine.onState(setState);
+      engine.setTimeRange(timeRangeRef.current);
+      engine.seek(engine.getState().startTime);
+      engineRef.current = engine;
+      setError(null);
+    } catch (err) {
+      setFrame(null);
+      setState(null);
+      setError((err as Error).message);
+    }
+  }, []);
+
+  const loadText = useCallback((text: string) => {
+    loadRecords(parseSessionFile(text));
+  }, [loadRecords]);
+
+  const loadRecordedSession = useCallback(async (fileName: string) => {
+    try {
+      const response = await fetch(`/api/sessions?file=${encodeURIComponent(fileName)}`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      loadText(await response.text());
+    } catch (err) {
+      setError(`Failed to load ${fileName}: ${(err as Error).message}`);
+    }
+  }, [loadText]);
+
+  // Keep the engine window in sync with the selected time range
+  useEffect(() => {
+    timeRangeRef.current = timeRange;
+    engineRef.current?.setTimeRange(timeRange);
+  }, [timeRange]);
+
+  useEffect(() => {
+    return () => {
+      engineRef.current?.dispose();
+    };
+  }, []);
+
+  const play = useCallback(() => engineRef.current?.play(), []);
+  const pause = useCallback(() => engineRef.current?.pause(), []);
+  const stepForward = useCallback(() => engineRef.current?.stepForward(), []);
+  const seek = useCallback((timestamp: number) => engineRef.current?.seek(timestamp), []);
+  const setSpeed = useCallback((speed: number) => engineRef.current?.setSpeed(speed), []);
+
+  return {
+    frame,
+    state,
+    error,
+    loadText,
+    loadRecordedSession,
+    play,
+    pause,
+    stepForward,
+    seek,
+    setSpeed
+  };
+};
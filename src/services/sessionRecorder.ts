@@ -0,0 +1,283 @@
+import { OrderbookLevel, OrderbookSnapshot, OrderbookUpdate, SessionRecord, TradeEvent } from '@/types/orderbook';
+import { serializeSessionRecord } from '@/utils/sessionFormat';
+
+export interface SessionSink {
+  append(fileName: string, chunk: string): Promise<void>;
+}
+
+export interface RecorderOptions {
+  maxFileBytes: number;
+  maxFileDuration: number; // ms
+}
+
+export interface RecorderStatus {
+  state: 'idle' | 'awaiting_snapshot' | 'recording';
+  symbol: string;
+  currentFile: string | null;
+  currentFileBytes: number;
+  recordsWritten: number;
+  files: string[];
+  startedAt: number;
+  lastError: string | null;
+}
+
+const DEFAULT_RECORDER_OPTIONS: RecorderOptions = {
+  maxFileBytes: 50 * 1024 * 1024, // 50 MB
+  maxFileDuration: 60 * 60 * 1000 // 1 hour
+};
+
+/**
+ * Appends chunks to `sessions/<file>` through the local sessions API route
+ */
+export class HttpSessionSink implements SessionSink {
+  private endpoint: string;
+
+  constructor(endpoint: string = '/api/sessions') {
+    this.endpoint = endpoint;
+  }
+
+  public async append(fileName: string, chunk: string): Promise<void> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ file: fileName, chunk })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Session write failed: HTTP ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Records the raw snapshot and every raw depth diff as newline-delimited
+ * session records. Files rotate by size or age; each new file starts with a
+ * snapshot rebuilt from the recorder's own raw book so it replays standalone.
+ */
+export class SessionRecorder {
+  private sink: SessionSink;
+  private options: RecorderOptions;
+  private status: RecorderStatus;
+  private pendingUpdates: OrderbookUpdate[] = [];
+  private lines: string[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+  private flushInterval: NodeJS.Timeout | null = null;
+  private fileStartedAt: number = 0;
+
+  // Raw book kept only to synthesize snapshots on rotation
+  private bids: Map<string, string> = new Map();
+  private asks: Map<string, string> = new Map();
+  private lastUpdateId: number = 0;
+
+  private onStatusCallback?: (status: RecorderStatus) => void;
+
+  private readonly FLUSH_INTERVAL = 1000;
+
+  constructor(sink: SessionSink = new HttpSessionSink(), options: Partial<RecorderOptions> = {}) {
+    this.sink = sink;
+    this.options = { ...DEFAULT_RECORDER_OPTIONS, ...options };
+    this.status = this.createIdleStatus('');
+  }
+
+  // Public methods
+
+  /**
+   * Start a recording. Diffs are held until the first snapshot arrives so every
+   * file begins with a snapshot.
+   */
+  public start(symbol: string, options: Partial<RecorderOptions> = {}): void {
+    if (this.status.state !== 'idle') return;
+
+    this.options = { ...this.options, ...options };
+    this.status = {
+      ...this.createIdleStatus(symbol.toUpperCase()),
+      state: 'awaiting_snapshot',
+      startedAt: Date.now()
+    };
+    this.pendingUpdates = [];
+    this.bids.clear();
+    this.asks.clear();
+
+    this.flushInterval = setInterval(() => this.flush(), this.FLUSH_INTERVAL);
+    this.notifyStatus();
+  }
+
+  public async stop(): Promise<void> {
+    if (this.status.state === 'idle') return;
+
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+
+    this.flush();
+    await this.writeChain;
+
+    this.status = { ...this.status, state: 'idle', currentFile: null, currentFileBytes: 0 };
+    this.pendingUpdates = [];
+    this.notifyStatus();
+  }
+
+  public recordSnapshot(snapshot: OrderbookSnapshot): void {
+    if (this.status.state === 'idle') return;
+
+    this.bids = new Map(snapshot.bids.map(level => [level.price, level.quantity]));
+    this.asks = new Map(snapshot.asks.map(level => [level.price, level.quantity]));
+    this.lastUpdateId = snapshot.lastUpdateId;
+
+    if (this.status.state === 'awaiting_snapshot') {
+      this.openFile();
+      this.status.state = 'recording';
+    }
+
+    this.write({ t: Date.now(), type: 'snapshot', data: snapshot });
+
+    // Diffs received before the first snapshot follow it; consumers drop stale ones
+    const pending = this.pendingUpdates;
+    this.pendingUpdates = [];
+    pending.forEach(update => this.recordUpdate(update));
+  }
+
+  public recordUpdate(update: OrderbookUpdate): void {
+    if (this.status.state === 'idle') return;
+
+    if (this.status.state === 'awaiting_snapshot') {
+      this.pendingUpdates.push(update);
+      return;
+    }
+
+    if (this.shouldRotate()) {
+      this.rotate();
+    }
+
+    // Stale diffs are still recorded, but the rotation book only takes ones past the snapshot
+    if (update.finalUpdateId > this.lastUpdateId) {
+      this.applyLevels(this.bids, update.bids);
+      this.applyLevels(this.asks, update.asks);
+      this.lastUpdateId = update.finalUpdateId;
+    }
+
+    this.write({ t: Date.now(), type: 'update', data: update });
+  }
+
+  /**
+   * Record an executed trade. Prints before the first snapshot are dropped,
+   * since there is no book yet to place them against.
+   */
+  public recordTrade(trade: TradeEvent): void {
+    if (this.status.state !== 'recording') return;
+
+    this.write({ t: Date.now(), type: 'trade', data: trade });
+  }
+
+  public onStatus(callback: (status: RecorderStatus) => void): void {
+    this.onStatusCallback = callback;
+  }
+
+  public getStatus(): RecorderStatus {
+    return { ...this.status, files: [...this.status.files] };
+  }
+
+  public isRecording(): boolean {
+    return this.status.state !== 'idle';
+  }
+
+  // Private methods
+  private write(record: SessionRecord): void {
+    const line = serializeSessionRecord(record);
+    this.lines.push(line);
+    this.status.currentFileBytes += line.length;
+    this.status.recordsWritten++;
+  }
+
+  private flush(): void {
+    const fileName = this.status.currentFile;
+    if (!fileName || this.lines.length === 0) return;
+
+    const chunk = this.lines.join('');
+    this.lines = [];
+
+    // Chain writes so chunks land in order
+    this.writeChain = this.writeChain
+      .then(() => this.sink.append(fileName, chunk))
+      .then(() => {
+        if (this.status.lastError) {
+          this.status.lastError = null;
+        }
+      })
+      .catch((error: Error) => {
+        console.error('Session recorder write failed:', error);
+        this.status.lastError = error.message;
+      })
+      .finally(() => this.notifyStatus());
+  }
+
+  private shouldRotate(): boolean {
+    return (
+      this.status.currentFileBytes >= this.options.maxFileBytes ||
+      Date.now() - this.fileStartedAt >= this.options.maxFileDuration
+    );
+  }
+
+  private rotate(): void {
+    this.flush();
+    this.openFile();
+    this.write({ t: Date.now(), type: 'snapshot', data: this.buildSnapshot() });
+  }
+
+  private openFile(): void {
+    const stamp = new Date(this.status.startedAt).toISOString().replace(/[:.]/g, '-');
+    const part = String(this.status.files.length + 1).padStart(3, '0');
+    const fileName = `${this.status.symbol.toLowerCase()}-${stamp}-${part}.ndjson`;
+
+    this.status.currentFile = fileName;
+    this.status.currentFileBytes = 0;
+    this.status.files = [...this.status.files, fileName];
+    this.fileStartedAt = Date.now();
+    this.notifyStatus();
+  }
+
+  private buildSnapshot(): OrderbookSnapshot {
+    const toLevels = (side: Map<string, string>, descending: boolean): OrderbookLevel[] =>
+      Array.from(side.entries())
+        .sort((a, b) => descending ? parseFloat(b[0]) - parseFloat(a[0]) : parseFloat(a[0]) - parseFloat(b[0]))
+        .map(([price, quantity]) => ({ price, quantity }));
+
+    return {
+      bids: toLevels(this.bids, true),
+      asks: toLevels(this.asks, false),
+      lastUpdateId: this.lastUpdateId,
+      symbol: this.status.symbol,
+      timestamp: Date.now()
+    };
+  }
+
+  private applyLevels(side: Map<string, string>, levels: OrderbookLevel[]): void {
+    levels.forEach(level => {
+      if (parseFloat(level.quantity) === 0) {
+        side.delete(level.price);
+      } else {
+        side.set(level.price, level.quantity);
+      }
+    });
+  }
+
+  private createIdleStatus(symbol: string): RecorderStatus {
+    return {
+      state: 'idle',
+      symbol,
+      currentFile: null,
+      currentFileBytes: 0,
+      recordsWritten: 0,
+      files: [],
+      startedAt: 0,
+      lastError: null
+    };
+  }
+
+  private notifyStatus(): void {
+    if (this.onStatusCallback) {
+      this.onStatusCallback(this.getStatus());
+    }
+  }
+}
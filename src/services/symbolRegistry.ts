@@ -0,0 +1,163 @@
+import cachedExchangeInfo from '@/data/exchangeInfo.json';
+
+/**
+ * Symbol entry in Binance `GET /api/v3/exchangeInfo` shape. `referencePrice`
+ * is a local addition used by the simulator; the exchange never sends it.
+ */
+export interface ExchangeInfoSymbol {
+  symbol: string;
+  status?: string;
+  baseAsset: string;
+  quoteAsset: string;
+  baseAssetPrecision?: number;
+  quotePrecision?: number;
+  filters: Array<{ filterType: string; [key: string]: unknown }>;
+  referencePrice?: number;
+}
+
+export interface ExchangeInfo {
+  symbols: ExchangeInfoSymbol[];
+}
+
+export interface SymbolInfo {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  tickSize: string;
+  stepSize: string;
+  minQty: string;
+  minNotional: string;
+  pricePrecision: number; // Decimals implied by tickSize
+  quantityPrecision: number; // Decimals implied by stepSize
+  referencePrice: number; // Typical price, seeds the simulator
+  known: boolean; // False for the generic fallback of an unlisted symbol
+}
+
+const QUOTE_ASSETS = ['USDT', 'USDC', 'USD', 'EUR', 'BTC', 'ETH'];
+
+// Applied to symbols missing from exchangeInfo
+const GENERIC_SYMBOL = {
+  tickSize: '0.00000001',
+  stepSize: '0.00000001',
+  minQty: '0',
+  minNotional: '0',
+  referencePrice: 100
+};
+
+/**
+ * Per-symbol trading metadata (tick size, lot size, assets, precision) loaded
+ * from a cached exchangeInfo document. Lookups never fail: unlisted symbols get
+ * a generic 8-decimal entry with assets guessed from the symbol name.
+ */
+export class SymbolRegistry {
+  private symbols: Map<string, SymbolInfo> = new Map();
+
+  constructor(exchangeInfo?: ExchangeInfo) {
+    if (exchangeInfo) {
+      this.load(exchangeInfo);
+    }
+  }
+
+  // Public methods
+
+  /**
+   * Add or replace the symbols of an exchangeInfo document
+   */
+  public load(exchangeInfo: ExchangeInfo): void {
+    exchangeInfo.symbols.forEach(entry => {
+      const info = this.parseSymbol(entry);
+      this.symbols.set(info.symbol, info);
+    });
+  }
+
+  public get(symbol: string): SymbolInfo {
+    const upper = symbol.toUpperCase();
+    return this.symbols.get(upper) ?? this.createGeneric(upper);
+  }
+
+  public has(symbol: string): boolean {
+    return this.symbols.has(symbol.toUpperCase());
+  }
+
+  public list(): SymbolInfo[] {
+    return Array.from(this.symbols.values());
+  }
+
+  public getPrecision(symbol: string): { tickSize: string; stepSize: string } {
+    const { tickSize, stepSize } = this.get(symbol);
+    return { tickSize, stepSize };
+  }
+
+  public formatPrice(symbol: string, price: number): string {
+    return price.toFixed(this.get(symbol).pricePrecision);
+  }
+
+  public formatQuantity(symbol: string, quantity: number): string {
+    return quantity.toFixed(this.get(symbol).quantityPrecision);
+  }
+
+  /**
+   * Split a Binance-style symbol (e.g. BTCUSDT) into base and quote assets
+   */
+  public splitSymbol(symbol: string): { base: string; quote: string } {
+    const { baseAsset, quoteAsset } = this.get(symbol);
+    return { base: baseAsset, quote: quoteAsset };
+  }
+
+  // Private methods
+  private parseSymbol(entry: ExchangeInfoSymbol): SymbolInfo {
+    const filter = (type: string) => entry.filters.find(item => item.filterType === type);
+    const priceFilter = filter('PRICE_FILTER');
+    const lotSize = filter('LOT_SIZE');
+    const notional = filter('NOTIONAL') ?? filter('MIN_NOTIONAL');
+
+    const tickSize = normalizeDecimal(priceFilter?.tickSize, GENERIC_SYMBOL.tickSize);
+    const stepSize = normalizeDecimal(lotSize?.stepSize, GENERIC_SYMBOL.stepSize);
+
+    return {
+      symbol: entry.symbol.toUpperCase(),
+      baseAsset: entry.baseAsset,
+      quoteAsset: entry.quoteAsset,
+      tickSize,
+      stepSize,
+      minQty: normalizeDecimal(lotSize?.minQty, GENERIC_SYMBOL.minQty),
+      minNotional: normalizeDecimal(notional?.minNotional, GENERIC_SYMBOL.minNotional),
+      pricePrecision: countDecimals(tickSize),
+      quantityPrecision: countDecimals(stepSize),
+      referencePrice: entry.referencePrice ?? GENERIC_SYMBOL.referencePrice,
+      known: true
+    };
+  }
+
+  private createGeneric(symbol: string): SymbolInfo {
+    const quote = QUOTE_ASSETS.find(asset => symbol.endsWith(asset) && symbol.length > asset.length);
+
+    return {
+      symbol,
+      baseAsset: quote ? symbol.slice(0, -quote.length) : symbol,
+      quoteAsset: quote ?? '',
+      tickSize: GENERIC_SYMBOL.tickSize,
+      stepSize: GENERIC_SYMBOL.stepSize,
+      minQty: GENERIC_SYMBOL.minQty,
+      minNotional: GENERIC_SYMBOL.minNotional,
+      pricePrecision: countDecimals(GENERIC_SYMBOL.tickSize),
+      quantityPrecision: countDecimals(GENERIC_SYMBOL.stepSize),
+      referencePrice: GENERIC_SYMBOL.referencePrice,
+      known: false
+    };
+  }
+}
+
+// Strip exchangeInfo's zero padding: '0.01000000' -> '0.01'
+function normalizeDecimal(value: unknown, fallback: string): string {
+  if (typeof value !== 'string' || value.trim() === '') return fallback;
+  const trimmed = value.trim();
+  return trimmed.includes('.') ? trimmed.replace(/0+$/, '').replace(/\.$/, '') : trimmed;
+}
+
+function countDecimals(value: string): number {
+  const dot = value.indexOf('.');
+  return dot === -1 ? 0 : value.length - dot - 1;
+}
+
+export const symbolRegistry = new SymbolRegistry(cachedExchangeInfo as ExchangeInfo);
@@ -0,0 +1,256 @@
+import { OrderbookLevel, VenueConfig } from '@/types/orderbook';
+import { BinanceWebSocketService, BINANCE_REST_URL, BINANCE_WS_URL } from '@/services/binanceWebSocket';
+import { symbolRegistry } from '@/services/symbolRegistry';
+import { SymbolPrecision, getSymbolPrecision } from '@/utils/fixedPoint';
+
+// Normalized depth event produced by every venue adapter
+export interface VenueDepthEvent {
+  type: 'snapshot' | 'update';
+  bids: OrderbookLevel[];
+  asks: OrderbookLevel[];
+  timestamp: number;
+  // Exchange sequence range, when the venue provides one
+  sequence?: {
+    first: number;
+    final: number;
+  };
+}
+
+export interface VenueAdapter {
+  readonly config: VenueConfig;
+  // Number of levels the venue keeps per side; the client must truncate to it
+  readonly bookDepth?: number;
+  // Price and quantity grid of the venue's market; without one, DEFAULT_PRECISION
+  getPrecision?(symbol: string): SymbolPrecision;
+  getStreamUrl(symbol: string): string;
+  getSubscribeMessage(symbol: string): string | null;
+  fetchSnapshot?(symbol: string, depth: number): Promise<VenueDepthEvent>;
+  parseMessage(message: unknown): VenueDepthEvent | null;
+}
+
+export const DEFAULT_VENUES: VenueConfig[] = [
+  {
+    id: 'binance',
+    name: 'Binance',
+    baseUrl: BINANCE_REST_URL,
+    wsUrl: BINANCE_WS_URL,
+    enabled: true,
+    color: '#f0b90b'
+  },
+  {
+    id: 'coinbase',
+    name: 'Coinbase',
+    baseUrl: 'https://api.exchange.coinbase.com',
+    wsUrl: 'wss://ws-feed.exchange.coinbase.com',
+    enabled: true,
+    color: '#0052ff'
+  },
+  {
+    id: 'kraken',
+    name: 'Kraken',
+    baseUrl: 'https://api.kraken.com',
+    wsUrl: 'wss://ws.kraken.com',
+    enabled: true,
+    color: '#7b61ff'
+  }
+];
+
+/**
+ * Split a Binance-style symbol (e.g. BTCUSDT) into base and quote assets
+ */
+export function splitSymbol(symbol: string): { base: string; quote: string } {
+  return symbolRegistry.splitSymbol(symbol);
+}
+
+const toLevels = (entries: unknown): OrderbookLevel[] => {
+  if (!Array.isArray(entries)) return [];
+  return entries.map((entry: string[]) => ({ price: entry[0], quantity: entry[1] }));
+};
+
+/**
+ * Binance spot diff depth stream (`<symbol>@depth`) seeded from the REST snapshot
+ */
+export class BinanceVenueAdapter implements VenueAdapter {
+  public readonly config: VenueConfig;
+
+  constructor(config: VenueConfig) {
+    this.config = config;
+  }
+
+  public getPrecision(symbol: string): SymbolPrecision {
+    return getSymbolPrecision(symbol);
+  }
+
+  public getStreamUrl(symbol: string): string {
+    return `${this.config.wsUrl}/ws/${symbol.toLowerCase()}@depth`;
+  }
+
+  public getSubscribeMessage(): string | null {
+    return null;
+  }
+
+  public async fetchSnapshot(symbol: string, depth: number): Promise<VenueDepthEvent> {
+    const snapshot = await BinanceWebSocketService.getOrderbookSnapshot(symbol, depth);
+    return {
+      type: 'snapshot',
+      bids: snapshot.bids,
+      asks: snapshot.asks,
+      timestamp: snapshot.timestamp,
+      sequence: { first: snapshot.lastUpdateId, final: snapshot.lastUpdateId }
+    };
+  }
+
+  public parseMessage(message: unknown): VenueDepthEvent | null {
+    const data = message as { e?: string; E?: number; U?: number; u?: number; b?: string[][]; a?: string[][] };
+    if (data?.e !== 'depthUpdate') return null;
+
+    return {
+      type: 'update',
+      bids: toLevels(data.b),
+      asks: toLevels(data.a),
+      timestamp: data.E ?? Date.now(),
+      sequence: { first: data.U ?? 0, final: data.u ?? 0 }
+    };
+  }
+}
+
+/**
+ * Coinbase Exchange `level2_batch` channel (snapshot + l2update messages)
+ */
+export class CoinbaseVenueAdapter implements VenueAdapter {
+  public readonly config: VenueConfig;
+
+  constructor(config: VenueConfig) {
+    this.config = config;
+  }
+
+  public getStreamUrl(): string {
+    return this.config.wsUrl;
+  }
+
+  public getSubscribeMessage(symbol: string): string | null {
+    const { base, quote } = splitSymbol(symbol);
+    return JSON.stringify({
+      type: 'subscribe',
+      product_ids: [`${base}-${quote}`],
+      channels: ['level2_batch']
+    });
+  }
+
+  public parseMessage(message: unknown): VenueDepthEvent | null {
+    const data = message as {
+      type?: string;
+      time?: string;
+      bids?: string[][];
+      asks?: string[][];
+      changes?: string[][];
+    };
+
+    if (data?.type === 'snapshot') {
+      return {
+        type: 'snapshot',
+        bids: toLevels(data.bids),
+        asks: toLevels(data.asks),
+        timestamp: Date.now()
+      };
+    }
+
+    if (data?.type === 'l2update' && Array.isArray(data.changes)) {
+      const bids: OrderbookLevel[] = [];
+      const asks: OrderbookLevel[] = [];
+
+      data.changes.forEach(([side, price, quantity]) => {
+        (side === 'buy' ? bids : asks).push({ price, quantity });
+      });
+
+      return {
+        type: 'update',
+        bids,
+        asks,
+        timestamp: data.time ? Date.parse(data.time) : Date.now()
+      };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Kraken WebSocket v1 `book` channel. Messages are positional arrays:
+ * `[channelId, payload..., channelName, pair]`.
+ */
+export class KrakenVenueAdapter implements VenueAdapter {
+  public readonly config: VenueConfig;
+  public readonly bookDepth = 25;
+
+  constructor(config: VenueConfig) {
+    this.config = config;
+  }
+
+  public getStreamUrl(): string {
+    return this.config.wsUrl;
+  }
+
+  public getSubscribeMessage(symbol: string): string | null {
+    const { base, quote } = splitSymbol(symbol);
+    // Kraken uses XBT for bitcoin
+    const krakenBase = base === 'BTC' ? 'XBT' : base;
+    return JSON.stringify({
+      event: 'subscribe',
+      pair: [`${krakenBase}/${quote}`],
+      subscription: { name: 'book', depth: this.bookDepth }
+    });
+  }
+
+  public parseMessage(message: unknown): VenueDepthEvent | null {
+    // Event messages (heartbeat, subscriptionStatus) are objects, book data is an array
+    if (!Array.isArray(message) || message.length < 4) return null;
+
+    const payloads = message.slice(1, -2) as Array<Record<string, string[][]>>;
+    const bids: OrderbookLevel[] = [];
+    const asks: OrderbookLevel[] = [];
+    let isSnapshot = false;
+    let timestamp = 0;
+
+    payloads.forEach(payload => {
+      if (payload.bs || payload.as) {
+        isSnapshot = true;
+      }
+
+      const bidLevels = payload.bs || payload.b || [];
+      const askLevels = payload.as || payload.a || [];
+
+      bidLevels.forEach(level => {
+        bids.push({ price: level[0], quantity: level[1] });
+        timestamp = Math.max(timestamp, parseFloat(level[2]) * 1000);
+      });
+      askLevels.forEach(level => {
+        asks.push({ price: level[0], quantity: level[1] });
+        timestamp = Math.max(timestamp, parseFloat(level[2]) * 1000);
+      });
+    });
+
+    if (bids.length === 0 && asks.length === 0) return null;
+
+    return {
+      type: isSnapshot ? 'snapshot' : 'update',
+      bids,
+      asks,
+      timestamp: timestamp || Date.now()
+    };
+  }
+}
+
+export function createVenueAdapter(config: VenueConfig): VenueAdapter | null {
+  switch (config.id) {
+    case 'binance':
+      return new BinanceVenueAdapter(config);
+    case 'coinbase':
+      return new CoinbaseVenueAdapter(config);
+    case 'kraken':
+      return new KrakenVenueAdapter(config);
+    default:
+      console.warn(`No depth adapter for venue: ${config.id}`);
+      return null;
+  }
+}
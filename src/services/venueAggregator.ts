@@ -0,0 +1,480 @@
+import { ConnectionState, OrderbookEntry, OrderbookLevel, ProcessedOrderbookData, VenueConfig } from '@/types/orderbook';
+import { VenueAdapter, VenueDepthEvent, createVenueAdapter } from '@/services/venueAdapters';
+import { FixedPointCodec } from '@/utils/fixedPoint';
+
+interface VenueBookState {
+  adapter: VenueAdapter;
+  codec: FixedPointCodec; // The venue's own tick grid; other venues quote finer than Binance
+  ws: WebSocket | null;
+  bids: Map<number, OrderbookEntry>; // Keyed by price in ticks
+  asks: Map<number, OrderbookEntry>;
+  hasSnapshot: boolean;
+  lastSequence: number;
+  pending: VenueDepthEvent[];
+  snapshotGeneration: number; // Bumped whenever the book resets, so stale snapshot loads are dropped
+  snapshotLoading: boolean;
+  snapshotAttempts: number;
+  snapshotTimeout: NodeJS.Timeout | null;
+  status: ConnectionState;
+  reconnectAttempts: number;
+  reconnectTimeout: NodeJS.Timeout | null;
+}
+
+/**
+ * Maintains one book per venue and merges them into a consolidated book where every
+ * entry is tagged with the venue it came from.
+ */
+export class VenueAggregator {
+  private symbol: string;
+  private venues: Map<string, VenueBookState> = new Map();
+  private isRunning: boolean = false;
+  private emitTimeout: NodeJS.Timeout | null = null;
+
+  // Callbacks
+  private onDataCallback?: (data: ProcessedOrderbookData) => void;
+  private onVenueStatusCallback?: (venueId: string, status: ConnectionState) => void;
+  private onErrorCallback?: (error: string) => void;
+
+  // Configuration
+  private readonly DEPTH_PER_VENUE = 20; // Levels per venue in the consolidated book
+  private readonly SNAPSHOT_DEPTH = 1000; // Diffs reach far below the displayed levels, so seed the full book
+  private readonly EMIT_INTERVAL = 250; // Throttle consolidated book updates
+  private readonly MAX_RECONNECT_ATTEMPTS = 5;
+  private readonly MAX_SNAPSHOT_ATTEMPTS = 5;
+  private readonly MAX_PENDING_UPDATES = 1000; // Diffs held while a venue waits for its snapshot
+  private readonly RECONNECT_BASE_DELAY = 1000;
+
+  constructor(symbol: string, venues: VenueConfig[]) {
+    this.symbol = symbol.toUpperCase();
+
+    venues.filter(venue => venue.enabled).forEach(venue => {
+      const adapter = createVenueAdapter(venue);
+      if (!adapter) return;
+
+      this.venues.set(venue.id, {
+        adapter,
+        codec: new FixedPointCodec(adapter.getPrecision?.(this.symbol)),
+        ws: null,
+        bids: new Map(),
+        asks: new Map(),
+        hasSnapshot: false,
+        lastSequence: 0,
+        pending: [],
+        snapshotGeneration: 0,
+        snapshotLoading: false,
+        snapshotAttempts: 0,
+        snapshotTimeout: null,
+        status: 'disconnected',
+        reconnectAttempts: 0,
+        reconnectTimeout: null
+      });
+    });
+  }
+
+  // Public methods
+
+  /**
+   * Connect every venue. Resolves once at least one venue is streaming.
+   */
+  public async connect(): Promise<void> {
+    this.isRunning = true;
+
+    const results = await Promise.allSettled(
+      Array.from(this.venues.keys()).map(venueId => this.connectVenue(venueId))
+    );
+
+    if (!results.some(result => result.status === 'fulfilled')) {
+      this.disconnect();
+      throw new Error('Unable to connect to any venue');
+    }
+  }
+
+  public disconnect(): void {
+    this.isRunning = false;
+
+    if (this.emitTimeout) {
+      clearTimeout(this.emitTimeout);
+      this.emitTimeout = null;
+    }
+
+    this.venues.forEach((state, venueId) => {
+      if (state.reconnectTimeout) {
+        clearTimeout(state.reconnectTimeout);
+        state.reconnectTimeout = null;
+      }
+      if (state.ws) {
+        state.ws.close(1000);
+        state.ws = null;
+      }
+      this.resetBook(state);
+      this.setVenueStatus(venueId, 'disconnected');
+    });
+  }
+
+  // Callback setters
+  public onData(callback: (data: ProcessedOrderbookData) => void): void {
+    this.onDataCallback = callback;
+  }
+
+  public onVenueStatus(callback: (venueId: string, status: ConnectionState) => void): void {
+    this.onVenueStatusCallback = callback;
+  }
+
+  public onError(callback: (error: string) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  // Getters
+  public getVenueStatuses(): Record<string, ConnectionState> {
+    const statuses: Record<string, ConnectionState> = {};
+    this.venues.forEach((state, venueId) => {
+      statuses[venueId] = state.status;
+    });
+    return statuses;
+  }
+
+  public getConsolidatedBook(): ProcessedOrderbookData {
+    const books = Array.from(this.venues.entries()).map(([venueId, state]) => ({
+      venueId,
+      bids: Array.from(state.bids.values()),
+      asks: Array.from(state.asks.values())
+    }));
+    return VenueAggregator.mergeVenueBooks(books, this.DEPTH_PER_VENUE);
+  }
+
+  /**
+   * Merge per-venue books into one consolidated book, keeping the top `depth`
+   * levels of each venue and tagging every entry with its venue id.
+   */
+  public static mergeVenueBooks(
+    books: Array<{ venueId: string; bids: OrderbookEntry[]; asks: OrderbookEntry[] }>,
+    depth: number
+  ): ProcessedOrderbookData {
+    const bids: OrderbookEntry[] = [];
+    const asks: OrderbookEntry[] = [];
+
+    books.forEach(book => {
+      [...book.bids]
+        .sort((a, b) => b.price - a.price)
+        .slice(0, depth)
+        .forEach(entry => bids.push({ ...entry, venue: book.venueId }));
+      [...book.asks]
+        .sort((a, b) => a.price - b.price)
+        .slice(0, depth)
+        .forEach(entry => asks.push({ ...entry, venue: book.venueId }));
+    });
+
+    bids.sort((a, b) => b.price - a.price);
+    asks.sort((a, b) => a.price - b.price);
+
+    let maxQuantity = 0;
+    let minPrice = Infinity;
+    let maxPrice = -Infinity;
+    [...bids, ...asks].forEach(entry => {
+      maxQuantity = Math.max(maxQuantity, entry.quantity);
+      minPrice = Math.min(minPrice, entry.price);
+      maxPrice = Math.max(maxPrice, entry.price);
+    });
+
+    return {
+      bids,
+      asks,
+      maxQuantity: maxQuantity || 1,
+      priceRange: {
+        min: isFinite(minPrice) ? minPrice : 0,
+        max: isFinite(maxPrice) ? maxPrice : 1
+      }
+    };
+  }
+
+  // Private methods
+  private connectVenue(venueId: string): Promise<void> {
+    const state = this.venues.get(venueId);
+    if (!state) return Promise.reject(new Error(`Unknown venue: ${venueId}`));
+
+    const { adapter } = state;
+    this.setVenueStatus(venueId, 'connecting');
+
+    return new Promise((resolve, reject) => {
+      try {
+        const ws = new WebSocket(adapter.getStreamUrl(this.symbol));
+        state.ws = ws;
+
+        ws.onopen = () => {
+          console.log(`Connected to ${adapter.config.name} depth stream for ${this.symbol}`);
+          state.reconnectAttempts = 0;
+          this.setVenueStatus(venueId, 'connected');
+
+          const subscribeMessage = adapter.getSubscribeMessage(this.symbol);
+          if (subscribeMessage) {
+            ws.send(subscribeMessage);
+          }
+
+          if (adapter.fetchSnapshot) {
+            this.loadSnapshot(venueId);
+          }
+          resolve();
+        };
+
+        ws.onmessage = (event) => {
+          try {
+            const depthEvent = adapter.parseMessage(JSON.parse(event.data));
+            if (depthEvent) {
+              this.handleDepthEvent(venueId, depthEvent);
+            }
+          } catch (error) {
+            console.error(`Error parsing ${adapter.config.name} message:`, error);
+          }
+        };
+
+        ws.onerror = () => {
+          const errorMessage = `${adapter.config.name} connection failed for ${this.symbol}`;
+          console.error(errorMessage);
+          this.setVenueStatus(venueId, 'error');
+          if (this.onErrorCallback) {
+            this.onErrorCallback(errorMessage);
+          }
+          reject(new Error(errorMessage));
+        };
+
+        ws.onclose = (event) => {
+          state.ws = null;
+          this.resetBook(state);
+          this.scheduleEmit();
+
+          if (this.isRunning && event.code !== 1000) {
+            this.scheduleReconnect(venueId);
+          } else {
+            this.setVenueStatus(venueId, 'disconnected');
+          }
+        };
+      } catch (error) {
+        this.setVenueStatus(venueId, 'error');
+        reject(error);
+      }
+    });
+  }
+
+  private async loadSnapshot(venueId: string): Promise<void> {
+    const state = this.venues.get(venueId);
+    if (!state?.adapter.fetchSnapshot) return;
+
+    const generation = state.snapshotGeneration;
+    state.snapshotLoading = true;
+
+    try {
+      const snapshot = await state.adapter.fetchSnapshot(this.symbol, this.SNAPSHOT_DEPTH);
+      // The book was reset (reconnect, gap or disconnect) while this request was out
+      if (generation !== state.snapshotGeneration) return;
+
+      state.snapshotLoading = false;
+      state.snapshotAttempts = 0;
+      this.applySnapshot(state, snapshot);
+
+      // Replay diffs received while the snapshot was loading
+      const pending = state.pending;
+      state.pending = [];
+      const gap = pending.findIndex(update => !this.applyUpdate(state, update));
+      if (gap !== -1) {
+        this.reloadSnapshot(venueId, pending.slice(gap));
+        return;
+      }
+      this.scheduleEmit();
+    } catch (error) {
+      if (generation !== state.snapshotGeneration) return;
+
+      state.snapshotLoading = false;
+      this.scheduleSnapshotRetry(venueId, error);
+    }
+  }
+
+  /**
+   * Retry a failed snapshot with exponential backoff, then report it. A later
+   * buffer overflow starts a fresh round of attempts.
+   */
+  private scheduleSnapshotRetry(venueId: string, error: unknown): void {
+    const state = this.venues.get(venueId);
+    if (!state || !this.isRunning) return;
+
+    const name = state.adapter.config.name;
+    if (state.snapshotAttempts >= this.MAX_SNAPSHOT_ATTEMPTS) {
+      console.error(`Failed to load ${name} snapshot:`, error);
+      if (this.onErrorCallback) {
+        this.onErrorCallback(`${name} snapshot unavailable`);
+      }
+      return;
+    }
+
+    state.snapshotAttempts++;
+    const delay = this.RECONNECT_BASE_DELAY * Math.pow(2, state.snapshotAttempts - 1);
+    console.warn(`${name} snapshot failed, retrying in ${delay}ms:`, error);
+    state.snapshotTimeout = setTimeout(() => {
+      state.snapshotTimeout = null;
+      this.loadSnapshot(venueId);
+    }, delay);
+  }
+
+  private handleDepthEvent(venueId: string, event: VenueDepthEvent): void {
+    const state = this.venues.get(venueId);
+    if (!state) return;
+
+    if (event.type === 'snapshot') {
+      this.applySnapshot(state, event);
+    } else if (!state.hasSnapshot) {
+      state.pending.push(event);
+      if (state.pending.length > this.MAX_PENDING_UPDATES) {
+        // Keep the newest diffs; a snapshot older than them shows up as a gap on replay
+        state.pending = state.pending.slice(-this.MAX_PENDING_UPDATES / 2);
+        if (state.adapter.fetchSnapshot && !state.snapshotLoading && !state.snapshotTimeout) {
+          this.reloadSnapshot(venueId, state.pending);
+        }
+      }
+      return;
+    } else if (!this.applyUpdate(state, event)) {
+      this.reloadSnapshot(venueId, [event]);
+      return;
+    }
+
+    this.scheduleEmit();
+  }
+
+  private applySnapshot(state: VenueBookState, snapshot: VenueDepthEvent): void {
+    state.bids.clear();
+    state.asks.clear();
+    this.applyLevels(state, state.bids, snapshot.bids, snapshot.timestamp);
+    this.applyLevels(state, state.asks, snapshot.asks, snapshot.timestamp);
+    state.lastSequence = snapshot.sequence?.final ?? 0;
+    state.hasSnapshot = true;
+  }
+
+  /**
+   * Apply a diff; returns false when diffs were missed since the last one and
+   * the venue can reload its snapshot
+   */
+  private applyUpdate(state: VenueBookState, update: VenueDepthEvent): boolean {
+    // Skip diffs already contained in the snapshot
+    if (update.sequence && update.sequence.final <= state.lastSequence) return true;
+
+    if (state.adapter.fetchSnapshot && update.sequence && update.sequence.first > state.lastSequence + 1) {
+      return false;
+    }
+
+    this.applyLevels(state, state.bids, update.bids, update.timestamp);
+    this.applyLevels(state, state.asks, update.asks, update.timestamp);
+
+    if (update.sequence) {
+      state.lastSequence = update.sequence.final;
+    }
+
+    if (state.adapter.bookDepth) {
+      this.truncateSide(state.bids, state.adapter.bookDepth, (a, b) => b - a);
+      this.truncateSide(state.asks, state.adapter.bookDepth, (a, b) => a - b);
+    }
+    return true;
+  }
+
+  /**
+   * Drop a book that missed diffs and rebuild it from a fresh snapshot,
+   * buffering `pending` and later diffs until it arrives
+   */
+  private reloadSnapshot(venueId: string, pending: VenueDepthEvent[]): void {
+    const state = this.venues.get(venueId);
+    if (!state) return;
+
+    console.warn(`${state.adapter.config.name} depth stream for ${this.symbol} skipped updates, reloading snapshot`);
+    this.resetBook(state);
+    state.pending = pending;
+    this.scheduleEmit();
+    this.loadSnapshot(venueId);
+  }
+
+  private applyLevels(
+    state: VenueBookState,
+    side: Map<number, OrderbookEntry>,
+    levels: OrderbookLevel[],
+    timestamp: number
+  ): void {
+    const { codec } = state;
+    levels.forEach(level => {
+      // Ticks parsed from the decimal string, so a removal always matches the level it removes
+      const ticks = codec.parsePrice(level.price);
+      const lots = codec.parseQuantity(level.quantity);
+
+      if (ticks <= 0 || lots < 0) return;
+
+      if (lots === 0) {
+        side.delete(ticks);
+      } else {
+        side.set(ticks, { price: codec.priceToNumber(ticks), quantity: codec.quantityToNumber(lots), timestamp });
+      }
+    });
+  }
+
+  private truncateSide(side: Map<number, OrderbookEntry>, depth: number, compare: (a: number, b: number) => number): void {
+    if (side.size <= depth) return;
+
+    const prices = Array.from(side.keys()).sort(compare);
+    prices.slice(depth).forEach(price => side.delete(price));
+  }
+
+  private resetBook(state: VenueBookState): void {
+    state.bids.clear();
+    state.asks.clear();
+    state.pending = [];
+    state.hasSnapshot = false;
+    state.lastSequence = 0;
+    state.snapshotGeneration++;
+    state.snapshotLoading = false;
+    state.snapshotAttempts = 0;
+    if (state.snapshotTimeout) {
+      clearTimeout(state.snapshotTimeout);
+      state.snapshotTimeout = null;
+    }
+  }
+
+  private scheduleReconnect(venueId: string): void {
+    const state = this.venues.get(venueId);
+    if (!state) return;
+
+    if (state.reconnectAttempts >= this.MAX_RECONNECT_ATTEMPTS) {
+      this.setVenueStatus(venueId, 'error');
+      if (this.onErrorCallback) {
+        this.onErrorCallback(`${state.adapter.config.name}: max reconnection attempts reached`);
+      }
+      return;
+    }
+
+    state.reconnectAttempts++;
+    this.setVenueStatus(venueId, 'connecting');
+
+    const delay = this.RECONNECT_BASE_DELAY * Math.pow(2, state.reconnectAttempts - 1);
+    state.reconnectTimeout = setTimeout(() => {
+      state.reconnectTimeout = null;
+      this.connectVenue(venueId).catch(error => {
+        console.error(`${state.adapter.config.name} reconnection failed:`, error);
+      });
+    }, delay);
+  }
+
+  private scheduleEmit(): void {
+    if (this.emitTimeout || !this.isRunning) return;
+
+    this.emitTimeout = setTimeout(() => {
+      this.emitTimeout = null;
+      const data = this.getConsolidatedBook();
+      if (this.onDataCallback && (data.bids.length > 0 || data.asks.length > 0)) {
+        this.onDataCallback(data);
+      }
+    }, this.EMIT_INTERVAL);
+  }
+
+  private setVenueStatus(venueId: string, status: ConnectionState): void {
+    const state = this.venues.get(venueId);
+    if (!state) return;
+
+    state.status = status;
+    if (this.onVenueStatusCallback) {
+      this.onVenueStatusCallback(venueId, status);
+    }
+  }
+}
@@ -0,0 +1,412 @@
+import { PressureZone, SessionRecord, TradeEvent } from '@/types/orderbook';
+import { PressureZoneAnalyzer } from '@/services/pressureZoneAnalyzer';
+import { DetectorConfig, DetectorConfigMap } from '@/services/zoneDetectors';
+import { AnalyzerConfig } from '@/services/analyzerConfig';
+import { OrderBook } from '@/utils/orderBook';
+
+export interface BacktestOptions {
+  depth: number; // Levels per side handed to the analyzer
+  analysisInterval: number; // Session ms between analysis passes
+  horizon: number; // ms after formation a zone has to be touched and resolved
+  touchTolerance: number; // Fraction of price the zone is widened by for touches
+  bounceThreshold: number; // Fraction beyond the near edge price must recover to after a touch
+  breakThreshold: number; // Fraction beyond the far edge that counts as a break
+  includeZones: boolean; // Keep every scored zone in the result
+}
+
+export interface BacktestParameterSet {
+  name: string;
+  detectors: DetectorConfigMap;
+  analyzer?: Partial<AnalyzerConfig>; // Overrides of the symbol's analyzer thresholds
+}
+
+// 'at_mid': the zone held the mid, or was within touch tolerance of it, when it formed
+export type ZoneOutcome = 'bounced' | 'broken' | 'touched' | 'untouched' | 'expired' | 'at_mid';
+
+export interface ScoredZone {
+  id: string;
+  type: PressureZone['type'];
+  minPrice: number;
+  maxPrice: number;
+  intensity: number;
+  detectors: string[];
+  formedAt: number;
+  midAtFormation: number;
+  outcome: ZoneOutcome;
+  touchedAt?: number;
+  resolvedAt?: number;
+}
+
+/**
+ * Outcome counts for a group of zones. Expired zones (horizon past the end of
+ * the session) and zones that formed at the mid are counted but left out of
+ * the rates.
+ */
+export interface BacktestScore {
+  zones: number;
+  bounced: number;
+  broken: number;
+  touched: number; // Touched but neither bounced nor broke within the horizon
+  untouched: number;
+  expired: number;
+  atMid: number;
+  hitRate: number; // Share of scored zones price reached
+  precision: number; // Share of resolved touches that bounced
+}
+
+export interface BacktestRunResult {
+  parameterSet: string;
+  analyzer: AnalyzerConfig;
+  detectors: Record<string, DetectorConfig>;
+  passes: number;
+  analysisMs: number;
+  overall: BacktestScore;
+  byType: Record<PressureZone['type'], BacktestScore>;
+  byDetector: Record<string, BacktestScore>;
+  zones?: ScoredZone[];
+}
+
+export interface BacktestReport {
+  generatedAt: string;
+  session: {
+    symbol: string;
+    records: number;
+    trades: number;
+    startTime: number;
+    endTime: number;
+  };
+  options: BacktestOptions;
+  runs: BacktestRunResult[];
+}
+
+// A scored zone while its horizon is still open
+interface OpenZone {
+  zone: ScoredZone;
+  touched: boolean;
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  depth: 100,
+  analysisInterval: 1000,
+  horizon: 60000,
+  touchTolerance: 0.0002, // 2bp
+  bounceThreshold: 0.001, // 10bp
+  breakThreshold: 0.0005, // 5bp
+  includeZones: false
+};
+
+export const DEFAULT_PARAMETER_SET: BacktestParameterSet = { name: 'default', detectors: {} };
+
+/**
+ * Fill in the rates of a score from its outcome counts
+ */
+export function scoreFromCounts(counts: Omit<BacktestScore, 'hitRate' | 'precision'>): BacktestScore {
+  const { bounced, broken, touched, untouched } = counts;
+  const scored = bounced + broken + touched + untouched;
+  return {
+    ...counts,
+    hitRate: scored > 0 ? (bounced + broken + touched) / scored : 0,
+    precision: bounced + broken > 0 ? bounced / (bounced + broken) : 0
+  };
+}
+
+/**
+ * Replays a recorded depth/trade session through the pressure zone analyzer
+ * on the session's own clock and scores each support/resistance zone when it
+ * first forms. Within the horizon, price (mid and trade prints) either never
+ * reaches the zone, touches it and bounces back out, touches it and breaks
+ * through the far side, or touches it without resolving. The side price
+ * starts on is where the mid was at formation; zones already at the mid then
+ * have no approach to score and are set aside. Each parameter set
+ * is a separate replay with its own detector settings.
+ */
+export class ZoneBacktester {
+  private records: SessionRecord[];
+  private options: BacktestOptions;
+  private symbol: string;
+
+  constructor(records: SessionRecord[], options: Partial<BacktestOptions> = {}) {
+    const firstSnapshot = records.find(record => record.type === 'snapshot');
+    if (!firstSnapshot) {
+      throw new Error('Session contains no snapshot record');
+    }
+
+    this.records = [...records].sort((a, b) => a.t - b.t);
+    this.options = { ...DEFAULT_BACKTEST_OPTIONS, ...options };
+    this.symbol = firstSnapshot.data.symbol.toUpperCase();
+  }
+
+  // Public methods
+  public runAll(parameterSets: BacktestParameterSet[] = [DEFAULT_PARAMETER_SET]): BacktestReport {
+    return {
+      generatedAt: new Date().toISOString(),
+      session: {
+        symbol: this.symbol,
+        records: this.records.length,
+        trades: this.records.filter(record => record.type === 'trade').length,
+        startTime: this.records[0].t,
+        endTime: this.records[this.records.length - 1].t
+      },
+      options: { ...this.options },
+      runs: parameterSets.map(set => this.run(set))
+    };
+  }
+
+  public getSymbol(): string {
+    return this.symbol;
+  }
+
+  public run(parameterSet: BacktestParameterSet = DEFAULT_PARAMETER_SET): BacktestRunResult {
+    let clock = this.records[0].t;
+    const analyzer = new PressureZoneAnalyzer(this.symbol, () => clock);
+    analyzer.configure(parameterSet.analyzer ?? {});
+    analyzer.configureDetectors(parameterSet.detectors);
+
+    const book = new OrderBook();
+    const open: OpenZone[] = [];
+    const scored: ScoredZone[] = [];
+    const seenIds = new Set<string>();
+    let pendingTrades: TradeEvent[] = [];
+    let lastUpdateId = 0;
+    let hasBook = false;
+    let nextAnalysisAt = -Infinity;
+    let passes = 0;
+    let analysisMs = 0;
+
+    const observe = (price: number, t: number) => {
+      for (let index = open.length - 1; index >= 0; index--) {
+        if (this.advance(open[index], price, t)) {
+          scored.push(open[index].zone);
+          open.splice(index, 1);
+        }
+      }
+    };
+
+    this.records.forEach(record => {
+      clock = record.t;
+
+      if (record.type === 'trade') {
+        pendingTrades.push(record.data);
+        observe(record.data.price, record.t);
+        return;
+      }
+
+      if (record.type === 'snapshot') {
+        book.loadSnapshot(record.data);
+        lastUpdateId = record.data.lastUpdateId;
+        hasBook = true;
+      } else {
+        // Diffs recorded ahead of their snapshot are already contained in it
+        if (!hasBook || record.data.finalUpdateId <= lastUpdateId) return;
+        book.applyUpdate(record.data);
+        lastUpdateId = record.data.finalUpdateId;
+      }
+
+      const bestBid = book.getBestBid();
+      const bestAsk = book.getBestAsk();
+      if (!bestBid || !bestAsk) return;
+      const mid = (bestBid.price + bestAsk.price) / 2;
+      observe(mid, record.t);
+
+      if (record.t < nextAnalysisAt) return;
+      nextAnalysisAt = record.t + this.options.analysisInterval;
+
+      analyzer.addTrades(pendingTrades);
+      pendingTrades = [];
+      const startTime = performance.now();
+      const analysis = analyzer.analyzePressureZones(book.toProcessedData(this.options.depth));
+      analysisMs += performance.now() - startTime;
+      passes++;
+
+      const { touchTolerance } = this.options;
+      analysis.zones.forEach(zone => {
+        if (seenIds.has(zone.id)) return;
+        seenIds.add(zone.id);
+        const scoredZone: ScoredZone = {
+          id: zone.id,
+          type: zone.type,
+          minPrice: zone.minPrice,
+          maxPrice: zone.maxPrice,
+          intensity: zone.intensity,
+          detectors: zone.detectors ?? [],
+          formedAt: record.t,
+          midAtFormation: mid,
+          outcome: 'untouched'
+        };
+
+        // Touched the moment it formed, so neither a hit nor a test of the level
+        if (mid >= zone.minPrice * (1 - touchTolerance) && mid <= zone.maxPrice * (1 + touchTolerance)) {
+          scoredZone.outcome = 'at_mid';
+          scored.push(scoredZone);
+          return;
+        }
+        open.push({ touched: false, zone: scoredZone });
+      });
+    });
+
+    // Zones still open at the end of the session never saw their full horizon
+    open.forEach(({ zone }) => {
+      zone.outcome = 'expired';
+      scored.push(zone);
+    });
+    scored.sort((a, b) => a.formedAt - b.formedAt);
+
+    const detectorIds = Array.from(new Set(scored.flatMap(zone => zone.detectors))).sort();
+    const byDetector: Record<string, BacktestScore> = {};
+    detectorIds.forEach(id => {
+      byDetector[id] = this.score(scored.filter(zone => zone.detectors.includes(id)));
+    });
+
+    const result: BacktestRunResult = {
+      parameterSet: parameterSet.name,
+      analyzer: analyzer.getConfig(),
+      detectors: analyzer.getDetectorConfigs(),
+      passes,
+      analysisMs,
+      overall: this.score(scored),
+      byType: {
+        support: this.score(scored.filter(zone => zone.type === 'support')),
+        resistance: this.score(scored.filter(zone => zone.type === 'resistance'))
+      },
+      byDetector
+    };
+    if (this.options.includeZones) {
+      result.zones = scored;
+    }
+    return result;
+  }
+
+  // Private methods
+  /**
+   * Move an open zone along by one price observation. Returns true once its
+   * outcome is final.
+   */
+  private advance(open: OpenZone, price: number, t: number): boolean {
+    const { zone } = open;
+    if (t > zone.formedAt + this.options.horizon) {
+      zone.outcome = open.touched ? 'touched' : 'untouched';
+      return true;
+    }
+
+    const { touchTolerance, bounceThreshold, breakThreshold } = this.options;
+    // Price approaches from the side the mid was on at formation, whatever the zone type
+    const fromAbove = zone.midAtFormation > zone.maxPrice;
+    const nearEdge = fromAbove ? zone.maxPrice : zone.minPrice;
+    const farEdge = fromAbove ? zone.minPrice : zone.maxPrice;
+    const direction = fromAbove ? 1 : -1;
+
+    if (!open.touched) {
+      if ((price - nearEdge * (1 + direction * touchTolerance)) * direction > 0) return false;
+      open.touched = true;
+      zone.touchedAt = t;
+    }
+
+    if ((price - farEdge * (1 - direction * breakThreshold)) * direction < 0) {
+      zone.outcome = 'broken';
+      zone.resolvedAt = t;
+      return true;
+    }
+    if ((price - nearEdge * (1 + direction * bounceThreshold)) * direction >= 0) {
+      zone.outcome = 'bounced';
+      zone.resolvedAt = t;
+      return true;
+    }
+    return false;
+  }
+
+  private score(zones: ScoredZone[]): BacktestScore {
+    const count = (outcome: ZoneOutcome) => zones.filter(zone => zone.outcome === outcome).length;
+    return scoreFromCounts({
+      zones: zones.length,
+      bounced: count('bounced'),
+      broken: count('broken'),
+      touched: count('touched'),
+      untouched: count('untouched'),
+      expired: count('expired'),
+      atMid: count('at_mid')
+    });
+  }
+
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] ?? char);
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatBps = (value: number) => `${(value * 10000).toFixed(0)}bp`;
+
+/**
+ * Standalone HTML summary of a backtest report
+ */
+export function renderBacktestHtml(report: BacktestReport): string {
+  const scoreRow = (label: string, score: BacktestScore) => `
+      <tr>
+        <td>${escapeHtml(label)}</td>
+        <td>${score.zones}</td>
+        <td>${score.bounced}</td>
+        <td>${score.broken}</td>
+        <td>${score.touched}</td>
+        <td>${score.untouched}</td>
+        <td>${score.expired}</td>
+        <td>${score.atMid}</td>
+        <td>${formatPercent(score.hitRate)}</td>
+        <td>${formatPercent(score.precision)}</td>
+      </tr>`;
+  const table = (rows: string) => `
+    <table>
+      <thead>
+        <tr><th></th><th>Zones</th><th>Bounced</th><th>Broken</th><th>Touched</th><th>Untouched</th><th>Expired</th><th>At mid</th><th>Hit rate</th><th>Precision</th></tr>
+      </thead>
+      <tbody>${rows}
+      </tbody>
+    </table>`;
+
+  const { session, options } = report;
+  const runs = report.runs.map(run => `
+  <section>
+    <h2>${escapeHtml(run.parameterSet)}</h2>
+    <p>${run.passes} analysis passes, ${run.analysisMs.toFixed(0)} ms analyzing</p>
+    ${table(scoreRow('All zones', run.overall) + scoreRow('Support', run.byType.support) + scoreRow('Resistance', run.byType.resistance))}
+    <h3>By detector</h3>
+    ${table(Object.entries(run.byDetector).map(([id, score]) => scoreRow(id, score)).join(''))}
+  </section>`).join('');
+
+  const comparison = report.runs.length > 1
+    ? `
+  <section>
+    <h2>Parameter sets</h2>
+    ${table(report.runs.map(run => scoreRow(run.parameterSet, run.overall)).join(''))}
+  </section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Zone backtest - ${escapeHtml(session.symbol)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #111827; color: #e5e7eb; margin: 2rem; }
+    table { border-collapse: collapse; margin: 0.5rem 0 1.5rem; font-variant-numeric: tabular-nums; }
+    th, td { padding: 0.25rem 0.75rem; border-bottom: 1px solid #374151; text-align: right; }
+    th:first-child, td:first-child { text-align: left; }
+    th { color: #9ca3af; font-weight: 600; }
+    p { color: #9ca3af; }
+  </style>
+</head>
+<body>
+  <h1>Zone backtest - ${escapeHtml(session.symbol)}</h1>
+  <p>
+    ${new Date(session.startTime).toISOString()} to ${new Date(session.endTime).toISOString()}
+    · ${session.records} records (${session.trades} trades)
+    · horizon ${options.horizon / 1000}s, analysis every ${options.analysisInterval}ms, depth ${options.depth}
+  </p>
+  <p>
+    Hit rate: share of zones price reached within the horizon. Precision: share of touches that
+    bounced ${formatBps(options.bounceThreshold)} back out rather than breaking
+    ${formatBps(options.breakThreshold)} through the far edge. Expired zones are excluded from both.
+  </p>${comparison}${runs}
+  <p>Generated ${escapeHtml(report.generatedAt)}</p>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,299 @@
+import { PressureZone, ProcessedOrderbookData, TradeEvent } from '@/types/orderbook';
+
+/**
+ * Numeric setting a detector exposes beyond enable and weight
+ */
+export interface DetectorParam {
+  label: string;
+  default: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface DetectorInfo {
+  id: string;
+  label: string;
+  description: string;
+  params?: Record<string, DetectorParam>;
+}
+
+/**
+ * What a detector sees besides the book. `params` holds the detector's own
+ * settings, defaults filled in.
+ */
+export interface DetectorContext {
+  symbol: string;
+  midPrice: number;
+  tickSize: number;
+  volumeThreshold: number; // Base-asset volume, the symbol's minZoneNotional at the current mid
+  trades: readonly TradeEvent[];
+  now: number;
+  params: Record<string, number>;
+}
+
+export interface ZoneDetector extends DetectorInfo {
+  detect(data: ProcessedOrderbookData, context: DetectorContext): PressureZone[];
+}
+
+export interface DetectorConfig {
+  enabled: boolean;
+  weight: number; // Scales the intensity and strength of the detector's zones
+  params: Record<string, number>;
+}
+
+export type DetectorConfigMap = Record<string, Partial<DetectorConfig>>;
+
+export interface DetectorStats {
+  id: string;
+  label: string;
+  enabled: boolean;
+  weight: number;
+  runs: number;
+  lastMs: number;
+  averageMs: number; // Exponential moving average
+  maxMs: number;
+  lastZoneCount: number; // Zones emitted on the last run, before merging
+  contributedZones: number; // Zones in the last result this detector took part in
+  lastError?: string;
+}
+
+export const MAX_DETECTOR_WEIGHT = 2;
+
+export type BuiltInDetectorId =
+  | 'volume_clusters'
+  | 'support_resistance'
+  | 'order_flow_imbalance'
+  | 'liquidity_density'
+  | 'iceberg'
+  | 'hidden_liquidity'
+  | 'algorithmic'
+  | 'absorption'
+  | 'volume_profile';
+
+/**
+ * The analyzer's own detectors, in the order they run
+ */
+export const BUILT_IN_DETECTORS: Array<DetectorInfo & { id: BuiltInDetectorId }> = [
+  {
+    id: 'volume_clusters',
+    label: 'Volume clusters',
+    description: 'Volume-weighted clustering of nearby resting orders'
+  },
+  {
+    id: 'support_resistance',
+    label: 'Support / resistance',
+    description: 'Price groups on each side with outsized resting volume'
+  },
+  {
+    id: 'order_flow_imbalance',
+    label: 'Order flow imbalance',
+    description: 'Price levels where one side heavily outweighs the other',
+    params: {
+      minRatio: { label: 'Min ratio', default: 2, min: 1.1, max: 10, step: 0.1 }
+    }
+  },
+  {
+    id: 'liquidity_density',
+    label: 'Liquidity density',
+    description: 'Peaks in liquidity per price step'
+  },
+  {
+    id: 'iceberg',
+    label: 'Iceberg orders',
+    description: 'Single prices holding many times the average size',
+    params: {
+      volumeMultiple: { label: 'x average', default: 5, min: 2, max: 20, step: 0.5 }
+    }
+  },
+  {
+    id: 'hidden_liquidity',
+    label: 'Hidden liquidity',
+    description: 'Clusters of mid-sized orders that suggest sliced size',
+    params: {
+      minOrders: { label: 'Min orders', default: 3, min: 2, max: 10, step: 1 }
+    }
+  },
+  {
+    id: 'algorithmic',
+    label: 'Algorithmic patterns',
+    description: 'Regularly spaced order ladders'
+  },
+  {
+    id: 'absorption',
+    label: 'Absorption',
+    description: 'Levels that refill while trading; needs trades'
+  },
+  {
+    id: 'volume_profile',
+    label: 'Volume profile',
+    description: 'Time-weighted volume nodes; needs some price history'
+  }
+];
+
+/**
+ * Default settings for a detector
+ */
+export function defaultDetectorConfig(info: DetectorInfo): DetectorConfig {
+  const params: Record<string, number> = {};
+  Object.entries(info.params ?? {}).forEach(([key, param]) => {
+    params[key] = param.default;
+  });
+  return { enabled: true, weight: 1, params };
+}
+
+/**
+ * Holds the detectors behind the pressure zone analyzer with their settings
+ * and timings. Enabled detectors run in registration order; each zone they
+ * emit is weighted and tagged with the detector id, so merged zones can
+ * report every detector that contributed. A detector that throws is skipped
+ * for that pass and its error kept in its stats.
+ */
+export class DetectorRegistry {
+  private detectors: Map<string, ZoneDetector> = new Map();
+  private configs: Map<string, DetectorConfig> = new Map();
+  private stats: Map<string, DetectorStats> = new Map();
+
+  // Configuration
+  private readonly TIMING_SMOOTHING = 0.1;
+
+  // Public methods
+  public register(detector: ZoneDetector, config: Partial<DetectorConfig> = {}): void {
+    if (this.detectors.has(detector.id)) {
+      throw new Error(`Detector "${detector.id}" is already registered`);
+    }
+
+    this.detectors.set(detector.id, detector);
+    this.configs.set(detector.id, defaultDetectorConfig(detector));
+    this.stats.set(detector.id, this.createStats(detector));
+    this.configure({ [detector.id]: config });
+  }
+
+  public unregister(id: string): boolean {
+    this.configs.delete(id);
+    this.stats.delete(id);
+    return this.detectors.delete(id);
+  }
+
+  public list(): DetectorInfo[] {
+    return Array.from(this.detectors.values()).map(({ id, label, description, params }) => ({ id, label, description, params }));
+  }
+
+  public getConfigs(): Record<string, DetectorConfig> {
+    const configs: Record<string, DetectorConfig> = {};
+    this.configs.forEach((config, id) => {
+      configs[id] = { ...config, params: { ...config.params } };
+    });
+    return configs;
+  }
+
+  /**
+   * Apply partial settings by detector id; unknown ids and params are ignored
+   */
+  public configure(configs: DetectorConfigMap): void {
+    Object.entries(configs).forEach(([id, update]) => {
+      const detector = this.detectors.get(id);
+      const current = this.configs.get(id);
+      if (!detector || !current) return;
+
+      const params = { ...current.params };
+      Object.entries(update.params ?? {}).forEach(([key, value]) => {
+        const param = detector.params?.[key];
+        if (param && isFinite(value)) {
+          params[key] = Math.min(Math.max(value, param.min), param.max);
+        }
+      });
+
+      this.configs.set(id, {
+        enabled: update.enabled ?? current.enabled,
+        weight: update.weight !== undefined && isFinite(update.weight)
+          ? Math.min(Math.max(update.weight, 0), MAX_DETECTOR_WEIGHT)
+          : current.weight,
+        params
+      });
+    });
+  }
+
+  /**
+   * Run every enabled detector over the book
+   */
+  public run(data: ProcessedOrderbookData, context: Omit<DetectorContext, 'params'>): PressureZone[] {
+    const zones: PressureZone[] = [];
+
+    this.detectors.forEach((detector, id) => {
+      const config = this.configs.get(id);
+      const stats = this.stats.get(id);
+      if (!config || !stats || !config.enabled) return;
+
+      const startTime = performance.now();
+      let detected: PressureZone[];
+      try {
+        detected = detector.detect(data, { ...context, params: config.params });
+        stats.lastError = undefined;
+      } catch (error) {
+        detected = [];
+        stats.lastError = (error as Error).message;
+      }
+      this.recordTiming(stats, performance.now() - startTime, detected.length);
+
+      detected.forEach(zone => zones.push({
+        ...zone,
+        intensity: Math.min(zone.intensity * config.weight, 1),
+        strength: Math.min(zone.strength * config.weight, 1),
+        detectors: [id]
+      }));
+    });
+
+    return zones;
+  }
+
+  /**
+   * Count how many final zones each detector took part in
+   */
+  public recordContributions(zones: PressureZone[]): void {
+    this.stats.forEach(stats => {
+      stats.contributedZones = 0;
+    });
+    zones.forEach(zone => zone.detectors?.forEach(id => {
+      const stats = this.stats.get(id);
+      if (stats) stats.contributedZones++;
+    }));
+  }
+
+  public getStats(): DetectorStats[] {
+    return Array.from(this.stats.values()).map(stats => {
+      const config = this.configs.get(stats.id);
+      return { ...stats, enabled: config?.enabled ?? false, weight: config?.weight ?? 1 };
+    });
+  }
+
+  public resetStats(): void {
+    this.detectors.forEach((detector, id) => this.stats.set(id, this.createStats(detector)));
+  }
+
+  // Private methods
+  private createStats(detector: ZoneDetector): DetectorStats {
+    return {
+      id: detector.id,
+      label: detector.label,
+      enabled: true,
+      weight: 1,
+      runs: 0,
+      lastMs: 0,
+      averageMs: 0,
+      maxMs: 0,
+      lastZoneCount: 0,
+      contributedZones: 0
+    };
+  }
+
+  private recordTiming(stats: DetectorStats, elapsed: number, zoneCount: number): void {
+    stats.averageMs = stats.runs === 0
+      ? elapsed
+      : stats.averageMs + (elapsed - stats.averageMs) * this.TIMING_SMOOTHING;
+    stats.runs++;
+    stats.lastMs = elapsed;
+    stats.maxMs = Math.max(stats.maxMs, elapsed);
+    stats.lastZoneCount = zoneCount;
+  }
+}
@@ -0,0 +1,199 @@
+import { PressureZone, ZoneLifecycle, ZoneTransitionType } from '@/types/orderbook';
+
+export interface ZoneTransition {
+  type: ZoneTransitionType;
+  zone: PressureZone; // Current zone, or the last one seen for breached and dissolved
+  timestamp: number;
+  previousIntensity: number; // Reference intensity the change was measured against
+}
+
+interface TrackedZone {
+  id: string;
+  zone: PressureZone;
+  birthTime: number;
+  lastSeen: number;
+  peakIntensity: number;
+  intensityHistory: number[];
+  referenceIntensity: number; // Intensity at the last formed/strengthened/weakened transition
+  lastTransition: ZoneTransitionType;
+  lastTransitionTime: number;
+  missedPasses: number;
+}
+
+/**
+ * Gives pressure zones identities that survive between analysis passes.
+ * Each pass's zones are matched one-to-one with tracked zones on the same
+ * side by overlap of their (slightly widened) price ranges. Matched zones
+ * keep the tracked id, birth time and intensity history; intensity moves of
+ * 30% from the last reference are recorded as strengthened or weakened.
+ * Zones that go missing are breached if the mid has moved through them, and
+ * otherwise dissolve after a few passes, so a zone that flickers out of one
+ * pass keeps its identity.
+ */
+export class ZoneLifecycleTracker {
+  private tracked: Map<string, TrackedZone> = new Map();
+  private nextId: number = 1;
+
+  // Configuration
+  private readonly MATCH_TOLERANCE = 0.0005; // Ranges widened by 5bp of price each side
+  private readonly STRENGTHEN_RATIO = 1.3;
+  private readonly WEAKEN_RATIO = 0.7;
+  private readonly DISSOLVE_AFTER_PASSES = 3;
+  private readonly FORMING_WINDOW = 30000; // Zones younger than this are still forming
+  private readonly TREND_WINDOW = 30000; // How long a strengthen/weaken transition sets the trend
+  private readonly HISTORY_LENGTH = 60;
+
+  // Public methods
+  public reset(): void {
+    this.tracked.clear();
+  }
+
+  /**
+   * Match a pass's zones to tracked ones. Returns the zones with stable ids
+   * and lifecycle attached, and the transitions this pass caused.
+   */
+  public update(zones: PressureZone[], midPrice: number, now: number = Date.now()): {
+    zones: PressureZone[];
+    transitions: ZoneTransition[];
+  } {
+    const transitions: ZoneTransition[] = [];
+    const matches = this.match(zones);
+    const seen = new Set<string>();
+
+    const result = zones.map((zone, index) => {
+      const existing = matches.get(index);
+      const tracked = existing ? this.advance(existing, zone, now, transitions) : this.create(zone, now, transitions);
+      seen.add(tracked.id);
+      return this.withLifecycle(tracked, now);
+    });
+
+    this.tracked.forEach((tracked, id) => {
+      if (seen.has(id)) return;
+
+      const { zone } = tracked;
+      const crossed = zone.side === 'bid' ? midPrice < zone.minPrice : midPrice > zone.maxPrice;
+      if (crossed) {
+        transitions.push({ type: 'breached', zone, timestamp: now, previousIntensity: tracked.referenceIntensity });
+        this.tracked.delete(id);
+        return;
+      }
+
+      tracked.missedPasses++;
+      if (tracked.missedPasses >= this.DISSOLVE_AFTER_PASSES) {
+        transitions.push({ type: 'dissolved', zone, timestamp: now, previousIntensity: tracked.referenceIntensity });
+        this.tracked.delete(id);
+      }
+    });
+
+    return { zones: result, transitions };
+  }
+
+  /**
+   * Zones currently tracked, including ones missing from the latest pass
+   */
+  public getTrackedCount(): number {
+    return this.tracked.size;
+  }
+
+  // Private methods
+  /**
+   * Greedy one-to-one matching, best overlap first
+   */
+  private match(zones: PressureZone[]): Map<number, TrackedZone> {
+    const candidates: Array<{ index: number; tracked: TrackedZone; score: number }> = [];
+
+    zones.forEach((zone, index) => {
+      this.tracked.forEach(tracked => {
+        if (tracked.zone.side !== zone.side) return;
+        const score = this.overlap(zone, tracked.zone);
+        if (score > 0) candidates.push({ index, tracked, score });
+      });
+    });
+
+    candidates.sort((a, b) => b.score - a.score);
+    const matches = new Map<number, TrackedZone>();
+    const used = new Set<string>();
+    candidates.forEach(({ index, tracked }) => {
+      if (matches.has(index) || used.has(tracked.id)) return;
+      matches.set(index, tracked);
+      used.add(tracked.id);
+    });
+    return matches;
+  }
+
+  /**
+   * Intersection over union of the widened price ranges, 0 when disjoint
+   */
+  private overlap(a: PressureZone, b: PressureZone): number {
+    const pad = (zone: PressureZone) => zone.centerPrice * this.MATCH_TOLERANCE;
+    const aMin = a.minPrice - pad(a);
+    const aMax = a.maxPrice + pad(a);
+    const bMin = b.minPrice - pad(b);
+    const bMax = b.maxPrice + pad(b);
+
+    const intersection = Math.min(aMax, bMax) - Math.max(aMin, bMin);
+    if (intersection <= 0) return 0;
+    return intersection / (Math.max(aMax, bMax) - Math.min(aMin, bMin));
+  }
+
+  private create(zone: PressureZone, now: number, transitions: ZoneTransition[]): TrackedZone {
+    const tracked: TrackedZone = {
+      id: `zone_${this.nextId++}`,
+      zone,
+      birthTime: now,
+      lastSeen: now,
+      peakIntensity: zone.intensity,
+      intensityHistory: [zone.intensity],
+      referenceIntensity: zone.intensity,
+      lastTransition: 'formed',
+      lastTransitionTime: now,
+      missedPasses: 0
+    };
+    tracked.zone = { ...zone, id: tracked.id };
+    this.tracked.set(tracked.id, tracked);
+    transitions.push({ type: 'formed', zone: tracked.zone, timestamp: now, previousIntensity: 0 });
+    return tracked;
+  }
+
+  private advance(tracked: TrackedZone, zone: PressureZone, now: number, transitions: ZoneTransition[]): TrackedZone {
+    tracked.zone = { ...zone, id: tracked.id };
+    tracked.lastSeen = now;
+    tracked.missedPasses = 0;
+    tracked.peakIntensity = Math.max(tracked.peakIntensity, zone.intensity);
+    tracked.intensityHistory = [...tracked.intensityHistory, zone.intensity].slice(-this.HISTORY_LENGTH);
+
+    const reference = tracked.referenceIntensity;
+    const type: ZoneTransitionType | null = zone.intensity >= reference * this.STRENGTHEN_RATIO
+      ? 'strengthened'
+      : zone.intensity <= reference * this.WEAKEN_RATIO ? 'weakened' : null;
+
+    if (type) {
+      tracked.referenceIntensity = zone.intensity;
+      tracked.lastTransition = type;
+      tracked.lastTransitionTime = now;
+      transitions.push({ type, zone: tracked.zone, timestamp: now, previousIntensity: reference });
+    }
+    return tracked;
+  }
+
+  private withLifecycle(tracked: TrackedZone, now: number): PressureZone {
+    const recent = now - tracked.lastTransitionTime < this.TREND_WINDOW;
+    const trend: ZoneLifecycle['trend'] = now - tracked.birthTime < this.FORMING_WINDOW
+      ? 'forming'
+      : recent && tracked.lastTransition === 'strengthened'
+        ? 'strengthening'
+        : recent && tracked.lastTransition === 'weakened' ? 'weakening' : 'stable';
+
+    return {
+      ...tracked.zone,
+      lifecycle: {
+        birthTime: tracked.birthTime,
+        lastSeen: tracked.lastSeen,
+        peakIntensity: tracked.peakIntensity,
+        intensityHistory: tracked.intensityHistory,
+        trend,
+        lastTransition: tracked.lastTransition
+      }
+    };
+  }
+}
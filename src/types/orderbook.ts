@@ -2,10 +2,34 @@
 
 export type ConnectionState = 'connected' | 'connecting' | 'disconnected' | 'error';
 
+// Local book consistency relative to the exchange's update sequence
+export type BookSyncState = 'idle' | 'buffering' | 'in_sync' | 'resyncing';
+
+export interface BookSyncInfo {
+  state: BookSyncState;
+  lastUpdateId: number;
+  bufferedEvents: number;
+  droppedEvents: number;
+  sequenceGaps: number;
+  resyncCount: number;
+  lastSyncTime: number;
+}
+
+// Top of book for one subscribed symbol, used by the symbol switcher
+export interface SymbolSummary {
+  symbol: string;
+  bestBid: number | null;
+  bestAsk: number | null;
+  spread: number | null;
+  syncState: BookSyncState;
+  lastUpdateTime: number;
+}
+
 export interface OrderbookEntry {
   price: number;
   quantity: number;
   timestamp: number;
+  venue?: string; // VenueConfig.id of the originating exchange
 }
 
 export interface OrderbookLevel {
@@ -31,6 +55,18 @@ export interface OrderbookUpdate {
   asks: OrderbookLevel[];
 }
 
+// Executed trade from a `@trade` or `@aggTrade` stream
+export interface TradeEvent {
+  eventType: 'trade' | 'aggTrade';
+  eventTime: number;
+  tradeTime: number;
+  symbol: string;
+  tradeId: number; // Aggregate trade id for aggTrade events
+  price: number;
+  quantity: number;
+  aggressor: 'buy' | 'sell'; // Taker side; buyer-maker trades are sells
+}
+
 export interface ProcessedOrderbookData {
   bids: OrderbookEntry[];
   asks: OrderbookEntry[];
@@ -67,8 +103,34 @@ export interface PressureZone {
   side: 'bid' | 'ask';
   timestamp: number;
   isActive: boolean;
+  confidence?: number; // 0-1, set by detectors that infer rather than observe liquidity
+  absorption?: AbsorptionInfo;
+  lifecycle?: ZoneLifecycle;
+  detectors?: string[]; // Ids of the detectors whose zones were merged into this one
+}
+
+// Hidden size inferred at a level that kept refilling while it traded
+export interface AbsorptionInfo {
+  executedVolume: number; // Traded into the level by aggressors
+  hiddenVolume: number; // Executed volume that was replenished rather than depleting the book
+  visibleVolume: number; // Resting quantity shown at the last update
+  refillCount: number; // Updates where the level refilled after trades
+  firstSeen: number;
+  lastRefill: number;
 }
 
+// History of a zone matched across analysis passes under one id
+export interface ZoneLifecycle {
+  birthTime: number;
+  lastSeen: number;
+  peakIntensity: number;
+  intensityHistory: number[]; // Recent passes, oldest first
+  trend: 'forming' | 'strengthening' | 'weakening' | 'stable';
+  lastTransition: ZoneTransitionType;
+}
+
+export type ZoneTransitionType = 'formed' | 'strengthened' | 'weakened' | 'breached' | 'dissolved';
+
 export interface VisualizationSettings {
   symbol: string;
   depth: number;
@@ -93,6 +155,12 @@ export interface WebSocketMessage {
   data: OrderbookUpdate;
 }
 
+// Recorded depth session line (newline-delimited JSON, `t` = receive time in ms)
+export type SessionRecord =
+  | { t: number; type: 'snapshot'; data: OrderbookSnapshot }
+  | { t: number; type: 'update'; data: OrderbookUpdate }
+  | { t: number; type: 'trade'; data: TradeEvent };
+
 // Chart data for 3D visualization
 export interface ChartPoint {
   x: number; // price
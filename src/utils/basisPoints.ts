@@ -0,0 +1,49 @@
+import { ProcessedOrderbookData } from '@/types/orderbook';
+
+/**
+ * Midpoint of the best bid and ask, or null when either side is empty
+ */
+export function getMidPrice(data: Pick<ProcessedOrderbookData, 'bids' | 'asks'>): number | null {
+  const bestBid = data.bids[0]?.price;
+  const bestAsk = data.asks[0]?.price;
+  if (bestBid === undefined || bestAsk === undefined) return null;
+  return (bestBid + bestAsk) / 2;
+}
+
+/**
+ * Signed distance of a price from `mid` in basis points (1bp = 0.01%)
+ */
+export function toBasisPoints(price: number, mid: number): number {
+  return mid > 0 ? ((price - mid) / mid) * 10000 : 0;
+}
+
+export function fromBasisPoints(bps: number, mid: number): number {
+  return mid * (1 + bps / 10000);
+}
+
+/**
+ * View of the book limited to ±`windowBps` around its mid, with the price range
+ * set to exactly that window. Books at different price scales rendered with the
+ * same window line up level for level in relative terms.
+ */
+export function withBasisPointWindow(data: ProcessedOrderbookData, windowBps: number): ProcessedOrderbookData {
+  const mid = getMidPrice(data);
+  if (mid === null || windowBps <= 0) return data;
+
+  const min = fromBasisPoints(-windowBps, mid);
+  const max = fromBasisPoints(windowBps, mid);
+  const bids = data.bids.filter(entry => entry.price >= min);
+  const asks = data.asks.filter(entry => entry.price <= max);
+  const maxQuantity = Math.max(
+    ...bids.map(entry => entry.quantity),
+    ...asks.map(entry => entry.quantity),
+    0
+  );
+
+  return {
+    bids,
+    asks,
+    maxQuantity: maxQuantity > 0 ? maxQuantity : 1,
+    priceRange: { min, max }
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Fixed-point prices and quantities. Book maintenance works on integer tick
+ * and lot counts parsed straight from the exchange's decimal strings, so
+ * level matching never depends on float round-tripping; floats are produced
+ * only when a view is handed to rendering.
+ */
+import { symbolRegistry } from '@/services/symbolRegistry';
+
+export interface SymbolPrecision {
+  tickSize: string; // Minimum price increment, e.g. '0.01'
+  stepSize: string; // Minimum quantity increment (lot size)
+}
+
+// Exact for any price or quantity quoted with up to 8 decimals
+export const DEFAULT_PRECISION: SymbolPrecision = {
+  tickSize: '0.00000001',
+  stepSize: '0.00000001'
+};
+
+export function getSymbolPrecision(symbol?: string): SymbolPrecision {
+  return symbol ? symbolRegistry.getPrecision(symbol) : DEFAULT_PRECISION;
+}
+
+export class FixedPointCodec {
+  public readonly precision: SymbolPrecision;
+  private readonly priceDecimals: number;
+  private readonly priceUnit: number; // Tick size in units of 10^-priceDecimals
+  private readonly quantityDecimals: number;
+  private readonly quantityUnit: number;
+
+  constructor(precision: SymbolPrecision = DEFAULT_PRECISION) {
+    this.precision = precision;
+    this.priceDecimals = countDecimals(precision.tickSize);
+    this.priceUnit = parseScaled(precision.tickSize, this.priceDecimals) || 1;
+    this.quantityDecimals = countDecimals(precision.stepSize);
+    this.quantityUnit = parseScaled(precision.stepSize, this.quantityDecimals) || 1;
+  }
+
+  /**
+   * Price as a whole number of ticks; off-tick values round to the nearest tick
+   */
+  public parsePrice(value: string | number): number {
+    return Math.round(toScaled(value, this.priceDecimals) / this.priceUnit);
+  }
+
+  /**
+   * Quantity as a whole number of lots; off-step values round to the nearest lot
+   */
+  public parseQuantity(value: string | number): number {
+    return Math.round(toScaled(value, this.quantityDecimals) / this.quantityUnit);
+  }
+
+  public priceToNumber(ticks: number): number {
+    // Both operands are exact integers, so this is the float nearest the decimal
+    return (ticks * this.priceUnit) / Math.pow(10, this.priceDecimals);
+  }
+
+  public quantityToNumber(lots: number): number {
+    return (lots * this.quantityUnit) / Math.pow(10, this.quantityDecimals);
+  }
+
+  public formatPrice(ticks: number): string {
+    return formatScaled(ticks * this.priceUnit, this.priceDecimals);
+  }
+
+  public formatQuantity(lots: number): string {
+    return formatScaled(lots * this.quantityUnit, this.quantityDecimals);
+  }
+
+  /**
+   * Snap an arbitrary float to the tick grid, e.g. for generated prices
+   */
+  public roundPrice(value: number): string {
+    return this.formatPrice(this.parsePrice(value));
+  }
+
+  public roundQuantity(value: number): string {
+    return this.formatQuantity(this.parseQuantity(value));
+  }
+}
+
+const codecs = new Map<string, FixedPointCodec>();
+
+/**
+ * Shared codec for a symbol's precision in the symbol registry
+ */
+export function getCodec(symbol?: string): FixedPointCodec {
+  const precision = getSymbolPrecision(symbol);
+  // Keyed by precision so registry reloads take effect
+  const key = `${precision.tickSize}/${precision.stepSize}`;
+  let codec = codecs.get(key);
+  if (!codec) {
+    codec = new FixedPointCodec(precision);
+    codecs.set(key, codec);
+  }
+  return codec;
+}
+
+function countDecimals(text: string): number {
+  const dot = text.indexOf('.');
+  if (dot === -1) return 0;
+  // '0.01000000' has two significant decimals
+  return text.slice(dot + 1).replace(/0+$/, '').length;
+}
+
+function toScaled(value: string | number, decimals: number): number {
+  if (typeof value === 'number') {
+    return isFinite(value) ? Math.round(value * Math.pow(10, decimals)) : 0;
+  }
+  return parseScaled(value, decimals);
+}
+
+/**
+ * Parse a decimal string into an integer count of 10^-decimals, rounding half
+ * up on any digits beyond that precision. Invalid input parses as 0.
+ */
+function parseScaled(text: string, decimals: number): number {
+  const trimmed = text.trim();
+  if (/e/i.test(trimmed)) {
+    return toScaled(parseFloat(trimmed), decimals);
+  }
+
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(trimmed);
+  if (!match || (match[2] === '' && !match[3])) return 0;
+
+  const [, sign, whole, fraction = ''] = match;
+  const kept = fraction.slice(0, decimals).padEnd(decimals, '0');
+  let scaled = Number(whole || '0') * Math.pow(10, decimals) + Number(kept || '0');
+  if (fraction.length > decimals && fraction.charCodeAt(decimals) >= 53) {
+    scaled += 1; // Next digit is 5 or more
+  }
+
+  return sign === '-' ? -scaled : scaled;
+}
+
+function formatScaled(scaled: number, decimals: number): string {
+  const digits = Math.abs(scaled).toString().padStart(decimals + 1, '0');
+  const sign = scaled < 0 ? '-' : '';
+  if (decimals === 0) return sign + digits;
+  return `${sign}${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`;
+}
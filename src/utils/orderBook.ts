@@ -0,0 +1,311 @@
+import { OrderbookEntry, OrderbookLevel, OrderbookSnapshot, OrderbookUpdate, ProcessedOrderbookData } from '@/types/orderbook';
+import { FixedPointCodec, SymbolPrecision, getCodec } from '@/utils/fixedPoint';
+
+/**
+ * One side of the book, kept sorted best-first in parallel arrays of integer
+ * ticks and lots. Levels are located by binary search; the largest quantity is
+ * tracked as levels change and only rescanned after the level holding it
+ * shrinks or leaves.
+ */
+class BookSide {
+  private prices: number[] = [];
+  private quantities: number[] = [];
+  private timestamps: number[] = [];
+  private readonly descending: boolean;
+  private maxQuantity: number = 0;
+  private maxStale: boolean = false;
+
+  constructor(descending: boolean) {
+    this.descending = descending;
+  }
+
+  public get size(): number {
+    return this.prices.length;
+  }
+
+  public clear(): void {
+    this.prices = [];
+    this.quantities = [];
+    this.timestamps = [];
+    this.maxQuantity = 0;
+    this.maxStale = false;
+  }
+
+  /**
+   * Replace the side in one pass: sort once instead of inserting level by level.
+   * Later duplicates of a price win, as they would when applied in order.
+   */
+  public load(levels: Array<{ price: number; quantity: number; timestamp: number }>): void {
+    const byPrice = new Map<number, { price: number; quantity: number; timestamp: number }>();
+    levels.forEach(level => {
+      if (level.price > 0 && level.quantity > 0) {
+        byPrice.set(level.price, level);
+      }
+    });
+
+    const sorted = Array.from(byPrice.values()).sort(this.descending
+      ? (a, b) => b.price - a.price
+      : (a, b) => a.price - b.price);
+    this.prices = sorted.map(level => level.price);
+    this.quantities = sorted.map(level => level.quantity);
+    this.timestamps = sorted.map(level => level.timestamp);
+    this.maxQuantity = this.quantities.reduce((max, quantity) => Math.max(max, quantity), 0);
+    this.maxStale = false;
+  }
+
+  /**
+   * Set the lots at a tick price; zero removes the level.
+   */
+  public set(price: number, quantity: number, timestamp: number): void {
+    const index = this.search(price);
+
+    if (quantity === 0) {
+      if (index < 0) return;
+      const removed = this.quantities[index];
+      this.prices.splice(index, 1);
+      this.quantities.splice(index, 1);
+      this.timestamps.splice(index, 1);
+      if (removed >= this.maxQuantity) this.maxStale = true;
+      return;
+    }
+
+    if (index >= 0) {
+      const previous = this.quantities[index];
+      this.quantities[index] = quantity;
+      this.timestamps[index] = timestamp;
+      if (quantity < previous && previous >= this.maxQuantity) {
+        this.maxStale = true;
+        return;
+      }
+    } else {
+      const insertAt = -(index + 1);
+      this.prices.splice(insertAt, 0, price);
+      this.quantities.splice(insertAt, 0, quantity);
+      this.timestamps.splice(insertAt, 0, timestamp);
+    }
+
+    // A stale max is left for the next rescan rather than trusted as a bound
+    if (!this.maxStale && quantity >= this.maxQuantity) {
+      this.maxQuantity = quantity;
+    }
+  }
+
+  public priceAt(index: number): number | undefined {
+    return this.prices[index];
+  }
+
+  public quantityAt(index: number): number {
+    return this.quantities[index] ?? 0;
+  }
+
+  public timestampAt(index: number): number {
+    return this.timestamps[index] ?? 0;
+  }
+
+  public indexOf(price: number): number {
+    return this.search(price);
+  }
+
+  /**
+   * Largest quantity in lots among the best `depth` levels (the whole side by default).
+   */
+  public getMaxQuantity(depth: number = this.prices.length): number {
+    if (depth < this.prices.length) {
+      let max = 0;
+      for (let index = 0; index < depth; index++) {
+        if (this.quantities[index] > max) max = this.quantities[index];
+      }
+      return max;
+    }
+
+    if (this.maxStale) {
+      let max = 0;
+      for (let index = 0; index < this.quantities.length; index++) {
+        if (this.quantities[index] > max) max = this.quantities[index];
+      }
+      this.maxQuantity = max;
+      this.maxStale = false;
+    }
+    return this.maxQuantity;
+  }
+
+  /**
+   * Binary search for a price. Returns its index, or -(insertion point + 1) when absent.
+   */
+  private search(price: number): number {
+    let low = 0;
+    let high = this.prices.length - 1;
+
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      const midPrice = this.prices[mid];
+      if (midPrice === price) return mid;
+
+      const midIsBetter = this.descending ? midPrice > price : midPrice < price;
+      if (midIsBetter) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return -(low + 1);
+  }
+}
+
+/**
+ * Mutable order book shared by the snapshot/diff processing paths. Bids are
+ * kept descending and asks ascending, so the best levels, price range and
+ * top-of-book views come straight off the ends of each side. Prices and
+ * quantities are stored as integer ticks and lots of the symbol's precision;
+ * `toProcessedData` is where they become floats.
+ */
+export class OrderBook {
+  private bids = new BookSide(true);
+  private asks = new BookSide(false);
+  private codec: FixedPointCodec;
+  // Without an explicit precision the book follows the symbol of each snapshot
+  private readonly precisionFixed: boolean;
+
+  constructor(precision?: SymbolPrecision) {
+    this.codec = precision ? new FixedPointCodec(precision) : getCodec();
+    this.precisionFixed = !!precision;
+  }
+
+  // Public methods
+  public loadSnapshot(snapshot: OrderbookSnapshot): void {
+    if (!this.precisionFixed) {
+      this.codec = getCodec(snapshot.symbol);
+    }
+
+    const toLevel = (level: OrderbookLevel) => ({
+      price: this.codec.parsePrice(level.price),
+      quantity: this.codec.parseQuantity(level.quantity),
+      timestamp: snapshot.timestamp
+    });
+
+    this.bids.load(snapshot.bids.map(toLevel));
+    this.asks.load(snapshot.asks.map(toLevel));
+  }
+
+  /**
+   * Rebuild from a float view produced elsewhere; values snap to the current precision
+   */
+  public loadEntries(data: Pick<ProcessedOrderbookData, 'bids' | 'asks'>): void {
+    const toLevel = (entry: OrderbookEntry) => ({
+      price: this.codec.parsePrice(entry.price),
+      quantity: this.codec.parseQuantity(entry.quantity),
+      timestamp: entry.timestamp
+    });
+
+    this.bids.load(data.bids.map(toLevel));
+    this.asks.load(data.asks.map(toLevel));
+  }
+
+  public applyUpdate(update: OrderbookUpdate): void {
+    update.bids.forEach(level => this.applyLevel(this.bids, level, update.eventTime));
+    update.asks.forEach(level => this.applyLevel(this.asks, level, update.eventTime));
+  }
+
+  public getCodec(): FixedPointCodec {
+    return this.codec;
+  }
+
+  /**
+   * Exact resting quantity at a price, as the exchange would quote it; '0' when absent
+   */
+  public getQuantity(side: 'bid' | 'ask', price: string): string {
+    const book = side === 'bid' ? this.bids : this.asks;
+    const index = book.indexOf(this.codec.parsePrice(price));
+    return this.codec.formatQuantity(index >= 0 ? book.quantityAt(index) : 0);
+  }
+
+  public getBestBid(): OrderbookEntry | undefined {
+    return this.toEntry(this.bids, 0);
+  }
+
+  public getBestAsk(): OrderbookEntry | undefined {
+    return this.toEntry(this.asks, 0);
+  }
+
+  public getDepth(): { bids: number; asks: number } {
+    return { bids: this.bids.size, asks: this.asks.size };
+  }
+
+  public isEmpty(): boolean {
+    return this.bids.size === 0 && this.asks.size === 0;
+  }
+
+  public clear(): void {
+    this.bids.clear();
+    this.asks.clear();
+  }
+
+  /**
+   * Largest quantity among the best `depth` levels of either side; 1 for an empty book.
+   */
+  public getMaxQuantity(depth?: number): number {
+    const max = Math.max(this.bids.getMaxQuantity(depth), this.asks.getMaxQuantity(depth));
+    return max > 0 ? this.codec.quantityToNumber(max) : 1;
+  }
+
+  /**
+   * Price span of the best `depth` levels; only the end levels of each side are read.
+   */
+  public getPriceRange(depth?: number): { min: number; max: number } {
+    const ends = [
+      this.bids.priceAt(0),
+      this.bids.priceAt(Math.min(depth ?? this.bids.size, this.bids.size) - 1),
+      this.asks.priceAt(0),
+      this.asks.priceAt(Math.min(depth ?? this.asks.size, this.asks.size) - 1)
+    ].filter((price): price is number => price !== undefined);
+
+    if (ends.length === 0) return { min: 0, max: 1 };
+
+    return {
+      min: this.codec.priceToNumber(Math.min(...ends)),
+      max: this.codec.priceToNumber(Math.max(...ends))
+    };
+  }
+
+  /**
+   * Float view of the best `depth` levels per side (all levels by default).
+   * The view is a copy; later book changes don't affect it.
+   */
+  public toProcessedData(depth?: number): ProcessedOrderbookData {
+    return {
+      bids: this.toEntries(this.bids, depth),
+      asks: this.toEntries(this.asks, depth),
+      maxQuantity: this.getMaxQuantity(depth),
+      priceRange: this.getPriceRange(depth)
+    };
+  }
+
+  // Private methods
+  private applyLevel(side: BookSide, level: OrderbookLevel, timestamp: number): void {
+    const price = this.codec.parsePrice(level.price);
+    const quantity = this.codec.parseQuantity(level.quantity);
+    if (price <= 0 || quantity < 0) return;
+    side.set(price, quantity, timestamp);
+  }
+
+  private toEntry(side: BookSide, index: number): OrderbookEntry | undefined {
+    const price = side.priceAt(index);
+    if (price === undefined) return undefined;
+
+    return {
+      price: this.codec.priceToNumber(price),
+      quantity: this.codec.quantityToNumber(side.quantityAt(index)),
+      timestamp: side.timestampAt(index)
+    };
+  }
+
+  private toEntries(side: BookSide, depth: number = side.size): OrderbookEntry[] {
+    const count = Math.min(depth, side.size);
+    const entries: OrderbookEntry[] = new Array(count);
+    for (let index = 0; index < count; index++) {
+      entries[index] = this.toEntry(side, index)!;
+    }
+    return entries;
+  }
+}
@@ -7,51 +7,19 @@ import {
   PressureZone,
   MeshData 
 } from '@/types/orderbook';
+import { OrderBook } from '@/utils/orderBook';
 
 export class OrderbookDataProcessor {
   private historicalData: Map<number, ProcessedOrderbookData> = new Map();
   private maxHistorySize: number = 100;
-
-  // Helper function to safely parse and validate numbers
-  private safeParseFloat(value: string | number): number {
-    const parsed = typeof value === 'string' ? parseFloat(value) : value;
-    return isNaN(parsed) || !isFinite(parsed) ? 0 : parsed;
-  }
+  private book: OrderBook = new OrderBook();
+  // View most recently produced from `book`; anything else must be reloaded first
+  private lastView: ProcessedOrderbookData | null = null;
 
   public processSnapshot(snapshot: OrderbookSnapshot): ProcessedOrderbookData {
-    // Filter and validate bid data
-    const bids = snapshot.bids
-      .map(level => ({
-        price: this.safeParseFloat(level.price),
-        quantity: this.safeParseFloat(level.quantity),
-        timestamp: snapshot.timestamp
-      }))
-      .filter(entry => entry.price > 0 && entry.quantity > 0);
-
-    // Filter and validate ask data
-    const asks = snapshot.asks
-      .map(level => ({
-        price: this.safeParseFloat(level.price),
-        quantity: this.safeParseFloat(level.quantity),
-        timestamp: snapshot.timestamp
-      }))
-      .filter(entry => entry.price > 0 && entry.quantity > 0);
-
-    const allQuantities = [...bids, ...asks].map(entry => entry.quantity).filter(q => isFinite(q) && q > 0);
-    const maxQuantity = allQuantities.length > 0 ? Math.max(...allQuantities) : 1;
-    
-    const allPrices = [...bids, ...asks].map(entry => entry.price).filter(p => isFinite(p) && p > 0);
-    const priceRange = {
-      min: allPrices.length > 0 ? Math.min(...allPrices) : 0,
-      max: allPrices.length > 0 ? Math.max(...allPrices) : 1
-    };
-
-    const processed: ProcessedOrderbookData = {
-      bids,
-      asks,
-      maxQuantity,
-      priceRange
-    };
+    this.book.loadSnapshot(snapshot);
+    const processed = this.book.toProcessedData();
+    this.lastView = processed;
 
     // Store in history
     this.addToHistory(snapshot.timestamp, processed);
@@ -60,93 +28,13 @@ export class OrderbookDataProcessor {
   }
 
   public processUpdate(update: OrderbookUpdate, currentData: ProcessedOrderbookData): ProcessedOrderbookData {
-    // Clone current data
-    const updatedBids = [...currentData.bids];
-    const updatedAsks = [...currentData.asks];
-
-    // Process bid updates
-    update.bids.forEach(level => {
-      const price = this.safeParseFloat(level.price);
-      const quantity = this.safeParseFloat(level.quantity);
-      
-      // Skip invalid entries
-      if (price <= 0 || quantity < 0) {
-        return;
-      }
-      
-      const existingIndex = updatedBids.findIndex(bid => bid.price === price);
-      
-      if (quantity === 0) {
-        // Remove the level
-        if (existingIndex !== -1) {
-          updatedBids.splice(existingIndex, 1);
-        }
-      } else {
-        // Update or add the level
-        const newEntry: OrderbookEntry = {
-          price,
-          quantity,
-          timestamp: update.eventTime
-        };
-        
-        if (existingIndex !== -1) {
-          updatedBids[existingIndex] = newEntry;
-        } else {
-          updatedBids.push(newEntry);
-          updatedBids.sort((a, b) => b.price - a.price); // Sort bids descending
-        }
-      }
-    });
-
-    // Process ask updates
-    update.asks.forEach(level => {
-      const price = this.safeParseFloat(level.price);
-      const quantity = this.safeParseFloat(level.quantity);
-      
-      // Skip invalid entries
-      if (price <= 0 || quantity < 0) {
-        return;
-      }
-      
-      const existingIndex = updatedAsks.findIndex(ask => ask.price === price);
-      
-      if (quantity === 0) {
-        // Remove the level
-        if (existingIndex !== -1) {
-          updatedAsks.splice(existingIndex, 1);
-        }
-      } else {
-        // Update or add the level
-        const newEntry: OrderbookEntry = {
-          price,
-          quantity,
-          timestamp: update.eventTime
-        };
-        
-        if (existingIndex !== -1) {
-          updatedAsks[existingIndex] = newEntry;
-        } else {
-          updatedAsks.push(newEntry);
-          updatedAsks.sort((a, b) => a.price - b.price); // Sort asks ascending
-        }
-      }
-    });
-
-    const allQuantities = [...updatedBids, ...updatedAsks].map(entry => entry.quantity).filter(q => isFinite(q) && q > 0);
-    const maxQuantity = allQuantities.length > 0 ? Math.max(...allQuantities) : 1;
-    
-    const allPrices = [...updatedBids, ...updatedAsks].map(entry => entry.price).filter(p => isFinite(p) && p > 0);
-    const priceRange = {
-      min: allPrices.length > 0 ? Math.min(...allPrices) : 0,
-      max: allPrices.length > 0 ? Math.max(...allPrices) : 1
-    };
+    if (currentData !== this.lastView) {
+      this.book.loadEntries(currentData);
+    }
 
-    const processed: ProcessedOrderbookData = {
-      bids: updatedBids,
-      asks: updatedAsks,
-      maxQuantity,
-      priceRange
-    };
+    this.book.applyUpdate(update);
+    const processed = this.book.toProcessedData();
+    this.lastView = processed;
 
     // Store in history
     this.addToHistory(update.eventTime, processed);
@@ -154,6 +42,10 @@ export class OrderbookDataProcessor {
     return processed;
   }
 
+  public getBook(): OrderBook {
+    return this.book;
+  }
+
   public generateChartPoints(data: ProcessedOrderbookData, timeSlice: number = 50): ChartPoint[] {
     const points: ChartPoint[] = [];
     const currentTime = Date.now();
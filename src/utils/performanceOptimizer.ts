@@ -17,6 +17,7 @@ export interface LODConfig {
   lowDetail: number;      // Distance threshold for low detail
   minBars: number;        // Minimum number of bars to show
   maxBars: number;        // Maximum number of bars to show
+  maxInstances: number;   // Capacity of instanced bar renderers
 }
 
 export class PerformanceOptimizer {
@@ -36,6 +37,18 @@ export class PerformanceOptimizer {
    * Detect device capabilities and set LOD configuration
    */
   private detectDeviceCapabilities(): LODConfig {
+    // Server render: no canvas to probe
+    if (typeof document === 'undefined') {
+      return {
+        highDetail: 8,
+        mediumDetail: 20,
+        lowDetail: 40,
+        minBars: 50,
+        maxBars: 500,
+        maxInstances: 10000
+      };
+    }
+
     const canvas = document.createElement('canvas');
     const gl = canvas.getContext('webgl2') || canvas.getContext('webgl');
     
@@ -46,7 +59,8 @@ export class PerformanceOptimizer {
         mediumDetail: 20,
         lowDetail: 50,
         minBars: 20,
-        maxBars: 100
+        maxBars: 100,
+        maxInstances: 500
       };
     }
 
@@ -66,7 +80,8 @@ export class PerformanceOptimizer {
         mediumDetail: 30,
         lowDetail: 60,
         minBars: 15,
-        maxBars: 150
+        maxBars: 150,
+        maxInstances: 2000
       };
     } else if (isTablet) {
       return {
@@ -74,7 +89,8 @@ export class PerformanceOptimizer {
         mediumDetail: 25,
         lowDetail: 50,
         minBars: 25,
-        maxBars: 200
+        maxBars: 200,
+        maxInstances: 4000
       };
     } else {
       // Desktop
@@ -83,7 +99,8 @@ export class PerformanceOptimizer {
         mediumDetail: 20,
         lowDetail: 40,
         minBars: 50,
-        maxBars: 500
+        maxBars: 500,
+        maxInstances: 10000
       };
     }
   }
@@ -92,6 +109,8 @@ export class PerformanceOptimizer {
    * Detect device performance tier
    */
   private detectDeviceTier(): void {
+    if (typeof document === 'undefined') return;
+
     const canvas = document.createElement('canvas');
     const gl = canvas.getContext('webgl2') || canvas.getContext('webgl');
     
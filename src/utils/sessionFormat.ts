@@ -0,0 +1,58 @@
+import { SessionRecord } from '@/types/orderbook';
+
+/**
+ * Serialize a session record as a single NDJSON line (including the trailing newline)
+ */
+export function serializeSessionRecord(record: SessionRecord): string {
+  return JSON.stringify(record) + '\n';
+}
+
+/**
+ * Parse newline-delimited session records. Malformed lines are skipped so that a
+ * session truncated mid-write (e.g. by a crash) still loads.
+ */
+export function parseSessionRecords(text: string): SessionRecord[] {
+  const records: SessionRecord[] = [];
+  let skipped = 0;
+
+  text.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    try {
+      const record = JSON.parse(trimmed);
+      if (isSessionRecord(record)) {
+        records.push(record);
+      } else {
+        skipped++;
+      }
+    } catch {
+      skipped++;
+    }
+  });
+
+  if (skipped > 0) {
+    console.warn(`Skipped ${skipped} malformed session line(s)`);
+  }
+
+  return records;
+}
+
+function isSessionRecord(value: unknown): value is SessionRecord {
+  const record = value as SessionRecord;
+  if (record?.type === 'trade') {
+    return (
+      typeof record.t === 'number' &&
+      typeof record.data?.price === 'number' &&
+      typeof record.data?.quantity === 'number' &&
+      typeof record.data?.tradeId === 'number'
+    );
+  }
+  return (
+    typeof record?.t === 'number' &&
+    (record.type === 'snapshot' || record.type === 'update') &&
+    typeof record.data === 'object' &&
+    Array.isArray(record.data?.bids) &&
+    Array.isArray(record.data?.asks)
+  );
+}
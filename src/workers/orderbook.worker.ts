@@ -0,0 +1,10 @@
+import { OrderbookWorkerHost } from './orderbookWorkerHost';
+import { OrderbookWorkerRequest } from './orderbookProtocol';
+
+// Dedicated worker entry: order book processing and pressure zone analysis
+const ctx = self as unknown as Worker;
+const host = new OrderbookWorkerHost((response, transfer) => ctx.postMessage(response, transfer));
+
+ctx.onmessage = (event: MessageEvent<OrderbookWorkerRequest>) => {
+  host.handleMessage(event.data);
+};
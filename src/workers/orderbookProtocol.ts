@@ -0,0 +1,109 @@
+import { OrderbookEntry, OrderbookSnapshot, OrderbookUpdate, ProcessedOrderbookData, TradeEvent } from '@/types/orderbook';
+import { PressureZoneAnalysis } from '@/services/pressureZoneAnalyzer';
+import { MicrostructureSnapshot } from '@/services/microstructureMetrics';
+import { DetectorConfigMap } from '@/services/zoneDetectors';
+
+/**
+ * Order book side packed for transfer between threads. Values are stored as
+ * Float64, which holds any price, quantity or millisecond timestamp a book
+ * carries exactly; Float32's ~7 significant digits would not (e.g. DOGE sizes
+ * above 1e7 or fine ticks on high prices).
+ */
+export interface PackedBook {
+  bids: Float64Array; // [price, quantity, timestamp] per level
+  asks: Float64Array;
+  venues?: {
+    bids: Array<string | undefined>;
+    asks: Array<string | undefined>;
+  };
+}
+
+/**
+ * Inputs to an analysis beyond the book itself
+ */
+export interface AnalysisContext {
+  symbol?: string; // Selects the analyzer's thresholds
+  trades?: TradeEvent[]; // Recent prints; already-seen ones are ignored
+  metrics?: MicrostructureSnapshot | null; // Latest microstructure metrics, for flow alerts
+  detectors?: DetectorConfigMap; // Detector settings; ones not listed keep their current settings
+}
+
+export type OrderbookWorkerRequest =
+  | { type: 'snapshot'; jobId: number; snapshot: OrderbookSnapshot; depth: number }
+  | { type: 'update'; jobId: number; update: OrderbookUpdate }
+  | { type: 'analyze'; jobId: number; book: PackedBook; context: AnalysisContext }
+  | { type: 'cancel'; jobId: number }
+  | { type: 'drop'; jobId: number; symbol: string }
+  | { type: 'reset'; jobId: number };
+
+export type OrderbookWorkerResponse =
+  | { type: 'book'; jobId: number; symbol: string; book: PackedBook; processingTime: number }
+  | { type: 'analysis'; jobId: number; analysis: PressureZoneAnalysis; processingTime: number }
+  | { type: 'error'; jobId: number; message: string };
+
+const STRIDE = 3;
+
+export function packBook(data: Pick<ProcessedOrderbookData, 'bids' | 'asks'>): PackedBook {
+  const packSide = (entries: OrderbookEntry[]): Float64Array => {
+    const packed = new Float64Array(entries.length * STRIDE);
+    entries.forEach((entry, index) => {
+      packed[index * STRIDE] = entry.price;
+      packed[index * STRIDE + 1] = entry.quantity;
+      packed[index * STRIDE + 2] = entry.timestamp;
+    });
+    return packed;
+  };
+
+  const book: PackedBook = {
+    bids: packSide(data.bids),
+    asks: packSide(data.asks)
+  };
+
+  if ([...data.bids, ...data.asks].some(entry => entry.venue)) {
+    book.venues = {
+      bids: data.bids.map(entry => entry.venue),
+      asks: data.asks.map(entry => entry.venue)
+    };
+  }
+
+  return book;
+}
+
+export function unpackBook(book: PackedBook): ProcessedOrderbookData {
+  const unpackSide = (packed: Float64Array, venues?: Array<string | undefined>): OrderbookEntry[] => {
+    const entries: OrderbookEntry[] = [];
+    for (let index = 0; index < packed.length / STRIDE; index++) {
+      const entry: OrderbookEntry = {
+        price: packed[index * STRIDE],
+        quantity: packed[index * STRIDE + 1],
+        timestamp: packed[index * STRIDE + 2]
+      };
+      if (venues?.[index]) {
+        entry.venue = venues[index];
+      }
+      entries.push(entry);
+    }
+    return entries;
+  };
+
+  const bids = unpackSide(book.bids, book.venues?.bids);
+  const asks = unpackSide(book.asks, book.venues?.asks);
+
+  const allQuantities = [...bids, ...asks].map(entry => entry.quantity).filter(q => isFinite(q) && q > 0);
+  const allPrices = [...bids, ...asks].map(entry => entry.price).filter(p => isFinite(p) && p > 0);
+
+  return {
+    bids,
+    asks,
+    maxQuantity: allQuantities.length > 0 ? Math.max(...allQuantities) : 1,
+    priceRange: {
+      min: allPrices.length > 0 ? Math.min(...allPrices) : 0,
+      max: allPrices.length > 0 ? Math.max(...allPrices) : 1
+    }
+  };
+}
+
+export function getTransferables(book: PackedBook): ArrayBuffer[] {
+  return [book.bids.buffer as ArrayBuffer, book.asks.buffer as ArrayBuffer];
+}
+
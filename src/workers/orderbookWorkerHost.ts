@@ -0,0 +1,163 @@
+import { OrderBook } from '@/utils/orderBook';
+import { PressureZoneAnalyzer } from '@/services/pressureZoneAnalyzer';
+import {
+  OrderbookWorkerRequest,
+  OrderbookWorkerResponse,
+  PackedBook,
+  AnalysisContext,
+  packBook,
+  unpackBook,
+  getTransferables
+} from './orderbookProtocol';
+
+type PostResponse = (response: OrderbookWorkerResponse, transfer: Transferable[]) => void;
+
+// One maintained book per symbol
+interface BookState {
+  book: OrderBook;
+  depth: number;
+  lastJobId: number;
+  processingTime: number;
+  dirty: boolean;
+}
+
+/**
+ * Message handler behind the order book worker. Books are kept per symbol;
+ * updates are applied in order but each changed book is posted once per
+ * burst. Analysis jobs are deferred a tick so a newer request or a cancel can
+ * supersede a queued one. Also runs in-process when workers are unavailable.
+ */
+export class OrderbookWorkerHost {
+  private post: PostResponse;
+  private books: Map<string, BookState> = new Map();
+  private analyzer = new PressureZoneAnalyzer();
+  private bookFlushScheduled: boolean = false;
+
+  private pendingAnalysis: { jobId: number; book: PackedBook; context: AnalysisContext } | null = null;
+  private analysisScheduled: boolean = false;
+
+  constructor(post: PostResponse) {
+    this.post = post;
+  }
+
+  // Public methods
+  public handleMessage(request: OrderbookWorkerRequest): void {
+    try {
+      switch (request.type) {
+        case 'snapshot': {
+          const startTime = performance.now();
+          const symbol = request.snapshot.symbol.toUpperCase();
+          let state = this.books.get(symbol);
+          if (!state) {
+            state = { book: new OrderBook(), depth: request.depth, lastJobId: 0, processingTime: 0, dirty: false };
+            this.books.set(symbol, state);
+          }
+          state.depth = request.depth;
+          state.book.loadSnapshot(request.snapshot);
+          this.queueBook(state, request.jobId, performance.now() - startTime);
+          break;
+        }
+
+        case 'update': {
+          // Diffs before the symbol's first snapshot have nothing to apply to
+          const state = this.books.get(request.update.symbol.toUpperCase());
+          if (!state) return;
+          const startTime = performance.now();
+          state.book.applyUpdate(request.update);
+          this.queueBook(state, request.jobId, performance.now() - startTime);
+          break;
+        }
+
+        case 'analyze':
+          this.pendingAnalysis = { jobId: request.jobId, book: request.book, context: request.context };
+          this.scheduleAnalysis();
+          break;
+
+        case 'cancel':
+          if (this.pendingAnalysis?.jobId === request.jobId) {
+            this.pendingAnalysis = null;
+          }
+          break;
+
+        case 'drop':
+          this.books.delete(request.symbol.toUpperCase());
+          break;
+
+        case 'reset':
+          this.books.clear();
+          this.pendingAnalysis = null;
+          this.analyzer = new PressureZoneAnalyzer();
+          break;
+      }
+    } catch (error) {
+      this.post({ type: 'error', jobId: request.jobId, message: (error as Error).message }, []);
+    }
+  }
+
+  // Private methods
+  private queueBook(state: BookState, jobId: number, processingTime: number): void {
+    state.lastJobId = jobId;
+    state.processingTime += processingTime;
+    state.dirty = true;
+    if (this.bookFlushScheduled) return;
+
+    this.bookFlushScheduled = true;
+    setTimeout(() => this.flushBooks(), 0);
+  }
+
+  private flushBooks(): void {
+    this.bookFlushScheduled = false;
+
+    this.books.forEach((state, symbol) => {
+      if (!state.dirty) return;
+
+      const book = packBook(state.book.toProcessedData(state.depth));
+      this.post(
+        { type: 'book', jobId: state.lastJobId, symbol, book, processingTime: state.processingTime },
+        getTransferables(book)
+      );
+      state.processingTime = 0;
+      state.dirty = false;
+    });
+  }
+
+  private scheduleAnalysis(): void {
+    if (this.analysisScheduled) return;
+
+    this.analysisScheduled = true;
+    setTimeout(() => this.runAnalysis(), 0);
+  }
+
+  private runAnalysis(): void {
+    this.analysisScheduled = false;
+    const job = this.pendingAnalysis;
+    this.pendingAnalysis = null;
+    if (!job) return;
+
+    try {
+      const startTime = performance.now();
+      const { symbol, trades, metrics, detectors } = job.context;
+      if (symbol) {
+        this.analyzer.setSymbol(symbol);
+      }
+      if (trades) {
+        this.analyzer.addTrades(trades);
+      }
+      if (metrics !== undefined) {
+        this.analyzer.setMicrostructure(metrics);
+      }
+      if (detectors) {
+        this.analyzer.configureDetectors(detectors);
+      }
+      const analysis = this.analyzer.analyzePressureZones(unpackBook(job.book));
+      this.post({
+        type: 'analysis',
+        jobId: job.jobId,
+        analysis,
+        processingTime: performance.now() - startTime
+      }, []);
+    } catch (error) {
+      this.post({ type: 'error', jobId: job.jobId, message: (error as Error).message }, []);
+    }
+  }
+}